@@ -6,6 +6,7 @@ import { Pressable, View } from 'react-native';
 import Colors from '@/constants/Colors';
 import { useTheme } from '@/contexts/ThemeContext';
 import ThemedIcon from '@/components/ThemedIcon';
+import { SyncStatusBadge } from '@/components/SyncStatusBadge';
 import { useClientOnlyValue } from '@/components/useClientOnlyValue';
 
 // You can explore the built-in icon families and icons on the web at https://icons.expo.fyi/
@@ -60,6 +61,7 @@ export default function TabLayout() {
         // Disable the static render of the header on web
         // to prevent a hydration error in React Navigation v6.
         headerShown: useClientOnlyValue(false, true),
+        headerRight: () => <SyncStatusBadge />,
       }}>
       <Tabs.Screen
         name="index"
@@ -67,23 +69,26 @@ export default function TabLayout() {
           title: 'Home',
           tabBarIcon: ({ color }) => <TabBarIcon name="home" color={color} />,
           headerRight: () => (
-            <Link href="/modal" asChild>
-              <Pressable>
-                {({ pressed }) => (
-                  <ThemedIcon
-                    name="info-circle"
-                    size={25}
-                    color={Colors[actualTheme].text}
-                    glassIntensity="light"
-                    containerStyle={{ 
-                      marginRight: 15, 
-                      opacity: pressed ? 0.5 : 1,
-                      padding: 6
-                    }}
-                  />
-                )}
-              </Pressable>
-            </Link>
+            <View style={{ flexDirection: 'row', alignItems: 'center' }}>
+              <SyncStatusBadge />
+              <Link href="/modal" asChild>
+                <Pressable>
+                  {({ pressed }) => (
+                    <ThemedIcon
+                      name="info-circle"
+                      size={25}
+                      color={Colors[actualTheme].text}
+                      glassIntensity="light"
+                      containerStyle={{ 
+                        marginRight: 15, 
+                        opacity: pressed ? 0.5 : 1,
+                        padding: 6
+                      }}
+                    />
+                  )}
+                </Pressable>
+              </Link>
+            </View>
           ),
         }}
       />
@@ -10,10 +10,22 @@ import { Session } from '@supabase/supabase-js';
 import Colors from '@/constants/Colors';
 import { GlassMorphism } from '@/components/GlassMorphism';
 import { ThemedGradient } from '@/components/ThemedGradient';
-import { internalDB, InternalTask, InternalDB } from '@/lib/internal-db';
-import { syncTasksFromSupabase, subscribeToTaskSolutions } from '@/lib/sync/TaskSyncService';
+import { internalDB, InternalDB } from '@/lib/internal-db';
+import { ScheduledTask, isUnplaced } from '@/lib/tasks/model';
+import { deviceTimeZone, minutesIntoZonedDay, zonedDateKey } from '@/lib/time/zone';
+import { syncTasksFromSupabase } from '@/lib/sync/TaskSyncService';
 import { ChatAssistant } from '@/components/ChatAssistant';
+import { useInternalTasks } from '@/components/useInternalTasks';
 import { ColorLegendBar } from '@/components/ColorLegendBar';
+import { UndoSnackbar } from '@/components/UndoSnackbar';
+import { ScheduleChangeNotice } from '@/components/ScheduleChangeNotice';
+import { RealtimeStatusBanner } from '@/components/RealtimeStatusBanner';
+import { useRealtimeSync } from '@/components/useRealtimeSync';
+import { useSolverJob } from '@/components/useSolverJob';
+import { solverJobs } from '@/lib/sync/SolverJobTracker';
+import { describeSolverJob } from '@/lib/sync/solver-job';
+import { TaskSearchModal } from '@/components/TaskSearchModal';
+import { undoHistory } from '@/lib/undo-history';
 import { ColorLabelPicker } from '@/components/ColorLabelPicker';
 import { getColorForLabel, getLabelName, ColorLabelKey } from '@/constants/ColorLabels';
 
@@ -26,9 +38,11 @@ export default function CalendarScreen() {
   const [showTaskInput, setShowTaskInput] = useState(false);
   const [isListening, setIsListening] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
-  const [showProcessingIndicator, setShowProcessingIndicator] = useState(false);
-  const [tasks, setTasks] = useState<InternalTask[]>([]);
-  const [selectedTask, setSelectedTask] = useState<InternalTask | null>(null);
+  // Live task list: re-renders when InternalDB emits a change, no polling needed
+  const { tasks, refresh: loadTasks } = useInternalTasks();
+  // Days and hours on the grid are the user's current zone, read on each render so they follow a trip
+  const timeZone = deviceTimeZone();
+  const [selectedTask, setSelectedTask] = useState<ScheduledTask | null>(null);
   const [viewMode, setViewMode] = useState<'month' | 'week' | '3day' | 'day'>('week');
   const [currentWeekStart, setCurrentWeekStart] = useState(() => {
     const today = new Date();
@@ -48,7 +62,7 @@ export default function CalendarScreen() {
   const [editedEndTime, setEditedEndTime] = useState<Date | null>(null);
   const [showColorPicker, setShowColorPicker] = useState(false);
   const [showPriorityPicker, setShowPriorityPicker] = useState(false);
-  const syncIntervalRef = useRef<NodeJS.Timeout | number | null>(null);
+  const [searchOpen, setSearchOpen] = useState(false);
   const monthPickerScrollRef = useRef<ScrollView>(null);
   const timeGridScrollRef = useRef<ScrollView>(null);
 
@@ -66,38 +80,15 @@ export default function CalendarScreen() {
     return () => subscription.unsubscribe();
   }, []);
 
-  // Load tasks from internal database
+  // Pull from Supabase once if the internal database starts out empty
   useEffect(() => {
-    loadTasks();
-    // Refresh tasks every second to catch updates
-    const interval = setInterval(loadTasks, 1000);
-    return () => {
-      clearInterval(interval);
-      // Clean up sync interval on unmount
-      if (syncIntervalRef.current) {
-        clearInterval(syncIntervalRef.current);
-        syncIntervalRef.current = null;
-      }
-    };
+    syncIfEmpty();
   }, []);
 
-  // Subscribe to realtime task_solution updates from the solver
-  useEffect(() => {
-    if (session?.user?.id) {
-      console.log('[Calendar] Setting up realtime subscription for task solutions...');
-      
-      const unsubscribe = subscribeToTaskSolutions(async () => {
-        console.log('[Calendar] Received realtime update, syncing tasks...');
-        await syncTasksFromSupabase();
-        await loadTasks();
-      });
-
-      return () => {
-        console.log('[Calendar] Cleaning up realtime subscription...');
-        unsubscribe();
-      };
-    }
-  }, [session?.user?.id]);
+  // Live solver updates for the user's current model, synced into InternalDB as they arrive
+  const realtimeHealth = useRealtimeSync(session?.user?.id);
+  // Schedule request the assistant queued, followed until the solver has placed (or rejected) it
+  const solverJob = useSolverJob();
 
   // Scroll to current year when month picker opens
   useEffect(() => {
@@ -136,30 +127,15 @@ export default function CalendarScreen() {
     }
   }, [viewMode]);
 
-  const loadTasks = async () => {
+  const syncIfEmpty = async () => {
     try {
-      console.log('📅 Calendar: loadTasks() called');
       const allTasks = await internalDB.getAllTasks();
       console.log('📅 Calendar: Loaded tasks from internalDB:', allTasks.length);
-      if (allTasks.length > 0) {
-        console.log('📅 Calendar: Task details:', allTasks.map(t => ({
-          id: t.id,
-          name: t.name,
-          start: new Date(t.start_time).toLocaleString(),
-          end: new Date(t.end_time).toLocaleString(),
-          status: t.status,
-          duration: t.duration
-        })));
-      } else {
+      if (allTasks.length === 0) {
         console.log('📅 Calendar: ⚠️ No tasks in internalDB - checking if sync is needed...');
-        // Trigger a sync to see what happens
         const syncResult = await syncTasksFromSupabase();
         console.log('📅 Calendar: Sync result:', syncResult);
-        // Reload after sync
-        const tasksAfterSync = await internalDB.getAllTasks();
-        console.log('📅 Calendar: Tasks after sync:', tasksAfterSync.length);
       }
-      setTasks(allTasks);
     } catch (error) {
       console.error('📅 Calendar: ❌ Error loading tasks:', error);
     }
@@ -167,21 +143,17 @@ export default function CalendarScreen() {
 
   // Helper function to check if a specific date has tasks
   const hasTasksOnDate = (date: Date): boolean => {
-    const dateStr = date.toDateString();
-    return tasks.some(task => {
-      const taskDate = new Date(task.start_time);
-      return taskDate.toDateString() === dateStr;
-    });
+    const dateKey = zonedDateKey(date, timeZone);
+    return tasks.some(task => zonedDateKey(new Date(task.start_time), timeZone) === dateKey);
   };
 
   // Helper function to get tasks for a specific date
-  const getTasksForDate = (date: Date): InternalTask[] => {
-    const dateStr = date.toDateString();
-    const isToday = date.toDateString() === new Date().toDateString();
+  const getTasksForDate = (date: Date): ScheduledTask[] => {
+    const dateStr = zonedDateKey(date, timeZone);
+    const isToday = dateStr === zonedDateKey(new Date(), timeZone);
     
     const filteredTasks = tasks.filter(task => {
-      const taskDate = new Date(task.start_time);
-      const taskDateStr = taskDate.toDateString();
+      const taskDateStr = zonedDateKey(new Date(task.start_time), timeZone);
       const matches = taskDateStr === dateStr;
       
       // Debug logging for today's tasks
@@ -205,7 +177,10 @@ export default function CalendarScreen() {
   };
 
   // Helper function to get color for task (prioritizes colorLabel over status/priority)
-  const getTaskColor = (task: InternalTask, themeColor: string): string => {
+  const getTaskColor = (task: ScheduledTask, themeColor: string): string => {
+    // Tasks the solver couldn't place sit at a stale slot, so they are greyed out whatever their label
+    if (isUnplaced(task)) return '#9E9E9E';
+
     // If task has a color label, use it (unless it's 'none')
     if (task.colorLabel && task.colorLabel !== 'none') {
       return getColorForLabel(task.colorLabel);
@@ -232,7 +207,7 @@ export default function CalendarScreen() {
   };
 
   // Keep getPriorityColor for backward compatibility (now uses getTaskColor)
-  const getPriorityColor = (task: InternalTask, themeColor: string): string => {
+  const getPriorityColor = (task: ScheduledTask, themeColor: string): string => {
     return getTaskColor(task, themeColor);
   };
 
@@ -328,7 +303,7 @@ export default function CalendarScreen() {
     
     Alert.alert(
       'Delete All Tasks',
-      `Are you sure you want to delete all ${tasks.length} task(s)? This action cannot be undone.`,
+      `Are you sure you want to delete all ${tasks.length} task(s)?`,
       [
         {
           text: 'Cancel',
@@ -341,10 +316,9 @@ export default function CalendarScreen() {
           onPress: async () => {
             try {
               console.log('🗑️ Deleting all tasks from internalDB...');
-              await internalDB.clearAllTasks();
+              // Recorded in the undo history, so the snackbar offers to bring them back
+              await undoHistory.clearAllTasks(`Deleted ${tasks.length} task(s)`);
               console.log('✅ All tasks deleted');
-              await loadTasks(); // Reload to update UI
-              Alert.alert('Success', 'All tasks have been deleted.');
             } catch (error) {
               console.error('❌ Error deleting all tasks:', error);
               Alert.alert('Error', 'Failed to delete tasks. Please try again.');
@@ -360,13 +334,22 @@ export default function CalendarScreen() {
     setShowTaskInput(true);
   };
 
-  const handleTaskPress = (task: InternalTask) => {
+  const handleTaskPress = (task: ScheduledTask) => {
     setSelectedTask(task);
     setEditedStartTime(new Date(task.start_time));
     setEditedEndTime(new Date(task.end_time));
     setEditingTime(null);
   };
 
+  // Search result picked: show the task's day and open its details
+  const jumpToTask = (task: ScheduledTask) => {
+    const taskDate = new Date(task.start_time);
+    setSelectedDate(taskDate);
+    setCurrentDate(taskDate);
+    updateViewsForSelectedDate(taskDate);
+    handleTaskPress(task);
+  };
+
   const closeTaskDetails = () => {
     setSelectedTask(null);
     setEditingTime(null);
@@ -417,17 +400,18 @@ export default function CalendarScreen() {
         return;
       }
 
-      await internalDB.updateTask(selectedTask.id, {
-        start_time: editedStartTime.toISOString(),
-        end_time: editedEndTime.toISOString(),
-        duration: newDuration,
-      });
-
-      await internalDB.addAction({
-        action_type: 'task_skipped',
-        task_id: selectedTask.id,
-        task_name: selectedTask.name,
-        details: `Time updated: ${editedStartTime.toLocaleString()} - ${editedEndTime.toLocaleString()}`
+      await internalDB.transaction(tx => {
+        tx.updateTask(selectedTask.id, {
+          start_time: editedStartTime.toISOString(),
+          end_time: editedEndTime.toISOString(),
+          duration: newDuration,
+        });
+        tx.addAction({
+          action_type: 'task_skipped',
+          task_id: selectedTask.id,
+          task_name: selectedTask.name,
+          details: `Time updated: ${editedStartTime.toLocaleString()} - ${editedEndTime.toLocaleString()}`
+        });
       });
 
       // Reload tasks to reflect changes
@@ -589,57 +573,9 @@ export default function CalendarScreen() {
       // Show success message
       Alert.alert(
         'Success',
-        'Task created successfully! The calendar will update shortly.',
+        'Task created successfully! It will appear on the calendar once it has been scheduled.',
         [{ text: 'OK' }]
       );
-
-      // Clear any existing sync interval before starting a new one
-      if (syncIntervalRef.current) {
-        clearInterval(syncIntervalRef.current);
-        syncIntervalRef.current = null;
-      }
-
-      // Reload tasks after a delay to allow backend processing
-      // The backend needs to: 1) solve the task, 2) create solution, 3) processor creates timeline
-      // This can take 5-10 seconds, so we'll check multiple times
-      let attempts = 0;
-      const maxAttempts = 30; // Check for up to 30 seconds (solver can take 20-30 seconds)
-      const checkInterval = setInterval(async () => {
-        attempts++;
-        console.log(`🔄 Checking for timeline update (attempt ${attempts}/${maxAttempts})...`);
-        
-        // Sync from task_solution table (same as web app)
-        const result = await syncTasksFromSupabase();
-        
-        if (result.success && result.taskCount > 0) {
-          console.log(`✅ Synced ${result.taskCount} tasks! Reloading calendar...`);
-          // Reload tasks from internalDB
-          loadTasks();
-          clearInterval(checkInterval);
-          syncIntervalRef.current = null;
-          return;
-        } else if (result.success && result.taskCount === 0) {
-          console.log('⏳ No tasks found yet, solver may still be processing...');
-        } else {
-          console.log(`⏳ Sync failed or no tasks: ${result.error || 'no tasks'}`);
-        }
-
-        // If we've tried enough times, stop checking
-        if (attempts >= maxAttempts) {
-          console.log('⏰ Stopped checking for task updates');
-          clearInterval(checkInterval);
-          syncIntervalRef.current = null;
-          // Final sync attempt
-          const finalResult = await syncTasksFromSupabase();
-          if (finalResult.success && finalResult.taskCount > 0) {
-            loadTasks();
-          }
-        }
-      }, 1000); // Check every second
-      
-      // Store interval reference for cleanup
-      syncIntervalRef.current = checkInterval;
-      
     } catch (error: any) {
       console.error('❌ Error creating task:', error);
       
@@ -656,11 +592,6 @@ export default function CalendarScreen() {
       Alert.alert('Error', errorMessage, [{ text: 'OK' }]);
     } finally {
       setIsProcessing(false);
-      // Clean up interval on error
-      if (syncIntervalRef.current) {
-        clearInterval(syncIntervalRef.current);
-        syncIntervalRef.current = null;
-      }
     }
   };
 
@@ -859,12 +790,10 @@ export default function CalendarScreen() {
                     {dayTasks.map(task => {
                        const start = new Date(task.start_time);
                        const end = new Date(task.end_time);
-                       const startHour = start.getHours();
-                       const startMin = start.getMinutes();
                        let durationMin = (end.getTime() - start.getTime()) / (1000 * 60);
                        if (durationMin < 15) durationMin = 15; 
                        
-                       const top = (startHour * HOUR_HEIGHT) + ((startMin / 60) * HOUR_HEIGHT);
+                       const top = (minutesIntoZonedDay(start, timeZone) / 60) * HOUR_HEIGHT;
                        const height = (durationMin / 60) * HOUR_HEIGHT;
 
                        return (
@@ -876,12 +805,13 @@ export default function CalendarScreen() {
                                top,
                                height: height - 1,
                                backgroundColor: getTaskColor(task, colors.tint),
-                             }
+                             },
+                             isUnplaced(task) && styles.weekTaskBoxUnplaced,
                            ]}
                            onPress={() => handleTaskPress(task)}
                          >
                            <Text numberOfLines={1} style={styles.weekTaskText}>
-                             {task.name}
+                             {isUnplaced(task) ? '⚠︎ ' : ''}{task.name}
                            </Text>
                            {height > 30 && (
                               <Text numberOfLines={1} style={[styles.weekTaskText, { opacity: 0.8, fontSize: 8 }]}>
@@ -907,17 +837,29 @@ export default function CalendarScreen() {
 
   return (
     <ThemedGradient style={styles.container}>
-      {/* Processing Indicator */}
-      {showProcessingIndicator && (
-        <View style={[styles.processingBanner, { backgroundColor: Colors.light.tint }]}>
+      <RealtimeStatusBanner health={realtimeHealth} />
+
+      {/* Processing Indicator: the solver's progress on the last schedule request, or why it failed */}
+      {solverJob && solverJob.status !== 'processed' && (
+        <View
+          style={[
+            styles.processingBanner,
+            { backgroundColor: solverJob.status === 'failed' ? colors.textDanger : Colors.light.tint },
+          ]}
+        >
           <ThemedIcon 
-            name="cog" 
+            name={solverJob.status === 'failed' ? 'exclamation-triangle' : 'cog'} 
             size={16} 
             color="#fff" 
             glassIntensity="light"
             containerStyle={{ marginRight: 8, padding: 4 }}
           />
-          <Text style={styles.processingBannerText}>Processing your task request...</Text>
+          <Text style={styles.processingBannerText}>{describeSolverJob(solverJob)}</Text>
+          {solverJob.status === 'failed' && (
+            <TouchableOpacity onPress={() => solverJobs.dismiss()} style={styles.processingBannerClose}>
+              <FontAwesome name="times" size={16} color="#fff" />
+            </TouchableOpacity>
+          )}
         </View>
       )}
       
@@ -935,6 +877,17 @@ export default function CalendarScreen() {
                 color={colors.text}
               />
             </TouchableOpacity>
+
+            <TouchableOpacity 
+              onPress={() => setSearchOpen(true)}
+              style={styles.hamburgerButton}
+            >
+              <Ionicons 
+                name="search" 
+                size={20} 
+                color={colors.text}
+              />
+            </TouchableOpacity>
             
             <TouchableOpacity 
               onPress={() => setMonthPickerOpen(true)}
@@ -1324,6 +1277,31 @@ export default function CalendarScreen() {
                      </Text>
                    </View>
 
+                   {/* Solver result */}
+                   {selectedTask.solver_status && (
+                     <View style={styles.simpleModalRow}>
+                       <Text style={[styles.simpleModalLabel, { color: colors.textSecondary }]}>Solver:</Text>
+                       <Text style={[
+                         styles.simpleModalValue,
+                         { color: isUnplaced(selectedTask) ? '#EF5350' : colors.text }
+                       ]}>
+                         {isUnplaced(selectedTask)
+                           ? `${selectedTask.solver_status} (showing last slot)`
+                           : selectedTask.solver_status}
+                       </Text>
+                     </View>
+                   )}
+
+                   {/* Constraints */}
+                   {!!selectedTask.constraints?.length && (
+                     <View style={styles.simpleModalRow}>
+                       <Text style={[styles.simpleModalLabel, { color: colors.textSecondary }]}>Constraints:</Text>
+                       <Text style={[styles.simpleModalValue, { color: colors.text }]}>
+                         {selectedTask.constraints.join('\n')}
+                       </Text>
+                     </View>
+                   )}
+
                    {/* Duration */}
                    <View style={styles.simpleModalRow}>
                      <Text style={[styles.simpleModalLabel, { color: colors.textSecondary }]}>Duration:</Text>
@@ -1577,53 +1555,7 @@ export default function CalendarScreen() {
               initialMessage={`Schedule a task for ${selectedDate.toLocaleDateString('en-US', { month: 'long', day: 'numeric', year: 'numeric' })}`}
               onClose={() => setShowTaskInput(false)}
               hideHeader={true}
-              onTaskCreated={() => {
-                    // Clear any existing sync interval before starting a new one
-                    if (syncIntervalRef.current) {
-                      clearInterval(syncIntervalRef.current)
-                      syncIntervalRef.current = null
-                    }
-
-                    // Reload tasks after a delay to allow backend processing
-                    // The backend needs to: 1) solve the task, 2) create solution, 3) processor creates timeline
-                    // This can take 5-10 seconds, so we'll check multiple times
-                    let attempts = 0
-                    const maxAttempts = 30 // Check for up to 30 seconds (solver can take 20-30 seconds)
-                    const checkInterval = setInterval(async () => {
-                      attempts++
-                      console.log(`🔄 Checking for timeline update (attempt ${attempts}/${maxAttempts})...`)
-                      
-                      // Sync from task_solution table (same as web app)
-                      const result = await syncTasksFromSupabase()
-                      
-                      if (result.success && result.taskCount > 0) {
-                        console.log(`✅ Synced ${result.taskCount} tasks! Reloading calendar...`)
-                        // Reload tasks from internalDB
-                        loadTasks()
-                        clearInterval(checkInterval)
-                        syncIntervalRef.current = null
-                        return
-                      } else if (result.success && result.taskCount === 0) {
-                        console.log('⏳ No tasks found yet, solver may still be processing...')
-                      } else {
-                        console.log(`⏳ Sync failed or no tasks: ${result.error || 'no tasks'}`)
-                      }
-
-                      // If we've tried enough times, stop checking
-                      if (attempts >= maxAttempts) {
-                        console.log('⏰ Stopped checking for task updates')
-                        clearInterval(checkInterval)
-                        syncIntervalRef.current = null
-                        // Final sync attempt
-                        const finalResult = await syncTasksFromSupabase()
-                        if (finalResult.success && finalResult.taskCount > 0) {
-                          loadTasks()
-                        }
-                      }
-                    }, 1000)
-                    syncIntervalRef.current = checkInterval
-                  }}
-                />
+            />
           </View>
         </SafeAreaView>
       </Modal>
@@ -1909,6 +1841,15 @@ export default function CalendarScreen() {
           </Pressable>
         </Pressable>
       </Modal>
+
+      <TaskSearchModal
+        visible={searchOpen}
+        onSelect={jumpToTask}
+        onClose={() => setSearchOpen(false)}
+      />
+
+      <ScheduleChangeNotice />
+      <UndoSnackbar />
     </ThemedGradient>
   );
 }
@@ -1935,10 +1876,15 @@ const styles = StyleSheet.create({
     zIndex: 100,
   },
   processingBannerText: {
+    flexShrink: 1,
     color: '#fff',
     fontSize: 16,
     fontWeight: '500',
   },
+  processingBannerClose: {
+    marginLeft: 12,
+    padding: 4,
+  },
   hamburgerButton: {
     padding: 8,
     marginRight: 8,
@@ -3024,6 +2970,12 @@ const styles = StyleSheet.create({
     zIndex: 10,
     justifyContent: 'center',
   },
+  weekTaskBoxUnplaced: {
+    opacity: 0.7,
+    borderWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: '#EF5350',
+  },
   weekTaskText: {
     fontSize: 9,
     fontWeight: '600',
@@ -16,6 +16,9 @@ import Colors from '@/constants/Colors'
 import { useTheme } from '@/contexts/ThemeContext'
 import { internalDB, InternalTask, InternalAction, InternalDB } from '@/lib/internal-db'
 import { supabase } from '@/lib/supabase'
+import { OfflineDatabase } from '@/lib/offline/database'
+import type { QuarantinedOp, TaskOp } from '@/lib/offline/op-queue'
+import { deviceTimeZone, moveToZonedDay, startOfZonedDay } from '@/lib/time/zone'
 import { useFocusEffect } from 'expo-router'
 import AsyncStorage from '@react-native-async-storage/async-storage'
 import * as Notifications from 'expo-notifications'
@@ -61,6 +64,8 @@ export default function DevScreen() {
   // Notification debug state
   const [scheduledNotifications, setScheduledNotifications] = useState<any[]>([])
   const [notificationPermission, setNotificationPermission] = useState<string>('unknown')
+  const [syncOps, setSyncOps] = useState<TaskOp[]>([])
+  const [quarantinedOps, setQuarantinedOps] = useState<QuarantinedOp[]>([])
   
   // Time selection state
   const [showTimeModal, setShowTimeModal] = useState(false)
@@ -158,6 +163,7 @@ export default function DevScreen() {
     useCallback(() => {
       loadActions()
       loadTasks()
+      loadSyncQueue()
     }, [])
   )
 
@@ -179,6 +185,26 @@ export default function DevScreen() {
     }
   }
 
+  // Outbound ops of the offline store, and the ones quarantined after failing too often
+  const loadSyncQueue = async () => {
+    try {
+      const store = new OfflineDatabase()
+      setSyncOps(await store.getOps())
+      setQuarantinedOps(await store.getQuarantinedOps())
+    } catch (error) {
+      console.error('Error loading sync queue:', error)
+    }
+  }
+
+  const releaseQuarantinedOp = async (id: string, requeue: boolean) => {
+    try {
+      await new OfflineDatabase().releaseQuarantinedOp(id, requeue)
+      await loadSyncQueue()
+    } catch (error: any) {
+      Alert.alert('Error', `Failed to ${requeue ? 'retry' : 'discard'} op: ${error.message}`)
+    }
+  }
+
   // Calculate next auto-import time (xx:04:45, xx:09:45, etc.)
   const calculateNextImportTime = () => {
     const now = new Date()
@@ -253,25 +279,21 @@ export default function DevScreen() {
       let importedCount = 0
       const now = new Date()
       
-      // Get the date from the first task to calculate offset
-      const firstTaskDate = timelineData.tasks.length > 0 
-        ? new Date(timelineData.tasks[0].start_time) 
-        : now
-      
-      // Calculate the time offset to adjust tasks to today
-      const originalDate = new Date(firstTaskDate)
-      originalDate.setHours(0, 0, 0, 0)
-      const todayDate = new Date(now)
-      todayDate.setHours(0, 0, 0, 0)
-      const dayOffset = todayDate.getTime() - originalDate.getTime()
+      // Tasks move to today at the same wall-clock time, which a fixed day offset gets wrong across DST changes
+      const timeZone = deviceTimeZone()
+      const originalDay = timelineData.tasks.length > 0
+        ? startOfZonedDay(new Date(timelineData.tasks[0].start_time), timeZone).getTime()
+        : 0
       
       for (const timelineTask of timelineData.tasks) {
-        // Adjust the task times to today
+        // A task N calendar days after the first one's day lands N days after today
         const originalStart = new Date(timelineTask.start_time)
         const originalEnd = new Date(timelineTask.end_time)
+        const targetDay = new Date(now)
+        targetDay.setDate(targetDay.getDate() + Math.round((startOfZonedDay(originalStart, timeZone).getTime() - originalDay) / 86400000))
         
-        const adjustedStart = new Date(originalStart.getTime() + dayOffset)
-        const adjustedEnd = new Date(originalEnd.getTime() + dayOffset)
+        const adjustedStart = moveToZonedDay(originalStart, targetDay, timeZone)
+        const adjustedEnd = new Date(adjustedStart.getTime() + (originalEnd.getTime() - originalStart.getTime()))
         
         await internalDB.addTaskWithDuration(
           timelineTask.name,
@@ -1271,25 +1293,21 @@ export default function DevScreen() {
       let importedCount = 0
       const now = new Date()
       
-      // Get the date from the first task to calculate offset
-      const firstTaskDate = timelineData.tasks.length > 0 
-        ? new Date(timelineData.tasks[0].start_time) 
-        : now
-      
-      // Calculate the time offset to adjust tasks to today
-      const originalDate = new Date(firstTaskDate)
-      originalDate.setHours(0, 0, 0, 0)
-      const todayDate = new Date(now)
-      todayDate.setHours(0, 0, 0, 0)
-      const dayOffset = todayDate.getTime() - originalDate.getTime()
+      // Tasks move to today at the same wall-clock time, which a fixed day offset gets wrong across DST changes
+      const timeZone = deviceTimeZone()
+      const originalDay = timelineData.tasks.length > 0
+        ? startOfZonedDay(new Date(timelineData.tasks[0].start_time), timeZone).getTime()
+        : 0
       
       for (const timelineTask of timelineData.tasks) {
-        // Adjust the task times to today
+        // A task N calendar days after the first one's day lands N days after today
         const originalStart = new Date(timelineTask.start_time)
         const originalEnd = new Date(timelineTask.end_time)
+        const targetDay = new Date(now)
+        targetDay.setDate(targetDay.getDate() + Math.round((startOfZonedDay(originalStart, timeZone).getTime() - originalDay) / 86400000))
         
-        const adjustedStart = new Date(originalStart.getTime() + dayOffset)
-        const adjustedEnd = new Date(originalEnd.getTime() + dayOffset)
+        const adjustedStart = moveToZonedDay(originalStart, targetDay, timeZone)
+        const adjustedEnd = new Date(adjustedStart.getTime() + (originalEnd.getTime() - originalStart.getTime()))
         
         await internalDB.addTaskWithDuration(
           timelineTask.name,
@@ -1767,6 +1785,68 @@ export default function DevScreen() {
           )}
         </View>
 
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Sync Queue</Text>
+          <Text style={styles.sectionDescription}>
+            Offline edits waiting to be pushed, and ops quarantined after repeated failures
+          </Text>
+
+          <View style={styles.infoCard}>
+            <Text style={styles.infoTitle}>Queued ({syncOps.length})</Text>
+            {syncOps.length === 0 && (
+              <Text style={styles.infoText}>Nothing queued</Text>
+            )}
+            {syncOps.map(op => (
+              <View key={op.id} style={styles.notificationEntry}>
+                <Text style={styles.notificationTitle}>
+                  {op.type} · {op.local_id}{op.fields ? ` (${op.fields.join(', ')})` : ''}
+                </Text>
+                <Text style={styles.notificationTime}>
+                  {op.attempts === 0
+                    ? 'Not attempted yet'
+                    : `${op.attempts} failed, next try ${op.next_attempt_at ? new Date(op.next_attempt_at).toLocaleTimeString() : 'now'}: ${op.last_error}`}
+                </Text>
+              </View>
+            ))}
+          </View>
+
+          {quarantinedOps.length > 0 && (
+            <View style={styles.infoCard}>
+              <Text style={styles.infoTitle}>Quarantined ({quarantinedOps.length})</Text>
+              {quarantinedOps.map(op => (
+                <View key={op.id} style={styles.notificationEntry}>
+                  <Text style={styles.notificationTitle}>
+                    {op.type} · {op.local_id} · {op.attempts} attempts
+                  </Text>
+                  <Text style={styles.notificationTime}>{op.last_error}</Text>
+                  <View style={styles.buttonRow}>
+                    <TouchableOpacity
+                      style={[styles.button, styles.smallButton]}
+                      onPress={() => releaseQuarantinedOp(op.id, true)}
+                    >
+                      <Text style={styles.buttonText}>Retry</Text>
+                    </TouchableOpacity>
+                    <TouchableOpacity
+                      style={[styles.button, styles.smallButton]}
+                      onPress={() => releaseQuarantinedOp(op.id, false)}
+                    >
+                      <Text style={styles.buttonText}>Discard</Text>
+                    </TouchableOpacity>
+                  </View>
+                </View>
+              ))}
+            </View>
+          )}
+
+          <TouchableOpacity
+            style={[styles.button, styles.secondaryButton]}
+            onPress={loadSyncQueue}
+          >
+            <FontAwesome name="refresh" size={16} color={colors.textSecondary} />
+            <Text style={[styles.secondaryButtonText, { color: colors.textSecondary }]}>Refresh Queue</Text>
+          </TouchableOpacity>
+        </View>
+
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Action History</Text>
           <Text style={styles.sectionDescription}>
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useCallback } from 'react'
+import React, { useState, useEffect, useRef } from 'react'
 import {
   StyleSheet,
   View,
@@ -8,75 +8,39 @@ import {
   Alert,
 } from 'react-native'
 import { Text } from '@/components/Themed'
-import { Task } from '@/lib/offline/database'
+import { ScheduledTask, TaskStatus } from '@/lib/tasks/model'
 import { FontAwesome } from '@expo/vector-icons'
 import ThemedIcon from '@/components/ThemedIcon'
 import { useTheme } from '@/contexts/ThemeContext'
-import { internalDB, InternalTask, InternalDB } from '@/lib/internal-db'
+import { internalDB, InternalDB } from '@/lib/internal-db'
 import { supabase } from '@/lib/supabase'
-import { useFocusEffect } from 'expo-router'
+import { useInternalTasks } from '@/components/useInternalTasks'
+import { taskRepository } from '@/lib/tasks/repository'
 import { GlassMorphism } from '@/components/GlassMorphism'
 import { ThemedGradient } from '@/components/ThemedGradient'
-import { syncTasksFromSupabase, subscribeToTaskSolutions } from '@/lib/sync/TaskSyncService'
 import { getColorForLabel, getLabelName, ColorLabelKey } from '@/constants/ColorLabels'
 import { ColorLabelPicker } from '@/components/ColorLabelPicker'
-
-// Helper function to convert InternalTask to Task format
-const convertInternalTaskToTask = (internalTask: InternalTask): Task & { colorLabel?: string } => ({
-  id: internalTask.id,
-  local_id: internalTask.id,
-  user_id: 'internal_user',
-  name: internalTask.name,
-  status: internalTask.status as any,
-  start_time: internalTask.start_time,
-  end_time: internalTask.end_time,
-  completed_at: internalTask.completed_at,
-  priority: internalTask.priority,
-  sync_status: 'synced',
-  created_at: internalTask.created_at,
-  updated_at: internalTask.updated_at,
-  colorLabel: internalTask.colorLabel || 'none', // Default to 'none' if not set
-})
+import { UndoSnackbar } from '@/components/UndoSnackbar'
+import { ScheduleChangeNotice } from '@/components/ScheduleChangeNotice'
+import { RealtimeStatusBanner } from '@/components/RealtimeStatusBanner'
+import { useRealtimeSync } from '@/components/useRealtimeSync'
+import { undoHistory } from '@/lib/undo-history'
 
 const TASK_GRANULARITY = 600 // 10 minutes in seconds
 const HALF_GRANULARITY = TASK_GRANULARITY / 2
 
 export default function TaskViewScreen() {
   const { actualTheme, colors } = useTheme()
-  const [internalTasks, setInternalTasks] = useState<Task[]>([])
+  // Live task list: re-renders when InternalDB emits a change, no polling needed
+  const { tasks: internalTasks, refresh: loadInternalTasks } = useInternalTasks()
   const [refreshing, setRefreshing] = useState(false)
-  const [selectedTask, setSelectedTask] = useState<Task | null>(null)
+  const [selectedTask, setSelectedTask] = useState<ScheduledTask | null>(null)
   const [showStatusMenu, setShowStatusMenu] = useState(false)
   const [showColorPicker, setShowColorPicker] = useState(false)
-  const [taskForColorEdit, setTaskForColorEdit] = useState<Task & { colorLabel?: string } | null>(null)
+  const [taskForColorEdit, setTaskForColorEdit] = useState<ScheduledTask | null>(null)
   const [currentTime, setCurrentTime] = useState(new Date())
   const [userId, setUserId] = useState<string | null>(null)
 
-  // Load internal tasks
-  const loadInternalTasks = async () => {
-    try {
-      const allInternalTasks = await internalDB.getAllTasks()
-      // Update tasks that don't have colorLabel to default to 'none'
-      const tasksToUpdate = allInternalTasks.filter(task => !task.colorLabel)
-      if (tasksToUpdate.length > 0) {
-        console.log(`Updating ${tasksToUpdate.length} tasks to have colorLabel: 'none'`)
-        for (const task of tasksToUpdate) {
-          await internalDB.updateTask(task.id, { colorLabel: 'none' })
-        }
-        // Reload tasks after update
-        const updatedTasks = await internalDB.getAllTasks()
-        const convertedTasks = updatedTasks.map(convertInternalTaskToTask)
-        setInternalTasks(convertedTasks)
-      } else {
-        const convertedTasks = allInternalTasks.map(convertInternalTaskToTask)
-        setInternalTasks(convertedTasks)
-      }
-    } catch (error) {
-      console.error('Error loading internal tasks:', error)
-      setInternalTasks([])
-    }
-  }
-
   // Load timeline data from Supabase
   const loadTimelineData = async () => {
     try {
@@ -108,8 +72,6 @@ export default function TaskViewScreen() {
         const timelineTasks = timeline.timeline_json.tasks || []
         await syncTasksWithTimeline(timelineTasks)
       }
-      
-      loadInternalTasks()
     } catch (error) {
       console.error('📡 Error loading timeline data:', error)
     }
@@ -158,39 +120,15 @@ export default function TaskViewScreen() {
   }, [])
 
   useEffect(() => {
-    loadInternalTasks()
     loadTimelineData()
-    const interval = setInterval(loadInternalTasks, 2000)
     const timeInterval = setInterval(() => setCurrentTime(new Date()), 1000)
     return () => {
-      clearInterval(interval)
       clearInterval(timeInterval)
     }
   }, [])
 
-  // Subscribe to realtime task_solution updates from the solver
-  useEffect(() => {
-    if (userId) {
-      console.log('[Schedule] Setting up realtime subscription for task solutions...')
-      
-      const unsubscribe = subscribeToTaskSolutions(async () => {
-        console.log('[Schedule] Received realtime update, syncing tasks...')
-        await syncTasksFromSupabase()
-        await loadInternalTasks()
-      })
-
-      return () => {
-        console.log('[Schedule] Cleaning up realtime subscription...')
-        unsubscribe()
-      }
-    }
-  }, [userId])
-
-  useFocusEffect(
-    useCallback(() => {
-      loadInternalTasks()
-    }, [])
-  )
+  // Live solver updates for the user's current model, synced into InternalDB as they arrive
+  const realtimeHealth = useRealtimeSync(userId)
 
   const onRefresh = async () => {
     setRefreshing(true)
@@ -209,89 +147,50 @@ export default function TaskViewScreen() {
     })
 
   // Handle completing a task
-  const handleCompleteTask = async (task: Task) => {
-    if (task.user_id === 'internal_user') {
-      try {
-        const completedAt = new Date().toISOString()
-        await internalDB.updateTask(task.local_id, { 
-          status: 'completed', 
-          completed_at: completedAt 
-        })
-        await internalDB.addAction({
-          action_type: 'task_completed',
-          task_id: task.local_id,
-          task_name: task.name,
-          details: `Completed at ${new Date().toLocaleTimeString()}`
-        })
-        await loadInternalTasks()
-        console.log(`✅ Completed task: ${task.name}`)
-      } catch (error) {
-        console.error('❌ Error completing task:', error)
-        Alert.alert('Error', 'Failed to complete task')
-      }
+  const handleCompleteTask = async (task: ScheduledTask) => {
+    try {
+      await taskRepository.setScheduledTaskStatus(task, 'completed', `Completed at ${new Date().toLocaleTimeString()}`)
+      console.log(`✅ Completed task: ${task.name}`)
+    } catch (error) {
+      console.error('❌ Error completing task:', error)
+      Alert.alert('Error', 'Failed to complete task')
     }
   }
 
   // Handle marking a task as failed
-  const handleFailTask = async (task: Task) => {
-    if (task.user_id === 'internal_user') {
-      try {
-        const failedAt = new Date().toISOString()
-        await internalDB.updateTask(task.local_id, { 
-          status: 'failed', 
-          failed_at: failedAt 
-        })
-        await internalDB.addAction({
-          action_type: 'task_skipped',
-          task_id: task.local_id,
-          task_name: task.name,
-          details: `Marked as failed at ${new Date().toLocaleTimeString()} - task time expired without being started`
-        })
-        await loadInternalTasks()
-        console.log(`❌ Marked task as failed: ${task.name}`)
-      } catch (error) {
-        console.error('❌ Error marking task as failed:', error)
-      }
+  const handleFailTask = async (task: ScheduledTask) => {
+    try {
+      await taskRepository.setScheduledTaskStatus(
+        task,
+        'failed',
+        `Marked as failed at ${new Date().toLocaleTimeString()} - task time expired without being started`
+      )
+      console.log(`❌ Marked task as failed: ${task.name}`)
+    } catch (error) {
+      console.error('❌ Error marking task as failed:', error)
     }
   }
 
   // Handle cancelling a task (user-initiated stop)
-  const handleCancelTask = async (task: Task) => {
-    if (task.user_id === 'internal_user') {
-      try {
-        const cancelledAt = new Date().toISOString()
-        await internalDB.updateTask(task.local_id, { 
-          status: 'cancelled', 
-          cancelled_at: cancelledAt 
-        })
-        await internalDB.addAction({
-          action_type: 'task_cancelled',
-          task_id: task.local_id,
-          task_name: task.name,
-          details: `Cancelled by user at ${new Date().toLocaleTimeString()}`
-        })
-        await loadInternalTasks()
-        console.log(`🛑 Cancelled task: ${task.name}`)
-      } catch (error) {
-        console.error('❌ Error cancelling task:', error)
-        Alert.alert('Error', 'Failed to cancel task')
-      }
+  const handleCancelTask = async (task: ScheduledTask) => {
+    try {
+      await taskRepository.setScheduledTaskStatus(task, 'cancelled', `Cancelled by user at ${new Date().toLocaleTimeString()}`)
+      console.log(`🛑 Cancelled task: ${task.name}`)
+    } catch (error) {
+      console.error('❌ Error cancelling task:', error)
+      Alert.alert('Error', 'Failed to cancel task')
     }
   }
 
   // Auto-complete or fail tasks based on their status and end time
+  // Tasks already being auto-completed, so a tick during the write doesn't complete them twice
+  const autoCompletingIds = useRef<Set<string>>(new Set())
+
   useEffect(() => {
     const checkAndUpdateTasks = async () => {
-      // Get fresh tasks from database to avoid stale data
-      const freshTasks = await internalDB.getAllTasks()
-      const tasksWithTimes = freshTasks
-        .filter(task => task.start_time)
-        .map(convertInternalTaskToTask)
-      
       const now = currentTime.getTime()
-      let hasUpdates = false
       
-      for (const task of tasksWithTimes) {
+      for (const task of internalTasks) {
         if (!task.start_time || !task.end_time) continue
         
         // Skip if already in correct final state
@@ -303,40 +202,30 @@ export default function TaskViewScreen() {
         // For pending tasks: server handles rescheduling via refresh_models
         if (task.status === 'in_progress') {
           const hasExpired = now > taskEnd
-          if (!hasExpired) continue
+          if (!hasExpired || autoCompletingIds.current.has(task.id)) continue
           
           // Started task that expired - auto-complete
-          const completedAt = new Date().toISOString()
-          await internalDB.updateTask(task.local_id, { 
-            status: 'completed', 
-            completed_at: completedAt 
-          })
-          await internalDB.addAction({
-            action_type: 'task_completed',
-            task_id: task.local_id,
-            task_name: task.name,
-            details: `Auto-completed at ${new Date().toLocaleTimeString()} - task time expired`
-          })
-          console.log(`✅ Auto-completed expired task: ${task.name}`)
-          hasUpdates = true
+          autoCompletingIds.current.add(task.id)
+          try {
+            await taskRepository.setScheduledTaskStatus(
+              task,
+              'completed',
+              `Auto-completed at ${new Date().toLocaleTimeString()} - task time expired`
+            )
+            console.log(`✅ Auto-completed expired task: ${task.name}`)
+          } finally {
+            autoCompletingIds.current.delete(task.id)
+          }
         }
         // NOTE: We don't mark pending tasks as failed locally.
         // The server-side solver (refresh_models) handles rescheduling.
         // If it can't reschedule, the server will update task_solution accordingly.
       }
-      
-      // Only reload tasks if we made updates (to avoid unnecessary re-renders)
-      if (hasUpdates) {
-        await loadInternalTasks()
-      }
     }
     
-    // Check every second (matching currentTime update frequency) for expired tasks
-    const interval = setInterval(checkAndUpdateTasks, 1000)
-    checkAndUpdateTasks() // Run immediately
-    
-    return () => clearInterval(interval)
-  }, [currentTime]) // Only depend on currentTime, fetch fresh tasks inside
+    // Runs on every clock tick and whenever the live task list changes
+    checkAndUpdateTasks()
+  }, [currentTime, internalTasks])
 
   // Find current task (in progress and actually within its time window)
   const runningTask = allTasksWithTimes.find(task => {
@@ -355,7 +244,7 @@ export default function TaskViewScreen() {
   })
 
   // Check if a task should be started now (within half-granularity of start time)
-  const shouldTaskStartNow = (task: Task) => {
+  const shouldTaskStartNow = (task: ScheduledTask) => {
     if (!task.start_time || !task.end_time) return false
     const now = currentTime.getTime()
     const taskStart = new Date(task.start_time).getTime()
@@ -370,8 +259,8 @@ export default function TaskViewScreen() {
 
   // Get upcoming tasks
   const upcomingTasks = allTasksWithTimes.filter(task => {
-    if (!task.start_time || task.status === 'completed' || (task.status as string) === 'cancelled') return false
-    if (task.status === 'in_progress' || (task.status as string) === 'paused') return false
+    if (!task.start_time || task.status === 'completed' || (task.status) === 'cancelled') return false
+    if (task.status === 'in_progress' || (task.status) === 'paused') return false
     const startTime = new Date(task.start_time).getTime()
     const now = currentTime.getTime()
     return startTime > now
@@ -419,42 +308,36 @@ export default function TaskViewScreen() {
   const currentTaskRemaining = getCurrentTaskRemaining()
 
   // Handle starting a task
-  const handleStartTask = async (task: Task) => {
-    if (task.user_id === 'internal_user') {
-      try {
-        const now = new Date()
-        const scheduledStart = new Date(task.start_time!)
-        const scheduledEnd = new Date(task.end_time!)
-        
-        // Calculate original duration
-        const originalDuration = scheduledEnd.getTime() - scheduledStart.getTime()
-        
-        // If started early, adjust end time to maintain same duration
-        let adjustedEndTime = scheduledEnd
-        if (now < scheduledStart) {
-          // Started early - adjust end time to maintain duration
-          adjustedEndTime = new Date(now.getTime() + originalDuration)
-          console.log(`⏰ Task started early. Original: ${scheduledStart.toLocaleTimeString()} - ${scheduledEnd.toLocaleTimeString()}, Adjusted: ${now.toLocaleTimeString()} - ${adjustedEndTime.toLocaleTimeString()}`)
-        }
-        
-        await internalDB.updateTask(task.local_id, { 
-          status: 'in_progress',
+  const handleStartTask = async (task: ScheduledTask) => {
+    try {
+      const now = new Date()
+      const scheduledStart = new Date(task.start_time!)
+      const scheduledEnd = new Date(task.end_time!)
+      
+      // Calculate original duration
+      const originalDuration = scheduledEnd.getTime() - scheduledStart.getTime()
+      
+      // If started early, adjust end time to maintain same duration
+      let adjustedEndTime = scheduledEnd
+      if (now < scheduledStart) {
+        // Started early - adjust end time to maintain duration
+        adjustedEndTime = new Date(now.getTime() + originalDuration)
+        console.log(`⏰ Task started early. Original: ${scheduledStart.toLocaleTimeString()} - ${scheduledEnd.toLocaleTimeString()}, Adjusted: ${now.toLocaleTimeString()} - ${adjustedEndTime.toLocaleTimeString()}`)
+      }
+      
+      await taskRepository.setScheduledTaskStatus(
+        task,
+        'in_progress',
+        `Started at ${now.toLocaleTimeString()}${now < scheduledStart ? ` (${Math.round((scheduledStart.getTime() - now.getTime()) / 1000 / 60)} minutes early)` : ''}`,
+        {
           start_time: now.toISOString(), // Update start time to actual start time
           end_time: adjustedEndTime.toISOString(), // Update end time if started early
-          duration: Math.floor(originalDuration / 1000) // Keep same duration in seconds
-        })
-        await internalDB.addAction({
-          action_type: 'task_started',
-          task_id: task.local_id,
-          task_name: task.name,
-          details: `Started at ${now.toLocaleTimeString()}${now < scheduledStart ? ` (${Math.round((scheduledStart.getTime() - now.getTime()) / 1000 / 60)} minutes early)` : ''}`
-        })
-        // Reload tasks to ensure everything is in sync
-        await loadInternalTasks()
-        console.log(`✅ Started task: ${task.name}`)
-      } catch (error) {
-        console.error('❌ Error starting task:', error)
-      }
+          duration: Math.floor(originalDuration / 1000), // Keep same duration in seconds
+        }
+      )
+      console.log(`✅ Started task: ${task.name}`)
+    } catch (error) {
+      console.error('❌ Error starting task:', error)
     }
   }
 
@@ -485,12 +368,12 @@ export default function TaskViewScreen() {
   }
 
   // Group tasks by status
-  const failedTasks = internalTasks.filter(t => (t.status as string) === 'failed')
+  const failedTasks = internalTasks.filter(t => t.status === 'failed')
   const scheduledTasks = internalTasks.filter(t => t.status === 'pending')
   const completedTasks = internalTasks.filter(t => t.status === 'completed')
 
   // Handle status change
-  const handleStatusChange = async (task: Task, newStatus: 'failed' | 'pending' | 'completed') => {
+  const handleStatusChange = async (task: ScheduledTask, newStatus: 'failed' | 'pending' | 'completed') => {
     try {
       const timestamp = new Date().toISOString()
       const updates: any = { status: newStatus }
@@ -501,15 +384,16 @@ export default function TaskViewScreen() {
         updates.failed_at = timestamp
       }
 
-      await internalDB.updateTask(task.local_id, updates)
-      await internalDB.addAction({
-        action_type: newStatus === 'completed' ? 'task_completed' : 'task_skipped',
-        task_id: task.local_id,
-        task_name: task.name,
-        details: `Status changed to ${newStatus} at ${new Date().toLocaleTimeString()}`
+      await undoHistory.record(`"${task.name}" marked ${newStatus}`, tx => {
+        tx.updateTask(task.id, updates)
+        tx.addAction({
+          action_type: newStatus === 'completed' ? 'task_completed' : 'task_skipped',
+          task_id: task.id,
+          task_name: task.name,
+          details: `Status changed to ${newStatus} at ${new Date().toLocaleTimeString()}`
+        })
       })
       
-      await loadInternalTasks()
       setShowStatusMenu(false)
       setSelectedTask(null)
     } catch (error) {
@@ -522,12 +406,9 @@ export default function TaskViewScreen() {
     if (!taskForColorEdit) return
     
     try {
-      await internalDB.updateTask(taskForColorEdit.local_id, {
+      await internalDB.updateTask(taskForColorEdit.id, {
         colorLabel: labelKey,
       })
-
-      // Reload tasks to reflect changes
-      await loadInternalTasks()
       
       setShowColorPicker(false)
       setTaskForColorEdit(null)
@@ -543,7 +424,7 @@ export default function TaskViewScreen() {
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })
   }
 
-  const getStatusColor = (status: string) => {
+  const getStatusColor = (status: TaskStatus) => {
     switch (status) {
       case 'failed': return '#EF5350'
       case 'completed': return '#4CAF50'
@@ -552,7 +433,7 @@ export default function TaskViewScreen() {
     }
   }
 
-  const getStatusIcon = (status: string) => {
+  const getStatusIcon = (status: TaskStatus) => {
     switch (status) {
       case 'failed': return 'times-circle'
       case 'completed': return 'check-circle'
@@ -561,9 +442,9 @@ export default function TaskViewScreen() {
     }
   }
 
-  const renderTaskItem = (task: Task & { colorLabel?: string }) => (
+  const renderTaskItem = (task: ScheduledTask) => (
     <TouchableOpacity
-      key={task.local_id}
+      key={task.id}
       onPress={() => {
         setSelectedTask(task)
         setShowStatusMenu(true)
@@ -576,7 +457,7 @@ export default function TaskViewScreen() {
           ...styles.taskItem,
           borderLeftColor: task.colorLabel 
             ? getColorForLabel(task.colorLabel)
-            : getStatusColor(task.status as string),
+            : getStatusColor(task.status),
           backgroundColor: actualTheme === 'dark' ? 'rgba(255,255,255,0.1)' : 'rgba(255,255,255,0.2)',
         }}
         borderRadius={12}
@@ -593,9 +474,9 @@ export default function TaskViewScreen() {
               <Text style={[styles.taskName, { color: colors.text }]}>{task.name}</Text>
             </View>
             <FontAwesome 
-              name={getStatusIcon(task.status as string) as any} 
+              name={getStatusIcon(task.status) as any} 
               size={20} 
-              color={getStatusColor(task.status as string)} 
+              color={getStatusColor(task.status)} 
             />
           </View>
           <View style={styles.taskDetails}>
@@ -624,8 +505,8 @@ export default function TaskViewScreen() {
                 }}
                 activeOpacity={0.7}
               >
-                <View style={[styles.statusBadge, { backgroundColor: getStatusColor(task.status as string) + '20' }]}>
-                  <Text style={[styles.statusText, { color: getStatusColor(task.status as string) }]}>
+                <View style={[styles.statusBadge, { backgroundColor: getStatusColor(task.status) + '20' }]}>
+                  <Text style={[styles.statusText, { color: getStatusColor(task.status) }]}>
                     {task.status}
                   </Text>
                 </View>
@@ -655,6 +536,7 @@ export default function TaskViewScreen() {
 
   return (
     <ThemedGradient style={styles.container}>
+      <RealtimeStatusBanner health={realtimeHealth} />
       <ScrollView
         style={styles.scrollView}
         refreshControl={
@@ -666,7 +548,7 @@ export default function TaskViewScreen() {
           <View style={styles.readySection}>
             <Text style={[styles.sectionTitle, { color: colors.text }]}>Ready to Start</Text>
             {readyToStartTasks.map((task) => (
-              <GlassMorphism key={task.local_id} style={{ ...styles.readyCard, backgroundColor: '#4CAF50' }} intensity="strong">
+              <GlassMorphism key={task.id} style={{ ...styles.readyCard, backgroundColor: '#4CAF50' }} intensity="strong">
                 <View style={styles.taskInfo}>
                   <Text style={[styles.readyTaskName, { color: '#fff' }]}>{task.name}</Text>
                   <Text style={[styles.readyTaskTime, { color: '#fff' }]}>
@@ -938,6 +820,9 @@ export default function TaskViewScreen() {
           setTaskForColorEdit(null)
         }}
       />
+
+      <ScheduleChangeNotice />
+      <UndoSnackbar />
     </ThemedGradient>
   )
 }
@@ -1,51 +1,25 @@
 import { StyleSheet, ScrollView, RefreshControl } from 'react-native';
 import { Text, View } from '@/components/Themed';
-import { useState, useEffect } from 'react';
+import { useState } from 'react';
 import { useTheme } from '@/contexts/ThemeContext';
-import { internalDB, InternalTask } from '@/lib/internal-db';
+import { ScheduledTask } from '@/lib/tasks/model';
+import { useInternalTasks } from '@/components/useInternalTasks';
 import { GlassMorphism } from '@/components/GlassMorphism';
 import { ThemedGradient } from '@/components/ThemedGradient';
 
 export default function ScheduledTasksScreen() {
   const { actualTheme, colors } = useTheme();
-  const [tasks, setTasks] = useState<InternalTask[]>([]);
   const [refreshing, setRefreshing] = useState(false);
 
-  useEffect(() => {
-    loadWeekTasks();
-    // Refresh tasks every second to catch updates
-    const interval = setInterval(loadWeekTasks, 1000);
-    return () => clearInterval(interval);
-  }, []);
+  // This week: start of today through the end of today + 7 days
+  const today = new Date();
+  today.setHours(0, 0, 0, 0);
+  const endDate = new Date(today);
+  endDate.setDate(endDate.getDate() + 7);
+  endDate.setHours(23, 59, 59, 999);
 
-  const loadWeekTasks = async () => {
-    try {
-      const allTasks = await internalDB.getAllTasks();
-      const today = new Date();
-      today.setHours(0, 0, 0, 0); // Start of today
-      
-      // Calculate end date (today + 7 days)
-      const endDate = new Date(today);
-      endDate.setDate(endDate.getDate() + 7);
-      endDate.setHours(23, 59, 59, 999); // End of the 7th day
-
-      // Filter tasks for this week (today through today + 7 days)
-      const weekTasks = allTasks.filter(task => {
-        const taskDate = new Date(task.start_time);
-        return taskDate >= today && taskDate <= endDate;
-      });
-
-      // Sort tasks by start time
-      weekTasks.sort((a, b) => {
-        return new Date(a.start_time).getTime() - new Date(b.start_time).getTime();
-      });
-
-      console.log('📋 Scheduled Tasks: Loaded tasks for this week:', weekTasks.length);
-      setTasks(weekTasks);
-    } catch (error) {
-      console.error('Error loading tasks for scheduled tasks:', error);
-    }
-  };
+  // Re-renders only when InternalDB reports a change inside this range
+  const { tasks, refresh: loadWeekTasks } = useInternalTasks({ start: today, end: endDate });
 
   const onRefresh = async () => {
     setRefreshing(true);
@@ -66,7 +40,7 @@ export default function ScheduledTasksScreen() {
   };
 
   // Helper function to get priority-based color for pending tasks
-  const getPriorityColor = (task: InternalTask, themeColor: string): string => {
+  const getPriorityColor = (task: ScheduledTask, themeColor: string): string => {
     if (task.status === 'completed') return '#4CAF50';
     if (task.status === 'in_progress') return '#FFA726';
 
@@ -1,13 +1,120 @@
-import React from 'react';
-import { StyleSheet, View, Text, Switch, TouchableOpacity } from 'react-native';
+import React, { useEffect, useState } from 'react';
+import { StyleSheet, View, Text, Switch, TouchableOpacity, Alert, ScrollView } from 'react-native';
+import { useRouter } from 'expo-router';
 import { useTheme } from '@/contexts/ThemeContext';
+import { useTaskContext } from '@/contexts/TaskContext';
 import Colors from '@/constants/Colors';
 import { ThemedGradient } from '@/components/ThemedGradient';
+import {
+  getOtherLocalUsers,
+  getPurgeOnSignOut,
+  purgeOtherLocalUsers,
+  setPurgeOnSignOut,
+} from '@/lib/local-data';
+import { storageHealth, StorageHealthReport } from '@/lib/storage-health';
+import {
+  BackgroundSyncAvailability,
+  BackgroundSyncRun,
+  getBackgroundSyncAvailability,
+  getLastBackgroundSync,
+} from '@/lib/sync/BackgroundSyncService';
+
+function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
+
+function describeBackgroundSync(run: BackgroundSyncRun | null, availability: BackgroundSyncAvailability | null): string {
+  if (availability === 'denied') return 'Background refresh is turned off for this app in system settings.';
+  if (availability === 'restricted') return 'Background refresh is restricted on this device.';
+  if (availability === 'unsupported') return 'Background sync isn\'t available on this platform.';
+  if (!run) return 'Background sync hasn\'t run yet.';
+
+  const when = new Date(run.finished_at).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+  if (run.outcome === 'failed') return `Last background sync ${when} failed: ${run.errors.join('; ')}`;
+  if (run.outcome === 'no_data') return `Last background sync ${when}: already up to date.`;
+  return `Last background sync ${when}: ${run.solutions_changed} schedule changes, ${run.tasks_changed} tasks updated.`;
+}
 
 export default function SettingsScreen() {
   const { theme, actualTheme, setTheme } = useTheme();
   
   const colors = Colors[actualTheme];
+  const router = useRouter();
+  const { conflicts } = useTaskContext();
+
+  const [purgeOnSignOut, setPurgeOnSignOutState] = useState(false);
+  const [otherAccountCount, setOtherAccountCount] = useState(0);
+  const [storageReport, setStorageReport] = useState<StorageHealthReport | null>(null);
+  const [archiving, setArchiving] = useState(false);
+  const [backgroundSync, setBackgroundSync] = useState<BackgroundSyncRun | null>(null);
+  const [backgroundAvailability, setBackgroundAvailability] = useState<BackgroundSyncAvailability | null>(null);
+
+  useEffect(() => {
+    getPurgeOnSignOut().then(setPurgeOnSignOutState);
+    getOtherLocalUsers().then((users) => setOtherAccountCount(users.length));
+    storageHealth.check().then(setStorageReport).catch((error) => {
+      console.error('Error checking storage health:', error);
+    });
+    getLastBackgroundSync().then(setBackgroundSync).catch((error) => {
+      console.error('Error reading the last background sync:', error);
+    });
+    getBackgroundSyncAvailability().then(setBackgroundAvailability).catch((error) => {
+      console.error('Error checking background sync status:', error);
+    });
+  }, []);
+
+  const archiveNow = async () => {
+    setArchiving(true);
+    try {
+      const result = await storageHealth.runMaintenance({ force: true });
+      if (result) {
+        setStorageReport(result.report);
+        Alert.alert(
+          'Archive Complete',
+          `Archived ${result.archived.tasks} tasks and ${result.archived.actions} actions older than ${result.olderThanDays} days.`
+        );
+      }
+    } catch (error: any) {
+      Alert.alert('Error', `Failed to archive old tasks: ${error.message}`);
+    } finally {
+      setArchiving(false);
+    }
+  };
+
+  const storageLevelColor = storageReport?.level === 'critical'
+    ? colors.textDanger
+    : storageReport?.level === 'warning'
+      ? colors.textWarning
+      : colors.tint;
+
+  const togglePurgeOnSignOut = async (enabled: boolean) => {
+    setPurgeOnSignOutState(enabled);
+    await setPurgeOnSignOut(enabled);
+  };
+
+  const confirmPurgeOtherAccounts = () => {
+    Alert.alert(
+      'Remove Other Accounts',
+      `Delete the tasks and history of ${otherAccountCount} other account(s) stored on this device? Anything they haven't synced will be lost.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await purgeOtherLocalUsers();
+            } catch (error: any) {
+              Alert.alert('Error', `Failed to remove local data: ${error.message}`);
+            }
+            setOtherAccountCount((await getOtherLocalUsers()).length);
+          },
+        },
+      ]
+    );
+  };
 
   const themeOptions = [
     { label: 'Light', value: 'light' as const },
@@ -17,39 +124,147 @@ export default function SettingsScreen() {
 
   return (
     <ThemedGradient style={styles.container}>
-      <View style={[styles.section, styles.card, { backgroundColor: colors.cardBackground }]}>
-        <Text style={[styles.sectionTitle, { color: colors.text }]}>Theme</Text>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        <View style={[styles.section, styles.card, { backgroundColor: colors.cardBackground }]}>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>Theme</Text>
+        
+          {themeOptions.map((option) => (
+            <TouchableOpacity
+              key={option.value}
+              style={[
+                styles.optionRow,
+                { borderBottomColor: colors.tabIconDefault }
+              ]}
+              onPress={() => setTheme(option.value)}
+            >
+              <Text style={[styles.optionText, { color: colors.text }]}>
+                {option.label}
+              </Text>
+              <View style={[
+                styles.radioButton,
+                { borderColor: colors.tint }
+              ]}>
+                {theme === option.value && (
+                  <View style={[
+                    styles.radioButtonInner,
+                    { backgroundColor: colors.tint }
+                  ]} />
+                )}
+              </View>
+            </TouchableOpacity>
+          ))}
         
-        {themeOptions.map((option) => (
+          <Text style={[styles.helperText, { color: colors.tabIconDefault }]}>
+            Current theme: {actualTheme}
+          </Text>
+        </View>
+
+        <View style={[styles.section, styles.card, { backgroundColor: colors.cardBackground }]}>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>Data on This Device</Text>
+
+          <View style={[styles.optionRow, { borderBottomColor: colors.tabIconDefault }]}>
+            <Text style={[styles.optionText, styles.optionLabel, { color: colors.text }]}>
+              Remove my data when I sign out
+            </Text>
+            <Switch
+              value={purgeOnSignOut}
+              onValueChange={togglePurgeOnSignOut}
+              trackColor={{ true: colors.tint }}
+            />
+          </View>
+
+          <TouchableOpacity
+            style={[styles.optionRow, { borderBottomColor: colors.tabIconDefault }]}
+            onPress={confirmPurgeOtherAccounts}
+            disabled={otherAccountCount === 0}
+          >
+            <Text style={[styles.optionText, { color: otherAccountCount > 0 ? colors.textDanger : colors.tabIconDefault }]}>
+              Remove other accounts' data ({otherAccountCount})
+            </Text>
+          </TouchableOpacity>
+
+          <Text style={[styles.helperText, { color: colors.tabIconDefault }]}>
+            Each account's tasks are stored separately and are never shown to another account.
+          </Text>
+        </View>
+
+        <View style={[styles.section, styles.card, { backgroundColor: colors.cardBackground }]}>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>Sync</Text>
+
           <TouchableOpacity
-            key={option.value}
+            style={[styles.optionRow, { borderBottomColor: colors.tabIconDefault }]}
+            onPress={() => router.push('/sync-conflicts')}
+          >
+            <Text style={[styles.optionText, { color: conflicts.length > 0 ? colors.textWarning : colors.text }]}>
+              Review sync conflicts ({conflicts.length})
+            </Text>
+          </TouchableOpacity>
+
+          <Text style={[styles.helperText, { color: colors.tabIconDefault }]}>
+            Tasks changed both here and on another device are held back until you pick which changes to keep.
+          </Text>
+
+          <Text
             style={[
-              styles.optionRow,
-              { borderBottomColor: colors.tabIconDefault }
+              styles.helperText,
+              { color: backgroundSync?.outcome === 'failed' ? colors.textWarning : colors.tabIconDefault },
             ]}
-            onPress={() => setTheme(option.value)}
           >
-            <Text style={[styles.optionText, { color: colors.text }]}>
-              {option.label}
-            </Text>
-            <View style={[
-              styles.radioButton,
-              { borderColor: colors.tint }
-            ]}>
-              {theme === option.value && (
-                <View style={[
-                  styles.radioButtonInner,
-                  { backgroundColor: colors.tint }
-                ]} />
+            {describeBackgroundSync(backgroundSync, backgroundAvailability)}
+          </Text>
+        </View>
+
+        <View style={[styles.section, styles.card, { backgroundColor: colors.cardBackground }]}>
+          <Text style={[styles.sectionTitle, { color: colors.text }]}>Storage</Text>
+
+          {storageReport ? (
+            <>
+              <Text style={[styles.optionText, { color: colors.text }]}>
+                {formatBytes(storageReport.usedBytes)} of {formatBytes(storageReport.limitBytes)} used
+              </Text>
+              <View style={[styles.usageTrack, { backgroundColor: colors.borderColor }]}>
+                <View
+                  style={[
+                    styles.usageFill,
+                    { width: `${Math.min(100, Math.round(storageReport.ratio * 100))}%`, backgroundColor: storageLevelColor },
+                  ]}
+                />
+              </View>
+
+              {storageReport.level !== 'ok' && (
+                <Text style={[styles.helperText, { color: storageLevelColor }]}>
+                  {storageReport.level === 'critical'
+                    ? 'Local storage is almost full. New changes may fail to save until old tasks are archived.'
+                    : 'Local storage is filling up. Archiving old tasks will free space.'}
+                </Text>
+              )}
+
+              {storageReport.databaseFileBytes !== null && (
+                <Text style={[styles.helperText, { color: colors.tabIconDefault }]}>
+                  Task database: {formatBytes(storageReport.databaseFileBytes)}
+                </Text>
+              )}
+              {storageReport.archive && (
+                <Text style={[styles.helperText, { color: colors.tabIconDefault }]}>
+                  Archived: {storageReport.archive.tasks} tasks, {storageReport.archive.actions} actions ({formatBytes(storageReport.archive.bytes)} compressed)
+                </Text>
               )}
-            </View>
+            </>
+          ) : (
+            <Text style={[styles.helperText, { color: colors.tabIconDefault }]}>Measuring storage…</Text>
+          )}
+
+          <TouchableOpacity
+            style={[styles.optionRow, { borderBottomColor: colors.tabIconDefault }]}
+            onPress={archiveNow}
+            disabled={archiving}
+          >
+            <Text style={[styles.optionText, { color: archiving ? colors.tabIconDefault : colors.tint }]}>
+              {archiving ? 'Archiving…' : 'Archive old completed tasks now'}
+            </Text>
           </TouchableOpacity>
-        ))}
-        
-        <Text style={[styles.helperText, { color: colors.tabIconDefault }]}>
-          Current theme: {actualTheme}
-        </Text>
-      </View>
+        </View>
+      </ScrollView>
     </ThemedGradient>
   );
 }
@@ -58,6 +273,9 @@ const styles = StyleSheet.create({
   container: {
     flex: 1,
   },
+  scrollContent: {
+    paddingBottom: 20,
+  },
   section: {
     marginHorizontal: 20,
     marginVertical: 10,
@@ -87,6 +305,10 @@ const styles = StyleSheet.create({
   optionText: {
     fontSize: 16,
   },
+  optionLabel: {
+    flex: 1,
+    marginRight: 12,
+  },
   radioButton: {
     width: 24,
     height: 24,
@@ -104,4 +326,14 @@ const styles = StyleSheet.create({
     fontSize: 14,
     marginTop: 10,
   },
+  usageTrack: {
+    height: 8,
+    borderRadius: 4,
+    marginTop: 10,
+    overflow: 'hidden',
+  },
+  usageFill: {
+    height: '100%',
+    borderRadius: 4,
+  },
 });
\ No newline at end of file
@@ -10,7 +10,10 @@ import { useColorScheme } from '@/components/useColorScheme';
 import { supabase } from '../lib/supabase';
 import { Session } from '@supabase/supabase-js';
 import { TaskProvider } from '../contexts/TaskContext';
+import { activateLocalUser, signOutLocalUser } from '../lib/local-data';
 import { ThemeProvider as CustomThemeProvider, useTheme } from '../contexts/ThemeContext';
+// Defines the background sync task; the OS can launch the app just to run it
+import '../lib/sync/BackgroundSyncService';
 
 // ErrorBoundary is exported separately
 import { ErrorBoundary } from 'expo-router';
@@ -60,15 +63,33 @@ function RootLayoutNav() {
   const router = useRouter();
 
   useEffect(() => {
-    supabase.auth.getSession().then(({ data: { session } }) => {
+    // Local stores are per user: switch them before any screen reads them for the new session
+    supabase.auth.getSession().then(async ({ data: { session } }) => {
+      await activateLocalUser(session?.user.id ?? null).catch((error) => {
+        console.error('Error switching local data to the signed-in user:', error);
+      });
       setSession(session);
       setIsLoading(false);
     });
 
     const {
       data: { subscription },
-    } = supabase.auth.onAuthStateChange((_event, session) => {
-      setSession(session);
+    } = supabase.auth.onAuthStateChange((event, session) => {
+      if (event === 'SIGNED_OUT') {
+        setSession(null);
+        // Purges or re-keys the signed-out user's data, per their setting
+        signOutLocalUser().catch((error) => {
+          console.error('Error leaving local data of the signed-out user:', error);
+        });
+        return;
+      }
+
+      // Not awaited: supabase holds its auth lock while this callback runs
+      activateLocalUser(session?.user.id ?? null)
+        .catch((error) => {
+          console.error('Error switching local data to the signed-in user:', error);
+        })
+        .finally(() => setSession(session));
     });
 
     return () => subscription.unsubscribe();
@@ -95,11 +116,12 @@ function RootLayoutNav() {
   return (
     <ThemeProvider value={actualTheme === 'dark' ? DarkTheme : DefaultTheme}>
       {session ? (
-        <TaskProvider>
+        <TaskProvider key={session.user.id}>
           <Stack screenOptions={{ headerShown: false }}>
             <Stack.Screen name="auth" options={{ headerShown: false }} />
             <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
             <Stack.Screen name="modal" options={{ presentation: 'modal' }} />
+            <Stack.Screen name="sync-conflicts" options={{ headerShown: true, title: 'Sync Conflicts' }} />
           </Stack>
         </TaskProvider>
       ) : (
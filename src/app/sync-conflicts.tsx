@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { StyleSheet, View, Text, TouchableOpacity, Alert, ScrollView } from 'react-native';
+import { useTheme } from '@/contexts/ThemeContext';
+import { useTaskContext } from '@/contexts/TaskContext';
+import Colors from '@/constants/Colors';
+import { ThemedGradient } from '@/components/ThemedGradient';
+import type { ConflictChoice, MergeFieldPath, TaskConflict } from '@/lib/offline/merge';
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Name',
+  status: 'Status',
+  priority: 'Priority',
+  start_time: 'Start',
+  end_time: 'End',
+  due_at: 'Due',
+  reminder_at: 'Reminder',
+  completed_at: 'Completed',
+  deleted_at: 'Deleted',
+};
+
+function fieldLabel(field: MergeFieldPath): string {
+  return FIELD_LABELS[field] ?? field.replace('task_json.', '').replace(/_/g, ' ');
+}
+
+function formatValue(field: MergeFieldPath, value: unknown): string {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'string' && /(_at|_time)$/.test(field) && !Number.isNaN(Date.parse(value))) {
+    return new Date(value).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' });
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+interface ConflictCardProps {
+  conflict: TaskConflict;
+  onResolve: (resolution: ConflictChoice | Partial<Record<MergeFieldPath, ConflictChoice>>) => Promise<void>;
+}
+
+function ConflictCard({ conflict, onResolve }: ConflictCardProps) {
+  const { actualTheme } = useTheme();
+  const colors = Colors[actualTheme];
+  const [picks, setPicks] = useState<Partial<Record<MergeFieldPath, ConflictChoice>>>({});
+  const [resolving, setResolving] = useState(false);
+
+  const resolve = async (resolution: ConflictChoice | Partial<Record<MergeFieldPath, ConflictChoice>>) => {
+    setResolving(true);
+    try {
+      await onResolve(resolution);
+    } catch (error: any) {
+      Alert.alert('Error', `Failed to resolve conflict: ${error.message}`);
+      setResolving(false);
+    }
+  };
+
+  const choice = (field: MergeFieldPath, side: ConflictChoice, value: unknown) => {
+    const selected = (picks[field] ?? 'local') === side;
+    return (
+      <TouchableOpacity
+        style={[
+          styles.choice,
+          { borderColor: selected ? colors.tint : colors.borderColor },
+          selected && { backgroundColor: colors.tint + '20' },
+        ]}
+        onPress={() => setPicks(prev => ({ ...prev, [field]: side }))}
+        disabled={resolving}
+      >
+        <Text style={[styles.choiceSide, { color: colors.tabIconDefault }]}>
+          {side === 'local' ? 'This device' : 'Server'}
+        </Text>
+        <Text style={[styles.choiceValue, { color: colors.text }]}>{formatValue(field, value)}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <View style={[styles.section, styles.card, { backgroundColor: colors.cardBackground }]}>
+      <Text style={[styles.sectionTitle, { color: colors.text }]}>{conflict.name}</Text>
+      <Text style={[styles.helperText, { color: colors.tabIconDefault }]}>
+        Changed here and on the server since the last sync. Pick which value to keep for each field.
+      </Text>
+
+      {conflict.fields.map(({ field, local, remote }) => (
+        <View key={field} style={[styles.fieldRow, { borderBottomColor: colors.tabIconDefault }]}>
+          <Text style={[styles.fieldLabel, { color: colors.text }]}>{fieldLabel(field)}</Text>
+          <View style={styles.choices}>
+            {choice(field, 'local', local)}
+            {choice(field, 'remote', remote)}
+          </View>
+        </View>
+      ))}
+
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.action} onPress={() => resolve('local')} disabled={resolving}>
+          <Text style={[styles.actionText, { color: colors.tint }]}>Keep mine</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.action} onPress={() => resolve('remote')} disabled={resolving}>
+          <Text style={[styles.actionText, { color: colors.tint }]}>Use server's</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.action} onPress={() => resolve(picks)} disabled={resolving}>
+          <Text style={[styles.actionText, { color: colors.tint, fontWeight: '600' }]}>Save picks</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+// Review screen for tasks whose local and server edits couldn't be merged automatically
+export default function SyncConflictsScreen() {
+  const { actualTheme } = useTheme();
+  const colors = Colors[actualTheme];
+  const { conflicts, resolveConflict } = useTaskContext();
+
+  return (
+    <ThemedGradient style={styles.container}>
+      <ScrollView contentContainerStyle={styles.scrollContent}>
+        {conflicts.length === 0 ? (
+          <View style={[styles.section, styles.card, { backgroundColor: colors.cardBackground }]}>
+            <Text style={[styles.optionText, { color: colors.text }]}>No sync conflicts.</Text>
+          </View>
+        ) : (
+          conflicts.map(conflict => (
+            <ConflictCard
+              key={conflict.local_id}
+              conflict={conflict}
+              onResolve={resolution => resolveConflict(conflict.local_id, resolution)}
+            />
+          ))
+        )}
+      </ScrollView>
+    </ThemedGradient>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: 20,
+  },
+  section: {
+    marginHorizontal: 20,
+    marginVertical: 10,
+  },
+  card: {
+    marginTop: 20,
+    padding: 20,
+    borderRadius: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    marginBottom: 5,
+  },
+  optionText: {
+    fontSize: 16,
+  },
+  helperText: {
+    fontSize: 14,
+    marginBottom: 10,
+  },
+  fieldRow: {
+    paddingVertical: 12,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  fieldLabel: {
+    fontSize: 15,
+    fontWeight: '500',
+    marginBottom: 8,
+  },
+  choices: {
+    flexDirection: 'row',
+    gap: 8,
+  },
+  choice: {
+    flex: 1,
+    padding: 10,
+    borderRadius: 8,
+    borderWidth: 1,
+  },
+  choiceSide: {
+    fontSize: 12,
+    marginBottom: 4,
+  },
+  choiceValue: {
+    fontSize: 14,
+  },
+  actions: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    marginTop: 15,
+  },
+  action: {
+    paddingVertical: 8,
+  },
+  actionText: {
+    fontSize: 15,
+  },
+});
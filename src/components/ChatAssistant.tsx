@@ -22,6 +22,8 @@ import { assistantService } from '../lib/llm/AssistantService';
 import { useTheme } from '../contexts/ThemeContext';
 import Colors from '../constants/Colors';
 import ThemedIcon from './ThemedIcon';
+import { TaskChangeConfirmation } from './TaskChangeConfirmation';
+import type { TaskChangeProposal } from '../lib/llm/task-changes';
 
 interface Message {
   role: 'user' | 'assistant';
@@ -46,6 +48,9 @@ export function ChatAssistant({ onTaskCreated, initialMessage, onClose, hideHead
   const [inputText, setInputText] = useState(initialMessage || '');
   const [isLoading, setIsLoading] = useState(false);
   const [streamingText, setStreamingText] = useState('');
+  // A change to an existing task the assistant is waiting on the user to apply or cancel
+  const [pendingChange, setPendingChange] = useState<TaskChangeProposal | null>(null);
+  const resolveChangeRef = useRef<((confirmed: boolean) => void) | null>(null);
   const scrollViewRef = useRef<ScrollView>(null);
   
   const currentDate = new Date().toLocaleDateString('en-US', { 
@@ -65,7 +70,24 @@ export function ChatAssistant({ onTaskCreated, initialMessage, onClose, hideHead
     setTimeout(() => {
       scrollViewRef.current?.scrollToEnd({ animated: true });
     }, 100);
-  }, [messages, streamingText]);
+  }, [messages, streamingText, pendingChange]);
+
+  // A change still waiting when the chat closes is not applied
+  useEffect(() => {
+    return () => resolveChangeRef.current?.(false);
+  }, []);
+
+  const confirmChange = (change: TaskChangeProposal) =>
+    new Promise<boolean>(resolve => {
+      resolveChangeRef.current = resolve;
+      setPendingChange(change);
+    });
+
+  const settleChange = (confirmed: boolean) => {
+    resolveChangeRef.current?.(confirmed);
+    resolveChangeRef.current = null;
+    setPendingChange(null);
+  };
 
   const handleSend = async () => {
     if (!inputText.trim() || isLoading) return;
@@ -86,10 +108,14 @@ export function ChatAssistant({ onTaskCreated, initialMessage, onClose, hideHead
       let fullResponse = '';
 
       // Send to LLM with streaming
-      await assistantService.sendMessage(userMessage, (chunk: string) => {
-        fullResponse += chunk;
-        setStreamingText(fullResponse);
-      });
+      await assistantService.sendMessage(
+        userMessage,
+        (chunk: string) => {
+          fullResponse += chunk;
+          setStreamingText(fullResponse);
+        },
+        confirmChange
+      );
 
       // Add assistant response
       setMessages(prev => [...prev, { role: 'assistant', content: fullResponse }]);
@@ -196,7 +222,15 @@ export function ChatAssistant({ onTaskCreated, initialMessage, onClose, hideHead
               </View>
             )}
             
-            {isLoading && !streamingText && (
+            {pendingChange && (
+              <TaskChangeConfirmation
+                change={pendingChange}
+                onConfirm={() => settleChange(true)}
+                onCancel={() => settleChange(false)}
+              />
+            )}
+
+            {isLoading && !streamingText && !pendingChange && (
               <View style={[styles.messageContainer, styles.assistantMessage]}>
                 <View style={styles.assistantBubble}>
                   <ActivityIndicator size="small" color="#007AFF" />
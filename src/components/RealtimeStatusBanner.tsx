@@ -0,0 +1,51 @@
+import React from 'react'
+import { StyleSheet, View, Text } from 'react-native'
+import type { RealtimeHealth } from '@/lib/sync/RealtimeManager'
+
+interface RealtimeStatusBannerProps {
+  health: RealtimeHealth
+}
+
+// Null while live updates are flowing (or not wanted): the banner only shows when they have stopped
+export function describeRealtimeHealth(health: RealtimeHealth): string | null {
+  if (health.status !== 'reconnecting') return null
+  return health.reconnect_attempts > 1
+    ? `Live updates paused, still reconnecting (attempt ${health.reconnect_attempts})`
+    : 'Live updates paused, reconnecting…'
+}
+
+// Tells the user when schedule changes from the solver may not be arriving
+export function RealtimeStatusBanner({ health }: RealtimeStatusBannerProps) {
+  const message = describeRealtimeHealth(health)
+  if (!message) {
+    return null
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.banner}>
+        <Text style={styles.message} numberOfLines={1}>
+          {message}
+        </Text>
+      </View>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginHorizontal: 16,
+    marginTop: 8,
+    alignItems: 'center',
+  },
+  banner: {
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    borderRadius: 16,
+    backgroundColor: 'rgba(230, 126, 34, 0.95)',
+  },
+  message: {
+    color: '#fff',
+    fontSize: 13,
+  },
+})
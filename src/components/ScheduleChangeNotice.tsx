@@ -0,0 +1,77 @@
+import React, { useEffect, useState } from 'react'
+import { StyleSheet, View, Text } from 'react-native'
+import { subscribeToScheduleChanges } from '@/lib/sync/TaskSyncService'
+import type { SolutionSyncDiff } from '@/lib/sync/solution-delta'
+
+interface ScheduleChangeNoticeProps {
+  duration?: number // ms the notice stays visible
+}
+
+const plural = (count: number, noun: string) => `${count} ${noun}${count === 1 ? '' : 's'}`
+
+// Null for syncs that only added tasks: those show up on the calendar by themselves
+export function describeScheduleChange(diff: SolutionSyncDiff): string | null {
+  const parts = [
+    diff.moved.length > 0 && `${plural(diff.moved.length, 'task')} moved`,
+    diff.removed.length > 0 && `${plural(diff.removed.length, 'task')} removed`,
+    diff.unscheduled.length > 0 && `${plural(diff.unscheduled.length, 'task')} couldn't be scheduled`,
+    diff.archived.length > 0 && `${plural(diff.archived.length, 'finished task')} archived`,
+  ].filter((part): part is string => !!part)
+
+  if (parts.length === 0) return null
+  const dropped = [...diff.removed, ...diff.unscheduled]
+  const droppedNames = dropped.slice(0, 2).map(entry => entry.name)
+  const detail = droppedNames.length > 0 ? ` (${droppedNames.join(', ')}${dropped.length > 2 ? ', …' : ''})` : ''
+  return `Schedule updated: ${parts.join(', ')}${detail}`
+}
+
+// Tells the user when a sync moved tasks or took them off the schedule
+export function ScheduleChangeNotice({ duration = 6000 }: ScheduleChangeNoticeProps) {
+  const [message, setMessage] = useState<string | null>(null)
+
+  useEffect(() => {
+    return subscribeToScheduleChanges(diff => {
+      const description = describeScheduleChange(diff)
+      if (description) setMessage(description)
+    })
+  }, [])
+
+  useEffect(() => {
+    if (!message) return
+    const timeout = setTimeout(() => setMessage(null), duration)
+    return () => clearTimeout(timeout)
+  }, [message, duration])
+
+  if (!message) {
+    return null
+  }
+
+  return (
+    <View style={styles.container} pointerEvents="none">
+      <View style={styles.notice}>
+        <Text style={styles.message} numberOfLines={3}>
+          {message}
+        </Text>
+      </View>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    top: 16,
+  },
+  notice: {
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: 'rgba(40, 40, 40, 0.95)',
+  },
+  message: {
+    color: '#fff',
+    fontSize: 14,
+  },
+})
@@ -0,0 +1,80 @@
+import React, { useState } from 'react'
+import { StyleSheet, Text, TouchableOpacity, ActivityIndicator } from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { useTheme } from '@/contexts/ThemeContext'
+import { useTaskContext } from '@/contexts/TaskContext'
+import { syncTasksFromSupabase } from '@/lib/sync/TaskSyncService'
+import { pushTaskActions } from '@/lib/sync/ActionPushService'
+import { realtimeManager } from '@/lib/sync/RealtimeManager'
+import { syncPhase } from '@/lib/sync/sync-status'
+import { useSyncStatus } from './useSyncStatus'
+import { SyncStatusSheet, SYNC_PHASE_LABELS } from './SyncStatusSheet'
+
+const PHASE_ICONS = {
+  synced: 'checkmark-circle',
+  offline: 'cloud-offline',
+  error: 'alert-circle',
+} as const
+
+// Header pill with the overall sync state; tapping it opens the sync detail sheet
+export function SyncStatusBadge() {
+  const { colors } = useTheme()
+  const { syncNow } = useTaskContext()
+  const status = useSyncStatus()
+  const [sheetVisible, setSheetVisible] = useState(false)
+
+  const phase = syncPhase(status)
+  const color = {
+    synced: colors.textSuccess,
+    syncing: colors.tint,
+    offline: colors.textTertiary,
+    error: colors.textDanger,
+  }[phase]
+
+  const retry = async () => {
+    realtimeManager.reconnectNow()
+    await Promise.allSettled([syncNow(), syncTasksFromSupabase(), pushTaskActions()])
+  }
+
+  return (
+    <>
+      <TouchableOpacity
+        style={[styles.badge, { borderColor: color }]}
+        onPress={() => setSheetVisible(true)}
+        accessibilityRole="button"
+        accessibilityLabel={`Sync status: ${SYNC_PHASE_LABELS[phase]}`}
+      >
+        {phase === 'syncing' ? (
+          <ActivityIndicator size="small" color={color} />
+        ) : (
+          <Ionicons name={PHASE_ICONS[phase]} size={14} color={color} />
+        )}
+        <Text style={[styles.label, { color }]}>{SYNC_PHASE_LABELS[phase]}</Text>
+      </TouchableOpacity>
+
+      <SyncStatusSheet
+        visible={sheetVisible}
+        status={status}
+        onRetry={retry}
+        onClose={() => setSheetVisible(false)}
+      />
+    </>
+  )
+}
+
+const styles = StyleSheet.create({
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginRight: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+    borderRadius: 12,
+    borderWidth: 1,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '500',
+  },
+})
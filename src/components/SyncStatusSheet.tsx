@@ -0,0 +1,244 @@
+import React, { useState } from 'react'
+import {
+  StyleSheet,
+  View,
+  TouchableOpacity,
+  Text,
+  Pressable,
+  Modal,
+  ScrollView,
+  ActivityIndicator,
+} from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { useTheme } from '@/contexts/ThemeContext'
+import {
+  SYNC_SOURCE_LABELS,
+  SyncHistoryEntry,
+  SyncPhase,
+  SyncStatusState,
+  currentFailures,
+  syncPhase,
+} from '@/lib/sync/sync-status'
+
+interface SyncStatusSheetProps {
+  visible: boolean
+  status: SyncStatusState
+  onRetry: () => Promise<void>
+  onClose: () => void
+}
+
+export const SYNC_PHASE_LABELS: Record<SyncPhase, string> = {
+  synced: 'Synced',
+  syncing: 'Syncing',
+  offline: 'Offline',
+  error: 'Sync problem',
+}
+
+const REALTIME_LABELS = {
+  disconnected: 'Not connected',
+  connecting: 'Connecting',
+  connected: 'Connected',
+  reconnecting: 'Reconnecting',
+}
+
+const formatTime = (iso: string | null) =>
+  iso ? new Date(iso).toLocaleString([], { dateStyle: 'medium', timeStyle: 'short' }) : 'Never'
+
+function HistoryRow({ entry }: { entry: SyncHistoryEntry }) {
+  const { colors } = useTheme()
+  const color = entry.outcome === 'failed'
+    ? colors.textDanger
+    : entry.outcome === 'skipped'
+      ? colors.textTertiary
+      : colors.textSuccess
+
+  return (
+    <View style={[styles.historyRow, { borderBottomColor: colors.borderColor }]}>
+      <View style={[styles.outcomeDot, { backgroundColor: color }]} />
+      <View style={styles.historyText}>
+        <Text style={[styles.historyTitle, { color: colors.text }]}>
+          {SYNC_SOURCE_LABELS[entry.source]} · {new Date(entry.finished_at).toLocaleTimeString([], { timeStyle: 'short' })}
+        </Text>
+        <Text style={[styles.historyDetail, { color: entry.outcome === 'failed' ? colors.textDanger : colors.textSecondary }]} numberOfLines={2}>
+          {entry.error ?? entry.summary ?? entry.outcome}
+        </Text>
+      </View>
+    </View>
+  )
+}
+
+// Detail view behind the sync badge: where each sync path stands, recent runs, and a retry
+export function SyncStatusSheet({ visible, status, onRetry, onClose }: SyncStatusSheetProps) {
+  const { actualTheme, colors } = useTheme()
+  const [retrying, setRetrying] = useState(false)
+
+  const phase = syncPhase(status)
+  const failures = currentFailures(status)
+
+  const retry = async () => {
+    setRetrying(true)
+    try {
+      await onRetry()
+    } finally {
+      setRetrying(false)
+    }
+  }
+
+  const row = (label: string, value: string, color: string = colors.text) => (
+    <View style={styles.infoRow}>
+      <Text style={[styles.infoLabel, { color: colors.textSecondary }]}>{label}</Text>
+      <Text style={[styles.infoValue, { color }]}>{value}</Text>
+    </View>
+  )
+
+  return (
+    <Modal visible={visible} transparent animationType="slide" onRequestClose={onClose}>
+      <View style={styles.modalContainer}>
+        <Pressable style={styles.overlayPressable} onPress={onClose} />
+        <View
+          style={[
+            styles.container,
+            { backgroundColor: actualTheme === 'dark' ? 'rgba(30, 30, 40, 0.98)' : 'rgba(255, 255, 255, 0.98)' },
+          ]}
+        >
+          <View style={styles.header}>
+            <Text style={[styles.title, { color: colors.text }]}>{SYNC_PHASE_LABELS[phase]}</Text>
+            <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+              <Ionicons name="close" size={24} color={colors.text} />
+            </TouchableOpacity>
+          </View>
+
+          <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent}>
+            {row('Last synced', formatTime(status.last_success_at))}
+            {row('Edits waiting to send', String(status.pending_ops))}
+            {status.quarantined_ops > 0 && row('Edits that keep failing', String(status.quarantined_ops), colors.textDanger)}
+            {status.conflicts > 0 && row('Conflicts to review', String(status.conflicts), colors.textWarning)}
+            {row(
+              'Live updates',
+              status.realtime ? REALTIME_LABELS[status.realtime.status] : REALTIME_LABELS.disconnected,
+              status.realtime?.status === 'reconnecting' ? colors.textWarning : colors.text
+            )}
+            {!status.online && row('Network', 'Offline', colors.textTertiary)}
+
+            {failures.map(entry => (
+              <Text key={entry.id} style={[styles.errorText, { color: colors.textDanger }]}>
+                {SYNC_SOURCE_LABELS[entry.source]}: {entry.error ?? 'failed'}
+              </Text>
+            ))}
+
+            <Text style={[styles.sectionTitle, { color: colors.text }]}>Recent activity</Text>
+            {status.history.length === 0 ? (
+              <Text style={[styles.historyDetail, { color: colors.textSecondary }]}>No syncs since the app started.</Text>
+            ) : (
+              status.history.map(entry => <HistoryRow key={entry.id} entry={entry} />)
+            )}
+          </ScrollView>
+
+          <TouchableOpacity
+            style={[styles.retryButton, { backgroundColor: colors.tint, opacity: retrying || phase === 'syncing' ? 0.6 : 1 }]}
+            onPress={retry}
+            disabled={retrying || phase === 'syncing'}
+          >
+            {retrying ? <ActivityIndicator color="#fff" /> : <Text style={styles.retryText}>Sync now</Text>}
+          </TouchableOpacity>
+        </View>
+      </View>
+    </Modal>
+  )
+}
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    flex: 1,
+    justifyContent: 'flex-end',
+  },
+  overlayPressable: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  container: {
+    maxHeight: '75%',
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingBottom: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 16,
+  },
+  title: {
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  closeButton: {
+    padding: 4,
+  },
+  scrollView: {
+    paddingHorizontal: 20,
+  },
+  scrollContent: {
+    paddingBottom: 12,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  infoLabel: {
+    fontSize: 14,
+  },
+  infoValue: {
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  errorText: {
+    fontSize: 13,
+    marginTop: 8,
+  },
+  sectionTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  historyRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 8,
+    borderBottomWidth: StyleSheet.hairlineWidth,
+  },
+  outcomeDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    marginRight: 10,
+  },
+  historyText: {
+    flex: 1,
+  },
+  historyTitle: {
+    fontSize: 14,
+  },
+  historyDetail: {
+    fontSize: 13,
+  },
+  retryButton: {
+    marginHorizontal: 20,
+    marginTop: 8,
+    paddingVertical: 12,
+    borderRadius: 10,
+    alignItems: 'center',
+  },
+  retryText: {
+    color: '#fff',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+})
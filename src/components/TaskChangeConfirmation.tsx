@@ -0,0 +1,159 @@
+import React from 'react'
+import { StyleSheet, View, Text, TouchableOpacity } from 'react-native'
+import type { TaskChangeProposal, TaskSummary } from '@/lib/llm/task-changes'
+
+interface TaskChangeConfirmationProps {
+  change: TaskChangeProposal
+  onConfirm: () => void
+  onCancel: () => void
+}
+
+const TITLES = {
+  modify: 'Change this task?',
+  reschedule: 'Move this task?',
+  delete: 'Delete this task?',
+}
+
+const formatSlot = (task: TaskSummary) => {
+  const start = new Date(task.start_time)
+  const end = new Date(task.end_time)
+  const day = start.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })
+  const time = (date: Date) => date.toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' })
+  return `${day}, ${time(start)} – ${time(end)}`
+}
+
+function ChangeRow({ label, before, after }: { label: string; before: string; after: string }) {
+  if (before === after) return null
+  return (
+    <View style={styles.row}>
+      <Text style={styles.label}>{label}</Text>
+      <Text style={styles.before}>{before}</Text>
+      <Text style={styles.after}>{after}</Text>
+    </View>
+  )
+}
+
+// The assistant's change to an existing task, before and after, waiting for the user to apply or cancel it
+export function TaskChangeConfirmation({ change, onConfirm, onCancel }: TaskChangeConfirmationProps) {
+  const { before, after, constraints } = change
+
+  return (
+    <View style={styles.card}>
+      <Text style={styles.title}>{TITLES[change.kind]}</Text>
+
+      {after ? (
+        <>
+          <ChangeRow label="Name" before={before.name} after={after.name} />
+          <ChangeRow label="Time" before={formatSlot(before)} after={formatSlot(after)} />
+          <ChangeRow label="Priority" before={before.priority} after={after.priority} />
+          {after.name === before.name && <Text style={styles.taskName}>{before.name}</Text>}
+        </>
+      ) : (
+        <View style={styles.row}>
+          <Text style={styles.before}>{before.name}</Text>
+          <Text style={styles.before}>{formatSlot(before)}</Text>
+        </View>
+      )}
+
+      {after && (constraints.added.length > 0 || constraints.removed.length > 0) && (
+        <View style={styles.row}>
+          <Text style={styles.label}>Constraints</Text>
+          {constraints.removed.map(constraint => (
+            <Text key={`-${constraint}`} style={styles.removed}>− {constraint}</Text>
+          ))}
+          {constraints.added.map(constraint => (
+            <Text key={`+${constraint}`} style={styles.added}>+ {constraint}</Text>
+          ))}
+        </View>
+      )}
+
+      <View style={styles.buttons}>
+        <TouchableOpacity style={[styles.button, styles.cancelButton]} onPress={onCancel}>
+          <Text style={styles.cancelText}>Cancel</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.button, change.kind === 'delete' ? styles.deleteButton : styles.applyButton]}
+          onPress={onConfirm}
+        >
+          <Text style={styles.applyText}>{change.kind === 'delete' ? 'Delete' : 'Apply'}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  card: {
+    alignSelf: 'stretch',
+    marginVertical: 6,
+    padding: 14,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#ddd',
+    backgroundColor: '#fff',
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#333',
+    marginBottom: 8,
+  },
+  taskName: {
+    fontSize: 14,
+    color: '#333',
+  },
+  row: {
+    marginBottom: 8,
+  },
+  label: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#888',
+    marginBottom: 2,
+  },
+  before: {
+    fontSize: 14,
+    color: '#999',
+    textDecorationLine: 'line-through',
+  },
+  after: {
+    fontSize: 14,
+    color: '#333',
+  },
+  added: {
+    fontSize: 13,
+    color: '#2E7D32',
+  },
+  removed: {
+    fontSize: 13,
+    color: '#C62828',
+  },
+  buttons: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: 8,
+    marginTop: 4,
+  },
+  button: {
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    borderRadius: 8,
+  },
+  cancelButton: {
+    backgroundColor: '#eee',
+  },
+  applyButton: {
+    backgroundColor: '#007AFF',
+  },
+  deleteButton: {
+    backgroundColor: '#E53935',
+  },
+  cancelText: {
+    color: '#333',
+    fontWeight: '500',
+  },
+  applyText: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+})
@@ -0,0 +1,335 @@
+import React, { useEffect, useState } from 'react'
+import {
+  StyleSheet,
+  View,
+  TouchableOpacity,
+  Text,
+  TextInput,
+  Pressable,
+  ScrollView,
+} from 'react-native'
+import { Ionicons } from '@expo/vector-icons'
+import { useTheme } from '@/contexts/ThemeContext'
+import { ColorLabelKey, getAllColorLabels, getColorForLabel } from '@/constants/ColorLabels'
+import { internalDB, InternalTask, TaskSearchQuery, TaskSearchResult } from '@/lib/internal-db'
+
+interface TaskSearchModalProps {
+  visible: boolean
+  onSelect: (task: InternalTask) => void
+  onClose: () => void
+}
+
+type DateFacet = 'any' | 'today' | 'week' | 'past'
+
+const STATUS_OPTIONS: { key: InternalTask['status']; label: string }[] = [
+  { key: 'pending', label: 'Scheduled' },
+  { key: 'in_progress', label: 'In progress' },
+  { key: 'completed', label: 'Completed' },
+  { key: 'failed', label: 'Failed' },
+]
+
+const PRIORITY_OPTIONS: { key: InternalTask['priority']; label: string }[] = [
+  { key: 'high', label: 'High' },
+  { key: 'medium', label: 'Medium' },
+  { key: 'low', label: 'Low' },
+]
+
+const DATE_OPTIONS: { key: DateFacet; label: string }[] = [
+  { key: 'any', label: 'Any time' },
+  { key: 'today', label: 'Today' },
+  { key: 'week', label: 'Next 7 days' },
+  { key: 'past', label: 'Past' },
+]
+
+const SEARCH_DEBOUNCE_MS = 150
+const MAX_RESULTS = 50
+
+function dateRange(facet: DateFacet): Pick<TaskSearchQuery, 'start' | 'end'> {
+  const startOfToday = new Date()
+  startOfToday.setHours(0, 0, 0, 0)
+  const daysFromToday = (days: number) => new Date(startOfToday.getTime() + days * 24 * 60 * 60 * 1000)
+
+  switch (facet) {
+    case 'today':
+      return { start: startOfToday, end: daysFromToday(1) }
+    case 'week':
+      return { start: startOfToday, end: daysFromToday(7) }
+    case 'past':
+      return { start: new Date(0), end: new Date() }
+    default:
+      return {}
+  }
+}
+
+function toggle<T>(values: T[], value: T): T[] {
+  return values.includes(value) ? values.filter(v => v !== value) : [...values, value]
+}
+
+// Search sheet for the calendar: name search plus status/priority/label/date facets
+export function TaskSearchModal({ visible, onSelect, onClose }: TaskSearchModalProps) {
+  const { actualTheme, colors } = useTheme()
+  const [text, setText] = useState('')
+  const [statuses, setStatuses] = useState<InternalTask['status'][]>([])
+  const [priorities, setPriorities] = useState<InternalTask['priority'][]>([])
+  const [colorLabels, setColorLabels] = useState<ColorLabelKey[]>([])
+  const [dateFacet, setDateFacet] = useState<DateFacet>('any')
+  const [results, setResults] = useState<TaskSearchResult[]>([])
+
+  const hasFilters = text.trim().length > 0 || statuses.length > 0 || priorities.length > 0 ||
+    colorLabels.length > 0 || dateFacet !== 'any'
+
+  useEffect(() => {
+    if (!visible || !hasFilters) {
+      setResults([])
+      return
+    }
+
+    let active = true
+    const timeout = setTimeout(async () => {
+      try {
+        const found = await internalDB.searchTasks({
+          text,
+          statuses,
+          priorities,
+          colorLabels,
+          ...dateRange(dateFacet),
+          limit: MAX_RESULTS,
+        })
+        if (active) setResults(found)
+      } catch (error) {
+        console.error('Error searching tasks:', error)
+      }
+    }, SEARCH_DEBOUNCE_MS)
+
+    return () => {
+      active = false
+      clearTimeout(timeout)
+    }
+  }, [visible, hasFilters, text, statuses, priorities, colorLabels, dateFacet])
+
+  const handleSelect = (task: InternalTask) => {
+    onSelect(task)
+    onClose()
+  }
+
+  if (!visible) return null
+
+  const chipBackground = actualTheme === 'dark' ? 'rgba(255,255,255,0.1)' : 'rgba(0,0,0,0.05)'
+
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void, dotColor?: string) => (
+    <TouchableOpacity
+      key={key}
+      style={[
+        styles.chip,
+        {
+          backgroundColor: selected ? colors.tint : chipBackground,
+        },
+      ]}
+      onPress={onPress}
+      activeOpacity={0.7}
+    >
+      {dotColor && <View style={[styles.chipDot, { backgroundColor: dotColor }]} />}
+      <Text style={[styles.chipText, { color: selected ? '#fff' : colors.text }]}>{label}</Text>
+    </TouchableOpacity>
+  )
+
+  return (
+    <View style={styles.modalContainer}>
+      <Pressable style={styles.overlayPressable} onPress={onClose} />
+      <View
+        style={[
+          styles.container,
+          {
+            backgroundColor:
+              actualTheme === 'dark'
+                ? 'rgba(30, 30, 40, 0.98)'
+                : 'rgba(255, 255, 255, 0.98)',
+          },
+        ]}
+      >
+        <View style={styles.header}>
+          <View style={[styles.searchField, { backgroundColor: chipBackground }]}>
+            <Ionicons name="search" size={18} color={colors.textSecondary} />
+            <TextInput
+              style={[styles.searchInput, { color: colors.text }]}
+              value={text}
+              onChangeText={setText}
+              placeholder="Search tasks"
+              placeholderTextColor={colors.textTertiary}
+              autoFocus
+              autoCorrect={false}
+              returnKeyType="search"
+            />
+            {text.length > 0 && (
+              <TouchableOpacity onPress={() => setText('')}>
+                <Ionicons name="close-circle" size={18} color={colors.textSecondary} />
+              </TouchableOpacity>
+            )}
+          </View>
+          <TouchableOpacity onPress={onClose} style={styles.closeButton}>
+            <Ionicons name="close" size={24} color={colors.text} />
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.facetRow}>
+          {DATE_OPTIONS.map(option =>
+            renderChip(option.key, option.label, dateFacet === option.key, () => setDateFacet(option.key))
+          )}
+        </ScrollView>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.facetRow}>
+          {STATUS_OPTIONS.map(option =>
+            renderChip(option.key, option.label, statuses.includes(option.key), () => setStatuses(toggle(statuses, option.key)))
+          )}
+          {PRIORITY_OPTIONS.map(option =>
+            renderChip(`priority-${option.key}`, option.label, priorities.includes(option.key), () => setPriorities(toggle(priorities, option.key)))
+          )}
+        </ScrollView>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.facetRow}>
+          {getAllColorLabels().map(({ key, label }) =>
+            renderChip(key, label.name, colorLabels.includes(key), () => setColorLabels(toggle(colorLabels, key)), label.color)
+          )}
+        </ScrollView>
+
+        <ScrollView style={styles.scrollView} contentContainerStyle={styles.scrollContent} keyboardShouldPersistTaps="handled">
+          {hasFilters && results.length === 0 && (
+            <Text style={[styles.emptyText, { color: colors.textSecondary }]}>No matching tasks</Text>
+          )}
+          {results.map(({ task }) => (
+            <TouchableOpacity
+              key={task.id}
+              style={[styles.resultRow, { backgroundColor: chipBackground }]}
+              onPress={() => handleSelect(task)}
+              activeOpacity={0.7}
+            >
+              <View style={[styles.resultColor, { backgroundColor: getColorForLabel(task.colorLabel) }]} />
+              <View style={styles.resultInfo}>
+                <Text style={[styles.resultName, { color: colors.text }]} numberOfLines={1}>
+                  {task.name}
+                </Text>
+                <Text style={[styles.resultMeta, { color: colors.textSecondary }]} numberOfLines={1}>
+                  {new Date(task.start_time).toLocaleString('en-US', {
+                    weekday: 'short',
+                    month: 'short',
+                    day: 'numeric',
+                    hour: 'numeric',
+                    minute: '2-digit',
+                  })}
+                  {` · ${task.status.replace('_', ' ')} · ${task.priority}`}
+                </Text>
+              </View>
+              <Ionicons name="chevron-forward" size={18} color={colors.textSecondary} />
+            </TouchableOpacity>
+          ))}
+        </ScrollView>
+      </View>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  modalContainer: {
+    ...StyleSheet.absoluteFillObject,
+    zIndex: 2000,
+    justifyContent: 'flex-end',
+  },
+  overlayPressable: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  container: {
+    borderTopLeftRadius: 20,
+    borderTopRightRadius: 20,
+    paddingTop: 20,
+    paddingBottom: 40,
+    height: '85%',
+    width: '100%',
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: -2 },
+    shadowOpacity: 0.25,
+    shadowRadius: 10,
+    elevation: 10,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+    gap: 12,
+  },
+  searchField: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 12,
+    gap: 8,
+  },
+  searchInput: {
+    flex: 1,
+    fontSize: 16,
+    paddingVertical: 0,
+  },
+  closeButton: {
+    padding: 4,
+  },
+  facetRow: {
+    paddingHorizontal: 20,
+    paddingBottom: 8,
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    gap: 6,
+  },
+  chipDot: {
+    width: 10,
+    height: 10,
+    borderRadius: 5,
+  },
+  chipText: {
+    fontSize: 13,
+    fontWeight: '500',
+  },
+  scrollView: {
+    flex: 1,
+    width: '100%',
+  },
+  scrollContent: {
+    paddingHorizontal: 20,
+    paddingTop: 8,
+    gap: 8,
+  },
+  emptyText: {
+    textAlign: 'center',
+    marginTop: 24,
+    fontSize: 14,
+  },
+  resultRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    padding: 12,
+    borderRadius: 12,
+    gap: 12,
+  },
+  resultColor: {
+    width: 6,
+    alignSelf: 'stretch',
+    borderRadius: 3,
+  },
+  resultInfo: {
+    flex: 1,
+  },
+  resultName: {
+    fontSize: 16,
+    fontWeight: '600',
+  },
+  resultMeta: {
+    fontSize: 12,
+    marginTop: 2,
+  },
+})
@@ -0,0 +1,89 @@
+import React, { useEffect, useState } from 'react'
+import { StyleSheet, View, Text, TouchableOpacity, Alert } from 'react-native'
+import { useTheme } from '@/contexts/ThemeContext'
+import { undoHistory, UndoHistoryEvent } from '@/lib/undo-history'
+
+interface UndoSnackbarProps {
+  duration?: number // ms the snackbar stays visible
+}
+
+// Shows "Undo" after a recorded change and "Redo" after an undo
+export function UndoSnackbar({ duration = 5000 }: UndoSnackbarProps) {
+  const { colors } = useTheme()
+  const [notice, setNotice] = useState<UndoHistoryEvent | null>(null)
+
+  useEffect(() => {
+    return undoHistory.subscribe(setNotice)
+  }, [])
+
+  useEffect(() => {
+    if (!notice) return
+    const timeout = setTimeout(() => setNotice(null), duration)
+    return () => clearTimeout(timeout)
+  }, [notice, duration])
+
+  if (!notice) {
+    return null
+  }
+
+  const canRedo = notice.type === 'undone'
+  const message = canRedo ? `Undone: ${notice.entry.label}` : notice.entry.label
+
+  const handlePress = async () => {
+    setNotice(null)
+    try {
+      if (canRedo) {
+        await undoHistory.redo()
+      } else {
+        await undoHistory.undo()
+      }
+    } catch (error) {
+      console.error('❌ Error applying undo history:', error)
+      Alert.alert('Error', canRedo ? 'Could not redo the change' : 'Could not undo the change')
+    }
+  }
+
+  return (
+    <View style={styles.container} pointerEvents="box-none">
+      <View style={styles.snackbar}>
+        <Text style={styles.message} numberOfLines={2}>
+          {message}
+        </Text>
+        <TouchableOpacity onPress={handlePress} activeOpacity={0.7}>
+          <Text style={[styles.action, { color: colors.tint }]}>
+            {canRedo ? 'Redo' : 'Undo'}
+          </Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  )
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: 16,
+    right: 16,
+    bottom: 24,
+  },
+  snackbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    borderRadius: 8,
+    backgroundColor: 'rgba(40, 40, 40, 0.95)',
+    gap: 16,
+  },
+  message: {
+    flex: 1,
+    color: '#fff',
+    fontSize: 14,
+  },
+  action: {
+    fontSize: 14,
+    fontWeight: '700',
+    textTransform: 'uppercase',
+  },
+})
@@ -0,0 +1,116 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { act, renderHook, waitFor } from '@testing-library/react-native'
+import type { InternalDB as InternalDBType } from '../../lib/internal-db'
+import { useInternalTasks } from '../useInternalTasks'
+
+// The hook reads through the repository singleton; back it with a real InternalDB so its change events are real
+jest.mock('@/lib/tasks/repository', () => {
+  const { TaskRepository } = jest.requireActual('../../lib/tasks/repository')
+  const { InternalDB } = jest.requireActual('../../lib/internal-db')
+  const { AsyncStorageAdapter } = jest.requireActual('../../lib/db/async-storage-adapter')
+  const db = InternalDB.withAdapter(new AsyncStorageAdapter())
+  return { TaskRepository, taskRepository: new TaskRepository(db), db }
+})
+
+const { db, taskRepository } = jest.requireMock('@/lib/tasks/repository') as {
+  db: InternalDBType
+  taskRepository: import('../../lib/tasks/repository').TaskRepository
+}
+
+const taskAt = (name: string, start: string, end: string) => ({
+  name,
+  start_time: start,
+  end_time: end,
+  duration: (new Date(end).getTime() - new Date(start).getTime()) / 1000,
+  status: 'pending' as const,
+  priority: 'medium' as const,
+})
+
+const monday = {
+  start: new Date('2024-03-04T00:00:00.000Z'),
+  end: new Date('2024-03-05T00:00:00.000Z'),
+}
+
+const flush = () => act(() => new Promise<void>(resolve => setTimeout(resolve, 5)))
+
+describe('useInternalTasks', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear()
+    await db.clearAllTasks()
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('re-queries for changes inside its range and status filter, and only those', async () => {
+    const gym = await db.addTask(taskAt('Gym', '2024-03-04T16:00:00.000Z', '2024-03-04T17:00:00.000Z'))
+    const getScheduledTasks = jest.spyOn(taskRepository, 'getScheduledTasks')
+
+    const { result } = renderHook(() => useInternalTasks({ ...monday, statuses: ['pending'] }))
+    await waitFor(() => expect(result.current.loading).toBe(false))
+    expect(result.current.tasks.map(task => task.name)).toEqual(['Gym'])
+    expect(getScheduledTasks).toHaveBeenCalledTimes(1)
+
+    // Another day, a status the query leaves out, and an action: none can change the result
+    await act(async () => {
+      await db.addTask(taskAt('Tuesday', '2024-03-05T09:00:00.000Z', '2024-03-05T10:00:00.000Z'))
+      await db.addTask({ ...taskAt('Done', '2024-03-04T08:00:00.000Z', '2024-03-04T09:00:00.000Z'), status: 'completed' })
+      await db.addAction({ action_type: 'task_started', task_id: gym.id, task_name: gym.name })
+    })
+    await flush()
+    expect(getScheduledTasks).toHaveBeenCalledTimes(1)
+
+    // A task moved into the range is relevant, and so is one leaving the status filter
+    const tuesday = (await db.getAllTasks()).find(task => task.name === 'Tuesday')!
+    await act(async () => {
+      await db.updateTask(tuesday.id, { start_time: '2024-03-04T18:00:00.000Z', end_time: '2024-03-04T19:00:00.000Z' })
+    })
+    await waitFor(() => expect(result.current.tasks.map(task => task.name)).toEqual(['Gym', 'Tuesday']))
+
+    await act(async () => {
+      await db.updateTask(gym.id, { status: 'completed' })
+    })
+    await waitFor(() => expect(result.current.tasks.map(task => task.name)).toEqual(['Tuesday']))
+    expect(getScheduledTasks).toHaveBeenCalledTimes(3)
+  })
+
+  test('a burst of changes is one re-query', async () => {
+    const getScheduledTasks = jest.spyOn(taskRepository, 'getScheduledTasks')
+    const { result } = renderHook(() => useInternalTasks(monday))
+    await waitFor(() => expect(result.current.loading).toBe(false))
+
+    await act(async () => {
+      db.addTask(taskAt('One', '2024-03-04T09:00:00.000Z', '2024-03-04T10:00:00.000Z'))
+      await db.addTask(taskAt('Two', '2024-03-04T11:00:00.000Z', '2024-03-04T12:00:00.000Z'))
+    })
+    await waitFor(() => expect(result.current.tasks).toHaveLength(2))
+    expect(getScheduledTasks).toHaveBeenCalledTimes(2)
+  })
+
+  test('the latest query wins when reloads overlap', async () => {
+    const { result } = renderHook(() => useInternalTasks(monday))
+    await waitFor(() => expect(result.current.loading).toBe(false))
+
+    const stored = (name: string) => ({
+      ...taskAt(name, '2024-03-04T09:00:00.000Z', '2024-03-04T10:00:00.000Z'),
+      id: name,
+      created_at: '2024-03-01T00:00:00.000Z',
+      updated_at: '2024-03-01T00:00:00.000Z',
+    })
+    let finishSlow: () => void = () => {}
+    jest.spyOn(taskRepository, 'getScheduledTasks')
+      .mockImplementationOnce(() => new Promise(resolve => { finishSlow = () => resolve([stored('Stale')]) }))
+      .mockResolvedValueOnce([stored('Fresh')])
+
+    await act(async () => {
+      const first = result.current.refresh()
+      await result.current.refresh()
+      finishSlow()
+      await first
+    })
+
+    expect(result.current.tasks.map(task => task.name)).toEqual(['Fresh'])
+  })
+})
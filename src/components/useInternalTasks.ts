@@ -0,0 +1,102 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { InternalTask, InternalDBChangeEvent } from '@/lib/internal-db'
+import { ScheduledTask, TaskStatus } from '@/lib/tasks/model'
+import { taskRepository, ScheduledTaskRange } from '@/lib/tasks/repository'
+
+export interface InternalTaskQuery extends ScheduledTaskRange {
+  statuses?: TaskStatus[]
+}
+
+function overlaps(task: InternalTask, startMs?: number, endMs?: number): boolean {
+  const taskStartMs = new Date(task.start_time).getTime()
+  const taskEndMs = new Date(task.end_time).getTime()
+  if (endMs !== undefined && taskStartMs >= endMs) return false
+  if (startMs !== undefined && taskEndMs <= startMs) return false
+  return true
+}
+
+/**
+ * Live view of scheduled tasks (InternalDB, through the task repository) matching a query.
+ * Re-queries only when InternalDB emits a change that can affect the result,
+ * so screens no longer need to poll.
+ */
+export function useInternalTasks(query: InternalTaskQuery = {}) {
+  const [tasks, setTasks] = useState<ScheduledTask[]>([])
+  const [loading, setLoading] = useState(true)
+
+  // Primitive keys so callers can pass a fresh query object on every render
+  const startMs = query.start?.getTime()
+  const endMs = query.end?.getTime()
+  const statusKey = query.statuses?.join(',') ?? ''
+
+  const fetchTasks = useCallback(async (): Promise<ScheduledTask[]> => {
+    const statuses = statusKey ? statusKey.split(',') : null
+    const found = await taskRepository.getScheduledTasks({
+      start: startMs !== undefined ? new Date(startMs) : undefined,
+      end: endMs !== undefined ? new Date(endMs) : undefined,
+    })
+    return found.filter(task => !statuses || statuses.includes(task.status))
+  }, [startMs, endMs, statusKey])
+
+  const isRelevant = useCallback((event: InternalDBChangeEvent): boolean => {
+    const statuses = statusKey ? statusKey.split(',') : null
+    const matches = (task: InternalTask) =>
+      overlaps(task, startMs, endMs) && (!statuses || statuses.includes(task.status))
+
+    switch (event.type) {
+      case 'tasks_cleared':
+        return true
+      case 'task_added':
+      case 'task_deleted':
+        return matches(event.task)
+      case 'task_updated':
+        return matches(event.task) || matches(event.previous)
+      default:
+        return false
+    }
+  }, [startMs, endMs, statusKey])
+
+  // Latest query wins if several reloads overlap
+  const requestId = useRef(0)
+
+  const refresh = useCallback(async () => {
+    const id = ++requestId.current
+    try {
+      const result = await fetchTasks()
+      if (id === requestId.current) {
+        setTasks(result)
+      }
+    } catch (error) {
+      console.error('Error loading internal tasks:', error)
+    } finally {
+      if (id === requestId.current) {
+        setLoading(false)
+      }
+    }
+  }, [fetchTasks])
+
+  useEffect(() => {
+    let active = true
+    let reloadScheduled = false
+
+    refresh()
+
+    const unsubscribe = taskRepository.subscribe(event => {
+      if (!active || reloadScheduled || !isRelevant(event)) return
+      // Coalesce bursts (bulk updates, sync runs) into a single re-query
+      reloadScheduled = true
+      setTimeout(() => {
+        reloadScheduled = false
+        if (active) refresh()
+      }, 0)
+    })
+
+    return () => {
+      active = false
+      requestId.current++
+      unsubscribe()
+    }
+  }, [refresh, isRelevant])
+
+  return { tasks, loading, refresh }
+}
@@ -0,0 +1,23 @@
+import { useEffect, useState } from 'react'
+import { realtimeManager, RealtimeHealth } from '@/lib/sync/RealtimeManager'
+
+/**
+ * Keep the user's realtime channel open while the calling screen is mounted, syncing solver
+ * updates into InternalDB as they arrive. Screens share one channel; returns its live health.
+ */
+export function useRealtimeSync(userId: string | null | undefined): RealtimeHealth {
+  const [health, setHealth] = useState<RealtimeHealth>(realtimeManager.getHealth())
+
+  useEffect(() => {
+    const unsubscribe = realtimeManager.subscribeToHealth(setHealth)
+    setHealth(realtimeManager.getHealth())
+    return unsubscribe
+  }, [])
+
+  useEffect(() => {
+    if (!userId) return
+    return realtimeManager.acquire(userId)
+  }, [userId])
+
+  return health
+}
@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react'
+import { solverJobs } from '@/lib/sync/SolverJobTracker'
+import { SolverJob } from '@/lib/sync/solver-job'
+
+// The schedule request currently being followed through the solver, if any
+export function useSolverJob(): SolverJob | null {
+  const [job, setJob] = useState<SolverJob | null>(solverJobs.getJob())
+
+  useEffect(() => {
+    const unsubscribe = solverJobs.subscribe(setJob)
+    setJob(solverJobs.getJob())
+    return unsubscribe
+  }, [])
+
+  return job
+}
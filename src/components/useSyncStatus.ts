@@ -0,0 +1,16 @@
+import { useEffect, useState } from 'react'
+import { syncStatus } from '@/lib/sync/SyncStatusCenter'
+import { SyncStatusState } from '@/lib/sync/sync-status'
+
+// Live view of the sync status center
+export function useSyncStatus(): SyncStatusState {
+  const [state, setState] = useState<SyncStatusState>(syncStatus.getState())
+
+  useEffect(() => {
+    const unsubscribe = syncStatus.subscribe(setState)
+    setState(syncStatus.getState())
+    return unsubscribe
+  }, [])
+
+  return state
+}
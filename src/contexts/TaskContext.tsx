@@ -2,11 +2,17 @@ import React, { createContext, useContext, useEffect, useState } from 'react'
 import { AppState, AppStateStatus } from 'react-native'
 import { SyncService } from '../lib/offline/sync'
 import { NotificationService } from '../lib/notifications/service'
-import { Task } from '../lib/offline/database'
+import { Task } from '../lib/tasks/model'
+import type { ConflictChoice, MergeFieldPath, TaskConflict } from '../lib/offline/merge'
 import { supabase } from '../lib/supabase'
+import { storageHealth } from '../lib/storage-health'
+import { startActionPush } from '../lib/sync/ActionPushService'
+import { registerBackgroundSync } from '../lib/sync/BackgroundSyncService'
+import { syncStatus } from '../lib/sync/SyncStatusCenter'
 
 interface TaskContextType {
   tasks: Task[]
+  conflicts: TaskConflict[]
   loading: boolean
   syncing: boolean
   createTask: (task: Partial<Task>) => Promise<Task>
@@ -14,6 +20,7 @@ interface TaskContextType {
   deleteTask: (localId: string) => Promise<void>
   syncNow: () => Promise<void>
   refreshTasks: () => Promise<void>
+  resolveConflict: (localId: string, resolution: ConflictChoice | Partial<Record<MergeFieldPath, ConflictChoice>>) => Promise<void>
 }
 
 const TaskContext = createContext<TaskContextType | null>(null)
@@ -28,6 +35,7 @@ export function useTaskContext() {
 
 export function TaskProvider({ children }: { children: React.ReactNode }) {
   const [tasks, setTasks] = useState<Task[]>([])
+  const [conflicts, setConflicts] = useState<TaskConflict[]>([])
   const [loading, setLoading] = useState(true)
   const [syncing, setSyncing] = useState(false)
   
@@ -49,6 +57,14 @@ export function TaskProvider({ children }: { children: React.ReactNode }) {
         
         // Initial sync
         syncNow()
+
+        // Keep syncing while the app is in the background or closed
+        registerBackgroundSync()
+
+        // Archive old tasks/actions (at most daily) so local storage stays bounded
+        storageHealth.runMaintenance().catch(error => {
+          console.error('Error running storage maintenance:', error)
+        })
         
         setLoading(false)
         
@@ -64,6 +80,12 @@ export function TaskProvider({ children }: { children: React.ReactNode }) {
     init()
   }, [])
 
+  // Send start/complete/skip/cancel actions to the server so the solver hears about them
+  useEffect(() => startActionPush(), [])
+
+  // Sync status for this account's session, shown by the header badge
+  useEffect(() => syncStatus.start(), [])
+
   // Handle app state changes
   const handleAppStateChange = (nextAppState: AppStateStatus) => {
     if (nextAppState === 'active') {
@@ -76,6 +98,7 @@ export function TaskProvider({ children }: { children: React.ReactNode }) {
   const refreshTasks = async () => {
     const activeTasks = await syncService.getActiveTasks()
     setTasks(activeTasks)
+    setConflicts(await syncService.getConflicts())
     
     // Reschedule all notifications
     await notificationService.scheduleAllNotifications(activeTasks)
@@ -107,7 +130,7 @@ export function TaskProvider({ children }: { children: React.ReactNode }) {
     
     // Get updated task and reschedule notifications
     const tasks = await syncService.getActiveTasks()
-    const updatedTask = tasks.find(t => t.local_id === localId)
+    const updatedTask = tasks.find(t => t.id === localId)
     
     if (updatedTask && !updatedTask.deleted_at) {
       if (updatedTask.reminder_at) {
@@ -129,9 +152,9 @@ export function TaskProvider({ children }: { children: React.ReactNode }) {
     // Delete task
     await syncService.deleteTask(localId)
     
-    const task = tasks.find(t => t.local_id === localId)
+    const task = tasks.find(t => t.id === localId)
     if (task) {
-      console.log('✅ Task deleted:', task.name || task.local_id)
+      console.log('✅ Task deleted:', task.name || task.id)
     }
     
     await refreshTasks()
@@ -153,10 +176,20 @@ export function TaskProvider({ children }: { children: React.ReactNode }) {
     }
   }
 
+  // Settle a sync conflict with the local or remote version, or a pick per field
+  const resolveConflict = async (
+    localId: string,
+    resolution: ConflictChoice | Partial<Record<MergeFieldPath, ConflictChoice>>
+  ) => {
+    await syncService.resolveConflict(localId, resolution)
+    await refreshTasks()
+  }
+
   return (
     <TaskContext.Provider
       value={{
         tasks,
+        conflicts,
         loading,
         syncing,
         createTask,
@@ -164,6 +197,7 @@ export function TaskProvider({ children }: { children: React.ReactNode }) {
         deleteTask,
         syncNow,
         refreshTasks,
+        resolveConflict,
       }}
     >
       {children}
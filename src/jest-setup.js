@@ -43,6 +43,23 @@ jest.mock('@react-native-async-storage/async-storage', () =>
   require('@react-native-async-storage/async-storage/jest/async-storage-mock')
 )
 
+// Mock secure store with an in-memory keychain
+jest.mock('expo-secure-store', () => {
+  const items = new Map()
+  return {
+    isAvailableAsync: jest.fn(() => Promise.resolve(true)),
+    getItemAsync: jest.fn((key) => Promise.resolve(items.has(key) ? items.get(key) : null)),
+    setItemAsync: jest.fn((key, value) => {
+      items.set(key, value)
+      return Promise.resolve()
+    }),
+    deleteItemAsync: jest.fn((key) => {
+      items.delete(key)
+      return Promise.resolve()
+    }),
+  }
+})
+
 // Mock vector icons
 jest.mock('@expo/vector-icons', () => ({
   FontAwesome: 'FontAwesome',
@@ -68,6 +85,10 @@ jest.mock('./lib/internal-db', () => ({
     clearAllTasks: jest.fn(() => Promise.resolve()),
     clearAllActions: jest.fn(() => Promise.resolve()),
     addAction: jest.fn(() => Promise.resolve({ id: '1' })),
+    subscribe: jest.fn(() => () => {}),
+    transaction: jest.fn(() => Promise.resolve()),
+    getNamespace: jest.fn(() => null),
+    switchNamespace: jest.fn(() => Promise.resolve()),
   },
 }))
 
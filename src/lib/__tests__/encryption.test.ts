@@ -0,0 +1,145 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { DataCipher, dataCipherFor } from '../encryption'
+import { AsyncStorageAdapter } from '../db/async-storage-adapter'
+import { EncryptedStorageAdapter } from '../db/encrypted-adapter'
+import { OfflineDatabase, OfflineTask } from '../offline/database'
+
+const { InternalDB } = jest.requireActual('../internal-db') as typeof import('../internal-db')
+
+const task = {
+  id: 'task-1',
+  name: 'Dr. Smith – oncology follow-up',
+  start_time: '2024-03-01T09:00:00.000Z',
+  end_time: '2024-03-01T10:00:00.000Z',
+  duration: 3600,
+  status: 'pending' as const,
+  priority: 'high' as const,
+  created_at: '2024-02-01T00:00:00.000Z',
+  updated_at: '2024-02-01T00:00:00.000Z',
+}
+
+async function rawStorageContents(): Promise<string> {
+  const keys = await AsyncStorage.getAllKeys()
+  const entries = await AsyncStorage.multiGet(keys)
+  return entries.map(([, value]) => value).join('\n')
+}
+
+describe('encryption at rest', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear()
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe('DataCipher', () => {
+    test('round-trips values and passes legacy plaintext through', async () => {
+      const cipher = new DataCipher('test_roundtrip')
+      const encrypted = await cipher.encrypt('client: ACME')
+
+      expect(cipher.isEncrypted(encrypted)).toBe(true)
+      expect(encrypted).not.toContain('ACME')
+      expect(await cipher.decrypt(encrypted)).toBe('client: ACME')
+      expect(await cipher.decrypt('{"plain":true}')).toBe('{"plain":true}')
+    })
+
+    test('rejects tampered ciphertext', async () => {
+      const cipher = new DataCipher('test_tamper')
+      const encrypted = await cipher.encrypt('secret')
+      const tampered = encrypted.slice(0, -4) + (encrypted.endsWith('AAAA') ? 'BBBB' : 'AAAA')
+
+      await expect(cipher.decrypt(tampered)).rejects.toThrow()
+    })
+
+    test('keeps retired keys readable until they are forgotten', async () => {
+      const cipher = new DataCipher('test_rotate')
+      const old = await cipher.encrypt('before rotation')
+
+      await cipher.rotateKey()
+      expect(await cipher.decrypt(old)).toBe('before rotation')
+      expect(await cipher.hasRetiredKeys()).toBe(true)
+
+      await cipher.forgetRetiredKeys()
+      await expect(cipher.decrypt(old)).rejects.toThrow('No test_rotate key')
+    })
+  })
+
+  test('InternalDB seals task contents but keeps index fields readable', async () => {
+    const backend = new AsyncStorageAdapter()
+    const db = InternalDB.withAdapter(backend, new DataCipher('test_internal'))
+
+    await db.saveTask(task)
+
+    expect(await rawStorageContents()).not.toContain('oncology')
+    const [stored] = await backend.getAllTasks()
+    expect(stored).toMatchObject({ id: task.id, start_time: task.start_time, status: 'pending' })
+    expect((await db.getTaskById(task.id))?.name).toBe(task.name)
+  })
+
+  test('plaintext records are encrypted on open and survive a re-key', async () => {
+    const backend = new AsyncStorageAdapter()
+    await backend.init()
+    await backend.putTasks([{ ...task, colorLabel: 'health', reschedule_count: 0 }])
+    expect(await rawStorageContents()).toContain('oncology')
+
+    const cipher = new DataCipher('test_migrate')
+    const db = InternalDB.withAdapter(backend, cipher)
+    expect((await db.getAllTasks()).map(t => t.name)).toEqual([task.name])
+    expect(await rawStorageContents()).not.toContain('oncology')
+
+    await db.rekey()
+    expect(await cipher.hasRetiredKeys()).toBe(false)
+    const reopened = new EncryptedStorageAdapter(backend, cipher)
+    expect((await reopened.getAllTasks()).map(t => t.name)).toEqual([task.name])
+  })
+
+  test('a re-key that can\'t decrypt every record is aborted and keeps the old keys', async () => {
+    const backend = new AsyncStorageAdapter()
+    const cipher = new DataCipher('test_unreadable')
+    const db = InternalDB.withAdapter(backend, cipher)
+    await db.saveTask(task)
+    // Sealed with a key this store's keyring doesn't hold
+    await new EncryptedStorageAdapter(backend, new DataCipher('test_foreign')).putTasks([{ ...task, id: 'task-2' }])
+
+    await expect(db.rekey()).rejects.toThrow('Could not decrypt 1 task(s) (task-2)')
+    expect(await cipher.hasRetiredKeys()).toBe(true)
+    expect((await backend.getAllTasks()).map(t => t.id)).toEqual(['task-1', 'task-2'])
+    const reopened = new EncryptedStorageAdapter(backend, cipher)
+    expect((await reopened.getAllTasks()).map(t => t.name)).toEqual([task.name])
+  })
+
+  test('clearing InternalDB tasks or actions moves the store to a fresh key', async () => {
+    const backend = new AsyncStorageAdapter()
+    const cipher = new DataCipher('test_clear')
+    const db = InternalDB.withAdapter(backend, cipher)
+    await db.saveTask(task)
+    await db.addAction({ action_type: 'task_started', task_id: task.id, task_name: task.name })
+    const [sealed] = await backend.getAllTasks() as unknown as { sealed: string }[]
+
+    await db.clearAllTasks()
+    await expect(cipher.decrypt(sealed.sealed)).rejects.toThrow('No test_clear key')
+    expect(await cipher.hasRetiredKeys()).toBe(false)
+    const reopened = new EncryptedStorageAdapter(backend, cipher)
+    expect((await reopened.getAllActions()).map(action => action.task_name)).toEqual([task.name])
+
+    const keyBefore = await cipher.getCurrentKeyId()
+    await db.clearAllActions()
+    expect(await cipher.getCurrentKeyId()).not.toBe(keyBefore)
+  })
+
+  test('OfflineDatabase encrypts legacy plaintext on first read and re-keys on clearAll', async () => {
+    const offlineTask = { local_id: 'local-1', name: 'Meet client Jane Doe', user_id: 'u1' } as OfflineTask
+    await AsyncStorage.setItem('@skedai_tasks', JSON.stringify([offlineTask]))
+    const db = new OfflineDatabase()
+
+    expect(await db.getTasks()).toEqual([offlineTask])
+    expect(await AsyncStorage.getItem('@skedai_tasks')).not.toContain('Jane Doe')
+
+    const replaceKey = jest.spyOn(dataCipherFor('offline_db', null), 'replaceKey')
+    await db.clearAll()
+    expect(replaceKey).toHaveBeenCalled()
+    expect(await db.getTasks()).toEqual([])
+  })
+})
@@ -0,0 +1,30 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { MAX_VALUE_BYTES, StorageHealthService, assessUsage, storedSize } from '../storage-health'
+
+describe('storage health', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear()
+  })
+
+  test('grades usage against the limit', () => {
+    expect(assessUsage(10, 100)).toBe('ok')
+    expect(assessUsage(80, 100)).toBe('warning')
+    expect(assessUsage(95, 100)).toBe('critical')
+    expect(assessUsage(10, 100, true)).toBe('warning')
+  })
+
+  test('counts UTF-16 on web and UTF-8 elsewhere', () => {
+    expect(storedSize('k', 'é', 'web')).toBe(4)
+    expect(storedSize('k', 'é', 'android')).toBe(3)
+  })
+
+  test('measures every key, largest first', async () => {
+    await AsyncStorage.multiSet([['small', 'x'], ['large', 'x'.repeat(500)]])
+
+    const usage = await new StorageHealthService().measureKeys()
+
+    expect(usage.map(entry => entry.key)).toEqual(['large', 'small'])
+    expect(usage[0].bytes).toBeGreaterThan(500)
+    expect(usage[0].bytes).toBeLessThan(MAX_VALUE_BYTES)
+  })
+})
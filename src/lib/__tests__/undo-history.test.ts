@@ -0,0 +1,139 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { AsyncStorageAdapter } from '../db/async-storage-adapter'
+import { UndoHistory } from '../undo-history'
+
+// jest-setup mocks the singleton module; these tests need the real implementation
+const { InternalDB } = jest.requireActual('../internal-db') as typeof import('../internal-db')
+
+const taskData = (name: string) => ({
+  name,
+  start_time: '2024-03-01T09:00:00.000Z',
+  end_time: '2024-03-01T10:00:00.000Z',
+  duration: 3600,
+  status: 'pending' as const,
+  priority: 'medium' as const,
+})
+
+async function setup() {
+  const db = InternalDB.withAdapter(new AsyncStorageAdapter())
+  const first = await db.addTask(taskData('First'))
+  const second = await db.addTask(taskData('Second'))
+  return { db, history: new UndoHistory(db, 'undo_test'), first, second }
+}
+
+describe('UndoHistory', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear()
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('undoes and redoes a status change', async () => {
+    const { db, history, first } = await setup()
+
+    await history.updateTask(first.id, { status: 'completed', completed_at: '2024-03-01T10:00:00.000Z' })
+    await history.undo()
+
+    expect(await db.getTaskById(first.id)).toEqual(first)
+
+    await history.redo()
+    expect((await db.getTaskById(first.id))?.status).toBe('completed')
+  })
+
+  test('restores every task after clearAllTasks', async () => {
+    const { db, history, first, second } = await setup()
+
+    await history.clearAllTasks()
+    expect(await db.getAllTasks()).toEqual([])
+
+    await history.undo()
+
+    const restored = await db.getAllTasks()
+    expect(restored.map(task => task.id).sort()).toEqual([first.id, second.id].sort())
+    expect(await db.isTaskDeleted(first.id)).toBe(false)
+  })
+
+  test('restores deleted tasks and deletes them again on redo', async () => {
+    const { db, history, first, second } = await setup()
+
+    await history.deleteMultipleTasks([first.id, second.id])
+    await history.undo()
+    expect(await db.getAllTasks()).toHaveLength(2)
+
+    await history.redo()
+    expect(await db.getAllTasks()).toEqual([])
+    expect(await db.isTaskDeleted(second.id)).toBe(true)
+  })
+
+  test('undoing a clear brings back the deleted-task markers it wiped', async () => {
+    const { db, history, first } = await setup()
+    const solverTask = await db.addTask({ ...taskData('Solver task'), model_id: 'model-1' })
+    await db.deleteTask(solverTask.id)
+
+    await history.clearAllTasks()
+    expect(await db.isTaskDeleted(solverTask.id)).toBe(false)
+
+    await history.undo()
+    expect(await db.getTaskById(first.id)).not.toBeNull()
+    expect(await db.getTombstones()).toEqual([expect.objectContaining({ task_id: solverTask.id, model_id: 'model-1' })])
+
+    await history.redo()
+    expect(await db.getAllTasks()).toEqual([])
+    expect(await db.isTaskDeleted(solverTask.id)).toBe(false)
+  })
+
+  test('a new change clears the redo stack', async () => {
+    const { history, first, second } = await setup()
+
+    await history.deleteTask(first.id)
+    await history.undo()
+    await history.updateTask(second.id, { priority: 'high' })
+
+    expect(await history.canRedo()).toBe(false)
+  })
+
+  test('leaves tasks alone that changed after the step was recorded', async () => {
+    const { db, history, first } = await setup()
+
+    await history.updateTask(first.id, { status: 'completed' })
+    await new Promise(resolve => setTimeout(resolve, 2))
+    await db.updateTask(first.id, { name: 'Renamed by sync' })
+    await history.undo()
+
+    const current = await db.getTaskById(first.id)
+    expect(current?.name).toBe('Renamed by sync')
+    expect(current?.status).toBe('completed')
+  })
+
+  test('keeps a bounded history that survives a restart', async () => {
+    const { db, first } = await setup()
+    const history = new UndoHistory(db, 'undo_test', 2)
+
+    await history.updateTask(first.id, { priority: 'low' }, 'one')
+    await history.updateTask(first.id, { priority: 'high' }, 'two')
+    await history.updateTask(first.id, { priority: 'medium' }, 'three')
+
+    const reopened = new UndoHistory(db, 'undo_test', 2)
+    expect((await reopened.getHistory()).map(entry => entry.label)).toEqual(['two', 'three'])
+
+    await reopened.undo()
+    expect((await db.getTaskById(first.id))?.priority).toBe('high')
+  })
+
+  test('notifies subscribers so the snackbar can offer undo', async () => {
+    const { history, first } = await setup()
+    const listener = jest.fn()
+    history.subscribe(listener)
+
+    await history.deleteTask(first.id, 'Deleted "First"')
+
+    expect(listener).toHaveBeenCalledWith(expect.objectContaining({
+      type: 'recorded',
+      entry: expect.objectContaining({ label: 'Deleted "First"' }),
+    }))
+  })
+})
@@ -0,0 +1,119 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { AsyncStorageAdapter } from '../async-storage-adapter'
+import { TaskArchive, selectArchivable } from '../archive'
+import { DataCipher } from '../../encryption'
+
+const { InternalDB } = jest.requireActual('../../internal-db') as typeof import('../../internal-db')
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function task(id: string, daysAgo: number, status: 'pending' | 'completed' = 'completed') {
+  const start = new Date(Date.now() - daysAgo * DAY_MS)
+  return {
+    id,
+    name: `Task ${id}`,
+    start_time: start.toISOString(),
+    end_time: new Date(start.getTime() + 60 * 60 * 1000).toISOString(),
+    duration: 3600,
+    status,
+    priority: 'medium' as const,
+    completed_at: status === 'completed' ? new Date(start.getTime() + 60 * 60 * 1000).toISOString() : undefined,
+    created_at: start.toISOString(),
+    updated_at: start.toISOString(),
+  }
+}
+
+function action(id: string, daysAgo: number) {
+  return {
+    id,
+    action_type: 'task_completed' as const,
+    task_id: 'old',
+    task_name: 'Task old',
+    timestamp: new Date(Date.now() - daysAgo * DAY_MS).toISOString(),
+  }
+}
+
+async function seed(adapter: AsyncStorageAdapter) {
+  await adapter.init()
+  await adapter.putTasks([task('old', 200), task('recent', 5), task('old-pending', 200, 'pending')])
+  await adapter.putActions([action('old-action', 200), action('recent-action', 5)])
+}
+
+describe('task archive', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear()
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('selects only completed tasks and actions past the cutoff', () => {
+    const selected = selectArchivable(
+      [task('old', 200), task('recent', 5), task('old-pending', 200, 'pending')],
+      [action('old-action', 200), action('recent-action', 5)],
+      { olderThanDays: 90 }
+    )
+
+    expect(selected.tasks.map(t => t.id)).toEqual(['old'])
+    expect(selected.actions.map(a => a.id)).toEqual(['old-action'])
+  })
+
+  test('moves old records out of the hot store and keeps them queryable', async () => {
+    const adapter = new AsyncStorageAdapter()
+    await seed(adapter)
+    const db = InternalDB.withAdapter(adapter)
+
+    expect(await db.archiveOldRecords(90)).toEqual({ tasks: 1, actions: 1 })
+
+    expect((await db.getAllTasks()).map(t => t.id).sort()).toEqual(['old-pending', 'recent'])
+    expect((await db.getAllActions()).map(a => a.id)).toEqual(['recent-action'])
+    expect((await adapter.getAllActions()).map(a => a.id)).toEqual(['recent-action'])
+
+    expect((await db.getArchivedTasks()).map(t => t.id)).toEqual(['old'])
+    expect((await db.getArchivedActions()).map(a => a.id)).toEqual(['old-action'])
+    expect(await db.getArchivedTaskIds()).toEqual(['old'])
+    // Archiving isn't deletion: no tombstone is left behind
+    expect(await db.isTaskDeleted('old')).toBe(false)
+  })
+
+  test('range queries only return archived records inside the range', async () => {
+    const adapter = new AsyncStorageAdapter()
+    await adapter.init()
+    await adapter.putTasks([task('a', 300), task('b', 200)])
+    const db = InternalDB.withAdapter(adapter)
+    await db.archiveOldRecords(90)
+
+    const from = new Date(Date.now() - 250 * DAY_MS)
+    expect((await db.getArchivedTasks({ start: from })).map(t => t.id)).toEqual(['b'])
+    expect((await db.getArchivedTasks({ end: from })).map(t => t.id)).toEqual(['a'])
+    expect(await db.getArchiveSummary()).toMatchObject({ tasks: 2, actions: 0 })
+  })
+
+  test('re-adding records replaces them instead of duplicating', async () => {
+    const adapter = new AsyncStorageAdapter()
+    await adapter.init()
+    const archive = new TaskArchive(adapter, null)
+
+    await archive.add([task('old', 200)], [action('old-action', 200)])
+    await archive.add([{ ...task('old', 200), name: 'Renamed' }], [action('old-action', 200)])
+
+    const tasks = await archive.getTasks()
+    expect(tasks.map(t => t.name)).toEqual(['Renamed'])
+    expect(await archive.getActions()).toHaveLength(1)
+  })
+
+  test('encrypted archives stay readable across a re-key', async () => {
+    const adapter = new AsyncStorageAdapter()
+    await seed(adapter)
+    const db = InternalDB.withAdapter(adapter, new DataCipher('test_archive'))
+    await db.archiveOldRecords(90)
+
+    const stored = await AsyncStorage.multiGet(await AsyncStorage.getAllKeys())
+    expect(stored.map(([, value]) => value).join('\n')).not.toContain('Task old')
+
+    await db.rekey()
+    expect((await db.getArchivedTasks()).map(t => t.name)).toEqual(['Task old'])
+  })
+})
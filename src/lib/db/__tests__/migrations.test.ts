@@ -0,0 +1,105 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { AsyncStorageAdapter } from '../async-storage-adapter'
+import {
+  CURRENT_TASK_SCHEMA_VERSION,
+  TASK_MIGRATIONS,
+  getStoredSchemaVersion,
+  migrateTask,
+  runTaskMigrations,
+} from '../migrations'
+
+const legacyTask = {
+  id: 'task-1',
+  name: 'Legacy task',
+  start_time: '2024-03-01T09:00:00.000Z',
+  end_time: '2024-03-01T10:30:00.000Z',
+  status: 'pending' as const,
+  created_at: '2024-02-01T00:00:00.000Z',
+  updated_at: '2024-02-01T00:00:00.000Z',
+}
+
+describe('InternalTask schema migrations', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear()
+  })
+
+  describe('migration steps', () => {
+    test('are ordered by strictly increasing version', () => {
+      const versions = TASK_MIGRATIONS.map(step => step.version)
+      expect(versions).toEqual([...versions].sort((a, b) => a - b))
+      expect(new Set(versions).size).toBe(versions.length)
+      expect(CURRENT_TASK_SCHEMA_VERSION).toBe(versions[versions.length - 1])
+    })
+
+    test('backfill every field on a version 0 record', () => {
+      const migrated = migrateTask(legacyTask, 0)
+
+      expect(migrated.colorLabel).toBe('none')
+      expect(migrated.reschedule_count).toBe(0)
+      expect(migrated.priority).toBe('medium')
+      expect(migrated.duration).toBe(90 * 60)
+    })
+
+    test('keep values that are already set', () => {
+      const migrated = migrateTask(
+        { ...legacyTask, colorLabel: 'work', reschedule_count: 3, priority: 'high', duration: 60 },
+        0
+      )
+
+      expect(migrated.colorLabel).toBe('work')
+      expect(migrated.reschedule_count).toBe(3)
+      expect(migrated.priority).toBe('high')
+      expect(migrated.duration).toBe(60)
+    })
+
+    test('only apply steps newer than the stored version', () => {
+      const migrated = migrateTask({ ...legacyTask, priority: 'low', duration: 10 }, 1)
+
+      // Step 1 (colorLabel) is skipped, later steps still run
+      expect(migrated.colorLabel).toBeUndefined()
+      expect(migrated.reschedule_count).toBe(0)
+    })
+
+    test('replace an unknown priority with medium', () => {
+      const migrated = migrateTask({ ...legacyTask, priority: 'urgent' as any }, 0)
+      expect(migrated.priority).toBe('medium')
+    })
+  })
+
+  describe('runTaskMigrations', () => {
+    test('upgrades stored tasks and records the schema version', async () => {
+      const adapter = new AsyncStorageAdapter()
+      await adapter.init()
+      await adapter.putTasks([legacyTask as any])
+
+      const version = await runTaskMigrations(adapter)
+
+      expect(version).toBe(CURRENT_TASK_SCHEMA_VERSION)
+      expect(await getStoredSchemaVersion(adapter)).toBe(CURRENT_TASK_SCHEMA_VERSION)
+      const [stored] = await adapter.getAllTasks()
+      expect(stored.colorLabel).toBe('none')
+      expect(stored.reschedule_count).toBe(0)
+    })
+
+    test('runs only once per schema version', async () => {
+      const adapter = new AsyncStorageAdapter()
+      await adapter.init()
+      await runTaskMigrations(adapter)
+
+      const putTasks = jest.spyOn(adapter, 'putTasks')
+      await runTaskMigrations(adapter)
+
+      expect(putTasks).not.toHaveBeenCalled()
+    })
+
+    test('leaves the version untouched when saving migrated rows fails', async () => {
+      const adapter = new AsyncStorageAdapter()
+      await adapter.init()
+      await adapter.putTasks([legacyTask as any])
+      jest.spyOn(adapter, 'putTasks').mockRejectedValueOnce(new Error('disk full'))
+
+      await expect(runTaskMigrations(adapter)).rejects.toThrow('disk full')
+      expect(await getStoredSchemaVersion(adapter)).toBe(0)
+    })
+  })
+})
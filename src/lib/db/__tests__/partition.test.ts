@@ -0,0 +1,126 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { AsyncStorageAdapter } from '../async-storage-adapter'
+import { OfflineDatabase, OfflineTask } from '../../offline/database'
+
+const { InternalDB } = jest.requireActual('../../internal-db') as typeof import('../../internal-db')
+
+const USER_1 = 'user-1'
+const USER_2 = 'user-2'
+
+function task(id: string, name: string) {
+  return {
+    id,
+    name,
+    start_time: '2024-03-01T09:00:00.000Z',
+    end_time: '2024-03-01T10:00:00.000Z',
+    duration: 3600,
+    status: 'pending' as const,
+    priority: 'medium' as const,
+    created_at: '2024-02-01T00:00:00.000Z',
+    updated_at: '2024-02-01T00:00:00.000Z',
+  }
+}
+
+function createDB() {
+  return InternalDB.withStores(namespace => ({ adapter: new AsyncStorageAdapter(namespace), cipher: null }))
+}
+
+async function storedKeys(): Promise<string[]> {
+  return [...(await AsyncStorage.getAllKeys())].sort()
+}
+
+describe('per-user partitioning', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear()
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+    OfflineDatabase.setActiveNamespace(null)
+  })
+
+  test('tasks saved by one user are not visible to another', async () => {
+    const db = createDB()
+    await db.switchNamespace(USER_1)
+    await db.saveTask(task('a', 'User one task'))
+
+    await db.switchNamespace(USER_2)
+    expect(await db.getAllTasks()).toEqual([])
+    await db.saveTask(task('b', 'User two task'))
+
+    await db.switchNamespace(USER_1)
+    expect((await db.getAllTasks()).map(t => t.id)).toEqual(['a'])
+  })
+
+  test('switching notifies subscribers so live views re-query', async () => {
+    const db = createDB()
+    const listener = jest.fn()
+    db.subscribe(listener)
+
+    await db.switchNamespace(USER_1)
+    await db.switchNamespace(USER_1)
+
+    expect(listener).toHaveBeenCalledTimes(2)
+    expect(listener).toHaveBeenCalledWith({ type: 'tasks_cleared' })
+  })
+
+  test('adopting moves unscoped data into the user store', async () => {
+    const db = createDB()
+    await db.saveTask(task('legacy', 'Written before partitioning'))
+    await db.deleteTask('legacy')
+    await db.saveTask(task('kept', 'Kept task'))
+
+    await db.switchNamespace(USER_1, { adoptUnscoped: true })
+
+    expect((await db.getAllTasks()).map(t => t.id)).toEqual(['kept'])
+    expect(await db.isTaskDeleted('legacy')).toBe(true)
+    expect((await storedKeys()).filter(key => key.startsWith('internal_db:'))).toEqual([])
+
+    await db.switchNamespace(USER_2)
+    expect(await db.getAllTasks()).toEqual([])
+  })
+
+  test('purging removes only that user\'s store', async () => {
+    const db = createDB()
+    await db.switchNamespace(USER_1)
+    await db.saveTask(task('a', 'User one task'))
+    await db.switchNamespace(USER_2)
+    await db.saveTask(task('b', 'User two task'))
+
+    await db.purgeNamespace(USER_1)
+
+    const keys = await storedKeys()
+    expect(keys.some(key => key.startsWith(`internal_db_${USER_1}:`))).toBe(false)
+    expect(keys.some(key => key.startsWith(`internal_db_${USER_2}:`))).toBe(true)
+    expect((await db.getAllTasks()).map(t => t.id)).toEqual(['b'])
+  })
+
+  test('purging the active user switches to the signed-out store first', async () => {
+    const db = createDB()
+    await db.switchNamespace(USER_1)
+    await db.saveTask(task('a', 'User one task'))
+
+    await db.purgeNamespace(USER_1)
+
+    expect(db.getNamespace()).toBeNull()
+    expect(await db.getAllTasks()).toEqual([])
+  })
+
+  test('OfflineDatabase keeps a task list per user and adopts unscoped tasks once', async () => {
+    const offlineTask = (localId: string) => ({ local_id: localId, name: localId, user_id: USER_1 }) as OfflineTask
+    await new OfflineDatabase(null).saveTasks([offlineTask('legacy')])
+
+    const user1 = new OfflineDatabase(USER_1)
+    await user1.saveTasks([offlineTask('mine')])
+    await user1.adoptUnscopedData()
+
+    expect((await user1.getTasks()).map(t => t.local_id)).toEqual(['mine', 'legacy'])
+    expect(await new OfflineDatabase(null).getTasks()).toEqual([])
+    expect(await new OfflineDatabase(USER_2).getTasks()).toEqual([])
+
+    OfflineDatabase.setActiveNamespace(USER_2)
+    await new OfflineDatabase().saveTasks([offlineTask('theirs')])
+    expect((await user1.getTasks()).map(t => t.local_id)).toEqual(['mine', 'legacy'])
+  })
+})
@@ -0,0 +1,66 @@
+import type { InternalTask } from '../../internal-db'
+import { scoreTaskName, searchTasks } from '../search'
+
+const task = (id: string, name: string, overrides: Partial<InternalTask> = {}): InternalTask => ({
+  id,
+  name,
+  start_time: '2024-03-01T09:00:00.000Z',
+  end_time: '2024-03-01T10:00:00.000Z',
+  duration: 3600,
+  status: 'pending',
+  priority: 'medium',
+  colorLabel: 'none',
+  created_at: '2024-02-01T00:00:00.000Z',
+  updated_at: '2024-02-01T00:00:00.000Z',
+  ...overrides,
+})
+
+const tasks = [
+  task('1', 'Weekly report', { colorLabel: 'work', priority: 'high' }),
+  task('2', 'Report review meeting', { colorLabel: 'meeting', start_time: '2024-03-02T09:00:00.000Z', end_time: '2024-03-02T10:00:00.000Z' }),
+  task('3', 'Gym', { colorLabel: 'health', status: 'completed' }),
+  task('4', 'Write quarterly report', { priority: 'low', start_time: '2024-03-05T09:00:00.000Z', end_time: '2024-03-05T10:00:00.000Z' }),
+]
+
+describe('task search', () => {
+  test('ranks exact, prefix, word prefix, substring and fuzzy matches in that order', () => {
+    const exact = scoreTaskName('Report', 'report')
+    const prefix = scoreTaskName('Report review', 'rep')
+    const wordPrefix = scoreTaskName('Weekly report', 'rep')
+    const substring = scoreTaskName('Weekly report', 'port')
+    const fuzzy = scoreTaskName('Weekly report', 'wkrpt')
+
+    expect(exact).toBeGreaterThan(prefix)
+    expect(prefix).toBeGreaterThan(wordPrefix)
+    expect(wordPrefix).toBeGreaterThan(substring)
+    expect(substring).toBeGreaterThan(fuzzy)
+    expect(fuzzy).toBeGreaterThan(0)
+    expect(scoreTaskName('Weekly report', 'wkrpt', false)).toBe(0)
+  })
+
+  test('ignores case and accents and requires every word to match', () => {
+    expect(scoreTaskName('Café meeting', 'CAFE')).toBeGreaterThan(0)
+    expect(scoreTaskName('Weekly report', 'weekly gym')).toBe(0)
+  })
+
+  test('orders results by relevance, then start time', () => {
+    const results = searchTasks(tasks, { text: 'report' })
+    expect(results.map(result => result.task.id)).toEqual(['2', '1', '4'])
+  })
+
+  test('filters by status, priority, color label and date range', () => {
+    expect(searchTasks(tasks, { statuses: ['completed'] }).map(r => r.task.id)).toEqual(['3'])
+    expect(searchTasks(tasks, { text: 'report', priorities: ['high', 'low'] }).map(r => r.task.id)).toEqual(['1', '4'])
+    expect(searchTasks(tasks, { colorLabels: ['meeting', 'health'] }).map(r => r.task.id)).toEqual(['3', '2'])
+    expect(searchTasks(tasks, {
+      start: new Date('2024-03-02T00:00:00.000Z'),
+      end: new Date('2024-03-06T00:00:00.000Z'),
+    }).map(r => r.task.id)).toEqual(['2', '4'])
+  })
+
+  test('treats a missing color label as none and honours the limit', () => {
+    const unlabeled = task('5', 'Unlabeled', { colorLabel: undefined })
+    expect(searchTasks([unlabeled], { colorLabels: ['none'] })).toHaveLength(1)
+    expect(searchTasks(tasks, { text: 'report', limit: 1 })).toHaveLength(1)
+  })
+})
@@ -0,0 +1,98 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { AsyncStorageAdapter } from '../async-storage-adapter'
+import { DEFAULT_TOMBSTONE_RETENTION_MS, collectableTombstoneIds, createTombstone } from '../tombstones'
+
+const { InternalDB } = jest.requireActual('../../internal-db') as typeof import('../../internal-db')
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const now = Date.parse('2024-06-01T12:00:00.000Z')
+const daysAgo = (days: number) => new Date(now - days * DAY_MS)
+
+const taskData = {
+  name: 'Synced task',
+  start_time: '2024-06-01T09:00:00.000Z',
+  end_time: '2024-06-01T10:00:00.000Z',
+  duration: 3600,
+  status: 'pending' as const,
+  priority: 'medium' as const,
+}
+
+describe('deleted task tombstones', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear()
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe('collectableTombstoneIds', () => {
+    test('collects tombstones older than the retention window', () => {
+      const tombstones = [
+        createTombstone('fresh', null, daysAgo(1)),
+        createTombstone('old', null, daysAgo(45)),
+      ]
+
+      expect(collectableTombstoneIds(tombstones, { now })).toEqual(['old'])
+      expect(collectableTombstoneIds(tombstones, { now, retentionMs: DAY_MS / 2 })).toEqual(['fresh', 'old'])
+      expect(DEFAULT_TOMBSTONE_RETENTION_MS).toBeGreaterThan(DAY_MS)
+    })
+
+    test('collects tombstones the model solution no longer contains', () => {
+      const tombstones = [
+        createTombstone('gone', 'model-1', daysAgo(1)),
+        createTombstone('still-scheduled', 'model-1', daysAgo(1)),
+        createTombstone('other-model', 'model-2', daysAgo(1)),
+        createTombstone('local', null, daysAgo(1)),
+      ]
+
+      const collected = collectableTombstoneIds(tombstones, {
+        now,
+        solution: { modelId: 'model-1', taskIds: ['still-scheduled'] },
+      })
+
+      expect(collected).toEqual(['gone'])
+    })
+  })
+
+  test('upgrades bare ids written by older builds', async () => {
+    await AsyncStorage.setItem('internal_db:deleted_task_ids', JSON.stringify(['task-1']))
+    const adapter = new AsyncStorageAdapter()
+    await adapter.init()
+
+    const [tombstone] = await adapter.getTombstones()
+
+    expect(tombstone).toMatchObject({ task_id: 'task-1', model_id: null })
+    expect(Number.isNaN(Date.parse(tombstone.deleted_at))).toBe(false)
+  })
+
+  test('deleteTask records the originating model and sync GC removes it', async () => {
+    const db = InternalDB.withAdapter(new AsyncStorageAdapter())
+    const task = await db.addTask({ ...taskData, model_id: 'model-1' })
+    await db.deleteTask(task.id)
+
+    const [tombstone] = await db.getTombstones()
+    expect(tombstone).toMatchObject({ task_id: task.id, model_id: 'model-1' })
+
+    expect(await db.collectTombstoneGarbage({ modelId: 'model-2', taskIds: [] })).toBe(0)
+    expect(await db.isTaskDeleted(task.id)).toBe(true)
+
+    expect(await db.collectTombstoneGarbage({ modelId: 'model-1', taskIds: ['another-task'] })).toBe(1)
+    expect(await db.isTaskDeleted(task.id)).toBe(false)
+  })
+
+  test('expired tombstones are dropped when the database loads', async () => {
+    const adapter = new AsyncStorageAdapter()
+    await adapter.init()
+    await adapter.putTombstones([
+      createTombstone('expired', null, new Date(Date.now() - 60 * DAY_MS)),
+      createTombstone('recent', null),
+    ])
+
+    const db = InternalDB.withAdapter(adapter)
+
+    expect(await db.getDeletedTaskIds()).toEqual(['recent'])
+    expect((await adapter.getTombstones()).map(tombstone => tombstone.task_id)).toEqual(['recent'])
+  })
+})
@@ -0,0 +1,140 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { AsyncStorageAdapter } from '../async-storage-adapter'
+
+// jest-setup mocks the singleton module; these tests need the real implementation
+const { InternalDB } = jest.requireActual('../../internal-db') as typeof import('../../internal-db')
+
+const taskData = {
+  name: 'Write report',
+  start_time: '2024-03-01T09:00:00.000Z',
+  end_time: '2024-03-01T10:00:00.000Z',
+  duration: 3600,
+  status: 'pending' as const,
+  priority: 'medium' as const,
+}
+
+async function createDB() {
+  const adapter = new AsyncStorageAdapter()
+  const db = InternalDB.withAdapter(adapter)
+  await db.getAllTasks()
+  return { db, adapter }
+}
+
+describe('InternalDB.transaction', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear()
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('commits every staged change together and emits events afterwards', async () => {
+    const { db, adapter } = await createDB()
+    const events: string[] = []
+    db.subscribe(event => events.push(event.type))
+
+    const task = await db.transaction(tx => {
+      const created = tx.addTask(taskData)
+      tx.addAction({ action_type: 'task_started', task_id: created.id, task_name: created.name })
+      expect(tx.getTaskById(created.id)).toEqual(created)
+      expect(events).toEqual([])
+      return created
+    })
+
+    expect(events).toEqual(['task_added', 'action_added'])
+    expect(await adapter.getAllTasks()).toEqual([task])
+    expect(await adapter.getAllActions()).toHaveLength(1)
+  })
+
+  test('rolls back when the callback throws', async () => {
+    const { db, adapter } = await createDB()
+    const listener = jest.fn()
+    db.subscribe(listener)
+
+    await expect(db.transaction(tx => {
+      tx.addTask(taskData)
+      throw new Error('abort')
+    })).rejects.toThrow('abort')
+
+    expect(listener).not.toHaveBeenCalled()
+    expect(await db.getAllTasks()).toEqual([])
+    expect(await adapter.getAllTasks()).toEqual([])
+  })
+
+  test('leaves the cache untouched when the commit fails', async () => {
+    const { db, adapter } = await createDB()
+    const task = await db.addTask(taskData)
+    jest.spyOn(adapter, 'commit').mockRejectedValueOnce(new Error('disk full'))
+
+    await expect(db.deleteTask(task.id)).rejects.toThrow('disk full')
+
+    expect(await db.getTaskById(task.id)).toEqual(task)
+    expect(await db.isTaskDeleted(task.id)).toBe(false)
+  })
+
+  test('deletes a task and records its tombstone in one commit', async () => {
+    const { db, adapter } = await createDB()
+    const task = await db.addTask(taskData)
+    const commit = jest.spyOn(adapter, 'commit')
+
+    await db.deleteTask(task.id)
+
+    expect(commit).toHaveBeenCalledTimes(1)
+    expect(commit.mock.calls[0][0]).toMatchObject({ deleteTaskIds: [task.id], putTombstones: [{ task_id: task.id }] })
+    expect((await adapter.getTombstones()).map(tombstone => tombstone.task_id)).toEqual([task.id])
+  })
+
+  test('rolls storage back when a write fails partway through a commit', async () => {
+    const { db, adapter } = await createDB()
+    const task = await db.addTask(taskData)
+    // The tasks are written, then writing the action fails
+    const multiSet = jest.mocked(AsyncStorage.multiSet)
+    const writeAll = multiSet.getMockImplementation()!
+    multiSet.mockImplementation((...args: Parameters<typeof AsyncStorage.multiSet>) =>
+      args[0].some(([key]) => key.includes(':action:'))
+        ? Promise.reject(new Error('disk full'))
+        : writeAll(...args)
+    )
+
+    let addedId = ''
+    await expect(db.transaction(tx => {
+      tx.updateTask(task.id, { status: 'completed' })
+      addedId = tx.addTask({ ...taskData, name: 'Follow-up' }).id
+      tx.addAction({ action_type: 'task_completed', task_id: task.id, task_name: task.name })
+    })).rejects.toThrow('disk full')
+    multiSet.mockImplementation(writeAll)
+
+    expect(await adapter.getAllTasks()).toEqual([task])
+    expect(await adapter.getAllActions()).toEqual([])
+
+    // Nothing left to replay, and the index the adapter keeps in memory was put back too
+    const reopened = new AsyncStorageAdapter()
+    await reopened.init()
+    expect(await reopened.getAllTasks()).toEqual([task])
+    await db.updateTask(task.id, { priority: 'high' })
+    expect(JSON.parse((await AsyncStorage.getItem('internal_db:task_ids'))!)).toEqual([task.id])
+    expect(await AsyncStorage.getItem(`internal_db:task:${addedId}`)).toBeNull()
+  })
+
+  test('replays a journaled batch that was interrupted', async () => {
+    const { db, adapter } = await createDB()
+    const task = await db.addTask(taskData)
+    // The app dies while the actions are being written
+    jest.spyOn(adapter, 'putActions').mockReturnValueOnce(new Promise(() => {}))
+
+    db.transaction(tx => {
+      tx.updateTask(task.id, { status: 'completed' })
+      tx.addAction({ action_type: 'task_completed', task_id: task.id, task_name: task.name })
+    })
+    await new Promise(resolve => setTimeout(resolve, 10))
+
+    const reopened = new AsyncStorageAdapter()
+    await reopened.init()
+    const [stored] = await reopened.getAllTasks()
+    expect(stored.status).toBe('completed')
+    expect(await reopened.getAllActions()).toHaveLength(1)
+  })
+})
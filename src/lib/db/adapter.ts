@@ -0,0 +1,85 @@
+import type { InternalTask, InternalAction } from '../internal-db'
+import type { DeletedTaskTombstone } from './tombstones'
+
+// Mutations staged by an InternalDB transaction, applied by the adapter as one atomic unit.
+// Clears run first, then deletes, then puts.
+export interface StorageBatch {
+  clearTasks?: boolean
+  clearActions?: boolean
+  clearTombstones?: boolean
+  putTasks: InternalTask[]
+  deleteTaskIds: string[]
+  putActions: InternalAction[]
+  deleteActionIds: string[]
+  putTombstones: DeletedTaskTombstone[]
+  deleteTombstoneIds: string[]
+  putMeta?: Record<string, string> // bookkeeping that must land with the records, e.g. a sync high-water mark
+}
+
+export function emptyBatch(): StorageBatch {
+  return { putTasks: [], deleteTaskIds: [], putActions: [], deleteActionIds: [], putTombstones: [], deleteTombstoneIds: [] }
+}
+
+export function isEmptyBatch(batch: StorageBatch): boolean {
+  return !batch.clearTasks && !batch.clearActions && !batch.clearTombstones &&
+    batch.putTasks.length === 0 && batch.deleteTaskIds.length === 0 && batch.putActions.length === 0 &&
+    batch.deleteActionIds.length === 0 && batch.putTombstones.length === 0 && batch.deleteTombstoneIds.length === 0 &&
+    Object.keys(batch.putMeta ?? {}).length === 0
+}
+
+// Storage backend used by InternalDB.
+// Every write is per-row: callers pass only the records that changed, never the whole collection.
+export interface InternalStorageAdapter {
+  readonly name: string
+
+  // Open the backing store and create tables/indexes if needed
+  init(): Promise<void>
+
+  // Release the backing store; init() reopens it
+  close(): Promise<void>
+
+  // Delete everything this store holds, including its meta area
+  destroy(): Promise<void>
+
+  // Tasks
+  getAllTasks(): Promise<InternalTask[]>
+  getTasksInRange(startMs: number, endMs: number): Promise<InternalTask[]> // overlapping [startMs, endMs)
+  getTasksByStatus(status: InternalTask['status']): Promise<InternalTask[]>
+  putTasks(tasks: InternalTask[]): Promise<void>
+  deleteTasks(ids: string[]): Promise<void>
+  clearTasks(): Promise<void>
+
+  // Actions
+  getAllActions(): Promise<InternalAction[]>
+  putActions(actions: InternalAction[]): Promise<void>
+  deleteActions(ids: string[]): Promise<void>
+  clearActions(): Promise<void>
+
+  // Deleted task tombstones, keyed by task id
+  getTombstones(): Promise<DeletedTaskTombstone[]>
+  putTombstones(tombstones: DeletedTaskTombstone[]): Promise<void>
+  deleteTombstones(taskIds: string[]): Promise<void>
+  clearTombstones(): Promise<void>
+
+  // Apply every mutation in the batch, or none of them
+  commit(batch: StorageBatch): Promise<void>
+
+  // Small key/value area for bookkeeping (migration flags, archive buckets etc.)
+  getMeta(key: string): Promise<string | null>
+  setMeta(key: string, value: string): Promise<void>
+
+  // Size of the backend's own database file; null when its data lives in AsyncStorage
+  getFileSize(): Promise<number | null>
+}
+
+// Millisecond timestamp used for indexed range queries.
+// Unparseable dates sort first instead of poisoning the index with NaN.
+export function toEpochMs(isoString: string | undefined): number {
+  if (!isoString) return 0
+  const ms = new Date(isoString).getTime()
+  return Number.isNaN(ms) ? 0 : ms
+}
+
+export function byStartTime(a: InternalTask, b: InternalTask): number {
+  return toEpochMs(a.start_time) - toEpochMs(b.start_time)
+}
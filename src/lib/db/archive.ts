@@ -0,0 +1,199 @@
+import { deflateSync, inflateSync } from 'zlib'
+import { Buffer } from 'buffer'
+import type { InternalTask, InternalAction } from '../internal-db'
+import type { DataCipher } from '../encryption'
+import { InternalStorageAdapter, byStartTime, toEpochMs } from './adapter'
+
+// Completed tasks and actions older than this move out of the hot tables
+export const DEFAULT_ARCHIVE_AFTER_DAYS = 90
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const INDEX_META_KEY = 'archive_index'
+
+type ArchiveKind = 'tasks' | 'actions'
+
+const bucketMetaKey = (kind: ArchiveKind, month: string) => `archive:${kind}:${month}`
+
+// Records are bucketed by UTC month (YYYY-MM): tasks by scheduled end, so a range query knows
+// which buckets can overlap it; actions by timestamp
+const monthOf = (isoString: string | undefined) => new Date(toEpochMs(isoString)).toISOString().slice(0, 7)
+
+interface ArchiveBucketInfo {
+  kind: ArchiveKind
+  month: string
+  count: number
+  bytes: number
+}
+
+interface ArchiveIndex {
+  buckets: ArchiveBucketInfo[]
+  taskIds: string[] // every archived task, so a sync doesn't bring one back
+}
+
+export interface ArchiveSummary {
+  tasks: number
+  actions: number
+  bytes: number
+  oldestMonth: string | null
+}
+
+export interface ArchiveRange {
+  start?: Date
+  end?: Date
+}
+
+// When a task stopped changing: its completion, or its scheduled end for older records without one
+function finishedAt(task: InternalTask): number {
+  return toEpochMs(task.completed_at ?? task.end_time)
+}
+
+/**
+ * Pick what an archive run should move: completed tasks that finished, and actions logged,
+ * more than `olderThanDays` ago.
+ */
+export function selectArchivable(
+  tasks: InternalTask[],
+  actions: InternalAction[],
+  { olderThanDays, now = Date.now() }: { olderThanDays: number; now?: number }
+): { tasks: InternalTask[]; actions: InternalAction[] } {
+  const cutoff = now - olderThanDays * DAY_MS
+  return {
+    tasks: tasks.filter(task => task.status === 'completed' && finishedAt(task) < cutoff),
+    actions: actions.filter(action => toEpochMs(action.timestamp) < cutoff),
+  }
+}
+
+/**
+ * Cold storage for finished tasks and old actions, kept in the store's meta area.
+ * Records are grouped into monthly buckets, each deflated and (with a cipher) encrypted,
+ * so history stays queryable without bloating the hot tables.
+ */
+export class TaskArchive {
+  constructor(private readonly adapter: InternalStorageAdapter, private readonly cipher: DataCipher | null) {}
+
+  private async encode(records: unknown[]): Promise<string> {
+    const compressed = deflateSync(Buffer.from(JSON.stringify(records), 'utf8')).toString('base64')
+    return this.cipher ? this.cipher.encrypt(compressed) : compressed
+  }
+
+  private async decode<T>(stored: string): Promise<T[]> {
+    const compressed = this.cipher ? await this.cipher.decrypt(stored) : stored
+    return JSON.parse(inflateSync(Buffer.from(compressed, 'base64')).toString('utf8'))
+  }
+
+  private async getIndex(): Promise<ArchiveIndex> {
+    const stored = await this.adapter.getMeta(INDEX_META_KEY)
+    return stored ? JSON.parse(stored) : { buckets: [], taskIds: [] }
+  }
+
+  private async readBucket<T>(kind: ArchiveKind, month: string): Promise<T[]> {
+    const stored = await this.adapter.getMeta(bucketMetaKey(kind, month))
+    return stored ? this.decode<T>(stored) : []
+  }
+
+  private async writeBucket(kind: ArchiveKind, month: string, records: { id: string }[]): Promise<ArchiveBucketInfo> {
+    const encoded = await this.encode(records)
+    await this.adapter.setMeta(bucketMetaKey(kind, month), encoded)
+    return { kind, month, count: records.length, bytes: encoded.length }
+  }
+
+  // Merge records into their buckets. Records already archived are replaced, so a retried run is harmless.
+  private async addToBuckets<T extends { id: string }>(kind: ArchiveKind, records: T[], monthFor: (record: T) => string): Promise<ArchiveBucketInfo[]> {
+    const byMonth = new Map<string, T[]>()
+    for (const record of records) {
+      const month = monthFor(record)
+      byMonth.set(month, [...(byMonth.get(month) ?? []), record])
+    }
+
+    const written: ArchiveBucketInfo[] = []
+    for (const [month, added] of byMonth) {
+      const addedIds = new Set(added.map(record => record.id))
+      const existing = (await this.readBucket<T>(kind, month)).filter(record => !addedIds.has(record.id))
+      written.push(await this.writeBucket(kind, month, [...existing, ...added]))
+    }
+    return written
+  }
+
+  // Buckets are written before the index, so a crash in between loses nothing: the records are still in the hot store
+  async add(tasks: InternalTask[], actions: InternalAction[]): Promise<void> {
+    if (tasks.length === 0 && actions.length === 0) return
+
+    const written = [
+      ...await this.addToBuckets('tasks', tasks, task => monthOf(task.end_time)),
+      ...await this.addToBuckets('actions', actions, action => monthOf(action.timestamp)),
+    ]
+
+    const index = await this.getIndex()
+    const isRewritten = (bucket: ArchiveBucketInfo) =>
+      written.some(info => info.kind === bucket.kind && info.month === bucket.month)
+    index.buckets = [...index.buckets.filter(bucket => !isRewritten(bucket)), ...written]
+      .sort((a, b) => a.month.localeCompare(b.month))
+    index.taskIds = Array.from(new Set([...index.taskIds, ...tasks.map(task => task.id)]))
+    await this.adapter.setMeta(INDEX_META_KEY, JSON.stringify(index))
+  }
+
+  // Only buckets that can hold records inside the range are opened
+  private async query<T>(kind: ArchiveKind, range: ArchiveRange, matches: (record: T) => boolean): Promise<T[]> {
+    const fromMonth = range.start ? monthOf(range.start.toISOString()) : null
+    const months = (await this.getIndex()).buckets
+      .filter(bucket => bucket.kind === kind && (!fromMonth || bucket.month >= fromMonth))
+      .map(bucket => bucket.month)
+
+    const records: T[] = []
+    for (const month of months) {
+      records.push(...(await this.readBucket<T>(kind, month)).filter(matches))
+    }
+    return records
+  }
+
+  // Archived tasks overlapping [start, end), by start time
+  async getTasks(range: ArchiveRange = {}): Promise<InternalTask[]> {
+    const startMs = range.start?.getTime() ?? -Infinity
+    const endMs = range.end?.getTime() ?? Infinity
+    const tasks = await this.query<InternalTask>('tasks', range, task =>
+      toEpochMs(task.start_time) < endMs && toEpochMs(task.end_time) > startMs
+    )
+    return tasks.sort(byStartTime)
+  }
+
+  // Archived actions logged within [start, end), newest first
+  async getActions(range: ArchiveRange = {}): Promise<InternalAction[]> {
+    const startMs = range.start?.getTime() ?? -Infinity
+    const endMs = range.end?.getTime() ?? Infinity
+    const actions = await this.query<InternalAction>('actions', range, action => {
+      const ms = toEpochMs(action.timestamp)
+      return ms >= startMs && ms < endMs
+    })
+    return actions.sort((a, b) => toEpochMs(b.timestamp) - toEpochMs(a.timestamp))
+  }
+
+  async getTaskIds(): Promise<string[]> {
+    return (await this.getIndex()).taskIds
+  }
+
+  async getSummary(): Promise<ArchiveSummary> {
+    const { buckets } = await this.getIndex()
+    const total = (kind: ArchiveKind) => buckets
+      .filter(bucket => bucket.kind === kind)
+      .reduce((sum, bucket) => sum + bucket.count, 0)
+    return {
+      tasks: total('tasks'),
+      actions: total('actions'),
+      bytes: buckets.reduce((sum, bucket) => sum + bucket.bytes, 0),
+      oldestMonth: buckets[0]?.month ?? null,
+    }
+  }
+
+  // Rewrite every bucket under the cipher's current key; run before retired keys are forgotten
+  async reencrypt(): Promise<number> {
+    const index = await this.getIndex()
+    if (!this.cipher || index.buckets.length === 0) return 0
+    const rewritten: ArchiveBucketInfo[] = []
+    for (const bucket of index.buckets) {
+      const records = await this.readBucket<{ id: string }>(bucket.kind, bucket.month)
+      rewritten.push(await this.writeBucket(bucket.kind, bucket.month, records))
+    }
+    await this.adapter.setMeta(INDEX_META_KEY, JSON.stringify({ ...index, buckets: rewritten }))
+    return rewritten.length
+  }
+}
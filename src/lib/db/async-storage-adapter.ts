@@ -0,0 +1,288 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import type { InternalTask, InternalAction } from '../internal-db'
+import { InternalStorageAdapter, StorageBatch, byStartTime, toEpochMs } from './adapter'
+import { DeletedTaskTombstone, createTombstone } from './tombstones'
+
+// Fallback backend for platforms without SQLite (web, Expo Go).
+// Each record lives under its own key; the id indexes are only rewritten when ids are added or removed.
+const PREFIX = 'internal_db'
+
+// Keys for one store. Namespaced (per-user) stores use `internal_db_<namespace>:`, so no prefix contains another;
+// the unscoped store keeps the original `internal_db:` keys.
+function storageKeys(namespace: string | null) {
+  const prefix = namespace ? `${PREFIX}_${namespace}:` : `${PREFIX}:`
+  return {
+    prefix,
+    taskIndex: `${prefix}task_ids`,
+    actionIndex: `${prefix}action_ids`,
+    tombstones: `${prefix}deleted_task_ids`,
+    // Write-ahead journal: a batch is recorded here before it is applied and replayed on the next init() if the app died midway
+    journal: `${prefix}journal`,
+    task: (id: string) => `${prefix}task:${id}`,
+    action: (id: string) => `${prefix}action:${id}`,
+    meta: (key: string) => `${prefix}meta:${key}`,
+  }
+}
+
+type StorageKeys = ReturnType<typeof storageKeys>
+
+function parseIdList(stored: string | null): string[] {
+  if (!stored) return []
+  const parsed = JSON.parse(stored)
+  return Array.isArray(parsed) ? parsed.filter((id: unknown) => typeof id === 'string') : []
+}
+
+async function readIdList(key: string): Promise<string[]> {
+  return parseIdList(await AsyncStorage.getItem(key))
+}
+
+// Older builds stored bare task ids here; those are upgraded to tombstones dated now
+async function readTombstones(key: string): Promise<Map<string, DeletedTaskTombstone>> {
+  const stored = await AsyncStorage.getItem(key)
+  const parsed = stored ? JSON.parse(stored) : []
+  const tombstones = new Map<string, DeletedTaskTombstone>()
+  if (!Array.isArray(parsed)) return tombstones
+
+  for (const entry of parsed) {
+    const tombstone = typeof entry === 'string' ? createTombstone(entry) : entry
+    if (tombstone && typeof tombstone.task_id === 'string') {
+      tombstones.set(tombstone.task_id, tombstone)
+    }
+  }
+  return tombstones
+}
+
+async function writeTombstones(key: string, tombstones: Map<string, DeletedTaskTombstone>): Promise<void> {
+  await AsyncStorage.setItem(key, JSON.stringify(Array.from(tombstones.values())))
+}
+
+async function readRecords<T>(keys: string[]): Promise<T[]> {
+  if (keys.length === 0) return []
+  const entries = await AsyncStorage.multiGet(keys)
+  const records: T[] = []
+  for (const [, value] of entries) {
+    if (value) records.push(JSON.parse(value))
+  }
+  return records
+}
+
+export class AsyncStorageAdapter implements InternalStorageAdapter {
+  readonly name = 'async-storage'
+  private taskIds: Set<string> | null = null
+  private actionIds: Set<string> | null = null
+  private readonly keys: StorageKeys
+
+  constructor(namespace: string | null = null) {
+    this.keys = storageKeys(namespace)
+  }
+
+  async init(): Promise<void> {
+    if (this.taskIds && this.actionIds) return
+    this.taskIds = new Set(await readIdList(this.keys.taskIndex))
+    this.actionIds = new Set(await readIdList(this.keys.actionIndex))
+
+    const journal = await AsyncStorage.getItem(this.keys.journal)
+    if (journal) {
+      console.log('🔁 Replaying interrupted internal DB commit')
+      await this.applyBatch(JSON.parse(journal))
+      await AsyncStorage.removeItem(this.keys.journal)
+    }
+  }
+
+  async close(): Promise<void> {
+    this.taskIds = null
+    this.actionIds = null
+  }
+
+  async destroy(): Promise<void> {
+    await this.close()
+    const keys = (await AsyncStorage.getAllKeys()).filter(key => key.startsWith(this.keys.prefix))
+    if (keys.length > 0) {
+      await AsyncStorage.multiRemove(keys)
+    }
+  }
+
+  private get tasksIndex(): Set<string> {
+    if (!this.taskIds) throw new Error('AsyncStorage internal DB used before init()')
+    return this.taskIds
+  }
+
+  private get actionsIndex(): Set<string> {
+    if (!this.actionIds) throw new Error('AsyncStorage internal DB used before init()')
+    return this.actionIds
+  }
+
+  async getAllTasks(): Promise<InternalTask[]> {
+    const tasks = await readRecords<InternalTask>(Array.from(this.tasksIndex, this.keys.task))
+    return tasks.sort(byStartTime)
+  }
+
+  async getTasksInRange(startMs: number, endMs: number): Promise<InternalTask[]> {
+    const tasks = await this.getAllTasks()
+    return tasks.filter(task => toEpochMs(task.start_time) < endMs && toEpochMs(task.end_time) > startMs)
+  }
+
+  async getTasksByStatus(status: InternalTask['status']): Promise<InternalTask[]> {
+    const tasks = await this.getAllTasks()
+    return tasks.filter(task => task.status === status)
+  }
+
+  async putTasks(tasks: InternalTask[]): Promise<void> {
+    if (tasks.length === 0) return
+    const index = this.tasksIndex
+    const sizeBefore = index.size
+    tasks.forEach(task => index.add(task.id))
+
+    const writes: [string, string][] = tasks.map(task => [this.keys.task(task.id), JSON.stringify(task)])
+    if (index.size !== sizeBefore) {
+      writes.push([this.keys.taskIndex, JSON.stringify(Array.from(index))])
+    }
+    await AsyncStorage.multiSet(writes)
+  }
+
+  async deleteTasks(ids: string[]): Promise<void> {
+    if (ids.length === 0) return
+    const index = this.tasksIndex
+    ids.forEach(id => index.delete(id))
+    await AsyncStorage.multiRemove(ids.map(this.keys.task))
+    await AsyncStorage.setItem(this.keys.taskIndex, JSON.stringify(Array.from(index)))
+  }
+
+  async clearTasks(): Promise<void> {
+    const keys = Array.from(this.tasksIndex, this.keys.task)
+    this.tasksIndex.clear()
+    await AsyncStorage.multiRemove([...keys, this.keys.taskIndex])
+  }
+
+  async getAllActions(): Promise<InternalAction[]> {
+    const actions = await readRecords<InternalAction>(Array.from(this.actionsIndex, this.keys.action))
+    return actions.sort((a, b) => toEpochMs(a.timestamp) - toEpochMs(b.timestamp))
+  }
+
+  async putActions(actions: InternalAction[]): Promise<void> {
+    if (actions.length === 0) return
+    const index = this.actionsIndex
+    actions.forEach(action => index.add(action.id))
+    await AsyncStorage.multiSet([
+      ...actions.map(action => [this.keys.action(action.id), JSON.stringify(action)] as [string, string]),
+      [this.keys.actionIndex, JSON.stringify(Array.from(index))],
+    ])
+  }
+
+  async deleteActions(ids: string[]): Promise<void> {
+    if (ids.length === 0) return
+    const index = this.actionsIndex
+    ids.forEach(id => index.delete(id))
+    await AsyncStorage.multiRemove(ids.map(this.keys.action))
+    await AsyncStorage.setItem(this.keys.actionIndex, JSON.stringify(Array.from(index)))
+  }
+
+  async clearActions(): Promise<void> {
+    const keys = Array.from(this.actionsIndex, this.keys.action)
+    this.actionsIndex.clear()
+    await AsyncStorage.multiRemove([...keys, this.keys.actionIndex])
+  }
+
+  async getTombstones(): Promise<DeletedTaskTombstone[]> {
+    return Array.from((await readTombstones(this.keys.tombstones)).values())
+  }
+
+  async putTombstones(tombstones: DeletedTaskTombstone[]): Promise<void> {
+    if (tombstones.length === 0) return
+    const stored = await readTombstones(this.keys.tombstones)
+    tombstones.forEach(tombstone => stored.set(tombstone.task_id, tombstone))
+    await writeTombstones(this.keys.tombstones, stored)
+  }
+
+  async deleteTombstones(taskIds: string[]): Promise<void> {
+    if (taskIds.length === 0) return
+    const stored = await readTombstones(this.keys.tombstones)
+    taskIds.forEach(id => stored.delete(id))
+    await writeTombstones(this.keys.tombstones, stored)
+  }
+
+  async clearTombstones(): Promise<void> {
+    await AsyncStorage.removeItem(this.keys.tombstones)
+  }
+
+  async commit(batch: StorageBatch): Promise<void> {
+    const snapshot = await AsyncStorage.multiGet(this.touchedKeys(batch))
+    await AsyncStorage.setItem(this.keys.journal, JSON.stringify(batch))
+    try {
+      await this.applyBatch(batch)
+    } catch (error) {
+      await this.rollBack(snapshot, error)
+      throw error
+    }
+    await AsyncStorage.removeItem(this.keys.journal)
+  }
+
+  // Every key applying the batch can write
+  private touchedKeys(batch: StorageBatch): string[] {
+    const keys = new Set([this.keys.taskIndex, this.keys.actionIndex, this.keys.tombstones])
+    if (batch.clearTasks) this.tasksIndex.forEach(id => keys.add(this.keys.task(id)))
+    if (batch.clearActions) this.actionsIndex.forEach(id => keys.add(this.keys.action(id)))
+    batch.putTasks.forEach(task => keys.add(this.keys.task(task.id)))
+    batch.deleteTaskIds.forEach(id => keys.add(this.keys.task(id)))
+    batch.putActions.forEach(action => keys.add(this.keys.action(action.id)))
+    batch.deleteActionIds.forEach(id => keys.add(this.keys.action(id)))
+    Object.keys(batch.putMeta ?? {}).forEach(key => keys.add(this.keys.meta(key)))
+    return Array.from(keys)
+  }
+
+  /**
+   * Put back what a failed commit wrote, so a transaction its caller saw fail leaves nothing behind,
+   * and drop its journal so the next init() doesn't replay it.
+   * If putting things back fails too, the journal stays and the batch is completed on the next init() instead.
+   */
+  private async rollBack(snapshot: readonly (readonly [string, string | null])[], cause: unknown): Promise<void> {
+    try {
+      const previous = snapshot.filter((entry): entry is [string, string] => entry[1] !== null)
+      const absent = snapshot.filter(([, value]) => value === null).map(([key]) => key)
+      if (previous.length > 0) await AsyncStorage.multiSet(previous)
+      if (absent.length > 0) await AsyncStorage.multiRemove(absent)
+      await AsyncStorage.removeItem(this.keys.journal)
+    } catch (rollbackError) {
+      this.taskIds = new Set(await readIdList(this.keys.taskIndex).catch(() => Array.from(this.tasksIndex)))
+      this.actionIds = new Set(await readIdList(this.keys.actionIndex).catch(() => Array.from(this.actionsIndex)))
+      const reason = (error: unknown) => error instanceof Error ? error.message : String(error)
+      throw new Error(
+        `Internal DB commit failed (${reason(cause)}) and could not be rolled back (${reason(rollbackError)}); ` +
+        'it will be completed from the journal on the next launch'
+      )
+    }
+
+    const stored = new Map(snapshot)
+    this.taskIds = new Set(parseIdList(stored.get(this.keys.taskIndex) ?? null))
+    this.actionIds = new Set(parseIdList(stored.get(this.keys.actionIndex) ?? null))
+  }
+
+  // Every step is idempotent, so replaying a half-applied batch is safe
+  private async applyBatch(batch: StorageBatch): Promise<void> {
+    if (batch.clearTasks) await this.clearTasks()
+    if (batch.clearActions) await this.clearActions()
+    if (batch.clearTombstones) await this.clearTombstones()
+    await this.deleteTasks(batch.deleteTaskIds)
+    await this.deleteActions(batch.deleteActionIds)
+    await this.deleteTombstones(batch.deleteTombstoneIds)
+    await this.putTasks(batch.putTasks)
+    await this.putActions(batch.putActions)
+    await this.putTombstones(batch.putTombstones)
+    const meta = Object.entries(batch.putMeta ?? {})
+    if (meta.length > 0) {
+      await AsyncStorage.multiSet(meta.map(([key, value]) => [this.keys.meta(key), value] as [string, string]))
+    }
+  }
+
+  async getMeta(key: string): Promise<string | null> {
+    return AsyncStorage.getItem(this.keys.meta(key))
+  }
+
+  async setMeta(key: string, value: string): Promise<void> {
+    await AsyncStorage.setItem(this.keys.meta(key), value)
+  }
+
+  async getFileSize(): Promise<number | null> {
+    return null
+  }
+}
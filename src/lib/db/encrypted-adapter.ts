@@ -0,0 +1,211 @@
+import type { InternalTask, InternalAction } from '../internal-db'
+import type { DataCipher } from '../encryption'
+import { InternalStorageAdapter, StorageBatch, emptyBatch } from './adapter'
+import { DeletedTaskTombstone } from './tombstones'
+
+// Fields left readable so the backend can still index, range-query and sort records.
+// Everything else (names, details, labels...) is moved into an encrypted `sealed` field.
+const TASK_CLEAR_FIELDS = ['id', 'start_time', 'end_time', 'status'] as const
+const ACTION_CLEAR_FIELDS = ['id', 'task_id', 'timestamp'] as const
+
+// Meta flag: every stored record has been written by this adapter
+const ENCRYPTED_META_KEY = 'encrypted_at_rest_at'
+
+type Sealed<T, K extends keyof T> = Pick<T, K> & { sealed: string }
+
+async function seal<T extends object, K extends keyof T>(record: T, clearFields: readonly K[], cipher: DataCipher): Promise<Sealed<T, K>> {
+  const secret: Partial<T> = { ...record }
+  const clear = {} as Pick<T, K>
+  for (const field of clearFields) {
+    clear[field] = record[field]
+    delete secret[field]
+  }
+  return { ...clear, sealed: await cipher.encryptJSON(secret) }
+}
+
+// Records without `sealed` were written before encryption and are returned unchanged
+async function unseal<T>(stored: T, cipher: DataCipher): Promise<T> {
+  const { sealed, ...clear } = stored as T & { sealed?: unknown }
+  if (typeof sealed !== 'string') return stored
+  return { ...(await cipher.decryptJSON<Partial<T>>(sealed)), ...clear } as T
+}
+
+/**
+ * Encryption-at-rest decorator for any InternalDB backend.
+ * Task and action contents are sealed with the store's DataCipher on the way in and opened on the way out;
+ * tombstones and meta only hold ids and timestamps and pass through untouched.
+ */
+export class EncryptedStorageAdapter implements InternalStorageAdapter {
+  readonly name: string
+
+  constructor(private readonly inner: InternalStorageAdapter, private readonly cipher: DataCipher) {
+    this.name = inner.name
+  }
+
+  async init(): Promise<void> {
+    await this.inner.init()
+  }
+
+  async close(): Promise<void> {
+    await this.inner.close()
+  }
+
+  // The key goes too, so nothing left behind by a failed delete can be read
+  async destroy(): Promise<void> {
+    await this.cipher.destroyKey()
+    await this.inner.destroy()
+  }
+
+  private async sealTasks(tasks: InternalTask[]): Promise<InternalTask[]> {
+    // The backend only reads the clear fields, so a sealed record can travel as an InternalTask
+    return Promise.all(tasks.map(async task => await seal(task, TASK_CLEAR_FIELDS, this.cipher) as unknown as InternalTask))
+  }
+
+  private async sealActions(actions: InternalAction[]): Promise<InternalAction[]> {
+    return Promise.all(actions.map(async action => await seal(action, ACTION_CLEAR_FIELDS, this.cipher) as unknown as InternalAction))
+  }
+
+  // A record that can't be decrypted (e.g. its key is gone) is skipped rather than failing the whole read
+  private async unsealAll<T extends { id: string }>(records: T[], label: string): Promise<T[]> {
+    const opened = await Promise.all(records.map(async record => {
+      try {
+        return await unseal(record, this.cipher)
+      } catch (error) {
+        console.error(`❌ Could not decrypt ${label} ${record.id}, skipping:`, error)
+        return null
+      }
+    }))
+    return opened.filter((record): record is Awaited<T> => record !== null)
+  }
+
+  async getAllTasks(): Promise<InternalTask[]> {
+    return this.unsealAll(await this.inner.getAllTasks(), 'task')
+  }
+
+  async getTasksInRange(startMs: number, endMs: number): Promise<InternalTask[]> {
+    return this.unsealAll(await this.inner.getTasksInRange(startMs, endMs), 'task')
+  }
+
+  async getTasksByStatus(status: InternalTask['status']): Promise<InternalTask[]> {
+    return this.unsealAll(await this.inner.getTasksByStatus(status), 'task')
+  }
+
+  async putTasks(tasks: InternalTask[]): Promise<void> {
+    await this.inner.putTasks(await this.sealTasks(tasks))
+  }
+
+  async deleteTasks(ids: string[]): Promise<void> {
+    await this.inner.deleteTasks(ids)
+  }
+
+  async clearTasks(): Promise<void> {
+    await this.inner.clearTasks()
+  }
+
+  async getAllActions(): Promise<InternalAction[]> {
+    return this.unsealAll(await this.inner.getAllActions(), 'action')
+  }
+
+  async putActions(actions: InternalAction[]): Promise<void> {
+    await this.inner.putActions(await this.sealActions(actions))
+  }
+
+  async deleteActions(ids: string[]): Promise<void> {
+    await this.inner.deleteActions(ids)
+  }
+
+  async clearActions(): Promise<void> {
+    await this.inner.clearActions()
+  }
+
+  async getTombstones(): Promise<DeletedTaskTombstone[]> {
+    return this.inner.getTombstones()
+  }
+
+  async putTombstones(tombstones: DeletedTaskTombstone[]): Promise<void> {
+    await this.inner.putTombstones(tombstones)
+  }
+
+  async deleteTombstones(taskIds: string[]): Promise<void> {
+    await this.inner.deleteTombstones(taskIds)
+  }
+
+  async clearTombstones(): Promise<void> {
+    await this.inner.clearTombstones()
+  }
+
+  async commit(batch: StorageBatch): Promise<void> {
+    await this.inner.commit({
+      ...batch,
+      putTasks: await this.sealTasks(batch.putTasks),
+      putActions: await this.sealActions(batch.putActions),
+    })
+  }
+
+  async getMeta(key: string): Promise<string | null> {
+    return this.inner.getMeta(key)
+  }
+
+  async setMeta(key: string, value: string): Promise<void> {
+    await this.inner.setMeta(key, value)
+  }
+
+  async getFileSize(): Promise<number | null> {
+    return this.inner.getFileSize()
+  }
+
+  // Unlike unsealAll, one record that can't be opened fails the lot: a rewrite that left it out would lose it
+  private async unsealEvery<T extends { id: string }>(records: T[], label: string): Promise<T[]> {
+    const unreadable: string[] = []
+    const opened = await Promise.all(records.map(async record => {
+      try {
+        return await unseal(record, this.cipher)
+      } catch {
+        unreadable.push(record.id)
+        return record
+      }
+    }))
+    if (unreadable.length > 0) {
+      throw new Error(`Could not decrypt ${unreadable.length} ${label}(s) (${unreadable.join(', ')}); nothing was re-encrypted`)
+    }
+    return opened
+  }
+
+  // Ids of stored records not sealed under the current key
+  private async staleRecordIds(): Promise<string[]> {
+    const currentKeyId = await this.cipher.getCurrentKeyId()
+    if (!currentKeyId) return []
+    const stored: { id: string; sealed?: unknown }[] = [...await this.inner.getAllTasks(), ...await this.inner.getAllActions()]
+    return stored
+      .filter(record => typeof record.sealed !== 'string' || this.cipher.getKeyId(record.sealed) !== currentKeyId)
+      .map(record => record.id)
+  }
+
+  /**
+   * Rewrite every task and action under the current key, in one commit.
+   * Encrypts plaintext left by older app versions and completes a key rotation.
+   * Retired keys are only forgotten once every stored record has been rewritten; until then
+   * needsReencryption() stays true and the rewrite is retried on the next open.
+   * @returns Number of records rewritten
+   * @throws Error when a record can't be decrypted, before anything is written
+   */
+  async reencryptAll(): Promise<number> {
+    const batch = emptyBatch()
+    batch.putTasks = await this.unsealEvery(await this.inner.getAllTasks(), 'task')
+    batch.putActions = await this.unsealEvery(await this.inner.getAllActions(), 'action')
+    await this.commit(batch)
+
+    const stale = await this.staleRecordIds()
+    if (stale.length > 0) {
+      throw new Error(`${stale.length} record(s) (${stale.join(', ')}) are still under an old key; retired keys kept`)
+    }
+    await this.cipher.forgetRetiredKeys()
+    await this.inner.setMeta(ENCRYPTED_META_KEY, new Date().toISOString())
+    return batch.putTasks.length + batch.putActions.length
+  }
+
+  // Plaintext from before encryption, or records under a retired key, still need rewriting
+  async needsReencryption(): Promise<boolean> {
+    return !(await this.inner.getMeta(ENCRYPTED_META_KEY)) || await this.cipher.hasRetiredKeys()
+  }
+}
@@ -0,0 +1,52 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import type { InternalTask, InternalAction } from '../internal-db'
+import { InternalStorageAdapter } from './adapter'
+import { createTombstone } from './tombstones'
+
+// Keys used by the original whole-array AsyncStorage implementation of InternalDB
+const LEGACY_TASKS_KEY = 'internal_tasks'
+const LEGACY_ACTIONS_KEY = 'internal_actions'
+const LEGACY_DELETED_TASKS_KEY = 'internal_deleted_tasks'
+
+const MIGRATED_META_KEY = 'legacy_async_storage_migrated_at'
+
+function parseArray<T>(stored: string | null, label: string): T[] {
+  if (!stored) return []
+  try {
+    const parsed = JSON.parse(stored)
+    return Array.isArray(parsed) ? parsed : []
+  } catch (error) {
+    console.error(`❌ Could not parse legacy ${label}, skipping:`, error)
+    return []
+  }
+}
+
+/**
+ * Copy tasks, actions and deleted task ids from the legacy AsyncStorage blobs into the adapter.
+ * Runs once per install. Writes are upserts and the completion flag is written last,
+ * so an interrupted migration simply runs again on the next launch.
+ */
+export async function migrateLegacyAsyncStorage(adapter: InternalStorageAdapter): Promise<void> {
+  if (await adapter.getMeta(MIGRATED_META_KEY)) return
+
+  const entries = await AsyncStorage.multiGet([LEGACY_TASKS_KEY, LEGACY_ACTIONS_KEY, LEGACY_DELETED_TASKS_KEY])
+  const stored = new Map(entries)
+
+  const tasks = parseArray<InternalTask>(stored.get(LEGACY_TASKS_KEY) ?? null, 'tasks')
+    .filter(task => task && typeof task.id === 'string')
+  const actions = parseArray<InternalAction>(stored.get(LEGACY_ACTIONS_KEY) ?? null, 'actions')
+    .filter(action => action && typeof action.id === 'string')
+  const deletedIds = parseArray<unknown>(stored.get(LEGACY_DELETED_TASKS_KEY) ?? null, 'deleted task ids')
+    .filter((id): id is string => typeof id === 'string')
+
+  await adapter.putTasks(tasks)
+  await adapter.putActions(actions)
+  await adapter.putTombstones(deletedIds.map(id => createTombstone(id)))
+  await adapter.setMeta(MIGRATED_META_KEY, new Date().toISOString())
+
+  await AsyncStorage.multiRemove([LEGACY_TASKS_KEY, LEGACY_ACTIONS_KEY, LEGACY_DELETED_TASKS_KEY])
+
+  if (tasks.length || actions.length || deletedIds.length) {
+    console.log(`🚚 Migrated legacy internal DB to ${adapter.name}:`, tasks.length, 'tasks,', actions.length, 'actions,', deletedIds.length, 'deleted ids')
+  }
+}
@@ -0,0 +1,72 @@
+import type { InternalTask } from '../internal-db'
+import { InternalStorageAdapter, toEpochMs } from './adapter'
+
+const SCHEMA_VERSION_META_KEY = 'task_schema_version'
+
+// A stored task as read from disk: any version, possibly missing fields added later
+export type StoredTaskRecord = Partial<InternalTask> & { id: string }
+
+export interface TaskMigration {
+  version: number // schema version the record is at after this step
+  description: string
+  migrate: (task: StoredTaskRecord) => StoredTaskRecord
+}
+
+const PRIORITIES: InternalTask['priority'][] = ['low', 'medium', 'high']
+
+// Ordered steps. Append new ones with the next version number; never edit a shipped step.
+export const TASK_MIGRATIONS: TaskMigration[] = [
+  {
+    version: 1,
+    description: 'Backfill colorLabel for tasks created before color labels existed',
+    migrate: task => ({ ...task, colorLabel: task.colorLabel ?? 'none' }),
+  },
+  {
+    version: 2,
+    description: 'Backfill reschedule_count for tasks created before reschedule tracking',
+    migrate: task => ({ ...task, reschedule_count: task.reschedule_count ?? 0 }),
+  },
+  {
+    version: 3,
+    description: 'Default missing priority and recompute missing duration',
+    migrate: task => ({
+      ...task,
+      priority: task.priority && PRIORITIES.includes(task.priority) ? task.priority : 'medium',
+      duration: typeof task.duration === 'number'
+        ? task.duration
+        : Math.max(0, Math.floor((toEpochMs(task.end_time) - toEpochMs(task.start_time)) / 1000)),
+    }),
+  },
+]
+
+export const CURRENT_TASK_SCHEMA_VERSION = TASK_MIGRATIONS[TASK_MIGRATIONS.length - 1].version
+
+// Apply every step newer than fromVersion to a single record
+export function migrateTask(task: StoredTaskRecord, fromVersion: number): InternalTask {
+  return TASK_MIGRATIONS
+    .filter(step => step.version > fromVersion)
+    .reduce((record, step) => step.migrate(record), task) as InternalTask
+}
+
+export async function getStoredSchemaVersion(adapter: InternalStorageAdapter): Promise<number> {
+  const stored = await adapter.getMeta(SCHEMA_VERSION_META_KEY)
+  const version = stored ? parseInt(stored, 10) : 0
+  return Number.isNaN(version) ? 0 : version
+}
+
+/**
+ * Bring every stored task up to CURRENT_TASK_SCHEMA_VERSION.
+ * Runs once per version bump: the stored version is only advanced after the rewritten rows are saved.
+ */
+export async function runTaskMigrations(adapter: InternalStorageAdapter): Promise<number> {
+  const fromVersion = await getStoredSchemaVersion(adapter)
+  if (fromVersion >= CURRENT_TASK_SCHEMA_VERSION) return fromVersion
+
+  const tasks = await adapter.getAllTasks()
+  const migrated = tasks.map(task => migrateTask(task, fromVersion))
+  await adapter.putTasks(migrated)
+  await adapter.setMeta(SCHEMA_VERSION_META_KEY, String(CURRENT_TASK_SCHEMA_VERSION))
+
+  console.log(`🔧 Migrated ${migrated.length} tasks from schema v${fromVersion} to v${CURRENT_TASK_SCHEMA_VERSION}`)
+  return CURRENT_TASK_SCHEMA_VERSION
+}
@@ -0,0 +1,102 @@
+import type { InternalTask } from '../internal-db'
+import type { ColorLabelKey } from '@/constants/ColorLabels'
+import { byStartTime, toEpochMs } from './adapter'
+
+export interface TaskSearchQuery {
+  text?: string // matched against the task name
+  fuzzy?: boolean // also accept in-order character matches ("wrkrpt" → "Work report"), default true
+  statuses?: InternalTask['status'][]
+  priorities?: InternalTask['priority'][]
+  colorLabels?: ColorLabelKey[] // tasks without a label count as 'none'
+  start?: Date // only tasks overlapping [start, end)
+  end?: Date
+  limit?: number
+}
+
+export interface TaskSearchResult {
+  task: InternalTask
+  score: number // higher is more relevant
+}
+
+const SCORE_EXACT = 100
+const SCORE_PREFIX = 80
+const SCORE_WORD_PREFIX = 60
+const SCORE_SUBSTRING = 40
+const SCORE_FUZZY_MAX = 30
+
+function normalize(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '') // strip accents
+    .toLowerCase()
+    .trim()
+}
+
+// Characters of `token` appear in order in `haystack`; tighter matches score higher
+function fuzzyScore(haystack: string, token: string): number {
+  let matched = 0
+  let first = -1
+  let last = -1
+  for (let i = 0; i < haystack.length && matched < token.length; i++) {
+    if (haystack[i] === token[matched]) {
+      if (first < 0) first = i
+      last = i
+      matched++
+    }
+  }
+  if (matched < token.length) return 0
+  return Math.max(1, Math.round(SCORE_FUZZY_MAX * token.length / (last - first + 1)))
+}
+
+function tokenScore(haystack: string, words: string[], token: string, fuzzy: boolean): number {
+  if (haystack.startsWith(token)) return SCORE_PREFIX
+  if (words.some(word => word.startsWith(token))) return SCORE_WORD_PREFIX
+  if (haystack.includes(token)) return SCORE_SUBSTRING
+  return fuzzy ? fuzzyScore(haystack, token) : 0
+}
+
+/**
+ * Relevance of a task name for a search text, 0 when it doesn't match.
+ * Every word of the search text has to match; the score is the average over words.
+ */
+export function scoreTaskName(name: string, text: string, fuzzy: boolean = true): number {
+  const haystack = normalize(name)
+  const needle = normalize(text)
+  if (!needle) return 0
+  if (haystack === needle) return SCORE_EXACT
+
+  const words = haystack.split(/[\s\-_/.,:;]+/).filter(Boolean)
+  const tokens = needle.split(/\s+/)
+  let total = 0
+  for (const token of tokens) {
+    const score = tokenScore(haystack, words, token, fuzzy)
+    if (score === 0) return 0
+    total += score
+  }
+  return total / tokens.length
+}
+
+function matchesFacets(task: InternalTask, query: TaskSearchQuery): boolean {
+  if (query.statuses?.length && !query.statuses.includes(task.status)) return false
+  if (query.priorities?.length && !query.priorities.includes(task.priority)) return false
+  if (query.colorLabels?.length && !query.colorLabels.includes(task.colorLabel ?? 'none')) return false
+  if (query.end && toEpochMs(task.start_time) >= query.end.getTime()) return false
+  if (query.start && toEpochMs(task.end_time) <= query.start.getTime()) return false
+  return true
+}
+
+// Filter tasks by the query's facets and rank them by name relevance, then by start time
+export function searchTasks(tasks: InternalTask[], query: TaskSearchQuery): TaskSearchResult[] {
+  const hasText = !!query.text && normalize(query.text).length > 0
+  const results: TaskSearchResult[] = []
+
+  for (const task of tasks) {
+    if (!matchesFacets(task, query)) continue
+    const score = hasText ? scoreTaskName(task.name, query.text!, query.fuzzy ?? true) : 0
+    if (hasText && score === 0) continue
+    results.push({ task, score })
+  }
+
+  results.sort((a, b) => b.score - a.score || byStartTime(a.task, b.task))
+  return query.limit !== undefined ? results.slice(0, query.limit) : results
+}
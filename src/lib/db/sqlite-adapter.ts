@@ -0,0 +1,240 @@
+import SQLite, { SQLiteDatabase, ResultSet } from 'react-native-sqlite-storage'
+import type { InternalTask, InternalAction } from '../internal-db'
+import { InternalStorageAdapter, StorageBatch, toEpochMs } from './adapter'
+import { DeletedTaskTombstone } from './tombstones'
+
+SQLite.enablePromise(true)
+
+const DATABASE_NAME = 'skedai_internal.db'
+
+// Each namespace (per-user store) gets its own database file; the unscoped store keeps the original name
+const databaseName = (namespace: string | null) => namespace ? `skedai_internal_${namespace}.db` : DATABASE_NAME
+
+// Full records are kept as JSON in `data`; the other columns exist only to be indexed.
+// New InternalTask fields therefore need no ALTER TABLE.
+const SCHEMA = [
+  `CREATE TABLE IF NOT EXISTS internal_tasks (
+    id TEXT PRIMARY KEY NOT NULL,
+    start_ms INTEGER NOT NULL,
+    end_ms INTEGER NOT NULL,
+    status TEXT NOT NULL,
+    data TEXT NOT NULL
+  )`,
+  'CREATE INDEX IF NOT EXISTS idx_internal_tasks_start_ms ON internal_tasks (start_ms)',
+  'CREATE INDEX IF NOT EXISTS idx_internal_tasks_status ON internal_tasks (status, start_ms)',
+  `CREATE TABLE IF NOT EXISTS internal_actions (
+    id TEXT PRIMARY KEY NOT NULL,
+    task_id TEXT NOT NULL,
+    timestamp_ms INTEGER NOT NULL,
+    data TEXT NOT NULL
+  )`,
+  'CREATE INDEX IF NOT EXISTS idx_internal_actions_task_id ON internal_actions (task_id)',
+  'CREATE INDEX IF NOT EXISTS idx_internal_actions_timestamp ON internal_actions (timestamp_ms)',
+  `CREATE TABLE IF NOT EXISTS internal_deleted_tasks (
+    id TEXT PRIMARY KEY NOT NULL,
+    deleted_ms INTEGER NOT NULL DEFAULT 0,
+    model_id TEXT
+  )`,
+  'CREATE TABLE IF NOT EXISTS internal_meta (key TEXT PRIMARY KEY NOT NULL, value TEXT NOT NULL)',
+]
+
+type Statement = [string, any[]]
+
+function rowsOf(result: ResultSet): any[] {
+  const rows: any[] = []
+  for (let i = 0; i < result.rows.length; i++) {
+    rows.push(result.rows.item(i))
+  }
+  return rows
+}
+
+function parseRows<T>(result: ResultSet): T[] {
+  return rowsOf(result).map(row => JSON.parse(row.data) as T)
+}
+
+const putTaskStatement = (task: InternalTask): Statement => [
+  'INSERT OR REPLACE INTO internal_tasks (id, start_ms, end_ms, status, data) VALUES (?, ?, ?, ?, ?)',
+  [task.id, toEpochMs(task.start_time), toEpochMs(task.end_time), task.status, JSON.stringify(task)],
+]
+const deleteTaskStatement = (id: string): Statement => ['DELETE FROM internal_tasks WHERE id = ?', [id]]
+const putActionStatement = (action: InternalAction): Statement => [
+  'INSERT OR REPLACE INTO internal_actions (id, task_id, timestamp_ms, data) VALUES (?, ?, ?, ?)',
+  [action.id, action.task_id, toEpochMs(action.timestamp), JSON.stringify(action)],
+]
+const deleteActionStatement = (id: string): Statement => ['DELETE FROM internal_actions WHERE id = ?', [id]]
+const putTombstoneStatement = (tombstone: DeletedTaskTombstone): Statement => [
+  'INSERT OR REPLACE INTO internal_deleted_tasks (id, deleted_ms, model_id) VALUES (?, ?, ?)',
+  [tombstone.task_id, toEpochMs(tombstone.deleted_at), tombstone.model_id],
+]
+const deleteTombstoneStatement = (id: string): Statement => ['DELETE FROM internal_deleted_tasks WHERE id = ?', [id]]
+const putMetaStatement = ([key, value]: [string, string]): Statement => ['INSERT OR REPLACE INTO internal_meta (key, value) VALUES (?, ?)', [key, value]]
+
+// Tables created before tombstones carried a timestamp and model id only had `id`.
+// Their rows are dated to the upgrade so they still get a full retention period.
+const upgradeTombstonesTable = (nowMs: number): Statement[] => [
+  ['ALTER TABLE internal_deleted_tasks ADD COLUMN deleted_ms INTEGER NOT NULL DEFAULT 0', []],
+  ['ALTER TABLE internal_deleted_tasks ADD COLUMN model_id TEXT', []],
+  ['UPDATE internal_deleted_tasks SET deleted_ms = ?', [nowMs]],
+]
+
+export class SQLiteStorageAdapter implements InternalStorageAdapter {
+  readonly name = 'sqlite'
+  private db: SQLiteDatabase | null = null
+  private readonly databaseName: string
+
+  constructor(namespace: string | null = null) {
+    this.databaseName = databaseName(namespace)
+  }
+
+  async init(): Promise<void> {
+    if (this.db) return
+
+    const db = await SQLite.openDatabase({ name: this.databaseName, location: 'default' })
+    await this.runInTransaction(db, SCHEMA.map(sql => [sql, []] as Statement))
+    const [columns] = await db.executeSql('PRAGMA table_info(internal_deleted_tasks)')
+    if (!rowsOf(columns).some(column => column.name === 'deleted_ms')) {
+      await this.runInTransaction(db, upgradeTombstonesTable(Date.now()))
+    }
+    this.db = db
+    console.log('🗄️ Opened SQLite internal DB:', this.databaseName)
+  }
+
+  async close(): Promise<void> {
+    const db = this.db
+    this.db = null
+    await db?.close()
+  }
+
+  async destroy(): Promise<void> {
+    await this.close()
+    await SQLite.deleteDatabase({ name: this.databaseName, location: 'default' })
+    console.log('🗑️ Deleted SQLite internal DB:', this.databaseName)
+  }
+
+  private get database(): SQLiteDatabase {
+    if (!this.db) {
+      throw new Error('SQLite internal DB used before init()')
+    }
+    return this.db
+  }
+
+  private async query(sql: string, params: any[] = []): Promise<ResultSet> {
+    const [result] = await this.database.executeSql(sql, params)
+    return result
+  }
+
+  // Runs all statements in one SQLite transaction, so they land together or not at all
+  private async runInTransaction(db: SQLiteDatabase, statements: Statement[]): Promise<void> {
+    if (statements.length === 0) return
+    await db.transaction(tx => {
+      for (const [sql, params] of statements) {
+        tx.executeSql(sql, params)
+      }
+    })
+  }
+
+  private async run(statements: Statement[]): Promise<void> {
+    await this.runInTransaction(this.database, statements)
+  }
+
+  async getAllTasks(): Promise<InternalTask[]> {
+    return parseRows<InternalTask>(await this.query('SELECT data FROM internal_tasks ORDER BY start_ms'))
+  }
+
+  async getTasksInRange(startMs: number, endMs: number): Promise<InternalTask[]> {
+    const result = await this.query(
+      'SELECT data FROM internal_tasks WHERE start_ms < ? AND end_ms > ? ORDER BY start_ms',
+      [endMs, startMs]
+    )
+    return parseRows<InternalTask>(result)
+  }
+
+  async getTasksByStatus(status: InternalTask['status']): Promise<InternalTask[]> {
+    const result = await this.query(
+      'SELECT data FROM internal_tasks WHERE status = ? ORDER BY start_ms',
+      [status]
+    )
+    return parseRows<InternalTask>(result)
+  }
+
+  async putTasks(tasks: InternalTask[]): Promise<void> {
+    await this.run(tasks.map(putTaskStatement))
+  }
+
+  async deleteTasks(ids: string[]): Promise<void> {
+    await this.run(ids.map(deleteTaskStatement))
+  }
+
+  async clearTasks(): Promise<void> {
+    await this.query('DELETE FROM internal_tasks')
+  }
+
+  async getAllActions(): Promise<InternalAction[]> {
+    return parseRows<InternalAction>(await this.query('SELECT data FROM internal_actions ORDER BY timestamp_ms'))
+  }
+
+  async putActions(actions: InternalAction[]): Promise<void> {
+    await this.run(actions.map(putActionStatement))
+  }
+
+  async deleteActions(ids: string[]): Promise<void> {
+    await this.run(ids.map(deleteActionStatement))
+  }
+
+  async clearActions(): Promise<void> {
+    await this.query('DELETE FROM internal_actions')
+  }
+
+  async getTombstones(): Promise<DeletedTaskTombstone[]> {
+    const rows = rowsOf(await this.query('SELECT id, deleted_ms, model_id FROM internal_deleted_tasks'))
+    return rows.map(row => ({
+      task_id: row.id,
+      deleted_at: new Date(row.deleted_ms).toISOString(),
+      model_id: row.model_id ?? null,
+    }))
+  }
+
+  async putTombstones(tombstones: DeletedTaskTombstone[]): Promise<void> {
+    await this.run(tombstones.map(putTombstoneStatement))
+  }
+
+  async deleteTombstones(taskIds: string[]): Promise<void> {
+    await this.run(taskIds.map(deleteTombstoneStatement))
+  }
+
+  async clearTombstones(): Promise<void> {
+    await this.query('DELETE FROM internal_deleted_tasks')
+  }
+
+  async commit(batch: StorageBatch): Promise<void> {
+    const statements: Statement[] = []
+    if (batch.clearTasks) statements.push(['DELETE FROM internal_tasks', []])
+    if (batch.clearActions) statements.push(['DELETE FROM internal_actions', []])
+    if (batch.clearTombstones) statements.push(['DELETE FROM internal_deleted_tasks', []])
+    statements.push(
+      ...batch.deleteTaskIds.map(deleteTaskStatement),
+      ...batch.deleteActionIds.map(deleteActionStatement),
+      ...batch.deleteTombstoneIds.map(deleteTombstoneStatement),
+      ...batch.putTasks.map(putTaskStatement),
+      ...batch.putActions.map(putActionStatement),
+      ...batch.putTombstones.map(putTombstoneStatement),
+      ...Object.entries(batch.putMeta ?? {}).map(putMetaStatement),
+    )
+    await this.run(statements)
+  }
+
+  async getMeta(key: string): Promise<string | null> {
+    const rows = rowsOf(await this.query('SELECT value FROM internal_meta WHERE key = ?', [key]))
+    return rows.length > 0 ? rows[0].value : null
+  }
+
+  async setMeta(key: string, value: string): Promise<void> {
+    await this.query('INSERT OR REPLACE INTO internal_meta (key, value) VALUES (?, ?)', [key, value])
+  }
+
+  async getFileSize(): Promise<number | null> {
+    const [pages] = rowsOf(await this.query('PRAGMA page_count'))
+    const [pageSize] = rowsOf(await this.query('PRAGMA page_size'))
+    return pages.page_count * pageSize.page_size
+  }
+}
@@ -0,0 +1,55 @@
+// A deleted task id, kept so sync doesn't resurrect the task from an older server schedule
+export interface DeletedTaskTombstone {
+  task_id: string
+  deleted_at: string // ISO string
+  model_id: string | null // solver model the task came from, if it was synced from the server
+}
+
+export const DEFAULT_TOMBSTONE_RETENTION_MS = 30 * 24 * 60 * 60 * 1000 // 30 days
+
+// The server's current task_solution rows for one model
+export interface ModelSolutionSnapshot {
+  modelId: string
+  taskIds: Iterable<string>
+}
+
+export interface TombstoneGCOptions {
+  now?: number
+  retentionMs?: number
+  solution?: ModelSolutionSnapshot
+}
+
+export function createTombstone(taskId: string, modelId?: string | null, deletedAt: Date = new Date()): DeletedTaskTombstone {
+  return { task_id: taskId, deleted_at: deletedAt.toISOString(), model_id: modelId ?? null }
+}
+
+export function isTombstoneExpired(tombstone: DeletedTaskTombstone, now: number, retentionMs: number): boolean {
+  const deletedMs = new Date(tombstone.deleted_at).getTime()
+  // Unparseable timestamps count as expired rather than living forever
+  return Number.isNaN(deletedMs) || now - deletedMs >= retentionMs
+}
+
+/**
+ * Ids of tombstones that no longer protect anything:
+ * - older than the retention window, or
+ * - tagged with a model whose task_solution, as just fetched from the server, no longer contains the task.
+ * Tombstones without a model id only expire by age.
+ */
+export function collectableTombstoneIds(tombstones: Iterable<DeletedTaskTombstone>, options: TombstoneGCOptions = {}): string[] {
+  const now = options.now ?? Date.now()
+  const retentionMs = options.retentionMs ?? DEFAULT_TOMBSTONE_RETENTION_MS
+  const solution = options.solution
+  const solutionTaskIds = solution ? new Set(solution.taskIds) : null
+
+  const collectable: string[] = []
+  for (const tombstone of tombstones) {
+    const confirmedGone = solutionTaskIds !== null &&
+      tombstone.model_id === solution?.modelId &&
+      !solutionTaskIds.has(tombstone.task_id)
+
+    if (confirmedGone || isTombstoneExpired(tombstone, now, retentionMs)) {
+      collectable.push(tombstone.task_id)
+    }
+  }
+  return collectable
+}
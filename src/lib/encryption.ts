@@ -0,0 +1,190 @@
+import * as SecureStore from 'expo-secure-store'
+import { getRandomBytes } from 'expo-crypto'
+import { createCipheriv, createDecipheriv } from 'browserify-cipher'
+import { Buffer } from 'buffer'
+
+// AES-256-GCM envelope: "enc1:<key id>:<base64 of iv | auth tag | ciphertext>".
+// Anything without the prefix is plaintext written before encryption existed and is returned as-is.
+const ENVELOPE_PREFIX = 'enc1:'
+const KEY_BYTES = 32
+const IV_BYTES = 12
+const TAG_BYTES = 16
+
+interface DataKey {
+  id: string
+  key: string // base64
+}
+
+// Retired keys are kept until everything encrypted with them has been rewritten
+interface KeyRing {
+  current: DataKey
+  retired: DataKey[]
+}
+
+function createDataKey(): DataKey {
+  return {
+    id: Buffer.from(getRandomBytes(6)).toString('hex'),
+    key: Buffer.from(getRandomBytes(KEY_BYTES)).toString('base64'),
+  }
+}
+
+/**
+ * Encrypts one local store's records with a key held in the platform secure store
+ * (Keychain on iOS, Keystore-backed storage on Android).
+ * Each store has its own key so one can be re-keyed without touching the others.
+ * Where no secure store exists (web), values are stored unencrypted rather than next to their key.
+ */
+export class DataCipher {
+  private keyRing: Promise<KeyRing | null> | null = null
+
+  constructor(readonly storeName: string) {}
+
+  private get secureStoreKey(): string {
+    return `skedai_data_key_${this.storeName}`
+  }
+
+  private loadKeyRing(): Promise<KeyRing | null> {
+    if (!this.keyRing) {
+      this.keyRing = this.openKeyRing().catch(error => {
+        this.keyRing = null
+        throw error
+      })
+    }
+    return this.keyRing
+  }
+
+  private async openKeyRing(): Promise<KeyRing | null> {
+    if (!(await SecureStore.isAvailableAsync())) {
+      console.warn(`⚠️ No secure key store on this platform, ${this.storeName} data stays unencrypted`)
+      return null
+    }
+
+    const stored = await SecureStore.getItemAsync(this.secureStoreKey)
+    if (stored) {
+      return JSON.parse(stored) as KeyRing
+    }
+
+    const keyRing: KeyRing = { current: createDataKey(), retired: [] }
+    await this.saveKeyRing(keyRing)
+    return keyRing
+  }
+
+  private async saveKeyRing(keyRing: KeyRing): Promise<void> {
+    await SecureStore.setItemAsync(this.secureStoreKey, JSON.stringify(keyRing))
+  }
+
+  isEncrypted(value: string): boolean {
+    return value.startsWith(ENVELOPE_PREFIX)
+  }
+
+  // Id of the key a value was encrypted with, null for plaintext
+  getKeyId(value: string): string | null {
+    if (!this.isEncrypted(value)) return null
+    return value.slice(ENVELOPE_PREFIX.length, value.indexOf(':', ENVELOPE_PREFIX.length))
+  }
+
+  // Id of the key new values are encrypted with, null where values stay unencrypted
+  async getCurrentKeyId(): Promise<string | null> {
+    return (await this.loadKeyRing())?.current.id ?? null
+  }
+
+  async encrypt(plaintext: string): Promise<string> {
+    const keyRing = await this.loadKeyRing()
+    if (!keyRing) return plaintext
+
+    const iv = getRandomBytes(IV_BYTES)
+    const cipher = createCipheriv('aes-256-gcm', Buffer.from(keyRing.current.key, 'base64'), iv)
+    const ciphertext = Buffer.concat([cipher.update(Buffer.from(plaintext, 'utf8')), cipher.final()])
+    const payload = Buffer.concat([Buffer.from(iv), cipher.getAuthTag(), ciphertext])
+    return `${ENVELOPE_PREFIX}${keyRing.current.id}:${payload.toString('base64')}`
+  }
+
+  async decrypt(value: string): Promise<string> {
+    if (!this.isEncrypted(value)) return value
+
+    const separator = value.indexOf(':', ENVELOPE_PREFIX.length)
+    const keyId = this.getKeyId(value)
+    const keyRing = await this.loadKeyRing()
+    const dataKey = keyRing && [keyRing.current, ...keyRing.retired].find(key => key.id === keyId)
+    if (!dataKey) {
+      throw new Error(`No ${this.storeName} key ${keyId} to decrypt with`)
+    }
+
+    const payload = Buffer.from(value.slice(separator + 1), 'base64')
+    const decipher = createDecipheriv(
+      'aes-256-gcm',
+      Buffer.from(dataKey.key, 'base64'),
+      payload.subarray(0, IV_BYTES)
+    )
+    decipher.setAuthTag(payload.subarray(IV_BYTES, IV_BYTES + TAG_BYTES))
+    return Buffer.concat([decipher.update(payload.subarray(IV_BYTES + TAG_BYTES)), decipher.final()]).toString('utf8')
+  }
+
+  async encryptJSON(value: unknown): Promise<string> {
+    return this.encrypt(JSON.stringify(value))
+  }
+
+  async decryptJSON<T>(value: string): Promise<T> {
+    return JSON.parse(await this.decrypt(value)) as T
+  }
+
+  // True while records encrypted with a retired key may still exist
+  async hasRetiredKeys(): Promise<boolean> {
+    const keyRing = await this.loadKeyRing()
+    return !!keyRing && keyRing.retired.length > 0
+  }
+
+  /**
+   * Start encrypting with a fresh key. The old key is retired, not dropped, so existing records
+   * stay readable; call forgetRetiredKeys() once they've all been rewritten.
+   */
+  async rotateKey(): Promise<void> {
+    const keyRing = await this.loadKeyRing()
+    if (!keyRing) return
+
+    const rotated: KeyRing = { current: createDataKey(), retired: [keyRing.current, ...keyRing.retired] }
+    await this.saveKeyRing(rotated)
+    this.keyRing = Promise.resolve(rotated)
+  }
+
+  async forgetRetiredKeys(): Promise<void> {
+    const keyRing = await this.loadKeyRing()
+    if (!keyRing || keyRing.retired.length === 0) return
+
+    const trimmed: KeyRing = { current: keyRing.current, retired: [] }
+    await this.saveKeyRing(trimmed)
+    this.keyRing = Promise.resolve(trimmed)
+  }
+
+  // Delete the keyring outright; anything still encrypted with it becomes unreadable
+  async destroyKey(): Promise<void> {
+    this.keyRing = null
+    if (!(await SecureStore.isAvailableAsync())) return
+    await SecureStore.deleteItemAsync(this.secureStoreKey)
+  }
+
+  // For stores that were just emptied: nothing needs the old keys any more
+  async replaceKey(): Promise<void> {
+    const keyRing = await this.loadKeyRing()
+    if (!keyRing) return
+
+    const replaced: KeyRing = { current: createDataKey(), retired: [] }
+    await this.saveKeyRing(replaced)
+    this.keyRing = Promise.resolve(replaced)
+  }
+}
+
+export type DataStoreName = 'internal_db' | 'offline_db' | 'undo_history'
+
+const ciphers = new Map<string, DataCipher>()
+
+// Cipher for one user's copy of a store. A null namespace is data written before stores were per-user.
+export function dataCipherFor(store: DataStoreName, namespace: string | null): DataCipher {
+  const storeName = namespace ? `${store}_${namespace}` : store
+  let cipher = ciphers.get(storeName)
+  if (!cipher) {
+    cipher = new DataCipher(storeName)
+    ciphers.set(storeName, cipher)
+  }
+  return cipher
+}
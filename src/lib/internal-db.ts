@@ -1,15 +1,32 @@
-import AsyncStorage from '@react-native-async-storage/async-storage'
+import { Platform } from 'react-native'
 import { ColorLabelKey } from '@/constants/ColorLabels'
+import type { SolverStatus, TaskPriority, TaskStatus } from './tasks/model'
+import { InternalStorageAdapter, StorageBatch, emptyBatch, isEmptyBatch } from './db/adapter'
+import { AsyncStorageAdapter } from './db/async-storage-adapter'
+import { SQLiteStorageAdapter } from './db/sqlite-adapter'
+import { EncryptedStorageAdapter } from './db/encrypted-adapter'
+import { DataCipher, dataCipherFor } from './encryption'
+import { migrateLegacyAsyncStorage } from './db/legacy-migration'
+import { runTaskMigrations } from './db/migrations'
+import {
+  DEFAULT_TOMBSTONE_RETENTION_MS,
+  DeletedTaskTombstone,
+  ModelSolutionSnapshot,
+  collectableTombstoneIds,
+  createTombstone,
+} from './db/tombstones'
+import { TaskSearchQuery, TaskSearchResult, searchTasks } from './db/search'
+import { ArchiveRange, ArchiveSummary, DEFAULT_ARCHIVE_AFTER_DAYS, TaskArchive, selectArchivable } from './db/archive'
 
-// Internal task structure for local storage
+// Internal task structure for local storage (the stored shape of a ScheduledTask, see ./tasks/model)
 export interface InternalTask {
   id: string
   name: string
   start_time: string // ISO string
   end_time: string   // ISO string
   duration: number   // duration in seconds
-  status: 'pending' | 'in_progress' | 'completed' | 'paused' | 'cancelled' | 'failed' // task status
-  priority: 'low' | 'medium' | 'high' // task importance
+  status: TaskStatus // task status
+  priority: TaskPriority // task importance
   colorLabel?: ColorLabelKey // color label for task categorization
   completed_at?: string // ISO string, optional
   paused_at?: string // ISO string, optional
@@ -18,6 +35,9 @@ export interface InternalTask {
   reschedule_count?: number // number of times task has been rescheduled
   last_reschedule_at?: string // ISO string, when task was last rescheduled
   original_start_time?: string // ISO string, original scheduled start time before any reschedules
+  model_id?: string // solver model the task was last synced from
+  solver_status?: SolverStatus // feasibility of the task in that model's latest solution
+  constraints?: string[] // constraint strings from the task's rules
   created_at: string // ISO string
   updated_at: string // ISO string
 }
@@ -25,309 +45,847 @@ export interface InternalTask {
 // Internal action structure for tracking user actions
 export interface InternalAction {
   id: string
-  action_type: 'task_started' | 'task_completed' | 'task_skipped' | 'task_paused' | 'task_cancelled' | 'task_resumed' | 'task_rescheduled'
+  action_type: 'task_started' | 'task_completed' | 'task_skipped' | 'task_paused' | 'task_cancelled' | 'task_resumed' | 'task_rescheduled' | 'task_modified' | 'task_deleted'
   task_id: string
   task_name: string
+  model_id?: string // solver model of the task when the action was taken; only synced tasks have one
   timestamp: string // ISO string
   details?: string // optional additional information
 }
 
-const STORAGE_KEY = 'internal_tasks'
-const ACTIONS_STORAGE_KEY = 'internal_actions'
-const DELETED_TASKS_STORAGE_KEY = 'internal_deleted_tasks'
+export type { InternalStorageAdapter } from './db/adapter'
+export type { DeletedTaskTombstone, ModelSolutionSnapshot } from './db/tombstones'
+export type { TaskSearchQuery, TaskSearchResult } from './db/search'
+export type { ArchiveSummary } from './db/archive'
+
+// Change events emitted after a mutation has been applied
+export type InternalDBChangeEvent =
+  | { type: 'task_added'; task: InternalTask }
+  | { type: 'task_updated'; task: InternalTask; previous: InternalTask }
+  | { type: 'task_deleted'; task: InternalTask }
+  | { type: 'tasks_cleared' }
+  | { type: 'action_added'; action: InternalAction }
+  | { type: 'actions_cleared' }
+  | { type: 'actions_archived'; actionIds: string[] }
+
+export type InternalDBChangeListener = (event: InternalDBChangeEvent) => void
+
+// A task's state before and after a transaction (null = absent)
+export interface TaskChange {
+  id: string
+  before: InternalTask | null
+  after: InternalTask | null
+}
+
+export interface TombstoneChange {
+  task_id: string
+  before: DeletedTaskTombstone | null
+  after: DeletedTaskTombstone | null
+}
+
+type NewTaskData = Omit<InternalTask, 'id' | 'created_at' | 'updated_at'>
+type TaskUpdates = Partial<Omit<InternalTask, 'id' | 'created_at'>>
+type SaveTaskData = Partial<InternalTask> & { id: string; name: string; start_time: string; end_time: string }
+
+/**
+ * Mutations staged inside internalDB.transaction().
+ * Reads see the transaction's own writes. Nothing reaches storage, the in-memory cache
+ * or change listeners until the callback resolves and the whole batch commits.
+ */
+export class InternalDBTransaction {
+  private stagedTasks: Map<string, InternalTask | null> = new Map() // null = deleted
+  private stagedTombstones: Map<string, DeletedTaskTombstone | null> = new Map() // null = removed
+  private stagedActions: InternalAction[] = []
+  private evictedActionIds: Set<string> = new Set()
+  private stagedMeta: Map<string, string> = new Map()
+  private tasksCleared = false
+  private actionsCleared = false
+  private tombstonesCleared = false
+  private events: InternalDBChangeEvent[] = []
+  private closed = false
+
+  constructor(
+    private readonly baseTasks: ReadonlyMap<string, InternalTask>,
+    private readonly baseTombstones: ReadonlyMap<string, DeletedTaskTombstone>
+  ) {}
+
+  private assertOpen(): void {
+    if (this.closed) {
+      throw new Error('Internal DB transaction is already finished')
+    }
+  }
+
+  getTaskById(id: string): InternalTask | null {
+    if (this.stagedTasks.has(id)) return this.stagedTasks.get(id) ?? null
+    if (this.tasksCleared) return null
+    return this.baseTasks.get(id) ?? null
+  }
+
+  getAllTasks(): InternalTask[] {
+    const ids = new Set([...(this.tasksCleared ? [] : this.baseTasks.keys()), ...this.stagedTasks.keys()])
+    return Array.from(ids)
+      .map(id => this.getTaskById(id))
+      .filter((task): task is InternalTask => task !== null)
+  }
+
+  getTombstone(taskId: string): DeletedTaskTombstone | null {
+    if (this.stagedTombstones.has(taskId)) return this.stagedTombstones.get(taskId) ?? null
+    if (this.tombstonesCleared) return null
+    return this.baseTombstones.get(taskId) ?? null
+  }
+
+  getTombstones(): DeletedTaskTombstone[] {
+    const ids = new Set([...(this.tombstonesCleared ? [] : this.baseTombstones.keys()), ...this.stagedTombstones.keys()])
+    return Array.from(ids)
+      .map(id => this.getTombstone(id))
+      .filter((tombstone): tombstone is DeletedTaskTombstone => tombstone !== null)
+  }
+
+  isTaskDeleted(taskId: string): boolean {
+    return this.getTombstone(taskId) !== null
+  }
+
+  // Forget that a task was deleted, so sync may bring it back
+  removeTombstone(taskId: string): void {
+    this.assertOpen()
+    if (!taskId || !this.isTaskDeleted(taskId)) return
+    this.stagedTombstones.set(taskId, null)
+  }
+
+  private putTask(task: InternalTask, previous: InternalTask | null): void {
+    this.stagedTasks.set(task.id, task)
+    this.events.push(previous ? { type: 'task_updated', task, previous } : { type: 'task_added', task })
+  }
+
+  addTask(taskData: NewTaskData): InternalTask {
+    this.assertOpen()
+    const now = new Date().toISOString()
+    const newTask: InternalTask = {
+      id: `internal_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      colorLabel: 'none',
+      reschedule_count: 0,
+      ...taskData,
+      created_at: now,
+      updated_at: now,
+    }
+
+    this.putTask(newTask, null)
+    this.removeTombstone(newTask.id)
+    return newTask
+  }
+
+  updateTask(id: string, updates: TaskUpdates): InternalTask | null {
+    this.assertOpen()
+    const existingTask = this.getTaskById(id)
+    if (!existingTask) return null
+
+    const updatedTask = {
+      ...existingTask,
+      ...updates,
+      updated_at: new Date().toISOString(),
+    }
+
+    this.putTask(updatedTask, existingTask)
+    this.removeTombstone(id)
+    return updatedTask
+  }
+
+  // Upsert. If skipIfDeleted is true, don't restore tasks that are marked as deleted
+  saveTask(taskData: SaveTaskData, skipIfDeleted: boolean = false): InternalTask | null {
+    this.assertOpen()
+    if (skipIfDeleted && this.isTaskDeleted(taskData.id)) return null
+
+    const existingTask = this.getTaskById(taskData.id)
+    const now = new Date().toISOString()
+    const savedTask: InternalTask = existingTask
+      ? { ...existingTask, ...taskData, updated_at: now }
+      : {
+          id: taskData.id,
+          name: taskData.name,
+          start_time: taskData.start_time,
+          end_time: taskData.end_time,
+          duration: taskData.duration || InternalDB.calculateDuration(taskData.start_time, taskData.end_time),
+          status: taskData.status || 'pending',
+          priority: taskData.priority || 'medium',
+          colorLabel: taskData.colorLabel || 'none', // Default to 'none' if not specified
+          reschedule_count: taskData.reschedule_count ?? 0,
+          completed_at: taskData.completed_at,
+          model_id: taskData.model_id, // tombstones record it, so a deleted synced task can be collected later
+          solver_status: taskData.solver_status,
+          constraints: taskData.constraints,
+          created_at: taskData.created_at || now,
+          updated_at: now,
+        }
+
+    this.putTask(savedTask, existingTask)
+    // Only unmark as deleted if not skipping (i.e., user explicitly saved/updated)
+    if (!skipIfDeleted) {
+      this.removeTombstone(savedTask.id)
+    }
+    return savedTask
+  }
+
+  deleteTask(id: string): boolean {
+    this.assertOpen()
+    const task = this.getTaskById(id)
+    if (!task) return false
+
+    this.stagedTasks.set(id, null)
+    this.stagedTombstones.set(id, createTombstone(id, task.model_id))
+    this.events.push({ type: 'task_deleted', task })
+    return true
+  }
+
+  // Drop a task from the hot store without leaving a tombstone, once it has been written to the archive
+  evictTask(id: string): boolean {
+    this.assertOpen()
+    const task = this.getTaskById(id)
+    if (!task) return false
+
+    this.stagedTasks.set(id, null)
+    this.events.push({ type: 'task_deleted', task })
+    return true
+  }
+
+  // Write a task record exactly as given, e.g. a snapshot being restored by undo
+  restoreTask(task: InternalTask): InternalTask {
+    this.assertOpen()
+    this.putTask(task, this.getTaskById(task.id))
+    this.removeTombstone(task.id)
+    return task
+  }
+
+  // Put back a tombstone exactly as given, e.g. one undo is restoring
+  restoreTombstone(tombstone: DeletedTaskTombstone): void {
+    this.assertOpen()
+    this.stagedTombstones.set(tombstone.task_id, tombstone)
+  }
+
+  // Every task this transaction has touched so far
+  getTaskChanges(): TaskChange[] {
+    const ids = new Set([...(this.tasksCleared ? this.baseTasks.keys() : []), ...this.stagedTasks.keys()])
+    return Array.from(ids)
+      .map(id => ({ id, before: this.baseTasks.get(id) ?? null, after: this.getTaskById(id) }))
+      .filter(change => change.before !== change.after)
+  }
+
+  // Every tombstone this transaction has added or removed so far
+  getTombstoneChanges(): TombstoneChange[] {
+    const ids = new Set([...(this.tombstonesCleared ? this.baseTombstones.keys() : []), ...this.stagedTombstones.keys()])
+    return Array.from(ids)
+      .map(id => ({ task_id: id, before: this.baseTombstones.get(id) ?? null, after: this.getTombstone(id) }))
+      .filter(change => change.before !== change.after)
+  }
+
+  clearAllTasks(): void {
+    this.assertOpen()
+    this.tasksCleared = true
+    this.stagedTasks.clear()
+    this.clearDeletedTaskHistory()
+    this.events.push({ type: 'tasks_cleared' })
+  }
+
+  clearDeletedTaskHistory(): void {
+    this.assertOpen()
+    this.tombstonesCleared = true
+    this.stagedTombstones.clear()
+  }
+
+  addAction(actionData: Omit<InternalAction, 'id' | 'timestamp'>): InternalAction {
+    this.assertOpen()
+    const modelId = actionData.model_id ?? this.getTaskById(actionData.task_id)?.model_id
+    const newAction: InternalAction = {
+      id: `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      ...actionData,
+      ...(modelId ? { model_id: modelId } : {}),
+      timestamp: new Date().toISOString(),
+    }
+
+    this.stagedActions.push(newAction)
+    this.events.push({ type: 'action_added', action: newAction })
+    return newAction
+  }
+
+  clearAllActions(): void {
+    this.assertOpen()
+    this.actionsCleared = true
+    this.stagedActions = []
+    this.evictedActionIds.clear()
+    this.events.push({ type: 'actions_cleared' })
+  }
+
+  // Drop actions from the hot store once they have been written to the archive
+  evictActions(ids: string[]): void {
+    this.assertOpen()
+    if (ids.length === 0) return
+    const evicted = new Set(ids)
+    evicted.forEach(id => this.evictedActionIds.add(id))
+    this.stagedActions = this.stagedActions.filter(action => !evicted.has(action.id))
+    this.events.push({ type: 'actions_archived', actionIds: ids })
+  }
+
+  // Store a bookkeeping value (see InternalDB.getMeta) in the same commit as the records it describes
+  setMeta(key: string, value: string): void {
+    this.assertOpen()
+    this.stagedMeta.set(key, value)
+  }
+
+  // Called by InternalDB: freeze the transaction and describe what to write
+  close(): { batch: StorageBatch; events: InternalDBChangeEvent[] } {
+    this.closed = true
+    const batch = emptyBatch()
+    batch.clearTasks = this.tasksCleared
+    batch.clearActions = this.actionsCleared
+    batch.clearTombstones = this.tombstonesCleared
+
+    for (const [id, task] of this.stagedTasks) {
+      if (task) {
+        batch.putTasks.push(task)
+      } else {
+        batch.deleteTaskIds.push(id)
+      }
+    }
+    for (const [id, tombstone] of this.stagedTombstones) {
+      if (tombstone) {
+        batch.putTombstones.push(tombstone)
+      } else {
+        batch.deleteTombstoneIds.push(id)
+      }
+    }
+    batch.putActions = [...this.stagedActions]
+    batch.deleteActionIds = Array.from(this.evictedActionIds)
+    if (this.stagedMeta.size > 0) {
+      batch.putMeta = Object.fromEntries(this.stagedMeta)
+    }
+
+    return { batch, events: [...this.events] }
+  }
+
+  // Called by InternalDB after a successful commit: mirror the batch into the in-memory cache
+  applyTo(tasks: Map<string, InternalTask>, tombstones: Map<string, DeletedTaskTombstone>, actions: InternalAction[]): void {
+    if (this.tasksCleared) tasks.clear()
+    if (this.tombstonesCleared) tombstones.clear()
+    if (this.actionsCleared) actions.length = 0
+    if (this.evictedActionIds.size > 0) {
+      const kept = actions.filter(action => !this.evictedActionIds.has(action.id))
+      actions.splice(0, actions.length, ...kept)
+    }
+
+    for (const [id, task] of this.stagedTasks) {
+      if (task) {
+        tasks.set(id, task)
+      } else {
+        tasks.delete(id)
+      }
+    }
+    for (const [id, tombstone] of this.stagedTombstones) {
+      if (tombstone) {
+        tombstones.set(id, tombstone)
+      } else {
+        tombstones.delete(id)
+      }
+    }
+    actions.push(...this.stagedActions)
+  }
+}
+
+// Backend and cipher for one namespace's store (null = the unscoped store from before stores were per-user)
+export type InternalStoreFactory = (namespace: string | null) => {
+  adapter: InternalStorageAdapter
+  cipher: DataCipher | null
+}
+
+function createDefaultStore(namespace: string | null): ReturnType<InternalStoreFactory> {
+  return {
+    adapter: Platform.OS === 'web' ? new AsyncStorageAdapter(namespace) : new SQLiteStorageAdapter(namespace),
+    cipher: dataCipherFor('internal_db', namespace),
+  }
+}
 
 export class InternalDB {
   private static instance: InternalDB
-  private tasks: InternalTask[] = []
+  private adapter: InternalStorageAdapter
+  private cipher: DataCipher | null
+  private namespace: string | null = null
+  private adoptUnscoped = false
+  // Bumped on every namespace switch so loads that straddle one don't fill the caches with the old store's data
+  private generation = 0
+  private ready: Promise<void> | null = null
+  private tasks: Map<string, InternalTask> = new Map()
   private actions: InternalAction[] = []
   private loaded = false
   private actionsLoaded = false
-  private deletedTaskIds: Set<string> = new Set()
-  private deletedLoaded = false
+  private tombstones: Map<string, DeletedTaskTombstone> = new Map()
+  private tombstonesLoaded = false
+  private tombstoneRetentionMs = DEFAULT_TOMBSTONE_RETENTION_MS
+  private listeners: Set<InternalDBChangeListener> = new Set()
+  private writeQueue: Promise<void> = Promise.resolve()
 
   static getInstance(): InternalDB {
     if (!InternalDB.instance) {
-      InternalDB.instance = new InternalDB()
+      InternalDB.instance = new InternalDB(createDefaultStore)
     }
     return InternalDB.instance
   }
 
-  private constructor() {}
+  // Standalone instance over a specific backend (tests, tooling); unencrypted unless a cipher is given
+  static withAdapter(adapter: InternalStorageAdapter, cipher: DataCipher | null = null): InternalDB {
+    return new InternalDB(() => ({ adapter, cipher }))
+  }
+
+  // Standalone instance that opens a store per namespace through `createStore`
+  static withStores(createStore: InternalStoreFactory): InternalDB {
+    return new InternalDB(createStore)
+  }
 
-  // Load tasks from AsyncStorage
-  async loadTasks(): Promise<InternalTask[]> {
-    if (this.loaded) {
-      return this.tasks
+  private constructor(private readonly createStore: InternalStoreFactory) {
+    const { adapter, cipher } = createStore(null)
+    this.adapter = adapter
+    this.cipher = cipher
+  }
+
+  // Subscribe to change events
+  // @returns Cleanup function to unsubscribe
+  subscribe(listener: InternalDBChangeListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
     }
+  }
 
-    try {
-      const stored = await AsyncStorage.getItem(STORAGE_KEY)
-      if (stored) {
-        this.tasks = JSON.parse(stored)
-        console.log('📱 Loaded', this.tasks.length, 'tasks from internal DB')
-      } else {
-        this.tasks = []
-        console.log('📱 No tasks found in internal DB, starting fresh')
+  private emit(...events: InternalDBChangeEvent[]): void {
+    for (const event of events) {
+      for (const listener of Array.from(this.listeners)) {
+        try {
+          listener(event)
+        } catch (error) {
+          console.error('❌ Internal DB change listener failed:', error)
+        }
+      }
+    }
+  }
+
+  // Open the storage backend, import legacy AsyncStorage data once and upgrade stored records
+  private ensureReady(): Promise<void> {
+    if (!this.ready) {
+      this.ready = this.openAdapter()
+    }
+    return this.ready
+  }
+
+  private async openAdapter(): Promise<void> {
+    this.adapter = await this.openStore(this.namespace, this.adapter, this.cipher)
+
+    // Data from before per-user stores belongs to whoever adopts the unscoped store
+    const ownsLegacyData = this.namespace === null || this.adoptUnscoped
+    if (ownsLegacyData) {
+      try {
+        await migrateLegacyAsyncStorage(this.adapter)
+      } catch (error) {
+        console.error('❌ Error migrating legacy internal DB data:', error)
       }
-      this.loaded = true
-      return this.tasks
+    }
+
+    if (this.adoptUnscoped) {
+      this.adoptUnscoped = false
+      try {
+        await this.adoptUnscopedStore(this.adapter)
+      } catch (error) {
+        console.error('❌ Error moving unscoped internal DB data into the user store:', error)
+      }
+    }
+
+    try {
+      await runTaskMigrations(this.adapter)
     } catch (error) {
-      console.error('❌ Error loading tasks from internal DB:', error)
-      this.tasks = []
-      this.loaded = true
-      return this.tasks
+      console.error('❌ Error running internal DB schema migrations:', error)
+    }
+
+    // Encrypt plaintext from older versions, or finish a re-key interrupted by the app closing
+    if (this.adapter instanceof EncryptedStorageAdapter) {
+      try {
+        if (await this.adapter.needsReencryption()) {
+          await this.archive.reencrypt()
+          const rewritten = await this.adapter.reencryptAll()
+          console.log('🔐 Encrypted', rewritten, 'internal DB records at rest')
+        }
+      } catch (error) {
+        console.error('❌ Error encrypting internal DB records:', error)
+      }
     }
   }
 
-  // Save tasks to AsyncStorage
-  private async saveTasks(): Promise<void> {
+  // Initialise a backend, falling back to AsyncStorage, and wrap it for encryption when there's a cipher
+  private async openStore(
+    namespace: string | null,
+    adapter: InternalStorageAdapter,
+    cipher: DataCipher | null
+  ): Promise<InternalStorageAdapter> {
+    let opened = adapter
     try {
-      await AsyncStorage.setItem(STORAGE_KEY, JSON.stringify(this.tasks))
-      console.log('💾 Saved', this.tasks.length, 'tasks to internal DB')
+      await opened.init()
     } catch (error) {
-      console.error('❌ Error saving tasks to internal DB:', error)
+      if (opened instanceof AsyncStorageAdapter) throw error
+      console.error(`❌ Could not open ${opened.name} internal DB, falling back to AsyncStorage:`, error)
+      opened = new AsyncStorageAdapter(namespace)
+      await opened.init()
     }
+    return cipher ? new EncryptedStorageAdapter(opened, cipher) : opened
   }
 
-  private async loadDeletedTaskIds(): Promise<Set<string>> {
-    if (this.deletedLoaded) {
-      return this.deletedTaskIds
+  // Copy everything from the unscoped store into `target` in one commit, then delete the unscoped store
+  private async adoptUnscopedStore(target: InternalStorageAdapter): Promise<void> {
+    const unscoped = this.createStore(null)
+    const source = await this.openStore(null, unscoped.adapter, unscoped.cipher)
+
+    const batch = emptyBatch()
+    batch.putTasks = await source.getAllTasks()
+    batch.putActions = await source.getAllActions()
+    batch.putTombstones = await source.getTombstones()
+    if (!isEmptyBatch(batch)) {
+      await target.commit(batch)
     }
+    await source.destroy()
+    console.log('🚚 Moved', batch.putTasks.length, 'tasks and', batch.putActions.length, 'actions into', this.namespace, 'internal DB')
+  }
 
-    try {
-      const stored = await AsyncStorage.getItem(DELETED_TASKS_STORAGE_KEY)
-      if (stored) {
-        const parsed = JSON.parse(stored)
-        if (Array.isArray(parsed)) {
-          this.deletedTaskIds = new Set(parsed.filter((id: unknown) => typeof id === 'string'))
-        } else {
-          this.deletedTaskIds = new Set()
+  getNamespace(): string | null {
+    return this.namespace
+  }
+
+  /**
+   * Point the DB at another namespace's store (one per signed-in user; null = signed out).
+   * Writes queued before the switch land in the old store. Caches are dropped and subscribers
+   * get tasks_cleared/actions_cleared so they re-query.
+   * With adoptUnscoped, data stored before per-user stores existed is moved into the new store.
+   */
+  async switchNamespace(namespace: string | null, options: { adoptUnscoped?: boolean } = {}): Promise<void> {
+    const switched = await this.serialize(async () => {
+      if (namespace === this.namespace && !options.adoptUnscoped) return false
+
+      const previous = this.ready
+      if (previous) {
+        try {
+          await previous
+          await this.adapter.close()
+        } catch (error) {
+          console.error('❌ Error closing internal DB store:', error)
         }
+      }
+
+      const { adapter, cipher } = this.createStore(namespace)
+      this.adapter = adapter
+      this.cipher = cipher
+      this.namespace = namespace
+      this.adoptUnscoped = !!options.adoptUnscoped
+      this.generation++
+      this.ready = null
+      this.tasks = new Map()
+      this.actions = []
+      this.tombstones = new Map()
+      this.loaded = false
+      this.actionsLoaded = false
+      this.tombstonesLoaded = false
+      if (this.adoptUnscoped) {
+        // Move the data now rather than on first read, so the caller knows it has been taken over
+        await this.ensureReady()
+      }
+      return true
+    })
+
+    if (switched) {
+      console.log('👤 Switched internal DB to', namespace ?? 'signed-out', 'store')
+      this.emit({ type: 'tasks_cleared' }, { type: 'actions_cleared' })
+    }
+  }
+
+  // Delete a namespace's store and its key. The active store is switched to signed-out first.
+  async purgeNamespace(namespace: string): Promise<void> {
+    if (namespace === this.namespace) {
+      await this.switchNamespace(null)
+    }
+
+    await this.serialize(async () => {
+      const { adapter, cipher } = this.createStore(namespace)
+      await (cipher ? new EncryptedStorageAdapter(adapter, cipher) : adapter).destroy()
+      // A failed SQLite open may have left a fallback copy behind
+      if (!(adapter instanceof AsyncStorageAdapter)) {
+        await new AsyncStorageAdapter(namespace).destroy()
+      }
+    })
+    console.log('🗑️ Purged', namespace, 'internal DB')
+  }
+
+  // Load tasks from the storage backend
+  async loadTasks(): Promise<InternalTask[]> {
+    if (this.loaded) {
+      return Array.from(this.tasks.values())
+    }
+
+    const generation = this.generation
+    let tasks: Map<string, InternalTask>
+    try {
+      await this.ensureReady()
+      const stored = await this.adapter.getAllTasks()
+      tasks = new Map(stored.map(task => [task.id, task]))
+      if (stored.length > 0) {
+        console.log('📱 Loaded', stored.length, 'tasks from internal DB')
       } else {
-        this.deletedTaskIds = new Set()
+        console.log('📱 No tasks found in internal DB, starting fresh')
       }
     } catch (error) {
-      console.error('❌ Error loading deleted task ids from internal DB:', error)
-      this.deletedTaskIds = new Set()
+      console.error('❌ Error loading tasks from internal DB:', error)
+      tasks = new Map()
     }
-
-    this.deletedLoaded = true
-    return this.deletedTaskIds
+    if (generation !== this.generation) return this.loadTasks()
+    this.tasks = tasks
+    this.loaded = true
+    return Array.from(this.tasks.values())
   }
 
-  private async saveDeletedTaskIds(): Promise<void> {
+  // Expired tombstones are dropped here, once per launch
+  private async loadTombstones(): Promise<Map<string, DeletedTaskTombstone>> {
+    if (this.tombstonesLoaded) {
+      return this.tombstones
+    }
+
+    const generation = this.generation
+    let tombstones: Map<string, DeletedTaskTombstone>
     try {
-      await AsyncStorage.setItem(DELETED_TASKS_STORAGE_KEY, JSON.stringify(Array.from(this.deletedTaskIds)))
-      console.log('💾 Saved', this.deletedTaskIds.size, 'deleted task ids to internal DB')
+      await this.ensureReady()
+      const stored = await this.adapter.getTombstones()
+      tombstones = new Map(stored.map(tombstone => [tombstone.task_id, tombstone]))
     } catch (error) {
-      console.error('❌ Error saving deleted task ids to internal DB:', error)
+      console.error('❌ Error loading deleted task tombstones from internal DB:', error)
+      tombstones = new Map()
+    }
+    if (generation !== this.generation) return this.loadTombstones()
+    this.tombstones = tombstones
+    this.tombstonesLoaded = true
+
+    const expired = collectableTombstoneIds(this.tombstones.values(), { retentionMs: this.tombstoneRetentionMs })
+    if (expired.length > 0) {
+      try {
+        await this.adapter.deleteTombstones(expired)
+        expired.forEach(id => this.tombstones.delete(id))
+        console.log('🧹 Expired', expired.length, 'deleted task tombstones')
+      } catch (error) {
+        console.error('❌ Error expiring deleted task tombstones:', error)
+      }
     }
+
+    return this.tombstones
   }
 
-  private async markTasksDeleted(taskIds: string[]): Promise<void> {
-    if (!taskIds.length) return
+  /**
+   * Run several mutations as one atomic commit.
+   * The callback stages task, action and tombstone changes on `tx`; they are written together
+   * when it resolves, or discarded entirely if it throws or the write fails.
+   * Transactions run one at a time, so don't call internalDB's own mutators inside the callback.
+   */
+  async transaction<T>(work: (tx: InternalDBTransaction) => T | Promise<T>): Promise<T> {
+    const run = async (): Promise<T> => {
+      await this.loadTasks()
+      await this.loadTombstones()
+      await this.loadActions()
 
-    await this.loadDeletedTaskIds()
-    let changed = false
+      const tx = new InternalDBTransaction(this.tasks, this.tombstones)
+      let result: T
+      try {
+        result = await work(tx)
+      } catch (error) {
+        tx.close()
+        throw error
+      }
 
-    for (const taskId of taskIds) {
-      if (!taskId) continue
-      if (!this.deletedTaskIds.has(taskId)) {
-        this.deletedTaskIds.add(taskId)
-        changed = true
+      const { batch, events } = tx.close()
+      if (!isEmptyBatch(batch)) {
+        await this.adapter.commit(batch)
+        tx.applyTo(this.tasks, this.tombstones, this.actions)
+        this.emit(...events)
+        if (batch.clearTasks || batch.clearActions) {
+          await this.replaceKeyAfterClear()
+        }
       }
+      return result
     }
 
-    if (changed) {
-      await this.saveDeletedTaskIds()
+    try {
+      return await this.serialize(run)
+    } catch (error) {
+      console.error('❌ Internal DB transaction rolled back:', error)
+      throw error
     }
   }
 
-  private async unmarkTaskDeleted(taskId: string): Promise<void> {
-    if (!taskId) return
+  // Run after every write queued before it, and before any queued after it
+  private serialize<T>(run: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(run)
+    this.writeQueue = result.then(() => undefined, () => undefined)
+    return result
+  }
+
+  // Switch to a fresh encryption key and rewrite every task and action under it
+  async rekey(): Promise<void> {
+    await this.serialize(async () => {
+      await this.ensureReady()
+      const rewritten = await this.reencryptUnderNewKey()
+      if (rewritten !== null) {
+        console.log('🔑 Re-keyed internal DB,', rewritten, 'records rewritten')
+      }
+    })
+  }
 
-    await this.loadDeletedTaskIds()
-    if (this.deletedTaskIds.delete(taskId)) {
-      await this.saveDeletedTaskIds()
+  // @returns Number of records rewritten, or null when the store isn't encrypted
+  private async reencryptUnderNewKey(): Promise<number | null> {
+    const { adapter, cipher } = this
+    if (!cipher || !(adapter instanceof EncryptedStorageAdapter)) return null
+
+    await cipher.rotateKey()
+    await this.archive.reencrypt()
+    return adapter.reencryptAll()
+  }
+
+  // Like OfflineDatabase.clearAll: whatever was cleared can't be read with the key still in use,
+  // even from leftover or backed-up ciphertext. The clear has committed, so a failure here only leaves
+  // the old key retired, and the rewrite is finished on the next open.
+  private async replaceKeyAfterClear(): Promise<void> {
+    try {
+      await this.reencryptUnderNewKey()
+    } catch (error) {
+      console.error('❌ Error replacing the internal DB key after a clear:', error)
     }
   }
 
   async clearDeletedTaskHistory(): Promise<void> {
-    await this.loadDeletedTaskIds()
-    if (this.deletedTaskIds.size === 0) return
+    await this.loadTombstones()
+    if (this.tombstones.size === 0) return
 
-    this.deletedTaskIds.clear()
-    await this.saveDeletedTaskIds()
+    await this.transaction(tx => tx.clearDeletedTaskHistory())
     console.log('🧹 Cleared deleted task history')
   }
 
+  // How long a deleted task id keeps sync from restoring the task
+  setTombstoneRetention(retentionMs: number): void {
+    this.tombstoneRetentionMs = retentionMs
+  }
+
+  /**
+   * Drop tombstones that have outlived the retention window and, when the server's
+   * task_solution for a model is given, those of that model whose task it no longer contains.
+   * @returns Number of tombstones removed
+   */
+  async collectTombstoneGarbage(solution?: ModelSolutionSnapshot): Promise<number> {
+    const collected = await this.transaction(tx => {
+      const ids = collectableTombstoneIds(tx.getTombstones(), { retentionMs: this.tombstoneRetentionMs, solution })
+      ids.forEach(id => tx.removeTombstone(id))
+      return ids.length
+    })
+
+    if (collected > 0) {
+      console.log('🧹 Removed', collected, 'deleted task tombstones')
+    }
+    return collected
+  }
+
+  async getTombstones(): Promise<DeletedTaskTombstone[]> {
+    await this.loadTombstones()
+    return Array.from(this.tombstones.values())
+  }
+
   async getDeletedTaskIds(): Promise<string[]> {
-    await this.loadDeletedTaskIds()
-    return Array.from(this.deletedTaskIds)
+    await this.loadTombstones()
+    return Array.from(this.tombstones.keys())
   }
 
   async isTaskDeleted(taskId: string): Promise<boolean> {
     if (!taskId) return false
-    await this.loadDeletedTaskIds()
-    return this.deletedTaskIds.has(taskId)
+    await this.loadTombstones()
+    return this.tombstones.has(taskId)
   }
 
   // Get all tasks
   async getAllTasks(): Promise<InternalTask[]> {
     await this.loadTasks()
-    return [...this.tasks] // Return copy
+    return Array.from(this.tasks.values()) // Return copy
   }
 
   // Get task by ID
   async getTaskById(id: string): Promise<InternalTask | null> {
     await this.loadTasks()
-    return this.tasks.find(task => task.id === id) || null
+    return this.tasks.get(id) || null
   }
 
   // Add a new task
-  async addTask(taskData: Omit<InternalTask, 'id' | 'created_at' | 'updated_at'>): Promise<InternalTask> {
-    await this.loadTasks()
-    
-    const now = new Date().toISOString()
-    const newTask: InternalTask = {
-      id: `internal_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      ...taskData,
-      created_at: now,
-      updated_at: now,
-    }
-
-    this.tasks.push(newTask)
-    await this.saveTasks()
-    await this.unmarkTaskDeleted(newTask.id)
-    
+  async addTask(taskData: NewTaskData): Promise<InternalTask> {
+    const newTask = await this.transaction(tx => tx.addTask(taskData))
     console.log('➕ Added task to internal DB:', newTask.name)
     return newTask
   }
 
   // Update a task
-  async updateTask(id: string, updates: Partial<Omit<InternalTask, 'id' | 'created_at'>>): Promise<InternalTask | null> {
-    await this.loadTasks()
-    
-    const taskIndex = this.tasks.findIndex(task => task.id === id)
-    if (taskIndex === -1) {
+  async updateTask(id: string, updates: TaskUpdates): Promise<InternalTask | null> {
+    const updatedTask = await this.transaction(tx => tx.updateTask(id, updates))
+    if (!updatedTask) {
       console.warn('⚠️ Task not found for update:', id)
       return null
     }
 
-    const updatedTask = {
-      ...this.tasks[taskIndex],
-      ...updates,
-      updated_at: new Date().toISOString(),
-    }
-
-    this.tasks[taskIndex] = updatedTask
-    await this.saveTasks()
-    await this.unmarkTaskDeleted(updatedTask.id)
-    
     console.log('📝 Updated task in internal DB:', updatedTask.name)
     return updatedTask
   }
 
-  // Delete a task
+  // Delete a task (task row and tombstone are committed together)
   async deleteTask(id: string): Promise<boolean> {
-    await this.loadTasks()
-    
-    const taskIndex = this.tasks.findIndex(task => task.id === id)
-    if (taskIndex === -1) {
+    const deletedTask = await this.transaction(tx => {
+      const task = tx.getTaskById(id)
+      return task && tx.deleteTask(id) ? task : null
+    })
+    if (!deletedTask) {
       console.warn('⚠️ Task not found for deletion:', id)
       return false
     }
 
-    const deletedTask = this.tasks.splice(taskIndex, 1)[0]
-    await this.saveTasks()
-    await this.markTasksDeleted([deletedTask.id])
-    
     console.log('✅ Task deleted:', deletedTask.name)
     return true
   }
 
   // Save/update a task (upsert functionality)
   // If skipIfDeleted is true, don't restore tasks that are marked as deleted
-  async saveTask(taskData: Partial<InternalTask> & { id: string; name: string; start_time: string; end_time: string }, skipIfDeleted: boolean = false): Promise<InternalTask | null> {
-    await this.loadTasks()
-    
-    // Check if task is marked as deleted
-    if (skipIfDeleted) {
-      const isDeleted = await this.isTaskDeleted(taskData.id)
-      if (isDeleted) {
-        console.log(`⏭️ Skipping saveTask for deleted task: ${taskData.name} (${taskData.id})`)
-        return null
-      }
-    }
-    
-    const existingIndex = this.tasks.findIndex(task => task.id === taskData.id)
-    const now = new Date().toISOString()
-    
-    if (existingIndex >= 0) {
-      // Update existing task
-      const updatedTask = {
-        ...this.tasks[existingIndex],
-        ...taskData,
-        updated_at: now,
-      }
-      this.tasks[existingIndex] = updatedTask
-      await this.saveTasks()
-      // Only unmark as deleted if not skipping (i.e., user explicitly saved/updated)
-      if (!skipIfDeleted) {
-        await this.unmarkTaskDeleted(updatedTask.id)
-      }
-      console.log('📝 Updated existing task in internal DB:', updatedTask.name)
-      return updatedTask
+  async saveTask(taskData: SaveTaskData, skipIfDeleted: boolean = false): Promise<InternalTask | null> {
+    const { savedTask, existed } = await this.transaction(tx => ({
+      existed: tx.getTaskById(taskData.id) !== null,
+      savedTask: tx.saveTask(taskData, skipIfDeleted),
+    }))
+
+    if (!savedTask) {
+      console.log(`⏭️ Skipping saveTask for deleted task: ${taskData.name} (${taskData.id})`)
+    } else if (existed) {
+      console.log('📝 Updated existing task in internal DB:', savedTask.name)
     } else {
-      // Create new task
-      const newTask: InternalTask = {
-        id: taskData.id,
-        name: taskData.name,
-        start_time: taskData.start_time,
-        end_time: taskData.end_time,
-        duration: taskData.duration || InternalDB.calculateDuration(taskData.start_time, taskData.end_time),
-        status: taskData.status || 'pending',
-        priority: taskData.priority || 'medium',
-        colorLabel: taskData.colorLabel || 'none', // Default to 'none' if not specified
-        completed_at: taskData.completed_at,
-        created_at: taskData.created_at || now,
-        updated_at: now,
-      }
-      
-      this.tasks.push(newTask)
-      await this.saveTasks()
-      // Only unmark as deleted if not skipping (i.e., user explicitly saved/updated)
-      if (!skipIfDeleted) {
-        await this.unmarkTaskDeleted(newTask.id)
-      }
-      console.log('➕ Added new task to internal DB:', newTask.name)
-      return newTask
+      console.log('➕ Added new task to internal DB:', savedTask.name)
     }
+    return savedTask
   }
 
   // Clear all tasks
   async clearAllTasks(): Promise<void> {
-    this.tasks = []
-    await this.saveTasks()
-    await this.clearDeletedTaskHistory()
+    await this.transaction(tx => tx.clearAllTasks())
     console.log('🧹 Cleared all tasks from internal DB')
   }
 
-  // Get tasks within a time range
+  // Get tasks within a time range (indexed query on the storage backend)
   async getTasksInRange(startTime: Date, endTime: Date): Promise<InternalTask[]> {
     await this.loadTasks()
-    
-    const startMs = startTime.getTime()
-    const endMs = endTime.getTime()
-    
-    return this.tasks.filter(task => {
-      const taskStartMs = new Date(task.start_time).getTime()
-      const taskEndMs = new Date(task.end_time).getTime()
-      
+
+    try {
       // Task overlaps with the range if:
       // - Task starts before range ends AND task ends after range starts
-      return taskStartMs < endMs && taskEndMs > startMs
-    })
+      return await this.adapter.getTasksInRange(startTime.getTime(), endTime.getTime())
+    } catch (error) {
+      console.error('❌ Error querying tasks in range from internal DB:', error)
+      return []
+    }
   }
 
   // Get current active task
@@ -336,7 +894,7 @@ export class InternalDB {
     
     const now = new Date().getTime()
     
-    return this.tasks.find(task => {
+    return Array.from(this.tasks.values()).find(task => {
       const taskStartMs = new Date(task.start_time).getTime()
       const taskEndMs = new Date(task.end_time).getTime()
       return now >= taskStartMs && now < taskEndMs
@@ -349,7 +907,7 @@ export class InternalDB {
     
     const now = new Date().getTime()
     
-    const upcomingTasks = this.tasks
+    const upcomingTasks = Array.from(this.tasks.values())
       .filter(task => new Date(task.start_time).getTime() > now)
       .sort((a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime())
     
@@ -388,54 +946,35 @@ export class InternalDB {
 
   // ACTIONS MANAGEMENT
 
-  // Load actions from AsyncStorage
+  // Load actions from the storage backend
   async loadActions(): Promise<InternalAction[]> {
     if (this.actionsLoaded) {
       return this.actions
     }
 
+    const generation = this.generation
+    let actions: InternalAction[]
     try {
-      const stored = await AsyncStorage.getItem(ACTIONS_STORAGE_KEY)
-      if (stored) {
-        this.actions = JSON.parse(stored)
-        console.log('📱 Loaded', this.actions.length, 'actions from internal DB')
+      await this.ensureReady()
+      actions = await this.adapter.getAllActions()
+      if (actions.length > 0) {
+        console.log('📱 Loaded', actions.length, 'actions from internal DB')
       } else {
-        this.actions = []
         console.log('📱 No actions found in internal DB, starting fresh')
       }
-      this.actionsLoaded = true
-      return this.actions
     } catch (error) {
       console.error('❌ Error loading actions from internal DB:', error)
-      this.actions = []
-      this.actionsLoaded = true
-      return this.actions
-    }
-  }
-
-  // Save actions to AsyncStorage
-  private async saveActions(): Promise<void> {
-    try {
-      await AsyncStorage.setItem(ACTIONS_STORAGE_KEY, JSON.stringify(this.actions))
-      console.log('💾 Saved', this.actions.length, 'actions to internal DB')
-    } catch (error) {
-      console.error('❌ Error saving actions to internal DB:', error)
+      actions = []
     }
+    if (generation !== this.generation) return this.loadActions()
+    this.actions = actions
+    this.actionsLoaded = true
+    return this.actions
   }
 
   // Add a new action
   async addAction(actionData: Omit<InternalAction, 'id' | 'timestamp'>): Promise<InternalAction> {
-    await this.loadActions()
-    
-    const newAction: InternalAction = {
-      id: `action_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      ...actionData,
-      timestamp: new Date().toISOString(),
-    }
-
-    this.actions.push(newAction)
-    await this.saveActions()
-    
+    const newAction = await this.transaction(tx => tx.addAction(actionData))
     console.log('📝 Added action to internal DB:', newAction.action_type, newAction.task_name)
     return newAction
   }
@@ -448,8 +987,7 @@ export class InternalDB {
 
   // Clear all actions
   async clearAllActions(): Promise<void> {
-    this.actions = []
-    await this.saveActions()
+    await this.transaction(tx => tx.clearAllActions())
     console.log('🧹 Cleared all actions from internal DB')
   }
 
@@ -463,53 +1001,118 @@ export class InternalDB {
   // Get tasks by status
   async getTasksByStatus(status: InternalTask['status']): Promise<InternalTask[]> {
     await this.loadTasks()
-    return this.tasks.filter(task => task.status === status)
-      .sort((a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime())
+    try {
+      return await this.adapter.getTasksByStatus(status)
+    } catch (error) {
+      console.error('❌ Error querying tasks by status from internal DB:', error)
+      return []
+    }
+  }
+
+  // Search tasks by name (substring or fuzzy) and facets, most relevant first
+  async searchTasks(query: TaskSearchQuery): Promise<TaskSearchResult[]> {
+    const candidates = query.start && query.end
+      ? await this.getTasksInRange(query.start, query.end)
+      : await this.getAllTasks()
+    return searchTasks(candidates, query)
   }
 
   // Get tasks within a specific time range (enhanced)
   async getTasksInTimeRange(startTime: Date, endTime: Date, includeCompleted: boolean = false): Promise<InternalTask[]> {
-    await this.loadTasks()
-    
-    const startMs = startTime.getTime()
-    const endMs = endTime.getTime()
+    const tasks = await this.getTasksInRange(startTime, endTime)
     
-    return this.tasks.filter(task => {
-      // Filter by completion status if needed
-      if (!includeCompleted && task.status === 'completed') {
-        return false
-      }
-      
-      const taskStartMs = new Date(task.start_time).getTime()
-      const taskEndMs = new Date(task.end_time).getTime()
-      
-      // Task overlaps with the range if:
-      // - Task starts before range ends AND task ends after range starts
-      return taskStartMs < endMs && taskEndMs > startMs
-    }).sort((a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime())
+    // Filter by completion status if needed
+    return includeCompleted ? tasks : tasks.filter(task => task.status !== 'completed')
   }
 
-  // Update multiple tasks at once
-  async updateMultipleTasks(updates: Array<{ id: string; updates: Partial<Omit<InternalTask, 'id' | 'created_at'>> }>): Promise<InternalTask[]> {
-    await this.loadTasks()
-    
-    const updatedTasks: InternalTask[] = []
-    
-    for (const { id, updates: taskUpdates } of updates) {
-      const taskIndex = this.tasks.findIndex(task => task.id === id)
-      if (taskIndex !== -1) {
-        const updatedTask = {
-          ...this.tasks[taskIndex],
-          ...taskUpdates,
-          updated_at: new Date().toISOString(),
-        }
-        this.tasks[taskIndex] = updatedTask
-        updatedTasks.push(updatedTask)
-      }
+  // ARCHIVE
+
+  // Cold storage in the active store's meta area, encrypted with the same key as the rest of the store
+  private get archive(): TaskArchive {
+    return new TaskArchive(this.adapter, this.cipher)
+  }
+
+  /**
+   * Move completed tasks and actions older than `olderThanDays` into the compressed archive.
+   * Records are written to the archive first and leave the hot store in the same transaction,
+   * so an interrupted run can leave them in both places but never in neither.
+   * @returns Number of tasks and actions archived
+   */
+  async archiveOldRecords(olderThanDays: number = DEFAULT_ARCHIVE_AFTER_DAYS): Promise<{ tasks: number; actions: number }> {
+    const archived = await this.transaction(async tx => {
+      const selected = selectArchivable(tx.getAllTasks(), this.actions, { olderThanDays })
+      await this.archive.add(selected.tasks, selected.actions)
+      selected.tasks.forEach(task => tx.evictTask(task.id))
+      tx.evictActions(selected.actions.map(action => action.id))
+      return { tasks: selected.tasks.length, actions: selected.actions.length }
+    })
+
+    if (archived.tasks > 0 || archived.actions > 0) {
+      console.log('🗄️ Archived', archived.tasks, 'tasks and', archived.actions, 'actions older than', olderThanDays, 'days')
     }
+    return archived
+  }
+
+  /**
+   * Move specific tasks into the archive whatever their age, e.g. finished tasks the solver no longer schedules.
+   * Like archiveOldRecords, they are written to the archive before they leave the hot store.
+   * @returns Number of tasks archived
+   */
+  async archiveTasks(taskIds: string[]): Promise<number> {
+    if (taskIds.length === 0) return 0
+    return this.transaction(async tx => {
+      const tasks = taskIds
+        .map(id => tx.getTaskById(id))
+        .filter((task): task is InternalTask => task !== null)
+      await this.archive.add(tasks, [])
+      tasks.forEach(task => tx.evictTask(task.id))
+      return tasks.length
+    })
+  }
+
+  // Archived tasks overlapping [start, end); both bounds optional
+  async getArchivedTasks(range: ArchiveRange = {}): Promise<InternalTask[]> {
+    await this.ensureReady()
+    return this.archive.getTasks(range)
+  }
+
+  // Archived actions logged within [start, end), newest first
+  async getArchivedActions(range: ArchiveRange = {}): Promise<InternalAction[]> {
+    await this.ensureReady()
+    return this.archive.getActions(range)
+  }
+
+  async getArchivedTaskIds(): Promise<string[]> {
+    await this.ensureReady()
+    return this.archive.getTaskIds()
+  }
+
+  async getArchiveSummary(): Promise<ArchiveSummary> {
+    await this.ensureReady()
+    return this.archive.getSummary()
+  }
+
+  // Bookkeeping value written by a transaction's setMeta, e.g. a sync service's high-water mark
+  async getMeta(key: string): Promise<string | null> {
+    await this.ensureReady()
+    return this.adapter.getMeta(key)
+  }
+
+  // Size of the SQLite database file, or null on the AsyncStorage backend
+  async getDatabaseFileSize(): Promise<number | null> {
+    await this.ensureReady()
+    return this.adapter.getFileSize()
+  }
+
+  // Update multiple tasks at once
+  async updateMultipleTasks(updates: Array<{ id: string; updates: TaskUpdates }>): Promise<InternalTask[]> {
+    const updatedTasks = await this.transaction(tx =>
+      updates
+        .map(({ id, updates: taskUpdates }) => tx.updateTask(id, taskUpdates))
+        .filter((task): task is InternalTask => task !== null)
+    )
     
     if (updatedTasks.length > 0) {
-      await this.saveTasks()
       console.log('📝 Updated multiple tasks in internal DB:', updatedTasks.length, 'tasks')
     }
     
@@ -518,24 +1121,11 @@ export class InternalDB {
 
   // Bulk delete tasks
   async deleteMultipleTasks(taskIds: string[]): Promise<number> {
-    await this.loadTasks()
-    
-    let deletedCount = 0
-    const originalLength = this.tasks.length
-    const deletedIds: string[] = []
-    
-    // Remove tasks in reverse order to maintain indices
-    for (let i = this.tasks.length - 1; i >= 0; i--) {
-      if (taskIds.includes(this.tasks[i].id)) {
-        deletedIds.push(this.tasks[i].id)
-        this.tasks.splice(i, 1)
-        deletedCount++
-      }
-    }
+    const deletedCount = await this.transaction(tx =>
+      Array.from(new Set(taskIds)).filter(taskId => tx.deleteTask(taskId)).length
+    )
     
     if (deletedCount > 0) {
-      await this.saveTasks()
-      await this.markTasksDeleted(deletedIds)
       console.log('🗑️ Deleted multiple tasks from internal DB:', deletedCount, 'tasks')
     }
     
@@ -544,4 +1134,4 @@ export class InternalDB {
 }
 
 // Export singleton instance
-export const internalDB = InternalDB.getInstance()
\ No newline at end of file
+export const internalDB = InternalDB.getInstance()
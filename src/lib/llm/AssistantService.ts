@@ -8,7 +8,14 @@
 
 import llmConfig, { validateLLMConfig } from './config';
 import { supabase } from '../supabase';
+import { solverJobs } from '../sync/SolverJobTracker';
+import { modelIdFromScheduleResult } from '../sync/solver-job';
 import { getEnabledFeatures, getFeaturePromptAdditions } from './featureFlags';
+import { localTools } from './local-tools';
+import { ToolContext } from './tool-registry';
+import { ConstraintProblem, findConstraintProblems, InvalidConstraintsError } from './constraint-language';
+import type { TaskChangeProposal } from './task-changes';
+import { deviceTimeZone } from '../time/zone';
 
 /**
  * Generate comprehensive system prompt (static, cacheable)
@@ -49,6 +56,18 @@ You can help users:
 2. Create complex tasks with constraints, entities (people), and locations
 3. Schedule meetings with duration, participants, and location
 4. Understand natural language time references (tomorrow, next week, etc.)
+5. Look at, move, complete and remove tasks already on their schedule
+
+## Working With Existing Tasks
+
+- **list_tasks** finds tasks by time range, status or name; use the ids it returns with the other task tools
+- **find_free_slots** lists free time between scheduled tasks, e.g. before suggesting when something could go
+- **modify_task** renames or re-prioritises a task, or adds and removes its constraints
+- **reschedule_task** moves a task to a new time ("push my workout to 6pm"), or changes the constraints that decide when it happens
+- **complete_task** marks a task done
+- **delete_task** removes a task ("cancel tomorrow's meeting with John"); only when the user clearly asked for it
+- Never guess a task id: list the tasks first, and ask if more than one task matches
+- modify_task, reschedule_task and delete_task show the user the change before and after, and only apply it once they confirm. Don't ask for confirmation in text first; if the result says the change wasn't applied, say so and don't retry it unasked
 
 ## Constraint Language
 
@@ -103,6 +122,8 @@ All attributes support all operations (where type-appropriate):
 **Time**: 24-hour (09:00) or 12-hour (9:00am)
 **Temperature**: °C or °F (auto-converts)
 
+Constraints are checked before the schedule is created. If a tool result lists invalid_constraints, rewrite those constraints and call the tool again; only ask the user if you can't tell what they meant.
+
 Note: Priority is a task parameter in the JSON payload, NOT a constraint attribute.
 
 ${featureAdditions}
@@ -258,7 +279,10 @@ The solver will find optimal times based on all constraints and user's existing
 // System prompt - generated dynamically
 const SYSTEM_PROMPT = generateSystemPrompt();
 
-// Tool definitions for Claude
+// Rounds of tool calls one user message may take before the assistant has to answer
+const MAX_TOOL_ROUNDS = 8;
+
+// Tool definitions for Claude (tools that run on the device are in ./local-tools)
 const TOOLS = [
   {
     name: 'create_schedule',
@@ -326,6 +350,12 @@ const TOOLS = [
   },
 ];
 
+// Shows the user a change to one of their tasks; resolves to whether they want it applied
+export type ChangeConfirmation = (change: TaskChangeProposal) => Promise<boolean>;
+
+// Without a way to ask the user, changes to existing tasks are never applied
+const declineChanges: ChangeConfirmation = async () => false;
+
 interface Message {
   role: 'user' | 'assistant';
   content: string | any[];
@@ -360,9 +390,14 @@ export class AssistantService {
    *
    * @param {string} userMessage - User's message
    * @param {Function} onChunk - Callback for streaming chunks (optional)
+   * @param {Function} confirmChange - Asks the user to confirm a change to an existing task (optional)
    * @returns {Promise<string>} Assistant's response
    */
-  async sendMessage(userMessage: string, onChunk?: (chunk: string) => void): Promise<string> {
+  async sendMessage(
+    userMessage: string,
+    onChunk?: (chunk: string) => void,
+    confirmChange: ChangeConfirmation = declineChanges
+  ): Promise<string> {
     if (!this.isConfigured) {
       throw new Error('LLM not configured. Please set ANTHROPIC_API_KEY in environment variables.');
     }
@@ -377,6 +412,7 @@ export class AssistantService {
 ${userMessage}`;
 
     // Add user message to history
+    const historyLength = this.conversationHistory.length;
     this.conversationHistory.push({
       role: 'user',
       content: messageWithContext,
@@ -384,7 +420,7 @@ ${userMessage}`;
 
     try {
       // Call Claude API (may involve multiple turns for tool use)
-      const response = await this.callClaudeAPIWithTools(onChunk);
+      const response = await this.callClaudeAPIWithTools(onChunk, confirmChange);
 
       console.log('[AssistantService] Final response:', response);
       return response;
@@ -392,8 +428,8 @@ ${userMessage}`;
     } catch (error: any) {
       console.error('[AssistantService] Error:', error);
 
-      // Remove user message from history on error
-      this.conversationHistory.pop();
+      // Remove user message from history on error, with any tool rounds it started
+      this.conversationHistory.length = historyLength;
 
       throw error;
     }
@@ -405,11 +441,16 @@ ${userMessage}`;
    * Supports streaming!
    *
    * @param {Function} onChunk - Callback for streaming chunks
+   * @param {Function} confirmChange - Asks the user to confirm a change to an existing task
    * @returns {Promise<string>} Final response text
    */
-  private async callClaudeAPIWithTools(onChunk?: (chunk: string) => void): Promise<string> {
+  private async callClaudeAPIWithTools(
+    onChunk: ((chunk: string) => void) | undefined,
+    confirmChange: ChangeConfirmation
+  ): Promise<string> {
     let continueLoop = true;
     let finalText = '';
+    let toolRounds = 0;
 
     while (continueLoop) {
       // Call Claude API with streaming enabled
@@ -420,6 +461,9 @@ ${userMessage}`;
 
       if (toolUseBlocks.length > 0) {
         console.log('[AssistantService] Processing tool use blocks:', toolUseBlocks.length);
+        if (++toolRounds > MAX_TOOL_ROUNDS) {
+          throw new Error(`Assistant kept calling tools after ${MAX_TOOL_ROUNDS} rounds`);
+        }
 
         // Add assistant's tool use to history
         this.conversationHistory.push({
@@ -430,7 +474,7 @@ ${userMessage}`;
         // Execute all tools and collect results
         const toolResults = [];
         for (const toolBlock of toolUseBlocks) {
-          const result = await this.executeTool(toolBlock.name!, toolBlock.input, toolBlock.id!);
+          const result = await this.executeTool(toolBlock.name!, toolBlock.input, toolBlock.id!, confirmChange);
           toolResults.push(result);
         }
 
@@ -501,6 +545,9 @@ ${userMessage}`;
     const requestBody = {
       messages: this.conversationHistory,
       timezone: timezone,
+      tools: [...TOOLS, ...localTools.definitions()],
+      // The Edge Function brings its own system prompt; the proxy passes the request through as is
+      ...(llmConfig.useEdgeFunction ? {} : { system: SYSTEM_PROMPT, max_tokens: llmConfig.maxTokens }),
     };
 
     console.log('[AssistantService] Calling', llmConfig.useEdgeFunction ? 'Edge Function' : 'Proxy');
@@ -804,9 +851,15 @@ ${userMessage}`;
    * @param {string} toolName - Name of the tool to execute
    * @param {Object} toolInput - Input parameters for the tool
    * @param {string} toolUseId - Tool use ID from Claude
+   * @param {Function} confirmChange - Asks the user to confirm a change to an existing task
    * @returns {Promise<Object>} Tool result object
    */
-  private async executeTool(toolName: string, toolInput: any, toolUseId: string): Promise<any> {
+  private async executeTool(
+    toolName: string,
+    toolInput: any,
+    toolUseId: string,
+    confirmChange: ChangeConfirmation = declineChanges
+  ): Promise<any> {
     console.log('[AssistantService] Executing tool:', toolName, 'with input:', toolInput);
     console.log('[AssistantService] Tool input type:', typeof toolInput);
     if (toolInput && typeof toolInput === 'object') {
@@ -815,6 +868,16 @@ ${userMessage}`;
     }
 
     try {
+      // Tools that run on the device, whichever backend relays the conversation
+      if (localTools.has(toolName)) {
+        const result = await localTools.execute(toolName, toolInput, await this.getToolContext(confirmChange));
+        return {
+          type: 'tool_result',
+          tool_use_id: toolUseId,
+          content: JSON.stringify(result),
+        };
+      }
+
       // If using Edge Function, call it for tool execution
       if (llmConfig.useEdgeFunction) {
         const headers = await this.getAuthHeaders();
@@ -883,11 +946,22 @@ ${userMessage}`;
         content: JSON.stringify({
           success: false,
           error: error.message,
+          ...(error instanceof InvalidConstraintsError ? { invalid_constraints: error.problems } : {}),
         }),
       };
     }
   }
 
+  private async getToolContext(confirm: ChangeConfirmation): Promise<ToolContext> {
+    const { data: { session } } = await supabase.auth.getSession();
+    return {
+      userId: session?.user?.id ?? null,
+      now: new Date(),
+      timeZone: deviceTimeZone(),
+      confirm,
+    };
+  }
+
   /**
    * Create a schedule (tasks, entities, locations) via Supabase RPC
    *
@@ -943,6 +1017,7 @@ ${userMessage}`;
     }
 
     // Validate each task has required fields and fix duration
+    const constraintProblems: ConstraintProblem[] = [];
     for (const task of normalizedPayload.tasks) {
       if (!task.entity_names || !Array.isArray(task.entity_names) || task.entity_names.length === 0) {
         console.error('[AssistantService] Invalid task: missing entity_names', task);
@@ -965,6 +1040,14 @@ ${userMessage}`;
           task.constraints.push(`duration == ${task.duration}m`);
         }
       }
+
+      constraintProblems.push(...findConstraintProblems(task.constraints, task.name || 'unnamed'));
+    }
+
+    // Catch constraints the solver can't read here, where the model can still fix them
+    if (constraintProblems.length > 0) {
+      console.warn('[AssistantService] Invalid constraints:', constraintProblems);
+      throw new InvalidConstraintsError(constraintProblems);
     }
 
     // Call the new comprehensive RPC function
@@ -988,6 +1071,11 @@ ${userMessage}`;
       console.warn('[AssistantService] WARNING: RPC returned success but created 0 tasks!');
       console.warn('[AssistantService] This might indicate a validation error in the RPC function');
       console.warn('[AssistantService] Payload sent:', JSON.stringify(normalizedPayload, null, 2));
+    } else {
+      // Follow the queued model through the solver so the UI can show its progress and outcome
+      solverJobs.track(modelIdFromScheduleResult(data)).catch(error => {
+        console.error('[AssistantService] Error following solver job:', error);
+      });
     }
 
     return data;
@@ -0,0 +1,91 @@
+import { ConstraintSyntaxError, findConstraintProblems, InvalidConstraintsError, parseConstraint } from '../constraint-language';
+import { llmFeatures } from '../featureFlags';
+
+describe('constraint language', () => {
+  test('comparisons come out with normalised values', () => {
+    expect(parseConstraint('duration >= 1h30m')).toEqual({
+      type: 'comparison', attribute: 'duration', operator: '>=', value: { kind: 'duration', minutes: 90 },
+    });
+    expect(parseConstraint('start_time <= 5:30pm')).toEqual({
+      type: 'comparison', attribute: 'start_time', operator: '<=', value: { kind: 'time', minutes: 17 * 60 + 30 },
+    });
+    expect(parseConstraint('start == 2024-03-04T16:00')).toMatchObject({ value: { kind: 'datetime', value: '2024-03-04T16:00' } });
+    expect(parseConstraint('temp_c > 68°F')).toMatchObject({ value: { kind: 'temperature', celsius: 20 } });
+    expect(parseConstraint('is_day != false')).toMatchObject({ operator: '!=', value: { kind: 'boolean', value: false } });
+  });
+
+  test('ranges and lists, with the unit of a range written once', () => {
+    expect(parseConstraint('temp_c in 59-77°F')).toEqual({
+      type: 'range',
+      attribute: 'temp_c',
+      low: { kind: 'temperature', celsius: 15 },
+      high: { kind: 'temperature', celsius: 25 },
+    });
+    expect(parseConstraint('temp_c between -5 and 5°C')).toMatchObject({ low: { celsius: -5 }, high: { celsius: 5 } });
+    expect(parseConstraint('start between 2024-03-04T09:00-2024-03-04T12:00')).toMatchObject({
+      low: { value: '2024-03-04T09:00' },
+      high: { value: '2024-03-04T12:00' },
+    });
+    expect(parseConstraint('duration in [30m, 1h, 2h]')).toEqual({
+      type: 'list',
+      attribute: 'duration',
+      values: [30, 60, 120].map(minutes => ({ kind: 'duration', minutes })),
+    });
+  });
+
+  test('& binds tighter than |, and parentheses group', () => {
+    const node = parseConstraint('(start_time >= 09:00 & start_time <= 12:00) | start_time in 14:00-17:00 & is_day == true');
+
+    expect(node).toMatchObject({
+      type: 'or',
+      operands: [
+        { type: 'and', operands: [{ operator: '>=' }, { operator: '<=' }] },
+        { type: 'and', operands: [{ type: 'range' }, { attribute: 'is_day' }] },
+      ],
+    });
+  });
+
+  test('errors say what is wrong and where', () => {
+    const errorFor = (source: string) => {
+      try {
+        parseConstraint(source);
+      } catch (error) {
+        if (error instanceof ConstraintSyntaxError) return { message: error.message, position: error.position };
+        throw error;
+      }
+      throw new Error(`"${source}" parsed`);
+    };
+
+    expect(errorFor('priority == high')).toEqual({ message: 'unknown attribute "priority": priority is a task field, not a constraint', position: 0 });
+    expect(errorFor('duration = 1h')).toEqual({ message: 'use == to compare, not =', position: 9 });
+    expect(errorFor('duration >= 30')).toEqual({ message: '"30" needs a unit: m, h or d, e.g. 30m', position: 12 });
+    expect(errorFor('start_time >= 25:00')).toMatchObject({ message: '"25:00" is not a time of day' });
+    expect(errorFor('start == 2024-02-30T09:00')).toMatchObject({ message: '"2024-02-30T09:00" is not a real date and time' });
+    expect(errorFor('temp_c in 25-15°C')).toMatchObject({ message: 'the range "25-15°C" starts after it ends' });
+    expect(errorFor('is_day > true')).toMatchObject({ message: 'is_day can only be compared with == or !=' });
+    expect(errorFor('(duration >= 30m')).toEqual({ message: 'the constraint ends early, expected ")"', position: 16 });
+    expect(errorFor('duration >= 30m start_time >= 09:00')).toMatchObject({ message: '"30m start_time" is not a duration; write it like 45m, 2h or 1h30m' });
+  });
+
+  test('every bad constraint in a task is reported, with the task it came from', () => {
+    const problems = findConstraintProblems(['duration == 1h', 'temp > 20°C', 42, 'end_time <= 9pm'], 'Run');
+
+    expect(problems).toEqual([
+      { task: 'Run', constraint: 'temp > 20°C', error: 'unknown attribute "temp": use temp_c', column: 1 },
+      { task: 'Run', constraint: '42', error: 'a constraint must be a string' },
+    ]);
+    expect(findConstraintProblems(undefined)).toEqual([]);
+    expect(new InvalidConstraintsError(problems).message).toBe(
+      '2 invalid constraints, fix and try again: "Run": "temp > 20°C" (unknown attribute "temp": use temp_c); "Run": "42" (a constraint must be a string)'
+    );
+  });
+
+  test('syntax from feature flags the parser can\'t read is left to the server', () => {
+    const constraints = ['start == 2024-03-04T09:00 ± 30m', 'start >= meeting.end + 15m', 7];
+
+    expect(findConstraintProblems(constraints, 'Standup')).toHaveLength(3);
+    expect(findConstraintProblems(constraints, 'Standup', { ...llmFeatures, margins: true })).toEqual([
+      { task: 'Standup', constraint: '7', error: 'a constraint must be a string' },
+    ]);
+  });
+});
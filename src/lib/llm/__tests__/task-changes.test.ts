@@ -0,0 +1,83 @@
+import type { InternalTask } from '../../internal-db';
+import { InvalidConstraintsError } from '../constraint-language';
+import { applyConstraintEdits, formatConstraintDuration, proposeDelete, proposeModify, proposeReschedule } from '../task-changes';
+
+const task = (overrides: Partial<InternalTask> = {}): InternalTask => ({
+  id: 'task-1',
+  name: 'Workout',
+  start_time: '2024-03-04T16:00:00.000Z',
+  end_time: '2024-03-04T17:00:00.000Z',
+  duration: 3600,
+  status: 'pending',
+  priority: 'medium',
+  model_id: 'model-1',
+  constraints: ['start == 2024-03-04T16:00', 'duration == 1h', 'start_time >= 06:00'],
+  created_at: '2024-03-01T00:00:00.000Z',
+  updated_at: '2024-03-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('task change proposals', () => {
+  test('constraints are removed exactly or by attribute, and added once', () => {
+    const constraints = ['start_time >= 09:00', '(start_time <= 12:00 | end_time >= 17:00)', 'duration  ==  1h'];
+
+    expect(applyConstraintEdits(constraints, { remove_constraints: ['start_time'] })).toEqual(['duration  ==  1h']);
+    expect(applyConstraintEdits(constraints, {
+      remove_constraints: ['duration == 1h'],
+      add_constraints: ['start_time >= 09:00', ' is_day == true '],
+    })).toEqual(['start_time >= 09:00', '(start_time <= 12:00 | end_time >= 17:00)', 'is_day == true']);
+  });
+
+  test('moving a task keeps its duration and re-pins it for the solver on the user\'s clock', () => {
+    const change = proposeReschedule(task(), { start_time: '2024-03-04T18:00:00.000Z' }, 'UTC');
+
+    expect(change.after).toMatchObject({
+      start_time: '2024-03-04T18:00:00.000Z',
+      end_time: '2024-03-04T19:00:00.000Z',
+      duration_minutes: 60,
+    });
+    expect(change.constraints).toEqual({ added: ['start == 2024-03-04T18:00'], removed: ['start == 2024-03-04T16:00'] });
+  });
+
+  test('a new end replaces the duration constraint', () => {
+    const change = proposeReschedule(
+      task(),
+      { start_time: '2024-03-04T13:00:00.000Z', end_time: '2024-03-04T14:30:00.000Z' },
+      'America/New_York'
+    );
+
+    expect(change.constraints).toEqual({
+      added: ['start == 2024-03-04T08:00', 'duration == 1h30m'],
+      removed: ['start == 2024-03-04T16:00', 'duration == 1h'],
+    });
+    expect(() => proposeReschedule(task(), { end_time: '2024-03-04T15:00:00.000Z' }, 'UTC')).toThrow('after start_time');
+  });
+
+  test('times that aren\'t ISO date-times are refused with the format to use', () => {
+    expect(() => proposeReschedule(task(), { start_time: 'tomorrow at 6pm' }, 'UTC')).toThrow('start_time must be an ISO date-time');
+    expect(() => proposeReschedule(task(), { end_time: '18:30' }, 'UTC')).toThrow('end_time must be an ISO date-time');
+  });
+
+  test('edits that change nothing are refused, so the user is never asked to confirm a no-op', () => {
+    expect(() => proposeModify(task(), { name: 'Workout', add_constraints: ['duration == 1h'] })).toThrow('leave the task as it is');
+    expect(() => proposeReschedule(task(), { start_time: '2024-03-04T16:00:00.000Z' }, 'UTC')).toThrow('already at that time');
+
+    const change = proposeModify(task(), { priority: 'high', remove_constraints: ['start_time'] });
+    expect(change.after).toMatchObject({ name: 'Workout', priority: 'high' });
+    expect(change.constraints).toEqual({ added: [], removed: ['start_time >= 06:00'] });
+  });
+
+  test('constraints that don\'t parse are refused before the user sees them', () => {
+    expect(() => proposeModify(task(), { add_constraints: ['start_time after 18:00'] })).toThrow(InvalidConstraintsError);
+    expect(() => proposeReschedule(task(), { start_time: '2024-03-04T18:00:00.000Z', add_constraints: ['duration >= 1'] }, 'UTC'))
+      .toThrow('"Workout": "duration >= 1"');
+  });
+
+  test('a deletion has no after', () => {
+    expect(proposeDelete(task())).toMatchObject({ kind: 'delete', after: null, before: { id: 'task-1', name: 'Workout' } });
+  });
+
+  test('durations are written in constraint units', () => {
+    expect([45, 60, 90, 150].map(formatConstraintDuration)).toEqual(['45m', '1h', '1h30m', '2h30m']);
+  });
+});
@@ -0,0 +1,123 @@
+import { ToolInputError, ToolRegistry, validateToolInput } from '../tool-registry';
+import { findFreeSlots, localTools } from '../local-tools';
+import { internalDB } from '../../internal-db';
+
+const context = {
+  userId: 'user-1',
+  now: new Date('2024-03-04T08:00:00.000Z'),
+  timeZone: 'UTC',
+  confirm: async () => false,
+};
+
+describe('tool registry', () => {
+  test('reports every way an input misses its schema', () => {
+    const schema = {
+      type: 'object' as const,
+      properties: {
+        task_id: { type: 'string' as const },
+        priority: { type: 'string' as const, enum: ['low', 'medium', 'high'] },
+        limit: { type: 'integer' as const, minimum: 1 },
+        from: { type: 'string' as const, format: 'date-time' as const },
+        tags: { type: 'array' as const, items: { type: 'string' as const } },
+      },
+      required: ['task_id'],
+    };
+
+    expect(validateToolInput(schema, { task_id: 't1', priority: 'low', limit: 3 })).toEqual([]);
+    expect(validateToolInput(schema, { priority: 'urgent', limit: 1.5, from: 'next tuesday', tags: ['a', 2] })).toEqual([
+      'input.task_id is required',
+      'input.priority must be one of "low", "medium", "high"',
+      'input.limit must be an integer, got number',
+      'input.from must be an ISO date-time',
+      'input.tags[1] must be a string, got number',
+    ]);
+  });
+
+  test('runs registered tools and rejects unknown tools and bad input', async () => {
+    const registry = new ToolRegistry().register({
+      name: 'echo',
+      description: 'Echo the text back',
+      input_schema: { type: 'object', properties: { text: { type: 'string' } }, required: ['text'] },
+      execute: async (input: { text: string }) => ({ text: input.text }),
+    });
+
+    await expect(registry.execute('echo', { text: 'hi' }, context)).resolves.toEqual({ text: 'hi' });
+    await expect(registry.execute('echo', {}, context)).rejects.toBeInstanceOf(ToolInputError);
+    await expect(registry.execute('shout', {}, context)).rejects.toThrow('Unknown tool: shout');
+    expect(() => registry.register({ ...registry.definitions()[0], execute: async () => null })).toThrow('already registered');
+  });
+
+  test('local tools describe themselves to the model', () => {
+    expect(localTools.definitions().map(tool => tool.name)).toEqual([
+      'get_user_context',
+      'list_tasks',
+      'find_free_slots',
+      'modify_task',
+      'reschedule_task',
+      'delete_task',
+      'complete_task',
+    ]);
+  });
+
+  test('changes to a task are only written once the user confirms them', async () => {
+    const task = {
+      id: 'task-1',
+      name: 'Meeting with John',
+      start_time: '2024-03-05T14:00:00.000Z',
+      end_time: '2024-03-05T15:00:00.000Z',
+      duration: 3600,
+      status: 'pending',
+      priority: 'medium',
+      created_at: '2024-03-01T00:00:00.000Z',
+      updated_at: '2024-03-01T00:00:00.000Z',
+    };
+    (internalDB as any).getTaskById = jest.fn(async () => task);
+    const confirm = jest.fn(async () => false);
+
+    const result = await localTools.execute('delete_task', { task_id: 'task-1' }, { ...context, confirm });
+
+    expect(confirm).toHaveBeenCalledWith(expect.objectContaining({ kind: 'delete', task_id: 'task-1', after: null }));
+    expect(result).toMatchObject({ applied: false });
+    expect(internalDB.transaction).not.toHaveBeenCalled();
+  });
+
+  test('free slots are the gaps between tasks inside each day\'s window', () => {
+    const busy = [
+      { start_time: '2024-03-04T09:00:00.000Z', end_time: '2024-03-04T10:00:00.000Z' },
+      { start_time: '2024-03-04T09:30:00.000Z', end_time: '2024-03-04T11:00:00.000Z' },
+      { start_time: '2024-03-04T11:15:00.000Z', end_time: '2024-03-04T16:00:00.000Z' },
+      { start_time: '2024-03-05T07:00:00.000Z', end_time: '2024-03-05T12:00:00.000Z' },
+    ];
+
+    const slots = findFreeSlots(busy, {
+      from: new Date('2024-03-04T08:30:00.000Z'),
+      to: new Date('2024-03-05T14:00:00.000Z'),
+      minDurationMinutes: 30,
+      dayStart: '08:00',
+      dayEnd: '18:00',
+      timeZone: 'UTC',
+    });
+
+    expect(slots).toEqual([
+      { start: '2024-03-04T08:30:00.000Z', end: '2024-03-04T09:00:00.000Z', duration_minutes: 30 },
+      { start: '2024-03-04T16:00:00.000Z', end: '2024-03-04T18:00:00.000Z', duration_minutes: 120 },
+      { start: '2024-03-05T12:00:00.000Z', end: '2024-03-05T14:00:00.000Z', duration_minutes: 120 },
+    ]);
+  });
+
+  test('free slot windows follow the user\'s clock', () => {
+    const slots = findFreeSlots([], {
+      from: new Date('2024-03-04T00:00:00.000Z'),
+      to: new Date('2024-03-05T00:00:00.000Z'),
+      minDurationMinutes: 30,
+      dayStart: '09:00',
+      dayEnd: '17:00',
+      timeZone: 'America/New_York',
+    });
+
+    // 09:00-17:00 EST on the 3rd is cut off by `from`; the 4th's window is all there
+    expect(slots).toEqual([
+      { start: '2024-03-04T14:00:00.000Z', end: '2024-03-04T22:00:00.000Z', duration_minutes: 480 },
+    ]);
+  });
+});
@@ -0,0 +1,456 @@
+/**
+ * Constraint Language
+ *
+ * Parser for the constraint strings the assistant writes into tasks ("duration >= 30m",
+ * "start_time in 09:00-12:00", "temp_c < 10°C | temp_c > 25°C"). Values come out normalised:
+ * durations and times of day in minutes, temperatures in °C, datetimes as YYYY-MM-DDTHH:MM.
+ * Constraints are checked here so mistakes go back to the model before anything reaches the solver.
+ */
+
+import { llmFeatures } from './featureFlags';
+
+type LLMFeatures = typeof llmFeatures;
+
+export type ConstraintAttribute =
+  | 'duration'
+  | 'start'
+  | 'end'
+  | 'start_time'
+  | 'end_time'
+  | 'temp_c'
+  | 'start_temp_c'
+  | 'end_temp_c'
+  | 'is_day';
+
+export type ComparisonOperator = '==' | '!=' | '>=' | '<=' | '>' | '<';
+
+export type ConstraintValue =
+  | { kind: 'duration'; minutes: number }
+  | { kind: 'datetime'; value: string } // wall clock on the user's calendar, YYYY-MM-DDTHH:MM
+  | { kind: 'time'; minutes: number } // minutes after midnight
+  | { kind: 'temperature'; celsius: number }
+  | { kind: 'boolean'; value: boolean };
+
+export type ConstraintNode =
+  | { type: 'comparison'; attribute: ConstraintAttribute; operator: ComparisonOperator; value: ConstraintValue }
+  | { type: 'range'; attribute: ConstraintAttribute; low: ConstraintValue; high: ConstraintValue }
+  | { type: 'list'; attribute: ConstraintAttribute; values: ConstraintValue[] }
+  | { type: 'and'; operands: ConstraintNode[] }
+  | { type: 'or'; operands: ConstraintNode[] };
+
+type ValueKind = ConstraintValue['kind'];
+
+const ATTRIBUTE_KINDS: Record<ConstraintAttribute, ValueKind> = {
+  duration: 'duration',
+  start: 'datetime',
+  end: 'datetime',
+  start_time: 'time',
+  end_time: 'time',
+  temp_c: 'temperature',
+  start_temp_c: 'temperature',
+  end_temp_c: 'temperature',
+  is_day: 'boolean',
+};
+
+// Things the model reaches for that aren't attributes, and what to use instead
+const ATTRIBUTE_HINTS: Record<string, string> = {
+  priority: 'priority is a task field, not a constraint',
+  temp: 'use temp_c',
+  temperature: 'use temp_c',
+  start_date: 'use start for an exact datetime or start_time for a time of day',
+  time: 'use start_time or end_time',
+};
+
+const COMPARISON_OPERATORS: readonly string[] = ['==', '!=', '>=', '<=', '>', '<'];
+
+// Feature flags that add constraint syntax this parser doesn't read (margins, resources, aggregates,
+// references to other tasks). While any is on, constraint text is left for the server to check.
+const UNPARSED_FEATURES: readonly (keyof LLMFeatures)[] = ['margins', 'resources', 'taskGroups', 'sequential'];
+
+// Input that isn't valid constraint language; position is the offset in the constraint it was found at
+export class ConstraintSyntaxError extends Error {
+  constructor(message: string, readonly position: number) {
+    super(message);
+    this.name = 'ConstraintSyntaxError';
+  }
+}
+
+export interface ConstraintProblem {
+  task?: string;
+  constraint: string;
+  error: string;
+  column?: number;
+}
+
+// Constraints a schedule can't be created with; the problems go back to the model to fix
+export class InvalidConstraintsError extends Error {
+  constructor(readonly problems: ConstraintProblem[]) {
+    super(
+      `${problems.length} invalid constraint${problems.length === 1 ? '' : 's'}, fix and try again: ` +
+      problems.map(problem => `${problem.task ? `"${problem.task}": ` : ''}"${problem.constraint}" (${problem.error})`).join('; ')
+    );
+    this.name = 'InvalidConstraintsError';
+  }
+}
+
+// --- Values ---
+
+const DURATION = /^(?:\d+(?:\.\d+)?[dhm])+$/i;
+const DURATION_PART = /(\d+(?:\.\d+)?)([dhm])/gi;
+const DURATION_UNIT_MINUTES: Record<string, number> = { d: 24 * 60, h: 60, m: 1 };
+const TIME_24H = /^(\d{1,2}):(\d{2})$/;
+const TIME_12H = /^(\d{1,2})(?::(\d{2}))?\s*([ap])\.?m\.?$/i;
+const DATETIME = /^(\d{4})-(\d{2})-(\d{2})[T ](\d{2}):(\d{2})(?::00)?$/;
+const TEMPERATURE = /^(-?\d+(?:\.\d+)?)\s*(°\s*[cf]?|[cf])?$/i;
+
+type Unit = 'c' | 'f';
+
+function parseDuration(text: string): ConstraintValue {
+  if (/^\d+(?:\.\d+)?$/.test(text)) {
+    throw new Error(`"${text}" needs a unit: m, h or d, e.g. ${text}m`);
+  }
+  if (!DURATION.test(text)) {
+    throw new Error(`"${text}" is not a duration; write it like 45m, 2h or 1h30m`);
+  }
+  let minutes = 0;
+  for (const [, amount, unit] of text.matchAll(DURATION_PART)) {
+    minutes += Number(amount) * DURATION_UNIT_MINUTES[unit.toLowerCase()];
+  }
+  return { kind: 'duration', minutes: Math.round(minutes) };
+}
+
+function parseTime(text: string): ConstraintValue {
+  const twentyFour = TIME_24H.exec(text);
+  if (twentyFour) {
+    const hour = Number(twentyFour[1]);
+    const minute = Number(twentyFour[2]);
+    if (hour > 23 || minute > 59) throw new Error(`"${text}" is not a time of day`);
+    return { kind: 'time', minutes: hour * 60 + minute };
+  }
+  const twelve = TIME_12H.exec(text);
+  if (twelve) {
+    const hour = Number(twelve[1]);
+    const minute = Number(twelve[2] ?? 0);
+    if (hour < 1 || hour > 12 || minute > 59) throw new Error(`"${text}" is not a time of day`);
+    const pm = twelve[3].toLowerCase() === 'p';
+    return { kind: 'time', minutes: ((hour % 12) + (pm ? 12 : 0)) * 60 + minute };
+  }
+  throw new Error(`"${text}" is not a time of day; write it as HH:MM (09:00) or with am/pm (9:00am)`);
+}
+
+function parseDatetime(text: string): ConstraintValue {
+  const match = DATETIME.exec(text);
+  if (!match) {
+    throw new Error(`"${text}" is not a datetime; write it as YYYY-MM-DDTHH:MM`);
+  }
+  const [, year, month, day, hour, minute] = match.map(Number);
+  const date = new Date(Date.UTC(year, month - 1, day, hour, minute));
+  if (date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day || hour > 23 || minute > 59) {
+    throw new Error(`"${text}" is not a real date and time`);
+  }
+  return { kind: 'datetime', value: `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}` };
+}
+
+// A bare number is in °C, or in the unit of the other end of a range ("50-70°F")
+function parseTemperature(text: string, defaultUnit: Unit = 'c'): { value: ConstraintValue; unit: Unit } {
+  const match = TEMPERATURE.exec(text);
+  if (!match) {
+    throw new Error(`"${text}" is not a temperature; write it like 20°C or 68°F`);
+  }
+  const written = match[2]?.replace(/[°\s]/g, '').toLowerCase();
+  const unit = (written || defaultUnit) as Unit;
+  const degrees = Number(match[1]);
+  const celsius = unit === 'f' ? (degrees - 32) * 5 / 9 : degrees;
+  return { value: { kind: 'temperature', celsius: Math.round(celsius * 10) / 10 }, unit };
+}
+
+function parseBoolean(text: string): ConstraintValue {
+  const lower = text.toLowerCase();
+  if (lower !== 'true' && lower !== 'false') {
+    throw new Error(`"${text}" is not true or false`);
+  }
+  return { kind: 'boolean', value: lower === 'true' };
+}
+
+function parseValue(kind: ValueKind, text: string): ConstraintValue {
+  switch (kind) {
+    case 'duration':
+      return parseDuration(text);
+    case 'time':
+      return parseTime(text);
+    case 'datetime':
+      return parseDatetime(text);
+    case 'temperature':
+      return parseTemperature(text).value;
+    case 'boolean':
+      return parseBoolean(text);
+  }
+}
+
+function valueOrder(value: ConstraintValue): number | string {
+  switch (value.kind) {
+    case 'duration':
+    case 'time':
+      return value.minutes;
+    case 'temperature':
+      return value.celsius;
+    case 'datetime':
+      return value.value;
+    case 'boolean':
+      return Number(value.value);
+  }
+}
+
+function parseRangeEnds(kind: ValueKind, low: string, high: string): [ConstraintValue, ConstraintValue] {
+  if (kind === 'temperature') {
+    const upper = parseTemperature(high);
+    return [parseTemperature(low, upper.unit).value, upper.value];
+  }
+  return [parseValue(kind, low), parseValue(kind, high)];
+}
+
+/**
+ * A range written "low-high" (or "low and high" after between). Datetimes and negative
+ * temperatures have dashes of their own, so every dash is tried until both sides parse.
+ */
+function parseRange(kind: ValueKind, text: string): [ConstraintValue, ConstraintValue] {
+  const and = /\s+and\s+/i.exec(text);
+  const splits: [string, string][] = and
+    ? [[text.slice(0, and.index), text.slice(and.index + and[0].length)]]
+    : [];
+  for (let index = text.indexOf('-', 1); index !== -1; index = text.indexOf('-', index + 1)) {
+    splits.push([text.slice(0, index).trim(), text.slice(index + 1).trim()]);
+  }
+
+  for (const [low, high] of splits) {
+    let ends: [ConstraintValue, ConstraintValue];
+    try {
+      ends = parseRangeEnds(kind, low, high);
+    } catch {
+      continue;
+    }
+    if (valueOrder(ends[0]) > valueOrder(ends[1])) {
+      throw new Error(`the range "${text}" starts after it ends`);
+    }
+    return ends;
+  }
+  throw new Error(`"${text}" is not a range of ${kind === 'time' ? 'times' : `${kind}s`}; write it as low-high`);
+}
+
+// --- Tokens ---
+
+type TokenType = 'word' | 'operator' | '(' | ')' | '[' | ']' | ',' | '&' | '|';
+
+interface Token {
+  type: TokenType;
+  text: string;
+  position: number;
+}
+
+const PUNCTUATION = new Set(['(', ')', '[', ']', ',', '&', '|']);
+const OPERATOR_CHARS = new Set(['=', '!', '<', '>']);
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+  while (index < source.length) {
+    const char = source[index];
+    if (/\s/.test(char)) {
+      index += 1;
+    } else if (PUNCTUATION.has(char)) {
+      // && and || read the same as & and |
+      const doubled = (char === '&' || char === '|') && source[index + 1] === char;
+      tokens.push({ type: char as TokenType, text: char, position: index });
+      index += doubled ? 2 : 1;
+    } else if (OPERATOR_CHARS.has(char)) {
+      const text = source.slice(index, index + 2);
+      const operator = COMPARISON_OPERATORS.includes(text) ? text : char;
+      if (!COMPARISON_OPERATORS.includes(operator)) {
+        throw new ConstraintSyntaxError(
+          operator === '=' ? 'use == to compare, not =' : `unexpected "${operator}"`,
+          index
+        );
+      }
+      tokens.push({ type: 'operator', text: operator, position: index });
+      index += operator.length;
+    } else {
+      const start = index;
+      while (index < source.length && !/\s/.test(source[index]) && !PUNCTUATION.has(source[index]) && !OPERATOR_CHARS.has(source[index])) {
+        index += 1;
+      }
+      tokens.push({ type: 'word', text: source.slice(start, index), position: start });
+    }
+  }
+  return tokens;
+}
+
+// --- Parser ---
+
+class Parser {
+  private index = 0;
+
+  constructor(
+    private readonly source: string,
+    private readonly tokens: Token[]
+  ) {}
+
+  parse(): ConstraintNode {
+    if (this.tokens.length === 0) throw new ConstraintSyntaxError('the constraint is empty', 0);
+    const node = this.parseOr();
+    const rest = this.peek();
+    if (rest) throw this.unexpected(rest);
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token | undefined {
+    return this.tokens[this.index++];
+  }
+
+  private unexpected(token: Token | undefined, expected?: string): ConstraintSyntaxError {
+    if (!token) {
+      return new ConstraintSyntaxError(`the constraint ends early${expected ? `, expected ${expected}` : ''}`, this.source.length);
+    }
+    return new ConstraintSyntaxError(`unexpected "${token.text}"${expected ? `, expected ${expected}` : ''}`, token.position);
+  }
+
+  private parseOr(): ConstraintNode {
+    const operands = [this.parseAnd()];
+    while (this.peek()?.type === '|') {
+      this.next();
+      operands.push(this.parseAnd());
+    }
+    return operands.length === 1 ? operands[0] : { type: 'or', operands };
+  }
+
+  private parseAnd(): ConstraintNode {
+    const operands = [this.parsePrimary()];
+    while (this.peek()?.type === '&') {
+      this.next();
+      operands.push(this.parsePrimary());
+    }
+    return operands.length === 1 ? operands[0] : { type: 'and', operands };
+  }
+
+  private parsePrimary(): ConstraintNode {
+    const token = this.next();
+    if (token?.type === '(') {
+      const node = this.parseOr();
+      const close = this.next();
+      if (close?.type !== ')') throw this.unexpected(close, '")"');
+      return node;
+    }
+    if (token?.type !== 'word') throw this.unexpected(token, 'an attribute');
+    return this.parseCondition(token);
+  }
+
+  private parseCondition(attributeToken: Token): ConstraintNode {
+    const name = attributeToken.text.toLowerCase();
+    if (!(name in ATTRIBUTE_KINDS)) {
+      const hint = ATTRIBUTE_HINTS[name] ?? `expected one of ${Object.keys(ATTRIBUTE_KINDS).join(', ')}`;
+      throw new ConstraintSyntaxError(`unknown attribute "${attributeToken.text}": ${hint}`, attributeToken.position);
+    }
+    const attribute = name as ConstraintAttribute;
+    const kind = ATTRIBUTE_KINDS[attribute];
+
+    const operator = this.next();
+    if (operator?.type === 'operator') {
+      if (kind === 'boolean' && operator.text !== '==' && operator.text !== '!=') {
+        throw new ConstraintSyntaxError(`${attribute} can only be compared with == or !=`, operator.position);
+      }
+      const { text, position } = this.readValue();
+      return { type: 'comparison', attribute, operator: operator.text as ComparisonOperator, value: this.value(() => parseValue(kind, text), position) };
+    }
+
+    const keyword = operator?.type === 'word' ? operator.text.toLowerCase() : undefined;
+    if (keyword !== 'in' && keyword !== 'between') throw this.unexpected(operator, 'a comparison, in or between');
+
+    if (keyword === 'in' && this.peek()?.type === '[') {
+      return { type: 'list', attribute, values: this.parseList(kind) };
+    }
+    if (kind === 'boolean') {
+      throw new ConstraintSyntaxError(`${attribute} can't be a range`, operator!.position);
+    }
+    const { text, position } = this.readValue();
+    const [low, high] = this.value(() => parseRange(kind, text), position);
+    return { type: 'range', attribute, low, high };
+  }
+
+  private parseList(kind: ValueKind): ConstraintValue[] {
+    this.next();
+    const values: ConstraintValue[] = [];
+    for (;;) {
+      const { text, position } = this.readValue();
+      values.push(this.value(() => parseValue(kind, text), position));
+      const separator = this.next();
+      if (separator?.type === ']') return values;
+      if (separator?.type !== ',') throw this.unexpected(separator, '"," or "]"');
+    }
+  }
+
+  // The words up to the next operator or bracket, as written ("9:00 am", "30m-2h")
+  private readValue(): { text: string; position: number } {
+    const first = this.peek();
+    if (first?.type !== 'word') throw this.unexpected(first, 'a value');
+    let end = first.position;
+    while (this.peek()?.type === 'word') {
+      const word = this.next()!;
+      end = word.position + word.text.length;
+    }
+    return { text: this.source.slice(first.position, end), position: first.position };
+  }
+
+  private value<T>(parse: () => T, position: number): T {
+    try {
+      return parse();
+    } catch (error: any) {
+      throw new ConstraintSyntaxError(error.message, position);
+    }
+  }
+}
+
+/**
+ * Parse one constraint
+ *
+ * @throws ConstraintSyntaxError saying what's wrong and where
+ */
+export function parseConstraint(source: string): ConstraintNode {
+  return new Parser(source, tokenize(source)).parse();
+}
+
+/**
+ * Check a task's constraints
+ * Only their shape is checked while a feature flag the parser can't follow is on, since the prompt
+ * then teaches syntax that would be reported as invalid here
+ *
+ * @returns One problem per constraint that doesn't parse, empty when they all do
+ */
+export function findConstraintProblems(
+  constraints: unknown,
+  task?: string,
+  features: Readonly<LLMFeatures> = llmFeatures
+): ConstraintProblem[] {
+  if (constraints === undefined || constraints === null) return [];
+  if (!Array.isArray(constraints)) {
+    return [{ task, constraint: String(constraints), error: 'constraints must be an array of strings' }];
+  }
+  const parseable = !UNPARSED_FEATURES.some(feature => features[feature]);
+  const problems: ConstraintProblem[] = [];
+  for (const constraint of constraints) {
+    if (typeof constraint !== 'string') {
+      problems.push({ task, constraint: JSON.stringify(constraint), error: 'a constraint must be a string' });
+      continue;
+    }
+    if (!parseable) continue;
+    try {
+      parseConstraint(constraint);
+    } catch (error) {
+      if (!(error instanceof ConstraintSyntaxError)) throw error;
+      problems.push({ task, constraint, error: error.message, column: error.position + 1 });
+    }
+  }
+  return problems;
+}
@@ -13,6 +13,8 @@ export const llmFeatures = {
   rangeAndList: true,           // temp_c in 20-25°C, priority in [high, critical]
 
   // Advanced features (can be enabled/disabled)
+  // The client-side constraint parser (./constraint-language) doesn't read margins, resources, taskGroups or
+  // sequential syntax; extend it before turning any of them on. Until then constraints are only checked by the server.
   margins: false,               // start == 09:00 ± 30m [LINEAR, weight=3.0]
   resources: false,             // resources.fuel.consume(5000) at start
   taskGroups: false,            // sum(duration) >= 7h, gaps.min(duration) >= 15m
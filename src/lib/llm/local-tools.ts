@@ -0,0 +1,440 @@
+/**
+ * Local Assistant Tools
+ *
+ * The tools the assistant runs on the device: reading the user's context and schedule, finding
+ * free time, and changing tasks. Edits, moves and deletions are shown to the user and only applied
+ * once they confirm; then they are written to the server's task row first and InternalDB second.
+ * Local changes go through the undo history, and each is logged as an action for the server.
+ */
+
+import { supabase } from '../supabase';
+import { internalDB, InternalTask } from '../internal-db';
+import { undoHistory } from '../undo-history';
+import { TASK_PRIORITIES, TASK_STATUSES, TaskStatus } from '../tasks/model';
+import { rulesWithChanges } from '../tasks/adapters';
+import { epochMsToWallClock, fromWallClock, wallClockToEpochMs, zonedWallClock } from '../time/zone';
+import { AssistantTool, ToolContext, ToolRegistry } from './tool-registry';
+import {
+  ConstraintEdits,
+  ModifyTaskChanges,
+  RescheduleTaskChanges,
+  TaskChangeProposal,
+  proposeDelete,
+  proposeModify,
+  proposeReschedule,
+  summarizeTask,
+} from './task-changes';
+
+const MINUTE_MS = 60 * 1000;
+const MAX_FREE_SLOT_RANGE_DAYS = 31;
+const DEFAULT_LIST_LIMIT = 50;
+
+export interface FreeSlot {
+  start: string; // ISO string
+  end: string; // ISO string
+  duration_minutes: number;
+}
+
+export interface FreeSlotOptions {
+  from: Date;
+  to: Date;
+  minDurationMinutes: number;
+  dayStart: string; // HH:MM on the user's clock
+  dayEnd: string; // HH:MM on the user's clock
+  timeZone: string;
+}
+
+function parseClockTime(value: string): { hour: number; minute: number } {
+  const [hour, minute] = value.split(':').map(part => parseInt(part, 10));
+  return { hour, minute };
+}
+
+/**
+ * Gaps of at least `minDurationMinutes` between `busy` tasks, within the daily window
+ * [dayStart, dayEnd) on the user's clock and within [from, to)
+ */
+export function findFreeSlots(busy: Pick<InternalTask, 'start_time' | 'end_time'>[], options: FreeSlotOptions): FreeSlot[] {
+  const fromMs = options.from.getTime();
+  const toMs = options.to.getTime();
+  const dayStart = parseClockTime(options.dayStart);
+  const dayEnd = parseClockTime(options.dayEnd);
+  const intervals = busy
+    .map(task => [new Date(task.start_time).getTime(), new Date(task.end_time).getTime()] as const)
+    .filter(([start, end]) => end > fromMs && start < toMs)
+    .sort((a, b) => a[0] - b[0]);
+
+  const slots: FreeSlot[] = [];
+  const addSlot = (start: number, end: number) => {
+    if (end - start >= options.minDurationMinutes * MINUTE_MS) {
+      slots.push({
+        start: new Date(start).toISOString(),
+        end: new Date(end).toISOString(),
+        duration_minutes: Math.round((end - start) / MINUTE_MS),
+      });
+    }
+  };
+
+  // Walk the calendar days of the range on the user's clock; Date.UTC rolls day overflow into the next month
+  const firstDay = zonedWallClock(options.from, options.timeZone);
+  for (let offset = 0; offset <= MAX_FREE_SLOT_RANGE_DAYS; offset++) {
+    const day = epochMsToWallClock(wallClockToEpochMs({ ...firstDay, day: firstDay.day + offset, hour: 0, minute: 0, second: 0 }));
+    if (fromWallClock(day, options.timeZone).getTime() >= toMs) break;
+    const windowStart = Math.max(fromMs, fromWallClock({ ...day, ...dayStart }, options.timeZone).getTime());
+    const windowEnd = Math.min(toMs, fromWallClock({ ...day, ...dayEnd }, options.timeZone).getTime());
+    if (windowEnd <= windowStart) continue;
+
+    let cursor = windowStart;
+    for (const [start, end] of intervals) {
+      if (end <= cursor) continue;
+      if (start >= windowEnd) break;
+      addSlot(cursor, Math.min(start, windowEnd));
+      cursor = Math.max(cursor, end);
+    }
+    addSlot(cursor, windowEnd);
+  }
+  return slots;
+}
+
+async function requireTask(taskId: string): Promise<InternalTask> {
+  const task = await internalDB.getTaskById(taskId);
+  if (!task) {
+    throw new Error(`No task with id ${taskId}. Use list_tasks to find the task's id.`);
+  }
+  return task;
+}
+
+// Rows of a user-owned table, or none when it can't be read
+async function fetchUserRows(table: string, userId: string): Promise<any[]> {
+  const { data, error } = await supabase.from(table).select('*').eq('user_id', userId);
+  if (error) {
+    console.warn(`[LocalTools] Could not read ${table}:`, error.message);
+    return [];
+  }
+  return data ?? [];
+}
+
+const getUserContext: AssistantTool<Record<string, never>> = {
+  name: 'get_user_context',
+  description: "Get the user's existing entities (people/objects) and locations, and the current date, time and time zone. Call this before creating tasks.",
+  input_schema: { type: 'object', properties: {} },
+  async execute(_input, context) {
+    if (!context.userId) {
+      throw new Error('User not authenticated. Please sign in.');
+    }
+    const [entities, locations] = await Promise.all([
+      fetchUserRows('entity', context.userId),
+      fetchUserRows('location', context.userId),
+    ]);
+    return {
+      now: context.now.toISOString(),
+      timezone: context.timeZone,
+      entities: entities.map(entity => ({ name: entity.name, is_person: entity.is_person ?? undefined })),
+      locations: locations.map(location => ({ name: location.name, address: location.address ?? undefined })),
+    };
+  },
+};
+
+interface ListTasksInput {
+  from?: string;
+  to?: string;
+  statuses?: TaskStatus[];
+  query?: string;
+  limit?: number;
+}
+
+const listTasks: AssistantTool<ListTasksInput> = {
+  name: 'list_tasks',
+  description: "List tasks on the user's schedule, optionally only those overlapping a time range, with given statuses, or whose name matches a search. Returns each task's id for use with the other task tools.",
+  input_schema: {
+    type: 'object',
+    properties: {
+      from: { type: 'string', format: 'date-time', description: 'Only tasks ending after this ISO date-time' },
+      to: { type: 'string', format: 'date-time', description: 'Only tasks starting before this ISO date-time' },
+      statuses: { type: 'array', items: { type: 'string', enum: TASK_STATUSES }, description: 'Only tasks with these statuses' },
+      query: { type: 'string', description: 'Search text matched against task names (fuzzy)' },
+      limit: { type: 'integer', minimum: 1, maximum: 200, description: `Maximum number of tasks (default ${DEFAULT_LIST_LIMIT})` },
+    },
+  },
+  async execute(input) {
+    const start = input.from ? new Date(input.from) : undefined;
+    const end = input.to ? new Date(input.to) : undefined;
+    const results = await internalDB.searchTasks({
+      text: input.query,
+      statuses: input.statuses,
+      start: start ?? (end ? new Date(0) : undefined),
+      end: end ?? (start ? new Date(8.64e15) : undefined),
+      limit: input.limit ?? DEFAULT_LIST_LIMIT,
+    });
+    return { tasks: results.map(result => summarizeTask(result.task)) };
+  },
+};
+
+interface FindFreeSlotsInput {
+  from: string;
+  to: string;
+  min_duration_minutes?: number;
+  day_start?: string;
+  day_end?: string;
+}
+
+const CLOCK_TIME = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+const findFreeSlotsTool: AssistantTool<FindFreeSlotsInput> = {
+  name: 'find_free_slots',
+  description: "Find free time between the user's scheduled tasks in a date range, within waking hours on the user's clock.",
+  input_schema: {
+    type: 'object',
+    properties: {
+      from: { type: 'string', format: 'date-time', description: 'Start of the range (ISO date-time)' },
+      to: { type: 'string', format: 'date-time', description: `End of the range (ISO date-time), at most ${MAX_FREE_SLOT_RANGE_DAYS} days after from` },
+      min_duration_minutes: { type: 'integer', minimum: 5, description: 'Shortest gap worth returning (default 30)' },
+      day_start: { type: 'string', description: 'Earliest time of day, HH:MM (default 08:00)' },
+      day_end: { type: 'string', description: 'Latest time of day, HH:MM (default 20:00)' },
+    },
+    required: ['from', 'to'],
+  },
+  async execute(input, context) {
+    const from = new Date(input.from);
+    const to = new Date(input.to);
+    const dayStart = input.day_start ?? '08:00';
+    const dayEnd = input.day_end ?? '20:00';
+    if (to <= from) throw new Error('to must be after from');
+    if (to.getTime() - from.getTime() > MAX_FREE_SLOT_RANGE_DAYS * 24 * 60 * MINUTE_MS) {
+      throw new Error(`The range can span at most ${MAX_FREE_SLOT_RANGE_DAYS} days`);
+    }
+    if (!CLOCK_TIME.test(dayStart) || !CLOCK_TIME.test(dayEnd)) {
+      throw new Error('day_start and day_end must be times of day as HH:MM');
+    }
+
+    const tasks = await internalDB.getTasksInRange(from, to);
+    const slots = findFreeSlots(
+      tasks.filter(task => task.status !== 'cancelled'),
+      {
+        from,
+        to,
+        minDurationMinutes: input.min_duration_minutes ?? 30,
+        dayStart,
+        dayEnd,
+        timeZone: context.timeZone,
+      }
+    );
+    return { timezone: context.timeZone, slots };
+  },
+};
+
+const ACTION_TYPES = {
+  modify: 'task_modified',
+  reschedule: 'task_rescheduled',
+  delete: 'task_deleted',
+} as const;
+
+const UNDO_VERBS = {
+  modify: 'changed',
+  reschedule: 'moved',
+  delete: 'deleted',
+};
+
+function describeChange(change: TaskChangeProposal): string {
+  const { before, after, constraints } = change;
+  if (!after) return 'Deleted by assistant';
+  const parts: string[] = [];
+  if (after.name !== before.name) parts.push(`renamed from "${before.name}"`);
+  if (after.priority !== before.priority) parts.push(`priority ${before.priority} → ${after.priority}`);
+  if (after.start_time !== before.start_time || after.end_time !== before.end_time) {
+    parts.push(`moved to ${new Date(after.start_time).toLocaleString()} - ${new Date(after.end_time).toLocaleString()}`);
+  }
+  if (constraints.added.length > 0) parts.push(`constraints added: ${constraints.added.join(', ')}`);
+  if (constraints.removed.length > 0) parts.push(`constraints removed: ${constraints.removed.join(', ')}`);
+  return `Changed by assistant: ${parts.join('; ')}`;
+}
+
+// The server's copy of a solver task; tasks only on this device have none
+async function pushTaskChange(change: TaskChangeProposal, now: Date): Promise<void> {
+  if (!change.after) {
+    const { error } = await supabase
+      .from('task')
+      .update({ deleted_at: now.toISOString(), updated_at: now.toISOString() })
+      .eq('task_id', change.task_id);
+    if (error) throw error;
+    return;
+  }
+
+  const { data: row, error: readError } = await supabase
+    .from('task')
+    .select('rules, task_json')
+    .eq('task_id', change.task_id)
+    .maybeSingle();
+  if (readError) throw readError;
+  if (!row) throw new Error(`Task ${change.task_id} no longer exists on the server`);
+
+  const { error } = await supabase
+    .from('task')
+    .update({
+      name: change.after.name,
+      priority: change.after.priority,
+      rules: rulesWithChanges(row.rules, {
+        priority: change.after.priority !== change.before.priority ? change.after.priority : undefined,
+        constraints: change.after.constraints ?? [],
+      }),
+      task_json: { ...(row.task_json ?? {}), start_time: change.after.start_time, end_time: change.after.end_time },
+      updated_at: now.toISOString(),
+    })
+    .eq('task_id', change.task_id);
+  if (error) throw error;
+}
+
+/**
+ * Write a confirmed change through to the server (for solver tasks) and then InternalDB
+ * The logged action makes the action push ask the solver to plan around it
+ */
+async function applyTaskChange(task: InternalTask, change: TaskChangeProposal, now: Date): Promise<void> {
+  if (task.model_id) {
+    await pushTaskChange(change, now);
+  }
+
+  const after = change.after;
+  await undoHistory.record(`Assistant ${UNDO_VERBS[change.kind]} "${task.name}"`, tx => {
+    // Logged first: the action takes the task's model from the task, which a delete removes
+    tx.addAction({
+      action_type: ACTION_TYPES[change.kind],
+      task_id: task.id,
+      task_name: after?.name ?? task.name,
+      details: describeChange(change),
+    });
+    if (!after) {
+      tx.deleteTask(task.id);
+      return;
+    }
+    const moved = after.start_time !== task.start_time || after.end_time !== task.end_time;
+    tx.updateTask(task.id, {
+      name: after.name,
+      priority: after.priority,
+      constraints: after.constraints ?? [],
+      ...(moved
+        ? {
+            start_time: after.start_time,
+            end_time: after.end_time,
+            duration: after.duration_minutes * 60,
+            reschedule_count: (task.reschedule_count ?? 0) + 1,
+            last_reschedule_at: now.toISOString(),
+            original_start_time: task.original_start_time ?? task.start_time,
+          }
+        : {}),
+    });
+  });
+}
+
+// Ask the user, then apply; the result tells the model which happened
+async function confirmAndApply(task: InternalTask, change: TaskChangeProposal, context: ToolContext) {
+  if (!(await context.confirm(change))) {
+    return { applied: false, reason: 'The user did not confirm this change', proposal: change };
+  }
+  await applyTaskChange(task, change, context.now);
+  return { applied: true, task: change.after, constraints: change.constraints };
+}
+
+const CONSTRAINT_EDIT_PROPERTIES = {
+  add_constraints: {
+    type: 'array' as const,
+    items: { type: 'string' as const },
+    description: 'Constraints to add, in the constraint language (e.g. "start_time >= 18:00")',
+  },
+  remove_constraints: {
+    type: 'array' as const,
+    items: { type: 'string' as const },
+    description: 'Constraints to remove, exactly as listed, or an attribute name (e.g. "start_time") to remove every constraint on it',
+  },
+};
+
+const modifyTask: AssistantTool<ModifyTaskChanges & { task_id: string }> = {
+  name: 'modify_task',
+  description: "Rename a task, change its priority, or add and remove its constraints. The user is shown the change and has to confirm it.",
+  input_schema: {
+    type: 'object',
+    properties: {
+      task_id: { type: 'string', description: 'Task id from list_tasks' },
+      name: { type: 'string', description: 'New task name' },
+      priority: { type: 'string', enum: TASK_PRIORITIES, description: 'New priority' },
+      ...CONSTRAINT_EDIT_PROPERTIES,
+    },
+    required: ['task_id'],
+  },
+  async execute(input, context) {
+    const task = await requireTask(input.task_id);
+    return confirmAndApply(task, proposeModify(task, input), context);
+  },
+};
+
+const rescheduleTask: AssistantTool<RescheduleTaskChanges & ConstraintEdits & { task_id: string }> = {
+  name: 'reschedule_task',
+  description: "Move a task to a new time, or change the constraints that decide when the solver places it. Moving only the start keeps the task's duration. The user is shown the change and has to confirm it.",
+  input_schema: {
+    type: 'object',
+    properties: {
+      task_id: { type: 'string', description: 'Task id from list_tasks' },
+      start_time: { type: 'string', format: 'date-time', description: 'New start (ISO date-time)' },
+      end_time: { type: 'string', format: 'date-time', description: 'New end (ISO date-time)' },
+      ...CONSTRAINT_EDIT_PROPERTIES,
+    },
+    required: ['task_id'],
+  },
+  async execute(input, context) {
+    const task = await requireTask(input.task_id);
+    return confirmAndApply(task, proposeReschedule(task, input, context.timeZone), context);
+  },
+};
+
+const deleteTask: AssistantTool<{ task_id: string }> = {
+  name: 'delete_task',
+  description: "Remove a task from the user's schedule. Only do this when the user clearly asked for it. The user has to confirm it.",
+  input_schema: {
+    type: 'object',
+    properties: {
+      task_id: { type: 'string', description: 'Task id from list_tasks' },
+    },
+    required: ['task_id'],
+  },
+  async execute(input, context) {
+    const task = await requireTask(input.task_id);
+    return confirmAndApply(task, proposeDelete(task), context);
+  },
+};
+
+const completeTask: AssistantTool<{ task_id: string }> = {
+  name: 'complete_task',
+  description: 'Mark a task as completed.',
+  input_schema: {
+    type: 'object',
+    properties: {
+      task_id: { type: 'string', description: 'Task id from list_tasks' },
+    },
+    required: ['task_id'],
+  },
+  async execute(input, context) {
+    const task = await requireTask(input.task_id);
+    if (task.status === 'completed') {
+      return { task: summarizeTask(task), already_completed: true };
+    }
+
+    const completed = await undoHistory.record(`Assistant completed "${task.name}"`, tx => {
+      const result = tx.updateTask(task.id, { status: 'completed', completed_at: context.now.toISOString() });
+      tx.addAction({
+        action_type: 'task_completed',
+        task_id: task.id,
+        task_name: task.name,
+        details: `Completed via assistant at ${context.now.toLocaleTimeString()}`,
+      });
+      return result;
+    });
+    return { task: completed ? summarizeTask(completed) : null };
+  },
+};
+
+export const localTools = new ToolRegistry()
+  .register(getUserContext)
+  .register(listTasks)
+  .register(findFreeSlotsTool)
+  .register(modifyTask)
+  .register(rescheduleTask)
+  .register(deleteTask)
+  .register(completeTask);
@@ -0,0 +1,216 @@
+/**
+ * Task Change Proposals
+ *
+ * What the assistant wants to do to an existing task, worked out in full before anything is written:
+ * the task before and after, and which constraints it adds and drops. The user confirms a proposal
+ * in the chat before it is applied.
+ */
+
+import type { InternalTask } from '../internal-db';
+import type { TaskPriority, TaskStatus } from '../tasks/model';
+import { zonedWallClock } from '../time/zone';
+import { findConstraintProblems, InvalidConstraintsError } from './constraint-language';
+
+export type TaskChangeKind = 'modify' | 'reschedule' | 'delete';
+
+// A task as the model sees it
+export interface TaskSummary {
+  id: string;
+  name: string;
+  start_time: string;
+  end_time: string;
+  duration_minutes: number;
+  status: TaskStatus;
+  priority: TaskPriority;
+  constraints?: string[];
+}
+
+export interface ConstraintDiff {
+  added: string[];
+  removed: string[];
+}
+
+export interface TaskChangeProposal {
+  kind: TaskChangeKind;
+  task_id: string;
+  before: TaskSummary;
+  after: TaskSummary | null; // null when the task is deleted
+  constraints: ConstraintDiff;
+}
+
+export interface ConstraintEdits {
+  add_constraints?: string[];
+  remove_constraints?: string[]; // exact constraints, or a bare attribute ("start_time") to drop all on it
+}
+
+export interface ModifyTaskChanges extends ConstraintEdits {
+  name?: string;
+  priority?: TaskPriority;
+}
+
+export interface RescheduleTaskChanges extends ConstraintEdits {
+  start_time?: string;
+  end_time?: string;
+}
+
+const MINUTE_MS = 60 * 1000;
+// Constraints that pin a task to an exact datetime; moving the task replaces them
+const PINNING_ATTRIBUTES = ['start', 'end'];
+const ATTRIBUTE_NAME = /^[a-z_]+$/i;
+const LEADING_ATTRIBUTE = /^\(?\s*([a-z_]+)\s*(==|!=|>=|<=|>|<|in\b|between\b)/i;
+
+export function summarizeTask(task: InternalTask): TaskSummary {
+  return {
+    id: task.id,
+    name: task.name,
+    start_time: task.start_time,
+    end_time: task.end_time,
+    duration_minutes: Math.round(task.duration / 60),
+    status: task.status,
+    priority: task.priority,
+    ...(task.constraints?.length ? { constraints: task.constraints } : {}),
+  };
+}
+
+function normalizeConstraint(constraint: string): string {
+  return constraint.trim().replace(/\s+/g, ' ');
+}
+
+function constraintAttribute(constraint: string): string | null {
+  return LEADING_ATTRIBUTE.exec(constraint.trim())?.[1].toLowerCase() ?? null;
+}
+
+export function applyConstraintEdits(constraints: string[], edits: ConstraintEdits): string[] {
+  const removals = (edits.remove_constraints ?? []).map(normalizeConstraint);
+  const kept = constraints.filter(constraint => {
+    const normalized = normalizeConstraint(constraint);
+    return !removals.some(removal =>
+      removal === normalized
+      || (ATTRIBUTE_NAME.test(removal) && constraintAttribute(constraint) === removal.toLowerCase())
+    );
+  });
+
+  const next = [...kept];
+  for (const addition of (edits.add_constraints ?? []).map(normalizeConstraint)) {
+    if (addition && !next.some(constraint => normalizeConstraint(constraint) === addition)) next.push(addition);
+  }
+  return next;
+}
+
+export function diffConstraints(before: string[], after: string[]): ConstraintDiff {
+  const beforeSet = new Set(before.map(normalizeConstraint));
+  const afterSet = new Set(after.map(normalizeConstraint));
+  return {
+    added: after.filter(constraint => !beforeSet.has(normalizeConstraint(constraint))),
+    removed: before.filter(constraint => !afterSet.has(normalizeConstraint(constraint))),
+  };
+}
+
+// Duration in the constraint language's units: 45m, 2h, 1h30m
+export function formatConstraintDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h${rest}m`;
+}
+
+// The constraint language's datetimes are wall-clock times on the user's calendar
+function formatConstraintDatetime(date: Date, timeZone: string): string {
+  const { year, month, day, hour, minute } = zonedWallClock(date, timeZone);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${year}-${pad(month)}-${pad(day)}T${pad(hour)}:${pad(minute)}`;
+}
+
+function proposal(kind: TaskChangeKind, task: InternalTask, after: TaskSummary | null): TaskChangeProposal {
+  const before = summarizeTask(task);
+  return {
+    kind,
+    task_id: task.id,
+    before,
+    after,
+    constraints: diffConstraints(before.constraints ?? [], after ? after.constraints ?? [] : []),
+  };
+}
+
+function withConstraints(summary: TaskSummary, constraints: string[]): TaskSummary {
+  const { constraints: _previous, ...rest } = summary;
+  return constraints.length > 0 ? { ...rest, constraints } : rest;
+}
+
+// New constraints have to parse before they're shown to the user, let alone sent to the solver
+function checkAddedConstraints(task: InternalTask, edits: ConstraintEdits): void {
+  const problems = findConstraintProblems(edits.add_constraints, task.name);
+  if (problems.length > 0) throw new InvalidConstraintsError(problems);
+}
+
+function isUnchanged(change: TaskChangeProposal): boolean {
+  return JSON.stringify(change.before) === JSON.stringify(change.after);
+}
+
+/**
+ * Rename, re-prioritise or re-constrain a task
+ *
+ * @throws InvalidConstraintsError when a constraint to add doesn't parse
+ * @throws Error when the changes leave the task as it is
+ */
+export function proposeModify(task: InternalTask, changes: ModifyTaskChanges): TaskChangeProposal {
+  checkAddedConstraints(task, changes);
+  const before = summarizeTask(task);
+  const after = withConstraints(
+    {
+      ...before,
+      ...(changes.name?.trim() ? { name: changes.name.trim() } : {}),
+      ...(changes.priority ? { priority: changes.priority } : {}),
+    },
+    applyConstraintEdits(before.constraints ?? [], changes)
+  );
+  const change = proposal('modify', task, after);
+  if (isUnchanged(change)) throw new Error('These changes leave the task as it is');
+  return change;
+}
+
+/**
+ * Move a task, keeping its duration unless a new end is given
+ * An explicit time pins the task there for the solver too: its exact start/end constraints are
+ * replaced by the new start (and its duration constraints by the new duration, if that changed)
+ *
+ * @throws InvalidConstraintsError when a constraint to add doesn't parse
+ * @throws Error when a time isn't an ISO date-time, the new end isn't after the new start, or nothing changes
+ */
+export function proposeReschedule(task: InternalTask, changes: RescheduleTaskChanges, timeZone: string): TaskChangeProposal {
+  checkAddedConstraints(task, changes);
+  const before = summarizeTask(task);
+  const startMs = changes.start_time ? new Date(changes.start_time).getTime() : new Date(task.start_time).getTime();
+  const endMs = changes.end_time
+    ? new Date(changes.end_time).getTime()
+    : startMs + (new Date(task.end_time).getTime() - new Date(task.start_time).getTime());
+  if (Number.isNaN(startMs)) throw new Error('start_time must be an ISO date-time, e.g. 2024-03-04T18:00:00Z');
+  if (Number.isNaN(endMs)) throw new Error('end_time must be an ISO date-time, e.g. 2024-03-04T19:00:00Z');
+  if (endMs <= startMs) throw new Error('end_time must be after start_time');
+
+  const start_time = new Date(startMs).toISOString();
+  const end_time = new Date(endMs).toISOString();
+  const duration_minutes = Math.round((endMs - startMs) / MINUTE_MS);
+  const moved = start_time !== task.start_time || end_time !== task.end_time;
+
+  let constraints = applyConstraintEdits(before.constraints ?? [], changes);
+  if (moved) {
+    const resized = duration_minutes !== before.duration_minutes;
+    constraints = applyConstraintEdits(constraints, {
+      remove_constraints: resized ? [...PINNING_ATTRIBUTES, 'duration'] : PINNING_ATTRIBUTES,
+      add_constraints: [
+        `start == ${formatConstraintDatetime(new Date(startMs), timeZone)}`,
+        ...(resized ? [`duration == ${formatConstraintDuration(duration_minutes)}`] : []),
+      ],
+    });
+  }
+
+  const after = withConstraints({ ...before, start_time, end_time, duration_minutes }, constraints);
+  const change = proposal('reschedule', task, after);
+  if (isUnchanged(change)) throw new Error('The task is already at that time');
+  return change;
+}
+
+export function proposeDelete(task: InternalTask): TaskChangeProposal {
+  return proposal('delete', task, null);
+}
@@ -0,0 +1,142 @@
+/**
+ * Assistant Tool Registry
+ *
+ * Tools the assistant can call that run on the device, against InternalDB and Supabase, whichever
+ * backend (Edge Function or proxy) relays the conversation. Each tool declares the JSON schema the
+ * model sees; input is checked against it before the tool runs.
+ */
+
+import type { TaskChangeProposal } from './task-changes';
+
+export type JSONSchemaType = 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+
+// The subset of JSON Schema tool inputs are written in
+export interface JSONSchema {
+  type: JSONSchemaType;
+  description?: string;
+  properties?: Record<string, JSONSchema>;
+  required?: string[];
+  items?: JSONSchema;
+  enum?: readonly (string | number)[];
+  format?: 'date-time';
+  minimum?: number;
+  maximum?: number;
+}
+
+// A tool as the model is told about it
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  input_schema: JSONSchema & { type: 'object' };
+}
+
+export interface ToolContext {
+  userId: string | null;
+  now: Date;
+  timeZone: string;
+  // Show the user a change to one of their tasks; resolves to whether they want it applied
+  confirm: (change: TaskChangeProposal) => Promise<boolean>;
+}
+
+export interface AssistantTool<Input = any, Output = any> extends ToolDefinition {
+  execute(input: Input, context: ToolContext): Promise<Output>;
+}
+
+// Input that doesn't match the tool's schema; the message goes back to the model so it can fix the call
+export class ToolInputError extends Error {
+  constructor(
+    readonly toolName: string,
+    readonly problems: string[]
+  ) {
+    super(`Invalid input for ${toolName}: ${problems.join('; ')}`);
+    this.name = 'ToolInputError';
+  }
+}
+
+function typeOf(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+/**
+ * Check `value` against `schema`
+ *
+ * @returns One message per problem, empty when the value matches
+ */
+export function validateToolInput(schema: JSONSchema, value: unknown, path: string = 'input'): string[] {
+  const actual = typeOf(value);
+  const matchesType = schema.type === 'integer'
+    ? Number.isInteger(value)
+    : actual === schema.type;
+  if (!matchesType) return [`${path} must be ${schema.type === 'integer' ? 'an integer' : `a ${schema.type}`}, got ${actual}`];
+
+  const problems: string[] = [];
+  if (schema.enum && !schema.enum.includes(value as string | number)) {
+    problems.push(`${path} must be one of ${schema.enum.map(option => JSON.stringify(option)).join(', ')}`);
+  }
+  if (schema.format === 'date-time' && Number.isNaN(new Date(value as string).getTime())) {
+    problems.push(`${path} must be an ISO date-time`);
+  }
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) problems.push(`${path} must be at least ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) problems.push(`${path} must be at most ${schema.maximum}`);
+  }
+  if (schema.type === 'array' && schema.items) {
+    (value as unknown[]).forEach((item, index) => {
+      problems.push(...validateToolInput(schema.items!, item, `${path}[${index}]`));
+    });
+  }
+  if (schema.type === 'object') {
+    const object = value as Record<string, unknown>;
+    for (const key of schema.required ?? []) {
+      if (object[key] === undefined) problems.push(`${path}.${key} is required`);
+    }
+    for (const [key, propertySchema] of Object.entries(schema.properties ?? {})) {
+      if (object[key] !== undefined) problems.push(...validateToolInput(propertySchema, object[key], `${path}.${key}`));
+    }
+  }
+  return problems;
+}
+
+export class ToolRegistry {
+  private tools: Map<string, AssistantTool> = new Map();
+
+  register<Input, Output>(tool: AssistantTool<Input, Output>): this {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool already registered: ${tool.name}`);
+    }
+    this.tools.set(tool.name, tool);
+    return this;
+  }
+
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  // What the model is told about the registered tools, in registration order
+  definitions(): ToolDefinition[] {
+    return Array.from(this.tools.values()).map(({ name, description, input_schema }) => ({
+      name,
+      description,
+      input_schema,
+    }));
+  }
+
+  /**
+   * Run a registered tool
+   *
+   * @throws ToolInputError when the input doesn't match the tool's schema
+   */
+  async execute(name: string, input: unknown, context: ToolContext): Promise<unknown> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new Error(`Unknown tool: ${name}`);
+    }
+    const problems = validateToolInput(tool.input_schema, input ?? {});
+    if (problems.length > 0) {
+      throw new ToolInputError(name, problems);
+    }
+    return tool.execute(input ?? {}, context);
+  }
+}
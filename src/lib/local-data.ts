@@ -0,0 +1,147 @@
+import { safeStorage } from './storage'
+import { internalDB } from './internal-db'
+import { OfflineDatabase } from './offline/database'
+import { undoHistory } from './undo-history'
+
+// Local stores are partitioned by Supabase user id, so accounts sharing a device never see each other's tasks.
+// Accounts that have had a store on this device
+const LOCAL_USERS_KEY = '@skedai_local_users'
+// The account that took over data stored before stores were per-user
+const UNSCOPED_OWNER_KEY = '@skedai_unscoped_data_owner'
+const PURGE_ON_SIGN_OUT_KEY = '@skedai_purge_on_sign_out'
+
+let activeUserId: string | null = null
+let queue: Promise<void> = Promise.resolve()
+
+// Switches, sign-outs and purges run one at a time, in the order they were requested
+function enqueue(run: () => Promise<void>): Promise<void> {
+  const result = queue.then(run)
+  queue = result.catch(() => undefined)
+  return result
+}
+
+async function readUserIds(): Promise<string[]> {
+  const stored = await safeStorage.getItem(LOCAL_USERS_KEY)
+  const parsed = stored ? JSON.parse(stored) : []
+  return Array.isArray(parsed) ? parsed.filter((id: unknown) => typeof id === 'string') : []
+}
+
+async function writeUserIds(userIds: string[]): Promise<void> {
+  await safeStorage.setItem(LOCAL_USERS_KEY, JSON.stringify(userIds))
+}
+
+async function switchStores(userId: string | null, adoptUnscoped: boolean = false): Promise<void> {
+  OfflineDatabase.setActiveNamespace(userId)
+  if (adoptUnscoped) {
+    await new OfflineDatabase(userId).adoptUnscopedData()
+  }
+  await internalDB.switchNamespace(userId, { adoptUnscoped })
+  await undoHistory.switchNamespace(userId, { adoptUnscoped })
+  activeUserId = userId
+}
+
+async function purgeStores(userId: string): Promise<void> {
+  const results = await Promise.allSettled([
+    internalDB.purgeNamespace(userId),
+    new OfflineDatabase(userId).destroy(),
+    undoHistory.purgeNamespace(userId),
+  ])
+
+  const failures = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected')
+  failures.forEach(failure => console.error('❌ Error purging local store:', failure.reason))
+  if (failures.length > 0) {
+    throw new Error(`Could not purge all local data for ${userId}`)
+  }
+
+  await writeUserIds((await readUserIds()).filter(id => id !== userId))
+  console.log('🗑️ Purged local data for', userId)
+}
+
+export function getActiveLocalUser(): string | null {
+  return activeUserId
+}
+
+/**
+ * Point every local store at a user's partition (null = signed out).
+ * The first account to sign in after upgrading takes over the data stored before partitioning.
+ */
+export function activateLocalUser(userId: string | null): Promise<void> {
+  return enqueue(async () => {
+    if (userId === activeUserId) return
+    if (!userId) {
+      await switchStores(null)
+      return
+    }
+
+    const knownUsers = await readUserIds()
+    if (!knownUsers.includes(userId)) {
+      await writeUserIds([...knownUsers, userId])
+    }
+
+    const adoptUnscoped = !(await safeStorage.getItem(UNSCOPED_OWNER_KEY))
+    await switchStores(userId, adoptUnscoped)
+    if (adoptUnscoped) {
+      await safeStorage.setItem(UNSCOPED_OWNER_KEY, userId)
+    }
+  })
+}
+
+/**
+ * Leave the signed-in user's partition. Their data is purged if they opted in,
+ * otherwise it stays on the device and the keys used during the session are retired.
+ */
+export function signOutLocalUser(): Promise<void> {
+  return enqueue(async () => {
+    const userId = activeUserId
+    if (!userId) return
+
+    if (await getPurgeOnSignOut()) {
+      await switchStores(null)
+      await purgeStores(userId)
+    } else {
+      await rekeyLocalStores()
+      await switchStores(null)
+    }
+  })
+}
+
+// Ids of accounts, other than the signed-in one, with data on this device
+export async function getOtherLocalUsers(): Promise<string[]> {
+  return (await readUserIds()).filter(id => id !== activeUserId)
+}
+
+// Delete every other account's local data from this device
+// @returns Number of accounts purged
+export function purgeOtherLocalUsers(): Promise<number> {
+  let purged = 0
+  return enqueue(async () => {
+    for (const userId of await getOtherLocalUsers()) {
+      await purgeStores(userId)
+      purged++
+    }
+  }).then(() => purged)
+}
+
+export async function getPurgeOnSignOut(): Promise<boolean> {
+  return (await safeStorage.getItem(PURGE_ON_SIGN_OUT_KEY)) === 'true'
+}
+
+export async function setPurgeOnSignOut(enabled: boolean): Promise<void> {
+  await safeStorage.setItem(PURGE_ON_SIGN_OUT_KEY, enabled ? 'true' : 'false')
+}
+
+// Rotate the encryption keys of every local store, rewriting their data under the new keys.
+// Run on sign-out so keys that were in use during the session are retired.
+export async function rekeyLocalStores(): Promise<void> {
+  const results = await Promise.allSettled([
+    internalDB.rekey(),
+    new OfflineDatabase().rekey(),
+    undoHistory.rekey(),
+  ])
+
+  results.forEach(result => {
+    if (result.status === 'rejected') {
+      console.error('❌ Error re-keying local store:', result.reason)
+    }
+  })
+}
@@ -1,6 +1,6 @@
 import * as Notifications from 'expo-notifications'
 import { Platform } from 'react-native'
-import { Task } from '../offline/database'
+import { Task } from '../tasks/model'
 
 // Configure notifications
 Notifications.setNotificationHandler({
@@ -60,7 +60,7 @@ export class ExpoNotificationService {
         content: {
           title: `Time to Start: ${task.name}`,
           body: 'Your scheduled task is ready to begin!',
-          data: { taskId: task.local_id, type: 'start' },
+          data: { taskId: task.id, type: 'start' },
           categoryIdentifier: 'task',
         },
         trigger: null, // Immediate notification
@@ -91,7 +91,7 @@ export class ExpoNotificationService {
         content: {
           title,
           body,
-          data: { taskId: task.local_id, type },
+          data: { taskId: task.id, type },
         },
         trigger: {
           type: Notifications.SchedulableTriggerInputTypes.DATE,
@@ -99,7 +99,7 @@ export class ExpoNotificationService {
         },
       })
       
-      console.log(`Scheduled Expo ${type} notification for task ${task.local_id}`)
+      console.log(`Scheduled Expo ${type} notification for task ${task.id}`)
     } catch (error) {
       console.error('Error scheduling Expo notification:', error)
     }
@@ -1,5 +1,5 @@
 import { Platform } from 'react-native'
-import { Task } from '../offline/database'
+import { Task } from '../tasks/model'
 
 // Notifee requires native setup, so we'll make it optional
 let notifee: any
@@ -111,7 +111,7 @@ export class NotificationService {
 
     try {
       const notificationConfig: any = {
-        id: `${task.local_id}_${type}`,
+        id: `${task.id}_${type}`,
         title,
         body,
         android: {
@@ -144,7 +144,7 @@ export class NotificationService {
           ] : [],
         },
         data: {
-          taskId: task.local_id,
+          taskId: task.id,
           type,
         },
       }
@@ -156,7 +156,7 @@ export class NotificationService {
         await notifee.displayNotification(notificationConfig)
       }
       
-      console.log(`Scheduled ${type} notification for task ${task.local_id}`)
+      console.log(`Scheduled ${type} notification for task ${task.id}`)
     } catch (error) {
       console.error('Error scheduling notification:', error)
     }
@@ -0,0 +1,54 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { DataCipher } from '../../encryption'
+import { OfflineDatabase, OfflineTask } from '../database'
+import { newTaskOp } from '../op-queue'
+
+const offlineTask = (localId: string): OfflineTask => ({
+  id: localId,
+  local_id: localId,
+  user_id: 'user-1',
+  name: `Task ${localId}`,
+  status: 'pending',
+  priority: 'medium',
+  sync_status: 'synced',
+  created_at: '2024-02-01T00:00:00.000Z',
+  updated_at: '2024-02-01T00:00:00.000Z',
+})
+
+describe('OfflineDatabase', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear()
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('a list that can\'t be read is left alone by writes instead of being overwritten', async () => {
+    const db = new OfflineDatabase('user-1')
+    await db.saveTasks([offlineTask('a'), offlineTask('b')])
+    await db.setSyncBases([offlineTask('a')])
+    // Written under a key this store doesn't have, as after a lost or replaced key
+    const unreadable = await new DataCipher('test_other_store').encryptJSON([offlineTask('a')])
+    await AsyncStorage.multiSet([['@skedai_tasks:user-1', unreadable], ['@skedai_sync_base:user-1', unreadable]])
+
+    expect(await db.getTasks()).toEqual([])
+    await expect(db.upsertTask(offlineTask('c'))).rejects.toThrow()
+    await expect(db.deleteTask('a')).rejects.toThrow()
+    await expect(db.setSyncBases([offlineTask('c')])).rejects.toThrow()
+    expect(await AsyncStorage.getItem('@skedai_tasks:user-1')).toBe(unreadable)
+    expect(await AsyncStorage.getItem('@skedai_sync_base:user-1')).toBe(unreadable)
+  })
+
+  test('queued ops that can\'t be read aren\'t replaced by a queue of one', async () => {
+    const db = new OfflineDatabase('user-1')
+    await db.enqueueOp(newTaskOp('create', 'a'))
+    const unreadable = await new DataCipher('test_other_store').encryptJSON([])
+    await AsyncStorage.setItem('@skedai_sync_ops:user-1', unreadable)
+
+    expect(await db.getOps()).toEqual([])
+    await expect(db.enqueueOp(newTaskOp('create', 'b'))).rejects.toThrow()
+    expect(await AsyncStorage.getItem('@skedai_sync_ops:user-1')).toBe(unreadable)
+  })
+})
@@ -0,0 +1,93 @@
+import type { OfflineTask } from '../database'
+import { conflictFromMerge, mergeTask, resolveConflict } from '../merge'
+
+const task = (overrides: Partial<OfflineTask> = {}): OfflineTask => ({
+  id: 'remote-1',
+  task_id: 'remote-1',
+  local_id: 'local-1',
+  user_id: 'user-1',
+  name: 'Dentist',
+  status: 'pending',
+  priority: 'medium',
+  start_time: '2024-03-01T09:00:00.000Z',
+  end_time: '2024-03-01T10:00:00.000Z',
+  task_json: { notes: 'bring card', location: 'Main St' },
+  sync_status: 'synced',
+  created_at: '2024-02-01T00:00:00.000Z',
+  updated_at: '2024-02-01T00:00:00.000Z',
+  ...overrides,
+})
+
+describe('three-way task merge', () => {
+  test('changes to different fields merge cleanly', () => {
+    const base = task()
+    const local = task({ name: 'Dentist checkup', sync_status: 'pending', updated_at: '2024-03-01T00:00:00.000Z' })
+    const remote = task({ priority: 'high', task_json: { notes: 'bring card', location: 'Elm St' } })
+
+    const { merged, conflicts } = mergeTask(base, local, remote)
+
+    expect(conflicts).toEqual([])
+    expect(merged).toMatchObject({
+      name: 'Dentist checkup',
+      priority: 'high',
+      task_json: { notes: 'bring card', location: 'Elm St' },
+      local_id: 'local-1',
+      sync_status: 'pending',
+    })
+  })
+
+  test('both sides changing a field differently is a conflict; the same change is not', () => {
+    const base = task()
+    const local = task({ name: 'Dentist 9am', status: 'completed', task_json: { notes: 'paid', location: 'Main St' } })
+    const remote = task({ name: 'Dentist 10am', status: 'completed', task_json: { notes: 'insurance', location: 'Main St' } })
+
+    const { merged, conflicts } = mergeTask(base, local, remote)
+
+    expect(conflicts).toEqual([
+      { field: 'name', base: 'Dentist', local: 'Dentist 9am', remote: 'Dentist 10am' },
+      { field: 'task_json.notes', base: 'bring card', local: 'paid', remote: 'insurance' },
+    ])
+    expect(merged).toMatchObject({ name: 'Dentist 9am', status: 'completed' })
+  })
+
+  test('time copies inside task_json never conflict on their own', () => {
+    const base = task()
+    const local = task({ task_json: { ...base.task_json, start_time: '2024-03-01T11:00:00.000Z' } })
+    const remote = task({ task_json: { ...base.task_json, start_time: '2024-03-01T12:00:00.000Z' } })
+
+    expect(mergeTask(base, local, remote).conflicts).toEqual([])
+  })
+
+  test('without a base every difference is a conflict', () => {
+    const { conflicts } = mergeTask(null, task({ name: 'Mine' }), task({ name: 'Theirs', priority: 'low' }))
+
+    expect(conflicts.map(conflict => conflict.field)).toEqual(['name', 'priority'])
+  })
+
+  test('deleting a task the other side edited is a conflict', () => {
+    const base = task()
+    const deleted = task({ deleted_at: '2024-03-02T00:00:00.000Z' })
+
+    expect(mergeTask(base, task({ name: 'Edited' }), deleted).conflicts.map(conflict => conflict.field)).toEqual(['deleted_at'])
+    expect(mergeTask(base, deleted, task({ priority: 'high' })).conflicts.map(conflict => conflict.field)).toEqual(['deleted_at'])
+    expect(mergeTask(base, task(), deleted)).toMatchObject({ conflicts: [], merged: { deleted_at: deleted.deleted_at } })
+  })
+
+  test('resolving picks a side per conflicting field and keeps clean merges', () => {
+    const base = task()
+    const local = task({ name: 'Mine', status: 'in_progress', task_json: { notes: 'mine', location: 'Main St' } })
+    const remote = task({ name: 'Theirs', priority: 'high', task_json: { notes: 'theirs', location: 'Main St' } })
+    const { conflicts } = mergeTask(base, local, remote)
+    const conflict = conflictFromMerge(base, local, remote, conflicts)
+
+    const resolved = resolveConflict(conflict, { name: 'remote' })
+
+    expect(resolved).toMatchObject({
+      name: 'Theirs',
+      status: 'in_progress',
+      priority: 'high',
+      task_json: { notes: 'mine', location: 'Main St' },
+    })
+    expect(resolveConflict(conflict, {})).toMatchObject({ name: 'Mine', priority: 'high' })
+  })
+})
@@ -0,0 +1,107 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { OfflineDatabase, OfflineTask } from '../database'
+import {
+  DEFAULT_RETRY_POLICY,
+  TaskOp,
+  backoffDelayMs,
+  enqueueTaskOp,
+  isOpDue,
+  newTaskOp,
+  notAppliedFilter,
+  opForEdit,
+  recordOpFailure,
+} from '../op-queue'
+
+const offlineTask = (localId: string, overrides: Partial<OfflineTask> = {}): OfflineTask => ({
+  id: localId,
+  local_id: localId,
+  user_id: 'user-1',
+  name: `Task ${localId}`,
+  status: 'pending',
+  priority: 'medium',
+  sync_status: 'pending',
+  created_at: '2024-02-01T00:00:00.000Z',
+  updated_at: '2024-02-01T00:00:00.000Z',
+  ...overrides,
+})
+
+const attempted = (op: TaskOp): TaskOp => ({ ...op, attempts: 1 })
+
+describe('outbound op queue', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear()
+  })
+
+  test('edits fold into a queued create or an edit of the same kind', () => {
+    const create = newTaskOp('create', 'a')
+    expect(enqueueTaskOp([create], opForEdit('a', ['name']))).toEqual([create])
+
+    const rename = opForEdit('b', ['name'])
+    const queue = enqueueTaskOp(enqueueTaskOp([rename], opForEdit('b', ['priority'])), opForEdit('b', ['status', 'completed_at']))
+
+    expect(queue.map(op => [op.id === rename.id, op.type, op.fields])).toEqual([
+      [true, 'update', ['name', 'priority']],
+      [false, 'status_change', ['status', 'completed_at']],
+    ])
+  })
+
+  test('a delete replaces queued edits, and cancels a create that never went out', () => {
+    const edit = opForEdit('a', ['name'])
+    expect(enqueueTaskOp([edit], newTaskOp('delete', 'a')).map(op => op.type)).toEqual(['delete'])
+
+    expect(enqueueTaskOp([newTaskOp('create', 'b')], newTaskOp('delete', 'b'))).toEqual([])
+
+    const triedCreate = attempted(newTaskOp('create', 'c'))
+    expect(enqueueTaskOp([triedCreate], newTaskOp('delete', 'c')).map(op => op.type)).toEqual(['create', 'delete'])
+  })
+
+  test('retries back off exponentially up to the cap, then the op is quarantined', () => {
+    const noJitter = () => 1
+
+    expect(backoffDelayMs(1, DEFAULT_RETRY_POLICY, noJitter)).toBe(5000)
+    expect(backoffDelayMs(3, DEFAULT_RETRY_POLICY, noJitter)).toBe(20000)
+    expect(backoffDelayMs(20, DEFAULT_RETRY_POLICY, noJitter)).toBe(DEFAULT_RETRY_POLICY.maxDelayMs)
+    expect(backoffDelayMs(1, DEFAULT_RETRY_POLICY, () => 0)).toBe(2500)
+
+    const now = Date.parse('2024-03-01T00:00:00.000Z')
+    const failed = recordOpFailure(newTaskOp('update', 'a'), new Error('timeout'), DEFAULT_RETRY_POLICY, now)
+    if (!('retry' in failed)) throw new Error('expected a retry')
+    expect(failed.retry).toMatchObject({ attempts: 1, last_error: 'timeout' })
+    expect(isOpDue(failed.retry, now)).toBe(false)
+    expect(isOpDue(failed.retry, now + DEFAULT_RETRY_POLICY.baseDelayMs)).toBe(true)
+
+    const lastTry = { ...newTaskOp('update', 'a'), attempts: DEFAULT_RETRY_POLICY.maxAttempts - 1 }
+    expect(recordOpFailure(lastTry, { message: 'violates check constraint' }, DEFAULT_RETRY_POLICY, now)).toMatchObject({
+      quarantined: { attempts: DEFAULT_RETRY_POLICY.maxAttempts, last_error: 'violates check constraint' },
+    })
+  })
+
+  test('an op is written only to a task row that doesn\'t hold its id yet', () => {
+    const op = newTaskOp('update', 'a', ['name'])
+
+    // Op ids go into the filter as is, so they must not contain PostgREST syntax
+    expect(op.id).toMatch(/^[a-z0-9_]+$/)
+    expect(notAppliedFilter(op)).toBe(`last_op_id.is.null,last_op_id.neq.${op.id}`)
+  })
+
+  test('the store keeps ops across instances and releases quarantined ones', async () => {
+    const db = new OfflineDatabase()
+    await db.saveTasks([offlineTask('a')])
+    const op = newTaskOp('update', 'a')
+    await db.enqueueOp(op)
+
+    expect(await new OfflineDatabase().getOps()).toEqual([op])
+
+    await db.quarantineOp({ ...op, attempts: 8, quarantined_at: '2024-03-01T00:00:00.000Z' })
+    expect(await db.getOps()).toEqual([])
+
+    await db.releaseQuarantinedOp(op.id, true)
+    expect(await db.getOps()).toEqual([{ ...op, attempts: 0 }])
+    expect(await db.getQuarantinedOps()).toEqual([])
+
+    await db.quarantineOp({ ...op, attempts: 8, quarantined_at: '2024-03-01T00:00:00.000Z' })
+    await db.releaseQuarantinedOp(op.id, false)
+    expect(await db.getOps()).toEqual([])
+    expect((await db.getTask('a'))?.sync_status).toBe('synced')
+  })
+})
@@ -1,20 +1,25 @@
 import AsyncStorage from '@react-native-async-storage/async-storage'
+import { DataCipher, dataCipherFor } from '../encryption'
+import type { TaskPriority, TaskStatus, TaskSyncStatus } from '../tasks/model'
+import type { TaskConflict } from './merge'
+import { QuarantinedOp, TaskOp, enqueueTaskOp } from './op-queue'
 
-export interface Task {
+// Offline task structure for local storage; convert with fromOfflineTask/toOfflineTask (../tasks/adapters)
+export interface OfflineTask {
   id: string
   task_id?: string // Supabase ID
   local_id: string // Local ID for offline
   user_id: string
   name: string
   task_json?: any
-  status: 'pending' | 'completed' | 'in_progress' | 'created' | 'failed'
+  status: TaskStatus
   start_time?: string // ISO string for task start time
   end_time?: string // ISO string for task end time
   due_at?: string
   reminder_at?: string
   completed_at?: string
-  priority: 'low' | 'medium' | 'high'
-  sync_status: 'synced' | 'pending' | 'conflict'
+  priority: TaskPriority
+  sync_status: TaskSyncStatus
   created_at: string
   updated_at: string
   deleted_at?: string
@@ -27,14 +32,70 @@ export interface SyncMetadata {
 
 const TASKS_KEY = '@skedai_tasks'
 const SYNC_KEY = '@skedai_sync_metadata'
-const QUEUE_KEY = '@skedai_sync_queue'
+const LEGACY_QUEUE_KEY = '@skedai_sync_queue' // task snapshots queued by older versions; pending tasks are requeued as ops
+const OPS_KEY = '@skedai_sync_ops'
+const QUARANTINE_KEY = '@skedai_sync_quarantine'
+const BASE_KEY = '@skedai_sync_base' // each synced task as last agreed with the server, for three-way merges
+const CONFLICTS_KEY = '@skedai_sync_conflicts'
 
+// Encrypted lists, each with how its entries are identified
+const LISTS: [string, (entry: any) => string][] = [
+  [TASKS_KEY, (task: OfflineTask) => task.local_id],
+  [OPS_KEY, (op: TaskOp) => op.id],
+  [QUARANTINE_KEY, (op: QuarantinedOp) => op.id],
+  [BASE_KEY, (task: OfflineTask) => task.local_id],
+  [CONFLICTS_KEY, (conflict: TaskConflict) => conflict.local_id],
+]
+const ALL_KEYS = [...LISTS.map(([baseKey]) => baseKey), SYNC_KEY, LEGACY_QUEUE_KEY]
+
+// Store new instances use by default: the signed-in user's, or null (unscoped) while signed out
+let activeNamespace: string | null = null
+
+// Tasks, bases and conflicts hold task names, so they are encrypted at rest, as are the ops that refer
+// to them; sync metadata is not.
+// Each namespace (one per signed-in user) has its own keys and encryption key.
 export class OfflineDatabase {
+  private readonly namespace: string | null
+
+  constructor(namespace: string | null = activeNamespace) {
+    this.namespace = namespace
+  }
+
+  static setActiveNamespace(namespace: string | null): void {
+    activeNamespace = namespace
+  }
+
+  private get cipher(): DataCipher {
+    return dataCipherFor('offline_db', this.namespace)
+  }
+
+  private key(baseKey: string): string {
+    return this.namespace ? `${baseKey}:${this.namespace}` : baseKey
+  }
+
+  // Read an encrypted list; plaintext written by older versions is encrypted in place on first read
+  private async readList<T>(baseKey: string): Promise<T[]> {
+    const stored = await AsyncStorage.getItem(this.key(baseKey))
+    if (!stored) return []
+
+    const list: T[] = await this.cipher.decryptJSON(stored)
+    if (!this.cipher.isEncrypted(stored)) {
+      await this.writeList(baseKey, list)
+    }
+    return list
+  }
+
+  private async writeList<T>(baseKey: string, list: T[]): Promise<void> {
+    await AsyncStorage.setItem(this.key(baseKey), await this.cipher.encryptJSON(list))
+  }
+
+  // The getters below log a list that can't be read and return it empty. Writes that update a list
+  // read it with readList instead, so a failed read fails the write rather than overwriting what's stored.
+
   // Get all tasks from local storage
-  async getTasks(): Promise<Task[]> {
+  async getTasks(): Promise<OfflineTask[]> {
     try {
-      const tasksJson = await AsyncStorage.getItem(TASKS_KEY)
-      return tasksJson ? JSON.parse(tasksJson) : []
+      return await this.readList<OfflineTask>(TASKS_KEY)
     } catch (error) {
       console.error('Error getting tasks:', error)
       return []
@@ -42,15 +103,15 @@ export class OfflineDatabase {
   }
 
   // Get a single task by local ID
-  async getTask(localId: string): Promise<Task | null> {
+  async getTask(localId: string): Promise<OfflineTask | null> {
     const tasks = await this.getTasks()
     return tasks.find(t => t.local_id === localId) || null
   }
 
   // Save tasks to local storage
-  async saveTasks(tasks: Task[]): Promise<void> {
+  async saveTasks(tasks: OfflineTask[]): Promise<void> {
     try {
-      await AsyncStorage.setItem(TASKS_KEY, JSON.stringify(tasks))
+      await this.writeList(TASKS_KEY, tasks)
     } catch (error) {
       console.error('Error saving tasks:', error)
       throw error
@@ -58,8 +119,8 @@ export class OfflineDatabase {
   }
 
   // Add or update a task
-  async upsertTask(task: Task): Promise<void> {
-    const tasks = await this.getTasks()
+  async upsertTask(task: OfflineTask): Promise<void> {
+    const tasks = await this.readList<OfflineTask>(TASKS_KEY)
     const index = tasks.findIndex(t => t.local_id === task.local_id)
     
     if (index >= 0) {
@@ -77,71 +138,141 @@ export class OfflineDatabase {
     }
     
     await this.saveTasks(tasks)
-    
-    // Add to sync queue if offline
-    if (task.sync_status === 'pending') {
-      await this.addToSyncQueue(task)
-    }
   }
 
   // Soft delete a task
   async deleteTask(localId: string): Promise<void> {
-    const tasks = await this.getTasks()
+    const tasks = await this.readList<OfflineTask>(TASKS_KEY)
     const task = tasks.find(t => t.local_id === localId)
     
     if (task) {
       task.deleted_at = new Date().toISOString()
       task.sync_status = 'pending'
       await this.saveTasks(tasks)
-      await this.addToSyncQueue(task)
       console.log('✅ Task deleted:', task.name || localId)
     }
   }
 
   // Get tasks that need syncing
-  async getPendingTasks(): Promise<Task[]> {
+  async getPendingTasks(): Promise<OfflineTask[]> {
     const tasks = await this.getTasks()
     return tasks.filter(t => t.sync_status === 'pending')
   }
 
-  // Add task to sync queue
-  async addToSyncQueue(task: Task): Promise<void> {
+  // Outbound ops, oldest first
+  async getOps(): Promise<TaskOp[]> {
+    try {
+      return await this.readList<TaskOp>(OPS_KEY)
+    } catch (error) {
+      console.error('Error getting sync ops:', error)
+      return []
+    }
+  }
+
+  async enqueueOp(op: TaskOp): Promise<void> {
+    await this.writeList(OPS_KEY, enqueueTaskOp(await this.readList<TaskOp>(OPS_KEY), op))
+  }
+
+  // Replace a queued op with its new state (after a failed attempt), or drop it when `op` is null
+  async updateOp(id: string, op: TaskOp | null): Promise<void> {
+    const ops = await this.readList<TaskOp>(OPS_KEY)
+    await this.writeList(OPS_KEY, op ? ops.map(queued => (queued.id === id ? op : queued)) : ops.filter(queued => queued.id !== id))
+  }
+
+  async removeOpsFor(localId: string): Promise<void> {
+    const ops = await this.readList<TaskOp>(OPS_KEY)
+    if (!ops.some(op => op.local_id === localId)) return
+    await this.writeList(OPS_KEY, ops.filter(op => op.local_id !== localId))
+  }
+
+  async getQuarantinedOps(): Promise<QuarantinedOp[]> {
     try {
-      const queueJson = await AsyncStorage.getItem(QUEUE_KEY)
-      const queue = queueJson ? JSON.parse(queueJson) : []
-      
-      // Remove existing entry for this task
-      const filteredQueue = queue.filter((t: Task) => t.local_id !== task.local_id)
-      
-      // Add updated task to queue
-      filteredQueue.push(task)
-      
-      await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(filteredQueue))
+      return await this.readList<QuarantinedOp>(QUARANTINE_KEY)
     } catch (error) {
-      console.error('Error adding to sync queue:', error)
+      console.error('Error getting quarantined ops:', error)
+      return []
+    }
+  }
+
+  async quarantineOp(op: QuarantinedOp): Promise<void> {
+    await this.updateOp(op.id, null)
+    await this.writeList(QUARANTINE_KEY, [...(await this.readList<QuarantinedOp>(QUARANTINE_KEY)), op])
+  }
+
+  /**
+   * Take an op out of quarantine. `requeue` puts it back at the end of the queue with fresh attempts;
+   * otherwise the change is given up on, and a task with nothing else queued stops counting as pending.
+   */
+  async releaseQuarantinedOp(id: string, requeue: boolean): Promise<void> {
+    const quarantined = await this.readList<QuarantinedOp>(QUARANTINE_KEY)
+    const op = quarantined.find(entry => entry.id === id)
+    if (!op) return
+
+    const remaining = quarantined.filter(entry => entry.id !== id)
+    await this.writeList(QUARANTINE_KEY, remaining)
+    if (requeue) {
+      const { quarantined_at, next_attempt_at, ...rest } = op
+      await this.writeList(OPS_KEY, [...(await this.readList<TaskOp>(OPS_KEY)), { ...rest, attempts: 0 }])
+      return
+    }
+
+    const stillQueued = [...(await this.getOps()), ...remaining].some(entry => entry.local_id === op.local_id)
+    const task = await this.getTask(op.local_id)
+    if (task && !stillQueued && task.sync_status === 'pending') {
+      await this.upsertTask({ ...task, sync_status: 'synced' })
+    }
+  }
+
+  // Snapshots queued by versions before the op log; their tasks are still marked pending
+  async dropLegacyQueue(): Promise<void> {
+    await AsyncStorage.removeItem(this.key(LEGACY_QUEUE_KEY))
+  }
+
+  // Last synced version of each task, by local_id
+  async getSyncBases(): Promise<Map<string, OfflineTask>> {
+    try {
+      const bases = await this.readList<OfflineTask>(BASE_KEY)
+      return new Map(bases.map(task => [task.local_id, task]))
+    } catch (error) {
+      console.error('Error getting sync bases:', error)
+      return new Map()
+    }
+  }
+
+  async setSyncBases(tasks: OfflineTask[]): Promise<void> {
+    if (tasks.length === 0) return
+    const bases = new Map((await this.readList<OfflineTask>(BASE_KEY)).map(task => [task.local_id, task]))
+    for (const task of tasks) {
+      bases.set(task.local_id, task)
     }
+    await this.writeList(BASE_KEY, Array.from(bases.values()))
   }
 
-  // Get sync queue
-  async getSyncQueue(): Promise<Task[]> {
+  async getConflicts(): Promise<TaskConflict[]> {
     try {
-      const queueJson = await AsyncStorage.getItem(QUEUE_KEY)
-      return queueJson ? JSON.parse(queueJson) : []
+      return await this.readList<TaskConflict>(CONFLICTS_KEY)
     } catch (error) {
-      console.error('Error getting sync queue:', error)
+      console.error('Error getting sync conflicts:', error)
       return []
     }
   }
 
-  // Clear sync queue
-  async clearSyncQueue(): Promise<void> {
-    await AsyncStorage.removeItem(QUEUE_KEY)
+  // Record a conflict, replacing any earlier one for the same task
+  async saveConflict(conflict: TaskConflict): Promise<void> {
+    const conflicts = await this.readList<TaskConflict>(CONFLICTS_KEY)
+    await this.writeList(CONFLICTS_KEY, [...conflicts.filter(c => c.local_id !== conflict.local_id), conflict])
+  }
+
+  async removeConflict(localId: string): Promise<void> {
+    const conflicts = await this.readList<TaskConflict>(CONFLICTS_KEY)
+    if (!conflicts.some(c => c.local_id === localId)) return
+    await this.writeList(CONFLICTS_KEY, conflicts.filter(c => c.local_id !== localId))
   }
 
   // Get sync metadata
   async getSyncMetadata(): Promise<SyncMetadata> {
     try {
-      const metadataJson = await AsyncStorage.getItem(SYNC_KEY)
+      const metadataJson = await AsyncStorage.getItem(this.key(SYNC_KEY))
       return metadataJson ? JSON.parse(metadataJson) : {
         lastSyncAt: new Date(0).toISOString(),
         pendingChanges: 0,
@@ -157,14 +288,55 @@ export class OfflineDatabase {
   // Update sync metadata
   async updateSyncMetadata(metadata: Partial<SyncMetadata>): Promise<void> {
     const current = await this.getSyncMetadata()
-    await AsyncStorage.setItem(SYNC_KEY, JSON.stringify({
+    await AsyncStorage.setItem(this.key(SYNC_KEY), JSON.stringify({
       ...current,
       ...metadata,
     }))
   }
 
-  // Clear all data
+  // Clear all data; nothing is left under the old key, so it's replaced outright
   async clearAll(): Promise<void> {
-    await AsyncStorage.multiRemove([TASKS_KEY, SYNC_KEY, QUEUE_KEY])
+    await AsyncStorage.multiRemove(ALL_KEYS.map(key => this.key(key)))
+    await this.cipher.replaceKey()
+  }
+
+  // Delete this store and its encryption key
+  async destroy(): Promise<void> {
+    await this.cipher.destroyKey()
+    await AsyncStorage.multiRemove(ALL_KEYS.map(key => this.key(key)))
+  }
+
+  // Move data stored before per-user stores existed into this store, then delete the unscoped copy.
+  // Anything this store already holds under the same id wins.
+  async adoptUnscopedData(): Promise<void> {
+    if (this.namespace === null) return
+    const unscoped = new OfflineDatabase(null)
+
+    for (const [baseKey, idOf] of LISTS) {
+      const adopted = await unscoped.readList<unknown>(baseKey)
+      if (adopted.length === 0) continue
+      const own = await this.readList<unknown>(baseKey)
+      const ownIds = new Set(own.map(idOf))
+      await this.writeList(baseKey, [...own, ...adopted.filter(entry => !ownIds.has(idOf(entry)))])
+    }
+
+    const metadata = await AsyncStorage.getItem(SYNC_KEY)
+    if (metadata && !(await AsyncStorage.getItem(this.key(SYNC_KEY)))) {
+      await AsyncStorage.setItem(this.key(SYNC_KEY), metadata)
+    }
+
+    await unscoped.destroy()
+  }
+
+  // Switch to a fresh encryption key and rewrite every encrypted list under it
+  async rekey(): Promise<void> {
+    const lists = LISTS.map(([baseKey]) => baseKey)
+    const contents = await Promise.all(lists.map(baseKey => this.readList<unknown>(baseKey)))
+
+    await this.cipher.rotateKey()
+    for (const [index, baseKey] of lists.entries()) {
+      await this.writeList(baseKey, contents[index])
+    }
+    await this.cipher.forgetRetiredKeys()
   }
 }
\ No newline at end of file
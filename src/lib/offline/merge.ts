@@ -0,0 +1,163 @@
+import type { OfflineTask } from './database'
+
+// Task fields merged one by one; identity and bookkeeping (ids, sync status, timestamps) never conflict
+export const MERGE_FIELDS = [
+  'name',
+  'status',
+  'priority',
+  'start_time',
+  'end_time',
+  'due_at',
+  'reminder_at',
+  'completed_at',
+  'deleted_at',
+] as const
+
+// The copies of start/end time in task_json mirror the columns, and pushes rewrite them from the columns
+const MIRRORED_DETAIL_KEYS = ['start_time', 'end_time']
+const DETAIL_PREFIX = 'task_json.'
+
+// A column name, or `task_json.<key>` for a key of the free-form details
+export type MergeFieldPath = typeof MERGE_FIELDS[number] | `task_json.${string}`
+
+export interface FieldConflict {
+  field: MergeFieldPath
+  base: unknown
+  local: unknown
+  remote: unknown
+}
+
+export interface TaskMerge {
+  merged: OfflineTask // the local task with every change that merged cleanly; conflicting fields keep the local value
+  conflicts: FieldConflict[]
+}
+
+// A pulled change that touched the same fields as an unpushed local edit, waiting for the user
+export interface TaskConflict {
+  local_id: string
+  task_id?: string
+  name: string
+  base: OfflineTask | null
+  local: OfflineTask
+  remote: OfflineTask
+  fields: FieldConflict[]
+  detected_at: string
+}
+
+export type ConflictChoice = 'local' | 'remote'
+
+function isSameValue(a: unknown, b: unknown): boolean {
+  if (a === b || (a == null && b == null)) return true
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false
+  if (Array.isArray(a) !== Array.isArray(b)) return false
+
+  const aRecord = a as Record<string, unknown>
+  const bRecord = b as Record<string, unknown>
+  const aKeys = Object.keys(aRecord).filter(key => aRecord[key] !== undefined)
+  const bKeys = Object.keys(bRecord).filter(key => bRecord[key] !== undefined)
+  return aKeys.length === bKeys.length && aKeys.every(key => isSameValue(aRecord[key], bRecord[key]))
+}
+
+function detailKeys(...tasks: (OfflineTask | null)[]): string[] {
+  const keys = new Set<string>()
+  for (const task of tasks) {
+    Object.keys(task?.task_json ?? {}).forEach(key => keys.add(key))
+  }
+  return Array.from(keys).filter(key => !MIRRORED_DETAIL_KEYS.includes(key))
+}
+
+function readField(task: OfflineTask | null, field: MergeFieldPath): unknown {
+  if (!task) return undefined
+  if (field.startsWith(DETAIL_PREFIX)) return task.task_json?.[field.slice(DETAIL_PREFIX.length)]
+  return task[field as typeof MERGE_FIELDS[number]]
+}
+
+function writeField(task: OfflineTask, field: MergeFieldPath, value: unknown): void {
+  if (field.startsWith(DETAIL_PREFIX)) {
+    const key = field.slice(DETAIL_PREFIX.length)
+    const details = { ...(task.task_json ?? {}) }
+    if (value === undefined) {
+      delete details[key]
+    } else {
+      details[key] = value
+    }
+    task.task_json = details
+  } else {
+    const fields: Partial<Record<typeof MERGE_FIELDS[number], unknown>> = task
+    fields[field as typeof MERGE_FIELDS[number]] = value
+  }
+}
+
+/**
+ * Three-way merge of a task edited locally and remotely since `base`, the version both last agreed on.
+ * A field changed on one side only takes that side's value; a field changed on both sides to different
+ * values is a conflict, and so is deleting a task the other side edited. Without a base (a task synced
+ * before bases were kept) every difference conflicts.
+ */
+export function mergeTask(base: OfflineTask | null, local: OfflineTask, remote: OfflineTask): TaskMerge {
+  const merged: OfflineTask = { ...local, task_json: local.task_json ? { ...local.task_json } : local.task_json }
+  const conflicts: FieldConflict[] = []
+  const fields: MergeFieldPath[] = [
+    ...MERGE_FIELDS,
+    ...detailKeys(base, local, remote).map(key => `${DETAIL_PREFIX}${key}` as MergeFieldPath),
+  ]
+
+  const editedBy = (side: OfflineTask) =>
+    !!base && fields.some(field => field !== 'deleted_at' && !isSameValue(readField(side, field), readField(base, field)))
+
+  for (const field of fields) {
+    const baseValue = readField(base, field)
+    const localValue = readField(local, field)
+    const remoteValue = readField(remote, field)
+
+    if (isSameValue(localValue, remoteValue)) continue
+    if (base && isSameValue(localValue, baseValue)) {
+      // Deleting a task the other side edited would drop the edit unseen
+      if (field === 'deleted_at' && remoteValue && editedBy(local)) {
+        conflicts.push({ field, base: baseValue, local: localValue, remote: remoteValue })
+      } else {
+        writeField(merged, field, remoteValue)
+      }
+    } else if (!base || !isSameValue(remoteValue, baseValue)) {
+      conflicts.push({ field, base: baseValue, local: localValue, remote: remoteValue })
+    } else if (field === 'deleted_at' && localValue && editedBy(remote)) {
+      conflicts.push({ field, base: baseValue, local: localValue, remote: remoteValue })
+    }
+  }
+
+  return { merged, conflicts }
+}
+
+/**
+ * The task a conflict resolves to: everything that merged cleanly, plus each conflicting field from
+ * the side picked for it (local when not picked).
+ */
+export function resolveConflict(
+  conflict: TaskConflict,
+  picks: Partial<Record<MergeFieldPath, ConflictChoice>>
+): OfflineTask {
+  const { merged } = mergeTask(conflict.base, conflict.local, conflict.remote)
+  for (const { field } of conflict.fields) {
+    const side = picks[field] === 'remote' ? conflict.remote : conflict.local
+    writeField(merged, field, readField(side, field))
+  }
+  return merged
+}
+
+export function conflictFromMerge(
+  base: OfflineTask | null,
+  local: OfflineTask,
+  remote: OfflineTask,
+  fields: FieldConflict[]
+): TaskConflict {
+  return {
+    local_id: local.local_id,
+    task_id: local.task_id ?? remote.task_id,
+    name: local.name,
+    base,
+    local,
+    remote,
+    fields,
+    detected_at: new Date().toISOString(),
+  }
+}
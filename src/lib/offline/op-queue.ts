@@ -0,0 +1,141 @@
+import type { OfflineTask } from './database'
+
+/**
+ * Outbound operation log for offline task edits.
+ * Each local change is queued as an operation and replayed against Supabase in order, per task.
+ * Payloads are built from the task as it is when the op is sent, so an op only records what
+ * kind of change it was and which fields it touched.
+ */
+
+export type TaskOpType = 'create' | 'update' | 'delete' | 'status_change'
+
+export interface RetryPolicy {
+  baseDelayMs: number
+  maxDelayMs: number
+  maxAttempts: number // failures before an op is quarantined
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  baseDelayMs: 5 * 1000,
+  maxDelayMs: 30 * 60 * 1000,
+  maxAttempts: 8,
+}
+
+export interface TaskOp {
+  id: string // idempotency key: a retried op keeps it, and the task row records the last op applied to it
+  type: TaskOpType
+  local_id: string
+  fields?: string[] // update/status_change: the task fields changed
+  created_at: string
+  attempts: number
+  last_attempt_at?: string
+  next_attempt_at?: string // not retried before this
+  last_error?: string
+}
+
+// An op that kept failing; it stays out of the push until someone retries or discards it
+export interface QuarantinedOp extends TaskOp {
+  quarantined_at: string
+}
+
+// Fields that only move a task through its lifecycle
+const STATUS_FIELDS = ['status', 'completed_at', 'paused_at', 'cancelled_at', 'failed_at']
+
+let opCounter = 0
+
+export function createOpId(): string {
+  opCounter = (opCounter + 1) % 1_000_000
+  return `op_${Date.now().toString(36)}_${opCounter.toString(36)}_${Math.random().toString(36).slice(2, 8)}`
+}
+
+/**
+ * PostgREST filter matching task rows `op` hasn't been applied to yet. Every write sets `last_op_id`
+ * to the op's id (supabase/migrations), so a retry of an op whose first attempt reached the server
+ * matches no row and changes nothing. Ops for a task are sent in order, so a newer op is never overwritten.
+ */
+export function notAppliedFilter(op: TaskOp): string {
+  return `last_op_id.is.null,last_op_id.neq.${op.id}`
+}
+
+export function newTaskOp(type: TaskOpType, localId: string, fields?: string[]): TaskOp {
+  return {
+    id: createOpId(),
+    type,
+    local_id: localId,
+    fields: fields && fields.length > 0 ? Array.from(new Set(fields)) : undefined,
+    created_at: new Date().toISOString(),
+    attempts: 0,
+  }
+}
+
+// The op for an edit: lifecycle-only edits are status changes, so they can be sent on their own
+export function opForEdit(localId: string, changedFields: string[]): TaskOp {
+  const fields = changedFields.filter(field => field !== 'updated_at' && field !== 'sync_status')
+  const statusOnly = fields.length > 0 && fields.every(field => STATUS_FIELDS.includes(field))
+  return newTaskOp(statusOnly ? 'status_change' : 'update', localId, fields)
+}
+
+/**
+ * Add `op` to the queue, folding it into ops already queued for the same task where that loses nothing:
+ * edits merge into a queued create or an edit of the same kind, and a delete replaces queued edits.
+ * A create that was never attempted and is then deleted is dropped along with the delete.
+ */
+export function enqueueTaskOp(queue: TaskOp[], op: TaskOp): TaskOp[] {
+  const forTask = queue.filter(queued => queued.local_id === op.local_id)
+  const others = queue.filter(queued => queued.local_id !== op.local_id)
+
+  if (op.type === 'delete') {
+    const create = forTask.find(queued => queued.type === 'create')
+    if (create && create.attempts === 0) return others
+    return [...others, ...forTask.filter(queued => queued.type === 'create'), op]
+  }
+
+  if (op.type === 'update' || op.type === 'status_change') {
+    if (forTask.some(queued => queued.type === 'create' || queued.type === 'delete')) return queue
+    const sameKind = forTask.find(queued => queued.type === op.type)
+    if (sameKind) {
+      const fields = Array.from(new Set([...(sameKind.fields ?? []), ...(op.fields ?? [])]))
+      return queue.map(queued => (queued === sameKind ? { ...queued, fields } : queued))
+    }
+  }
+
+  return [...queue, op]
+}
+
+// Exponential backoff with jitter, so devices coming back online together don't retry in lockstep
+export function backoffDelayMs(attempts: number, policy: RetryPolicy = DEFAULT_RETRY_POLICY, random: () => number = Math.random): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** Math.max(0, attempts - 1))
+  return Math.round(ceiling / 2 + random() * (ceiling / 2))
+}
+
+export function isOpDue(op: TaskOp, now: number = Date.now()): boolean {
+  return !op.next_attempt_at || new Date(op.next_attempt_at).getTime() <= now
+}
+
+/**
+ * The op after a failed attempt: scheduled for a retry, or quarantined once it has used up its attempts.
+ */
+export function recordOpFailure(
+  op: TaskOp,
+  error: unknown,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  now: number = Date.now()
+): { retry: TaskOp } | { quarantined: QuarantinedOp } {
+  const attempts = op.attempts + 1
+  const failed: TaskOp = {
+    ...op,
+    attempts,
+    last_attempt_at: new Date(now).toISOString(),
+    last_error: error instanceof Error ? error.message : (error as any)?.message ?? String(error),
+  }
+  if (attempts >= policy.maxAttempts) {
+    return { quarantined: { ...failed, next_attempt_at: undefined, quarantined_at: new Date(now).toISOString() } }
+  }
+  return { retry: { ...failed, next_attempt_at: new Date(now + backoffDelayMs(attempts, policy)).toISOString() } }
+}
+
+// The op for a task that is marked pending but has nothing queued (queued by an older version, or by hand)
+export function opForPendingTask(task: OfflineTask): TaskOp {
+  if (task.deleted_at) return newTaskOp('delete', task.local_id)
+  return task.task_id ? newTaskOp('update', task.local_id) : newTaskOp('create', task.local_id)
+}
@@ -1,35 +1,36 @@
 import { supabase } from '../supabase'
-import { OfflineDatabase, Task } from './database'
+import { OfflineDatabase, OfflineTask } from './database'
+import { ConflictChoice, MergeFieldPath, TaskConflict, conflictFromMerge, mergeTask, resolveConflict } from './merge'
+import { TaskOp, isOpDue, newTaskOp, notAppliedFilter, opForEdit, opForPendingTask, recordOpFailure } from './op-queue'
+import { Task } from '../tasks/model'
+import { SupabaseTaskRow, fromOfflineTask, fromSupabaseTask, toOfflineTask, toSupabaseTask } from '../tasks/adapters'
+import { TaskRepository, taskRepository } from '../tasks/repository'
 import NetInfo from '@react-native-community/netinfo'
-// Background fetch requires native setup, commenting out for now
-// import BackgroundFetch from 'react-native-background-fetch'
+import { syncStatus } from '../sync/SyncStatusCenter'
+
+// Task fields stored in a differently named column
+const COLUMN_FOR_FIELD: Record<string, keyof SupabaseTaskRow> = {
+  start_time: 'task_json',
+  end_time: 'task_json',
+  details: 'task_json',
+}
+
+// The columns of `row` an update of `fields` has to send; all of them when the fields aren't known
+function columnsFor(row: Partial<SupabaseTaskRow>, fields?: string[]): Partial<SupabaseTaskRow> {
+  if (!fields) return row
+  const columns = new Set<string>(['updated_at', ...fields.map(field => COLUMN_FOR_FIELD[field] ?? field)])
+  return Object.fromEntries(Object.entries(row).filter(([column]) => columns.has(column)))
+}
 
 export class SyncService {
   private db: OfflineDatabase
   private isSyncing = false
 
-  constructor() {
+  constructor(private readonly repository: TaskRepository = taskRepository) {
     this.db = new OfflineDatabase()
-    this.setupBackgroundSync()
     this.setupNetworkListener()
   }
 
-  // Setup background sync
-  private async setupBackgroundSync() {
-    // Background fetch requires native module setup
-    // For now, we'll rely on:
-    // 1. Sync when app comes to foreground
-    // 2. Sync when network reconnects
-    // 3. Manual sync via pull-to-refresh
-    
-    // TODO: To enable background sync:
-    // 1. Eject from Expo or use EAS Build
-    // 2. Install react-native-background-fetch
-    // 3. Configure native iOS/Android projects
-    
-    console.log('Background sync placeholder - using foreground sync only')
-  }
-
   // Setup network state listener
   private setupNetworkListener() {
     NetInfo.addEventListener(state => {
@@ -46,11 +47,13 @@ export class SyncService {
     
     this.isSyncing = true
     console.log('Starting sync...')
+    const finish = syncStatus.begin('offline')
 
     try {
       const networkState = await NetInfo.fetch()
       if (!networkState.isConnected) {
         console.log('No network connection, skipping sync')
+        finish({ outcome: 'skipped', summary: 'Offline' })
         return
       }
 
@@ -58,131 +61,172 @@ export class SyncService {
       const { data: { user } } = await supabase.auth.getUser()
       if (!user) {
         console.log('No authenticated user, skipping sync')
+        finish({ outcome: 'skipped', summary: 'Not signed in' })
         return
       }
 
-      // 1. Push local changes
-      await this.pushChanges(user.id)
-
-      // 2. Pull remote changes
+      // 1. Pull remote changes, merged into local edits that haven't been pushed
       await this.pullChanges(user.id)
 
+      // 2. Push local changes (tasks in conflict wait for the user)
+      await this.pushChanges(user.id)
+
       // 3. Update sync metadata
+      const ops = await this.db.getOps()
       await this.db.updateSyncMetadata({
         lastSyncAt: new Date().toISOString(),
-        pendingChanges: 0,
+        pendingChanges: ops.length,
       })
 
+      // Ops that failed are retried later; until then the edits they carry haven't reached the server
+      const failing = ops.filter(op => op.last_error)
+      finish(failing.length > 0
+        ? { outcome: 'failed', error: `${failing.length} edits not sent: ${failing[0].last_error}` }
+        : { outcome: 'success', summary: ops.length > 0 ? `${ops.length} edits waiting` : 'Up to date' })
       console.log('Sync completed successfully')
-    } catch (error) {
+    } catch (error: any) {
       console.error('Sync error:', error)
+      finish({ outcome: 'failed', error: error?.message ?? String(error) })
     } finally {
       this.isSyncing = false
+      syncStatus.refreshQueue(this.db).catch(error => console.error('Error reading the sync queue:', error))
     }
   }
 
-  // Push local changes to Supabase
+  // Replay the queued ops in order. A failing op is retried with backoff, or quarantined once it
+  // runs out of attempts, and holds back the later ops of its task either way.
   private async pushChanges(userId: string): Promise<void> {
-    const pendingTasks = await this.db.getPendingTasks()
-    console.log(`Pushing ${pendingTasks.length} pending tasks`)
+    await this.queuePendingTasks()
+    const ops = await this.db.getOps()
+    console.log(`Pushing ${ops.length} queued ops`)
     
-    if (pendingTasks.length === 0) {
-      console.log('No pending tasks to push')
+    if (ops.length === 0) {
+      console.log('No queued ops to push')
       return
     }
 
-    for (const task of pendingTasks) {
-      console.log(`Pushing task ${task.local_id} with status ${task.sync_status}`)
+    const held = new Set<string>() // tasks with an earlier op still outstanding
+    const now = Date.now()
+    for (const op of ops) {
+      if (held.has(op.local_id)) continue
+      if (!isOpDue(op, now)) {
+        held.add(op.local_id)
+        continue
+      }
+
+      const task = await this.db.getTask(op.local_id)
+      if (!task) {
+        await this.db.updateOp(op.id, null)
+        continue
+      }
+      if (task.sync_status === 'conflict') {
+        held.add(op.local_id)
+        continue
+      }
+
+      console.log(`Pushing ${op.type} op ${op.id} for task ${op.local_id}`)
       try {
-        if (task.deleted_at) {
-          // Handle deletion
-          if (task.task_id) {
-            await supabase
-              .from('task')
-              .update({ deleted_at: task.deleted_at })
-              .eq('task_id', task.task_id)
-          }
-        } else if (task.task_id) {
-          // Update existing task
-          // Include end_time in task_json if it exists
-          const taskJson = {
-            ...(task.task_json || {}),
-            start_time: task.start_time,
-            end_time: task.end_time,
-          }
-          
-          const { error } = await supabase
-            .from('task')
-            .update({
-              name: task.name,
-              task_json: taskJson,
-              status: task.status,
-              due_at: task.due_at,
-              reminder_at: task.reminder_at,
-              completed_at: task.completed_at,
-              priority: task.priority,
-              updated_at: task.updated_at,
-            })
-            .eq('task_id', task.task_id)
-
-          if (error) throw error
+        await this.sendOp(op, task, userId)
+        await this.db.updateOp(op.id, null)
+        await this.markPushedIfDone(op.local_id)
+      } catch (error) {
+        held.add(op.local_id)
+        const outcome = recordOpFailure(op, error)
+        if ('quarantined' in outcome) {
+          console.error(`Quarantining ${op.type} op ${op.id} after ${outcome.quarantined.attempts} attempts:`, error)
+          await this.db.quarantineOp(outcome.quarantined)
         } else {
-          // Check if task already exists with this local_id to prevent duplicates
-          const { data: existingTask } = await supabase
-            .from('task')
-            .select('task_id')
-            .eq('local_id', task.local_id)
-            .single()
-          
-          if (existingTask) {
-            // Task already exists, just update local reference
-            task.task_id = existingTask.task_id
-          } else {
-            // Create new task
-            // Include end_time in task_json if it exists
-            const taskJson = {
-              ...(task.task_json || {}),
-              start_time: task.start_time,
-              end_time: task.end_time,
-            }
-            
-            const { data, error } = await supabase
-              .from('task')
-              .insert({
-                user_id: userId,
-                name: task.name,
-                task_json: taskJson,
-                status: task.status,
-                  due_at: task.due_at,
-                reminder_at: task.reminder_at,
-                completed_at: task.completed_at,
-                priority: task.priority,
-                local_id: task.local_id,
-                sync_status: 'synced',
-              })
-              .select()
-              .single()
-
-            if (error) throw error
-
-            // Update local task with server ID
-            task.task_id = data.task_id
-          }
+          console.error(`Error pushing ${op.type} op ${op.id}, retrying at ${outcome.retry.next_attempt_at}:`, error)
+          await this.db.updateOp(op.id, outcome.retry)
         }
-
-        // Mark as synced
-        task.sync_status = 'synced'
-        await this.db.upsertTask(task)
-        console.log(`Successfully synced task ${task.local_id}`)
-      } catch (error) {
-        console.error('Error pushing task:', task.local_id, error)
-        // Keep in pending state for retry
       }
     }
     
     // Log final state
-    const remainingPending = await this.db.getPendingTasks()
-    console.log(`After push: ${remainingPending.length} tasks still pending`)
+    const remaining = await this.db.getOps()
+    console.log(`After push: ${remaining.length} ops still queued`)
+  }
+
+  // Every write records the op's id on the row. Updates, status changes and deletes only apply to a row
+  // that doesn't hold it yet, and a create is found by its local_id before inserting, so a retried op
+  // that already reached the server is never applied twice.
+  private async sendOp(op: TaskOp, task: OfflineTask, userId: string): Promise<void> {
+    const row = toSupabaseTask(fromOfflineTask(task))
+
+    if (op.type === 'create') {
+      if (task.task_id) return
+      const { data: existingTask, error: lookupError } = await supabase
+        .from('task')
+        .select('task_id')
+        .eq('local_id', task.local_id)
+        .maybeSingle()
+      if (lookupError) throw lookupError
+
+      let taskId: string | undefined = existingTask?.task_id
+      if (!taskId) {
+        const { data, error } = await supabase
+          .from('task')
+          .insert({
+            ...row,
+            user_id: userId,
+            local_id: task.local_id,
+            last_op_id: op.id,
+            sync_status: 'synced',
+          })
+          .select()
+          .single()
+
+        if (error) throw error
+        taskId = data.task_id
+      }
+
+      // Update local task with server ID
+      await this.db.upsertTask({ ...task, task_id: taskId })
+      return
+    }
+
+    if (op.type === 'delete') {
+      // Never reached the server, so there is nothing to delete there
+      if (!task.task_id) return
+      const { error } = await supabase
+        .from('task')
+        .update({ deleted_at: task.deleted_at, last_op_id: op.id })
+        .eq('task_id', task.task_id)
+        .or(notAppliedFilter(op))
+      if (error) throw error
+      return
+    }
+
+    if (!task.task_id) throw new Error('Task has not been created on the server yet')
+    const { error } = await supabase
+      .from('task')
+      .update({ ...columnsFor(row, op.fields), last_op_id: op.id })
+      .eq('task_id', task.task_id)
+      .or(notAppliedFilter(op))
+    if (error) throw error
+  }
+
+  // Once a task's last queued op is through, the server holds exactly the local version
+  private async markPushedIfDone(localId: string): Promise<void> {
+    if ((await this.db.getOps()).some(op => op.local_id === localId)) return
+    const task = await this.db.getTask(localId)
+    if (!task || task.sync_status !== 'pending') return
+
+    const synced: OfflineTask = { ...task, sync_status: 'synced' }
+    await this.db.upsertTask(synced)
+    await this.db.setSyncBases([synced])
+    console.log(`Successfully synced task ${localId}`)
+  }
+
+  // Pending tasks with nothing queued for them (left by versions before the op log) get an op now
+  private async queuePendingTasks(): Promise<void> {
+    const queued = new Set([...(await this.db.getOps()), ...(await this.db.getQuarantinedOps())].map(op => op.local_id))
+    for (const task of await this.db.getPendingTasks()) {
+      if (!queued.has(task.local_id)) {
+        await this.db.enqueueOp(opForPendingTask(task))
+      }
+    }
+    await this.db.dropLegacyQueue()
   }
 
   // Pull remote changes from Supabase
@@ -205,50 +249,82 @@ export class SyncService {
     console.log(`Pulling ${remoteTasks?.length || 0} remote tasks`)
 
     const localTasks = await this.db.getTasks()
+    const bases = await this.db.getSyncBases()
+    const newBases: OfflineTask[] = []
     
     for (const remoteTask of remoteTasks || []) {
       const localTask = localTasks.find(
         t => t.task_id === remoteTask.task_id || t.local_id === remoteTask.local_id
       )
+      const remote = toOfflineTask(fromSupabaseTask(remoteTask))
 
-      if (localTask) {
-        // Check for conflicts
-        if (localTask.sync_status === 'pending' && 
-            new Date(localTask.updated_at) > new Date(remoteTask.updated_at)) {
-          // Local changes are newer, skip this remote update
-          console.log('Conflict detected, keeping local changes for:', localTask.local_id)
-          continue
-        }
+      if (!localTask || localTask.sync_status === 'synced') {
+        // Nothing unpushed locally: take the remote version as is
+        const task = localTask ? { ...remote, id: localTask.id, local_id: localTask.local_id } : remote
+        await this.db.upsertTask(task)
+        newBases.push(task)
+        continue
       }
 
-      // Apply remote changes
-      // Extract start_time and end_time from task_json if they exist
-      const taskJson = remoteTask.task_json || {}
-      const startTime = taskJson.start_time
-      const endTime = taskJson.end_time
-      
-      const task: Task = {
-        id: remoteTask.task_id,
-        task_id: remoteTask.task_id,
-        local_id: remoteTask.local_id || `remote_${remoteTask.task_id}`,
-        user_id: remoteTask.user_id,
-        name: remoteTask.name,
-        task_json: remoteTask.task_json,
-        status: remoteTask.status,
-        start_time: startTime,
-        end_time: endTime,
-        due_at: remoteTask.due_at,
-        reminder_at: remoteTask.reminder_at,
-        completed_at: remoteTask.completed_at,
-        priority: remoteTask.priority || 'medium',
-        sync_status: 'synced',
-        created_at: remoteTask.created_at,
-        updated_at: remoteTask.updated_at,
-        deleted_at: remoteTask.deleted_at,
+      // Unpushed local edits: keep both sides' changes where they don't touch the same fields
+      const remoteAsLocal = { ...remote, id: localTask.id, local_id: localTask.local_id }
+      const base = bases.get(localTask.local_id) ?? null
+      const { merged, conflicts } = mergeTask(base, localTask, remoteAsLocal)
+
+      if (conflicts.length > 0) {
+        console.log(`Conflict on ${conflicts.map(c => c.field).join(', ')} for:`, localTask.local_id)
+        await this.db.upsertTask({ ...localTask, sync_status: 'conflict' })
+        await this.db.saveConflict(conflictFromMerge(base, localTask, remoteAsLocal, conflicts))
+        continue
       }
 
-      await this.db.upsertTask(task)
+      await this.db.upsertTask({ ...merged, task_id: merged.task_id ?? remote.task_id, sync_status: 'pending' })
+      await this.db.removeConflict(localTask.local_id)
+      newBases.push(remoteAsLocal)
     }
+
+    await this.db.setSyncBases(newBases)
+  }
+
+  // Conflicts waiting for the user, oldest first
+  async getConflicts(): Promise<TaskConflict[]> {
+    return this.db.getConflicts()
+  }
+
+  /**
+   * Settle a conflict with the local version, the remote version, or a field-by-field pick.
+   * The result becomes the task's new local version; unless it is exactly the remote one, it is pushed.
+   */
+  async resolveConflict(
+    localId: string,
+    resolution: ConflictChoice | Partial<Record<MergeFieldPath, ConflictChoice>>
+  ): Promise<void> {
+    const conflict = (await this.db.getConflicts()).find(c => c.local_id === localId)
+    const current = await this.db.getTask(localId)
+    if (!conflict || !current) throw new Error('Conflict not found')
+
+    // Local edits made after the conflict was found count as the local side
+    const { conflicts } = mergeTask(conflict.base, current, conflict.remote)
+    const latest = conflictFromMerge(conflict.base, current, conflict.remote, conflicts)
+
+    let resolved: OfflineTask
+    if (resolution === 'remote') {
+      resolved = { ...conflict.remote, sync_status: 'synced' }
+    } else {
+      const picks = resolution === 'local' ? {} : resolution
+      resolved = { ...resolveConflict(latest, picks), task_id: current.task_id ?? conflict.remote.task_id, sync_status: 'pending' }
+    }
+
+    await this.db.upsertTask(resolved)
+    await this.db.setSyncBases([conflict.remote])
+    await this.db.removeConflict(localId)
+    if (resolution === 'remote') {
+      await this.db.removeOpsFor(localId)
+    } else {
+      await this.db.enqueueOp(opForEdit(localId, latest.fields.map(({ field }) => field.split('.')[0])))
+    }
+
+    await this.sync()
   }
 
   // Create a new task (works offline)
@@ -258,7 +334,6 @@ export class SyncService {
 
     const newTask: Task = {
       id: `local_${Date.now()}`,
-      local_id: `local_${Date.now()}`,
       user_id: user.id,
       name: task.name || 'New Task',
       status: task.status || 'pending',
@@ -269,7 +344,8 @@ export class SyncService {
       ...task,
     }
 
-    await this.db.upsertTask(newTask)
+    await this.repository.saveLocalTask(newTask)
+    await this.db.enqueueOp(newTaskOp('create', newTask.id))
     
     // Try to sync immediately if online
     await this.sync()
@@ -279,17 +355,19 @@ export class SyncService {
 
   // Update a task (works offline)
   async updateTask(localId: string, updates: Partial<Task>): Promise<void> {
-    const task = await this.db.getTask(localId)
+    const task = await this.repository.getLocalTask(localId)
     if (!task) throw new Error('Task not found')
 
     const updatedTask: Task = {
       ...task,
       ...updates,
-      sync_status: 'pending',
+      // A task in conflict isn't pushed until the user resolves it
+      sync_status: task.sync_status === 'conflict' ? 'conflict' : 'pending',
       updated_at: new Date().toISOString(),
     }
 
-    await this.db.upsertTask(updatedTask)
+    await this.repository.saveLocalTask(updatedTask)
+    await this.db.enqueueOp(opForEdit(localId, Object.keys(updates)))
     
     // Try to sync immediately if online
     await this.sync()
@@ -297,7 +375,8 @@ export class SyncService {
 
   // Delete a task (soft delete, works offline)
   async deleteTask(localId: string): Promise<void> {
-    await this.db.deleteTask(localId)
+    await this.repository.deleteLocalTask(localId)
+    await this.db.enqueueOp(newTaskOp('delete', localId))
     
     // Try to sync immediately if online
     await this.sync()
@@ -305,12 +384,11 @@ export class SyncService {
 
   // Get all tasks
   async getTasks(): Promise<Task[]> {
-    return this.db.getTasks()
+    return this.repository.getLocalTasks({ includeDeleted: true })
   }
 
   // Get active tasks (not deleted)
   async getActiveTasks(): Promise<Task[]> {
-    const tasks = await this.db.getTasks()
-    return tasks.filter(t => !t.deleted_at)
+    return this.repository.getLocalTasks()
   }
 }
\ No newline at end of file
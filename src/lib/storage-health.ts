@@ -0,0 +1,150 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { Platform } from 'react-native'
+import { Buffer } from 'buffer'
+import { safeStorage } from './storage'
+import { internalDB, ArchiveSummary } from './internal-db'
+import { DEFAULT_ARCHIVE_AFTER_DAYS } from './db/archive'
+
+const MB = 1024 * 1024
+
+// What AsyncStorage can hold. Android's default store is capped at 6 MB and browsers give localStorage
+// about 5 MB per origin; iOS has no fixed cap, so a soft budget stands in for one.
+const ASYNC_STORAGE_LIMITS: Partial<Record<typeof Platform.OS, number>> = {
+  android: 6 * MB,
+  web: 5 * MB,
+  ios: 50 * MB,
+}
+const DEFAULT_ASYNC_STORAGE_LIMIT = 6 * MB
+
+// Android can't read back a single value larger than its 2 MB cursor window
+export const MAX_VALUE_BYTES = 2 * MB
+
+const WARNING_RATIO = 0.8
+const CRITICAL_RATIO = 0.95
+
+// Archive more aggressively once storage is filling up
+const PRESSURED_ARCHIVE_AFTER_DAYS = 30
+const MAINTENANCE_INTERVAL_MS = 24 * 60 * 60 * 1000
+const LAST_MAINTENANCE_KEY = '@skedai_storage_maintenance_at'
+const MEASURE_BATCH_SIZE = 100
+
+export type StorageHealthLevel = 'ok' | 'warning' | 'critical'
+
+export interface StorageKeyUsage {
+  key: string
+  bytes: number
+}
+
+export interface StorageHealthReport {
+  measured_at: string // ISO string
+  level: StorageHealthLevel
+  usedBytes: number // AsyncStorage, all keys
+  limitBytes: number
+  ratio: number // usedBytes / limitBytes
+  keys: StorageKeyUsage[] // largest first
+  oversizedKeys: string[] // values too large to read back reliably
+  databaseFileBytes: number | null // SQLite file, when the internal DB isn't on AsyncStorage
+  archive: ArchiveSummary | null
+}
+
+export interface MaintenanceResult {
+  report: StorageHealthReport
+  archived: { tasks: number; actions: number }
+  olderThanDays: number
+}
+
+// Bytes a key/value pair occupies: localStorage keeps UTF-16, native stores keep UTF-8
+export function storedSize(key: string, value: string, platform: typeof Platform.OS = Platform.OS): number {
+  if (platform === 'web') return (key.length + value.length) * 2
+  return Buffer.byteLength(key, 'utf8') + Buffer.byteLength(value, 'utf8')
+}
+
+export function assessUsage(usedBytes: number, limitBytes: number, hasOversizedKeys: boolean = false): StorageHealthLevel {
+  const ratio = usedBytes / limitBytes
+  if (ratio >= CRITICAL_RATIO) return 'critical'
+  if (ratio >= WARNING_RATIO || hasOversizedKeys) return 'warning'
+  return 'ok'
+}
+
+export function asyncStorageLimit(platform: typeof Platform.OS = Platform.OS): number {
+  return ASYNC_STORAGE_LIMITS[platform] ?? DEFAULT_ASYNC_STORAGE_LIMIT
+}
+
+/**
+ * Measures what local storage holds and keeps it bounded.
+ * SafeStorage only reacts once writes start failing; this looks ahead, reporting per-key sizes
+ * against the platform's limit and moving old records into the compressed archive.
+ */
+export class StorageHealthService {
+  // Size of every AsyncStorage key, largest first. Values are read in batches to bound memory use.
+  async measureKeys(): Promise<StorageKeyUsage[]> {
+    const keys = await AsyncStorage.getAllKeys()
+    const usage: StorageKeyUsage[] = []
+    for (let i = 0; i < keys.length; i += MEASURE_BATCH_SIZE) {
+      const entries = await AsyncStorage.multiGet(keys.slice(i, i + MEASURE_BATCH_SIZE))
+      for (const [key, value] of entries) {
+        usage.push({ key, bytes: storedSize(key, value ?? '') })
+      }
+    }
+    return usage.sort((a, b) => b.bytes - a.bytes)
+  }
+
+  async check(): Promise<StorageHealthReport> {
+    const keys = await this.measureKeys()
+    const usedBytes = keys.reduce((sum, usage) => sum + usage.bytes, 0)
+    const limitBytes = asyncStorageLimit()
+    const oversizedKeys = keys.filter(usage => usage.bytes > MAX_VALUE_BYTES).map(usage => usage.key)
+
+    let databaseFileBytes: number | null = null
+    let archive: ArchiveSummary | null = null
+    try {
+      databaseFileBytes = await internalDB.getDatabaseFileSize()
+      archive = await internalDB.getArchiveSummary()
+    } catch (error) {
+      console.error('❌ Error measuring internal DB storage:', error)
+    }
+
+    return {
+      measured_at: new Date().toISOString(),
+      level: assessUsage(usedBytes, limitBytes, oversizedKeys.length > 0),
+      usedBytes,
+      limitBytes,
+      ratio: usedBytes / limitBytes,
+      keys,
+      oversizedKeys,
+      databaseFileBytes,
+      archive,
+    }
+  }
+
+  private get maintenanceKey(): string {
+    const namespace = internalDB.getNamespace()
+    return namespace ? `${LAST_MAINTENANCE_KEY}:${namespace}` : LAST_MAINTENANCE_KEY
+  }
+
+  /**
+   * Archive old tasks and actions, at most once a day per user unless forced.
+   * Uses a shorter cutoff when storage is already under pressure.
+   * @returns What was done, or null if maintenance wasn't due
+   */
+  async runMaintenance({ force = false }: { force?: boolean } = {}): Promise<MaintenanceResult | null> {
+    const maintenanceKey = this.maintenanceKey
+    if (!force) {
+      const lastRun = Number(await safeStorage.getItem(maintenanceKey))
+      if (Date.now() - lastRun < MAINTENANCE_INTERVAL_MS) return null
+    }
+
+    const before = await this.check()
+    const olderThanDays = before.level === 'ok' ? DEFAULT_ARCHIVE_AFTER_DAYS : PRESSURED_ARCHIVE_AFTER_DAYS
+    const archived = await internalDB.archiveOldRecords(olderThanDays)
+    await safeStorage.setItem(maintenanceKey, String(Date.now()))
+
+    const report = archived.tasks > 0 || archived.actions > 0 ? await this.check() : before
+    if (report.level !== 'ok') {
+      console.warn(`⚠️ Local storage ${report.level}: ${Math.round(report.ratio * 100)}% of ${Math.round(report.limitBytes / MB)} MB used`)
+    }
+    return { report, archived, olderThanDays }
+  }
+}
+
+export const storageHealth = new StorageHealthService()
@@ -0,0 +1,174 @@
+/**
+ * Action Push Service
+ *
+ * Sends the task actions logged in internalDB (started, completed, skipped, cancelled, ...)
+ * to Supabase's task_action table, so the solver stops rescheduling finished or abandoned work.
+ * Actions are sent once each, in order per task; offline or failed pushes are retried with backoff.
+ * A skipped task asks the server to re-solve the schedule.
+ * The table, and the unique action_id the upsert relies on, are in supabase/migrations.
+ */
+
+import NetInfo from '@react-native-community/netinfo';
+import { supabase } from '../supabase';
+import { internalDB } from '../internal-db';
+import {
+  ACTION_OUTBOX_META_KEY,
+  ACTION_PUSH_BATCH_SIZE,
+  needsResolve,
+  nextRetryAt,
+  parseActionOutbox,
+  recordActionFailure,
+  recordActionsSent,
+  selectPendingActions,
+  serializeActionOutbox,
+  toTaskActionRow,
+} from './action-outbox';
+import { syncStatus } from './SyncStatusCenter';
+import type { SyncRunResult } from './sync-status';
+
+// Push lock, so an action isn't sent by two pushes at once
+let isPushing = false;
+// Push again once the current one is done (an action was logged mid-push)
+let pushAgain = false;
+let scheduledPush: ReturnType<typeof setTimeout> | null = null;
+
+const PUSH_DELAY_MS = 1000; // lets a burst of actions go out in one request
+
+export interface ActionPushResult {
+  success: boolean;
+  sent: number;
+  error?: string;
+}
+
+function schedulePush(delayMs: number): void {
+  if (scheduledPush) clearTimeout(scheduledPush);
+  scheduledPush = setTimeout(() => {
+    scheduledPush = null;
+    pushTaskActions().catch(error => console.error('[ActionPush] Push failed:', error));
+  }, Math.max(0, delayMs));
+}
+
+async function requestResolve(): Promise<boolean> {
+  const { error } = await supabase.rpc('refresh_models');
+  if (error) {
+    console.error('[ActionPush] ❌ Error requesting a re-solve:', error);
+    return false;
+  }
+  console.log('[ActionPush] 🔁 Requested a re-solve after a skipped task');
+  return true;
+}
+
+/**
+ * Send every due action the server doesn't have yet
+ * Safe to call at any time: concurrent calls are folded into one more push after the current one
+ */
+export async function pushTaskActions(): Promise<ActionPushResult> {
+  if (isPushing) {
+    pushAgain = true;
+    return { success: false, sent: 0, error: 'Push already in progress' };
+  }
+  isPushing = true;
+  let finish: ((result: SyncRunResult) => void) | undefined;
+
+  try {
+    const network = await NetInfo.fetch();
+    if (!network.isConnected) {
+      console.log('[ActionPush] No network connection, actions stay queued');
+      return { success: false, sent: 0, error: 'Offline' };
+    }
+
+    const { data: { user }, error: authError } = await supabase.auth.getUser();
+    if (authError || !user) {
+      return { success: false, sent: 0, error: 'Not authenticated' };
+    }
+    // The outbox lives in the user's store; another account's actions must not be sent as this one's
+    if (internalDB.getNamespace() !== user.id) {
+      return { success: false, sent: 0, error: 'Signed-in user changed' };
+    }
+
+    const actions = await internalDB.getAllActions();
+    let state = parseActionOutbox(await internalDB.getMeta(ACTION_OUTBOX_META_KEY));
+    const { batch, skipped } = selectPendingActions(state, actions);
+    state = recordActionsSent(state, skipped.map(action => action.id));
+
+    let pushError: string | undefined;
+    if (batch.length > 0) {
+      finish = syncStatus.begin('actions');
+      const { error } = await supabase
+        .from('task_action')
+        .upsert(batch.map(action => toTaskActionRow(action, user.id)), { onConflict: 'action_id', ignoreDuplicates: true });
+
+      if (error) {
+        console.error('[ActionPush] ❌ Error sending actions:', error);
+        pushError = error.message;
+        const failed = recordActionFailure(state, batch.map(action => action.id), error);
+        state = failed.state;
+        if (failed.dropped.length > 0) {
+          console.warn(`[ActionPush] ⚠️ Gave up on ${failed.dropped.length} actions the server keeps rejecting`);
+        }
+        finish({ outcome: 'failed', error: error.message });
+      } else {
+        console.log(`[ActionPush] ✅ Sent ${batch.length} actions`);
+        finish({ outcome: 'success', summary: `${batch.length} sent` });
+        state = recordActionsSent(state, batch.map(action => action.id));
+        state = { ...state, resolve_pending: state.resolve_pending || needsResolve(batch) };
+      }
+    }
+
+    if (state.resolve_pending && await requestResolve()) {
+      state = { ...state, resolve_pending: false };
+    }
+
+    const serialized = serializeActionOutbox(state, actions);
+    await internalDB.transaction(tx => {
+      if (internalDB.getNamespace() !== user.id) return;
+      tx.setMeta(ACTION_OUTBOX_META_KEY, serialized);
+    });
+
+    const retryAt = nextRetryAt(state);
+    if (retryAt !== null) {
+      schedulePush(retryAt - Date.now());
+    } else if (!pushError && batch.length === ACTION_PUSH_BATCH_SIZE) {
+      // A full batch: more may be waiting behind it
+      pushAgain = true;
+    }
+
+    return pushError
+      ? { success: false, sent: 0, error: pushError }
+      : { success: true, sent: batch.length };
+  } catch (error: any) {
+    console.error('[ActionPush] Error pushing actions:', error);
+    finish?.({ outcome: 'failed', error: error.message });
+    return { success: false, sent: 0, error: error.message };
+  } finally {
+    isPushing = false;
+    if (pushAgain) {
+      pushAgain = false;
+      schedulePush(0);
+    }
+  }
+}
+
+/**
+ * Push actions as they are logged, when the device comes back online, and once now
+ *
+ * @returns Cleanup function that stops pushing
+ */
+export function startActionPush(): () => void {
+  const unsubscribeActions = internalDB.subscribe(event => {
+    if (event.type === 'action_added') schedulePush(PUSH_DELAY_MS);
+  });
+  const unsubscribeNetwork = NetInfo.addEventListener(state => {
+    if (state.isConnected) schedulePush(PUSH_DELAY_MS);
+  });
+  schedulePush(0);
+
+  return () => {
+    unsubscribeActions();
+    unsubscribeNetwork();
+    if (scheduledPush) {
+      clearTimeout(scheduledPush);
+      scheduledPush = null;
+    }
+  };
+}
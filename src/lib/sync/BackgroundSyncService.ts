@@ -0,0 +1,169 @@
+/**
+ * Background Sync Service
+ *
+ * Runs the syncs the app otherwise only does in the foreground from an OS background fetch:
+ * pulls new task solutions so the schedule is fresh when the app opens, pulls and pushes offline
+ * task edits, sends logged task actions, and reschedules notifications for the tasks either sync changed.
+ * Each run's outcome is recorded for Settings.
+ */
+
+import { Platform } from 'react-native';
+import * as BackgroundFetch from 'expo-background-fetch';
+import * as TaskManager from 'expo-task-manager';
+import { supabase } from '../supabase';
+import { internalDB } from '../internal-db';
+import { safeStorage } from '../storage';
+import { activateLocalUser } from '../local-data';
+import { SyncService } from '../offline/sync';
+import { NotificationService } from '../notifications/service';
+import { fromInternalTask } from '../tasks/adapters';
+import type { Task } from '../tasks/model';
+import { syncTasksFromSupabase } from './TaskSyncService';
+import { pushTaskActions } from './ActionPushService';
+import {
+  BACKGROUND_SYNC_INTERVAL_S,
+  BACKGROUND_SYNC_TASK,
+  BackgroundSyncRun,
+  LAST_BACKGROUND_SYNC_KEY,
+  isSyncFailure,
+  notificationChanges,
+  parseBackgroundSyncRun,
+  solutionNotificationChanges,
+} from './background-run';
+
+export type { BackgroundSyncRun } from './background-run';
+
+export type BackgroundSyncAvailability = 'available' | 'denied' | 'restricted' | 'unsupported';
+
+// One per process: the service listens for reconnects from its constructor
+let syncService: SyncService | null = null;
+
+/**
+ * One background sync pass, for the signed-in account
+ * Never throws: failures are part of the recorded run
+ */
+export async function runBackgroundSync(): Promise<BackgroundSyncRun> {
+  const startedAt = new Date().toISOString();
+  const errors: string[] = [];
+  let solutionsChanged = 0;
+  let tasksChanged = 0;
+
+  try {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      console.log('[BackgroundSync] No signed-in user, nothing to sync');
+    } else {
+      // Launched in the background, the app may not have opened this account's stores yet
+      await activateLocalUser(session.user.id);
+      syncService = syncService ?? new SyncService();
+      const before = await syncService.getActiveTasks();
+
+      const solutions = await syncTasksFromSupabase();
+      let solutionChanges: { reschedule: Task[]; cancel: string[] } = { reschedule: [], cancel: [] };
+      if (solutions.success) {
+        const { added, moved, removed, unscheduled, archived } = solutions.diff;
+        solutionsChanged = added.length + moved.length + removed.length + unscheduled.length + archived.length;
+        if (solutionsChanged > 0) {
+          const scheduled = (await internalDB.getAllTasks()).map(fromInternalTask);
+          solutionChanges = solutionNotificationChanges(solutions.diff, scheduled);
+        }
+      } else if (isSyncFailure(solutions.error)) {
+        errors.push(`Solutions: ${solutions.error}`);
+      }
+
+      await syncService.sync();
+
+      const actions = await pushTaskActions();
+      if (!actions.success && isSyncFailure(actions.error)) {
+        errors.push(`Actions: ${actions.error}`);
+      }
+
+      const offlineChanges = notificationChanges(before, await syncService.getActiveTasks());
+      const reschedule = [...solutionChanges.reschedule, ...offlineChanges.reschedule];
+      const cancel = [...solutionChanges.cancel, ...offlineChanges.cancel];
+      const notifications = new NotificationService();
+      for (const taskId of [...cancel, ...reschedule.map(task => task.id)]) {
+        await notifications.cancelTaskNotifications(taskId);
+      }
+      await notifications.scheduleAllNotifications(reschedule);
+      tasksChanged = reschedule.length + cancel.length;
+    }
+  } catch (error: any) {
+    console.error('[BackgroundSync] Error during background sync:', error);
+    errors.push(error?.message ?? String(error));
+  }
+
+  const run: BackgroundSyncRun = {
+    started_at: startedAt,
+    finished_at: new Date().toISOString(),
+    outcome: errors.length > 0 ? 'failed' : solutionsChanged + tasksChanged > 0 ? 'new_data' : 'no_data',
+    solutions_changed: solutionsChanged,
+    tasks_changed: tasksChanged,
+    errors,
+  };
+  try {
+    await safeStorage.setItem(LAST_BACKGROUND_SYNC_KEY, JSON.stringify(run));
+  } catch (error) {
+    console.error('[BackgroundSync] Error recording background sync run:', error);
+  }
+  console.log(`[BackgroundSync] Run finished: ${run.outcome}, ${solutionsChanged} solution changes, ${tasksChanged} tasks changed`);
+  return run;
+}
+
+// Background tasks have to be defined when the JS bundle loads, before any component mounts
+if (Platform.OS !== 'web') {
+  TaskManager.defineTask(BACKGROUND_SYNC_TASK, async () => {
+    const run = await runBackgroundSync();
+    switch (run.outcome) {
+      case 'new_data':
+        return BackgroundFetch.BackgroundFetchResult.NewData;
+      case 'no_data':
+        return BackgroundFetch.BackgroundFetchResult.NoData;
+      default:
+        return BackgroundFetch.BackgroundFetchResult.Failed;
+    }
+  });
+}
+
+export async function getBackgroundSyncAvailability(): Promise<BackgroundSyncAvailability> {
+  if (Platform.OS === 'web') return 'unsupported';
+  const status = await BackgroundFetch.getStatusAsync();
+  switch (status) {
+    case BackgroundFetch.BackgroundFetchStatus.Available:
+      return 'available';
+    case BackgroundFetch.BackgroundFetchStatus.Denied:
+      return 'denied';
+    case BackgroundFetch.BackgroundFetchStatus.Restricted:
+      return 'restricted';
+    default:
+      return 'unsupported';
+  }
+}
+
+/**
+ * Ask the OS to run background syncs periodically, also after the app is closed or the device restarts
+ * Does nothing where background fetch is unavailable or turned off by the user
+ */
+export async function registerBackgroundSync(): Promise<void> {
+  try {
+    const availability = await getBackgroundSyncAvailability();
+    if (availability !== 'available') {
+      console.log(`[BackgroundSync] Background fetch ${availability}, syncing in the foreground only`);
+      return;
+    }
+    if (await TaskManager.isTaskRegisteredAsync(BACKGROUND_SYNC_TASK)) return;
+
+    await BackgroundFetch.registerTaskAsync(BACKGROUND_SYNC_TASK, {
+      minimumInterval: BACKGROUND_SYNC_INTERVAL_S,
+      stopOnTerminate: false,
+      startOnBoot: true,
+    });
+    console.log('[BackgroundSync] Registered background sync');
+  } catch (error) {
+    console.error('[BackgroundSync] Error registering background sync:', error);
+  }
+}
+
+export async function getLastBackgroundSync(): Promise<BackgroundSyncRun | null> {
+  return parseBackgroundSyncRun(await safeStorage.getItem(LAST_BACKGROUND_SYNC_KEY));
+}
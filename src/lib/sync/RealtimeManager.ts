@@ -0,0 +1,317 @@
+/**
+ * Realtime Manager
+ *
+ * One realtime channel per signed-in user, shared by every screen that wants live solver updates.
+ * Listens only to solutions of the user's current model (and follows it when the model changes),
+ * folds bursts of solution rows into a single sync, and resubscribes with backoff when the channel
+ * errors, times out or closes. Connection health is published for the UI.
+ */
+
+import NetInfo from '@react-native-community/netinfo';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { supabase } from '../supabase';
+import { RetryPolicy, backoffDelayMs } from '../offline/op-queue';
+import { MIN_SYNC_INTERVAL, TaskSyncResult, syncTasksFromSupabase } from './TaskSyncService';
+import { syncStatus } from './SyncStatusCenter';
+
+export type RealtimeStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
+export interface RealtimeHealth {
+  status: RealtimeStatus;
+  model_id: string | null; // model whose solutions are being listened to
+  last_event_at: string | null; // ISO string
+  last_error: string | null;
+  reconnect_attempts: number; // since the channel was last subscribed
+  next_retry_at: string | null; // ISO string, while reconnecting
+}
+
+export type RealtimeHealthListener = (health: RealtimeHealth) => void;
+export type ModelUpdateListener = (model: Record<string, any>) => void;
+
+// Solver writes a model's solutions in bursts; wait for a pause, but not forever
+const SYNC_DEBOUNCE_MS = 750;
+const SYNC_MAX_WAIT_MS = 5000;
+// Results of a sync that didn't run, so the events it was for still need one
+const SYNC_NOT_RUN = ['Sync already in progress', 'Sync throttled'];
+// Such a sync is retried after the throttle window, backing off while syncs keep being turned away.
+// Jitter at most halves a delay, so the first retry still lands after the window.
+const SYNC_RETRY_POLICY: RetryPolicy = {
+  baseDelayMs: 2 * MIN_SYNC_INTERVAL,
+  maxDelayMs: 30 * 1000,
+  maxAttempts: Number.POSITIVE_INFINITY,
+};
+
+const RECONNECT_POLICY: RetryPolicy = {
+  baseDelayMs: 1000,
+  maxDelayMs: 60 * 1000,
+  maxAttempts: Number.POSITIVE_INFINITY, // a channel is retried for as long as someone holds it
+};
+
+const DISCONNECTED: RealtimeHealth = {
+  status: 'disconnected',
+  model_id: null,
+  last_event_at: null,
+  last_error: null,
+  reconnect_attempts: 0,
+  next_retry_at: null,
+};
+
+export class RealtimeManager {
+  private userId: string | null = null;
+  private holders = 0;
+  private channel: RealtimeChannel | null = null;
+  // Bumped on every (re)connect and stop, so callbacks from a replaced channel are ignored
+  private generation = 0;
+  private retryTimer: ReturnType<typeof setTimeout> | null = null;
+  private syncTimer: ReturnType<typeof setTimeout> | null = null;
+  private firstPendingEventAt: number | null = null;
+  private syncRetries = 0; // syncs in a row that didn't run
+  private unsubscribeNetwork: (() => void) | null = null;
+  private health: RealtimeHealth = DISCONNECTED;
+  private listeners: Set<RealtimeHealthListener> = new Set();
+  private modelListeners: Set<ModelUpdateListener> = new Set();
+
+  constructor(
+    private readonly client: typeof supabase = supabase,
+    private readonly sync: () => Promise<TaskSyncResult> = syncTasksFromSupabase
+  ) {}
+
+  /**
+   * Hold the channel for `userId`, connecting it if nobody else does
+   * Holding it for another user switches the channel over to them
+   *
+   * @returns Release function; the channel closes when the last holder releases it
+   */
+  acquire(userId: string): () => void {
+    if (this.userId !== userId) {
+      if (this.userId) this.stop();
+      this.userId = userId;
+      this.holders = 0;
+    }
+    this.holders++;
+    if (this.holders === 1) {
+      this.unsubscribeNetwork = NetInfo.addEventListener(state => {
+        if (state.isConnected) this.reconnectNow();
+      });
+      this.connect(false);
+    }
+
+    let released = false;
+    return () => {
+      if (released || this.userId !== userId) return;
+      released = true;
+      this.holders--;
+      if (this.holders === 0) this.stop();
+    };
+  }
+
+  getHealth(): RealtimeHealth {
+    return this.health;
+  }
+
+  // @returns Cleanup function to unsubscribe
+  subscribeToHealth(listener: RealtimeHealthListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Listen to updates of the user's `model` rows (a model moving through the solver) while the channel is held
+   *
+   * @returns Cleanup function to unsubscribe
+   */
+  subscribeToModelUpdates(listener: ModelUpdateListener): () => void {
+    this.modelListeners.add(listener);
+    return () => {
+      this.modelListeners.delete(listener);
+    };
+  }
+
+  private setHealth(changes: Partial<RealtimeHealth>): void {
+    this.health = { ...this.health, ...changes };
+    syncStatus.setRealtime(this.health);
+    for (const listener of Array.from(this.listeners)) {
+      try {
+        listener(this.health);
+      } catch (error) {
+        console.error('[Realtime] Health listener failed:', error);
+      }
+    }
+  }
+
+  private stop(): void {
+    this.generation++;
+    this.clearTimers();
+    this.removeChannel();
+    this.unsubscribeNetwork?.();
+    this.unsubscribeNetwork = null;
+    this.userId = null;
+    this.holders = 0;
+    this.setHealth(DISCONNECTED);
+  }
+
+  private clearTimers(): void {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    if (this.syncTimer) clearTimeout(this.syncTimer);
+    this.retryTimer = null;
+    this.syncTimer = null;
+    this.firstPendingEventAt = null;
+    this.syncRetries = 0;
+  }
+
+  private removeChannel(): void {
+    if (!this.channel) return;
+    const channel = this.channel;
+    this.channel = null;
+    this.client.removeChannel(channel).catch(error => {
+      console.error('[Realtime] Error removing channel:', error);
+    });
+  }
+
+  // Null when the user has no model yet; throws when it couldn't be looked up
+  private async fetchCurrentModelId(userId: string): Promise<string | null> {
+    const { data, error } = await this.client
+      .from('current_model')
+      .select('model_id')
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (error) throw error;
+    return data?.model_id ?? null;
+  }
+
+  // `afterDrop`: the previous channel failed, so events may have been missed while it was down
+  private async connect(afterDrop: boolean): Promise<void> {
+    const userId = this.userId;
+    if (!userId) return;
+    const generation = ++this.generation;
+    this.removeChannel();
+    this.setHealth({ status: afterDrop ? 'reconnecting' : 'connecting', next_retry_at: null });
+
+    let modelId: string | null;
+    try {
+      modelId = await this.fetchCurrentModelId(userId);
+    } catch (error: any) {
+      if (generation !== this.generation) return;
+      console.error('[Realtime] Error fetching current model:', error);
+      this.scheduleReconnect(error?.message ?? 'Could not fetch current model');
+      return;
+    }
+    if (generation !== this.generation) return;
+
+    const channel = this.client.channel(`task-solutions:${userId}:${generation}`);
+    if (modelId) {
+      const solutions = { schema: 'public', table: 'task_solution', filter: `model_id=eq.${modelId}` };
+      channel
+        .on('postgres_changes', { event: 'INSERT', ...solutions }, () => this.onSolutionChange())
+        .on('postgres_changes', { event: 'UPDATE', ...solutions }, () => this.onSolutionChange());
+    }
+    channel
+      .on(
+        'postgres_changes',
+        { event: '*', schema: 'public', table: 'current_model', filter: `user_id=eq.${userId}` },
+        (payload) => {
+          const nextModelId = (payload.new as any)?.model_id;
+          if (!nextModelId || nextModelId === modelId) return;
+          // Follow the new model: its solutions are the ones the user sees now
+          console.log('[Realtime] Current model changed to', nextModelId);
+          this.connect(false);
+          this.onSolutionChange();
+        }
+      )
+      .on(
+        'postgres_changes',
+        { event: 'UPDATE', schema: 'public', table: 'model', filter: `user_id=eq.${userId}` },
+        (payload) => {
+          const model = payload.new as Record<string, any>;
+          for (const listener of Array.from(this.modelListeners)) {
+            try {
+              listener(model);
+            } catch (error) {
+              console.error('[Realtime] Model listener failed:', error);
+            }
+          }
+          if (model?.status === 'processed') this.onSolutionChange();
+        }
+      )
+      .subscribe((status, error) => {
+        if (generation !== this.generation) return;
+        if (status === 'SUBSCRIBED') {
+          this.setHealth({ status: 'connected', model_id: modelId, last_error: null, reconnect_attempts: 0, next_retry_at: null });
+          if (afterDrop) this.scheduleSync();
+        } else {
+          console.warn(`[Realtime] Channel ${status}${error ? `: ${error.message}` : ''}`);
+          this.scheduleReconnect(error?.message ?? status);
+        }
+      });
+    this.channel = channel;
+  }
+
+  private scheduleReconnect(reason: string): void {
+    const generation = ++this.generation; // the failed channel's later callbacks are stale now
+    this.removeChannel();
+    const attempts = this.health.reconnect_attempts + 1;
+    const delay = backoffDelayMs(attempts, RECONNECT_POLICY);
+    this.setHealth({
+      status: 'reconnecting',
+      last_error: reason,
+      reconnect_attempts: attempts,
+      next_retry_at: new Date(Date.now() + delay).toISOString(),
+    });
+
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      if (generation === this.generation) this.connect(true);
+    }, delay);
+  }
+
+  // Skip the rest of the backoff of a channel that is waiting to reconnect
+  reconnectNow(): void {
+    if (this.health.status !== 'reconnecting') return;
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+    this.connect(true);
+  }
+
+  private onSolutionChange(): void {
+    this.setHealth({ last_event_at: new Date().toISOString() });
+    this.scheduleSync();
+  }
+
+  private scheduleSync(): void {
+    const now = Date.now();
+    this.firstPendingEventAt = this.firstPendingEventAt ?? now;
+    const delay = Math.min(SYNC_DEBOUNCE_MS, this.firstPendingEventAt + SYNC_MAX_WAIT_MS - now);
+
+    if (this.syncTimer) clearTimeout(this.syncTimer);
+    this.syncTimer = setTimeout(() => this.runSync(), Math.max(0, delay));
+  }
+
+  private async runSync(): Promise<void> {
+    this.syncTimer = null;
+    this.firstPendingEventAt = null;
+    try {
+      const result = await this.sync();
+      // The events still need a sync of their own if this one didn't run
+      if (!result.success && SYNC_NOT_RUN.includes(result.error ?? '') && this.userId) {
+        this.retrySync();
+      } else {
+        this.syncRetries = 0;
+      }
+    } catch (error) {
+      console.error('[Realtime] Error syncing after realtime update:', error);
+    }
+  }
+
+  // Replaces any debounced sync: it would only be turned away too, and this one covers its events
+  private retrySync(): void {
+    this.syncRetries += 1;
+    if (this.syncTimer) clearTimeout(this.syncTimer);
+    this.firstPendingEventAt = null;
+    this.syncTimer = setTimeout(() => this.runSync(), backoffDelayMs(this.syncRetries, SYNC_RETRY_POLICY));
+  }
+}
+
+export const realtimeManager = new RealtimeManager();
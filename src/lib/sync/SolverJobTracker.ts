@@ -0,0 +1,153 @@
+/**
+ * Solver Job Tracker
+ *
+ * Follows the model a schedule request queued until the solver has processed it (then syncs its
+ * solutions) or failed it, publishing each step for the UI. Status arrives over the shared realtime
+ * channel; the model row is also read now and then in case an event was missed.
+ */
+
+import { supabase } from '../supabase';
+import { realtimeManager } from './RealtimeManager';
+import { TaskSyncResult, syncTasksFromSupabase } from './TaskSyncService';
+import { SolverJob, applyModelUpdate, isSolverJobDone, newSolverJob } from './solver-job';
+
+export type SolverJobListener = (job: SolverJob | null) => void;
+
+// Backstop for status events missed while the realtime channel was down
+const SOLVER_JOB_CHECK_MS = 15 * 1000;
+
+export class SolverJobTracker {
+  private job: SolverJob | null = null;
+  private listeners: Set<SolverJobListener> = new Set();
+  private following = false;
+  private releaseChannel: (() => void) | null = null;
+  private unsubscribeModel: (() => void) | null = null;
+  private checkTimer: ReturnType<typeof setInterval> | null = null;
+
+  constructor(
+    private readonly client: typeof supabase = supabase,
+    private readonly realtime: Pick<typeof realtimeManager, 'acquire' | 'subscribeToModelUpdates'> = realtimeManager,
+    private readonly sync: () => Promise<TaskSyncResult> = syncTasksFromSupabase
+  ) {}
+
+  getJob(): SolverJob | null {
+    return this.job;
+  }
+
+  // @returns Cleanup function to unsubscribe
+  subscribe(listener: SolverJobListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private publish(job: SolverJob | null): void {
+    this.job = job;
+    for (const listener of Array.from(this.listeners)) {
+      try {
+        listener(job);
+      } catch (error) {
+        console.error('[SolverJob] Listener failed:', error);
+      }
+    }
+  }
+
+  /**
+   * Follow a model through the solver, replacing any job followed so far
+   *
+   * @param modelId - Model the schedule request queued, or null for the user's current model
+   * @returns The job, or null when there is no user or model to follow
+   */
+  async track(modelId: string | null): Promise<SolverJob | null> {
+    const { data: { user } } = await this.client.auth.getUser();
+    if (!user) return null;
+
+    const jobModelId = modelId ?? (await this.fetchCurrentModelId(user.id));
+    if (!jobModelId) {
+      console.warn('[SolverJob] No model to follow');
+      return null;
+    }
+
+    this.stopFollowing();
+    this.publish(newSolverJob(jobModelId));
+    this.following = true;
+    this.releaseChannel = this.realtime.acquire(user.id);
+    this.unsubscribeModel = this.realtime.subscribeToModelUpdates(model => {
+      this.apply(model);
+    });
+    this.checkTimer = setInterval(() => this.check(), SOLVER_JOB_CHECK_MS);
+    // The solver may have moved the model before the subscription was in place
+    this.check();
+    return this.job;
+  }
+
+  // Forget the job, e.g. once the user has seen how it ended
+  dismiss(): void {
+    this.stopFollowing();
+    this.publish(null);
+  }
+
+  private stopFollowing(): void {
+    this.following = false;
+    if (this.checkTimer) clearInterval(this.checkTimer);
+    this.checkTimer = null;
+    this.unsubscribeModel?.();
+    this.unsubscribeModel = null;
+    this.releaseChannel?.();
+    this.releaseChannel = null;
+  }
+
+  private async fetchCurrentModelId(userId: string): Promise<string | null> {
+    const { data, error } = await this.client
+      .from('current_model')
+      .select('model_id')
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (error) {
+      console.error('[SolverJob] Error fetching current model:', error);
+      return null;
+    }
+    return data?.model_id ?? null;
+  }
+
+  private async check(): Promise<void> {
+    const job = this.job;
+    if (!job || !this.following) return;
+    const { data, error } = await this.client
+      .from('model')
+      .select('*')
+      .eq('model_id', job.model_id)
+      .maybeSingle();
+    if (error) {
+      console.error('[SolverJob] Error reading model status:', error);
+      return;
+    }
+    await this.apply(data);
+  }
+
+  private async apply(model: any): Promise<void> {
+    if (!this.job || !this.following) return;
+    const next = applyModelUpdate(this.job, model);
+    if (next === this.job) return;
+
+    if (!isSolverJobDone(next)) {
+      this.publish(next);
+      return;
+    }
+
+    this.stopFollowing();
+    if (next.status === 'processed') {
+      // Report the job done once its solutions are in InternalDB, so the calendar already shows them
+      try {
+        await this.sync();
+      } catch (error) {
+        console.error('[SolverJob] Error syncing processed model:', error);
+      }
+      if (this.job?.model_id !== next.model_id || this.following) return; // replaced meanwhile
+    }
+    this.publish(next);
+  }
+}
+
+export const solverJobs = new SolverJobTracker();
@@ -0,0 +1,116 @@
+/**
+ * Sync Status Center
+ *
+ * Collects what the sync paths report (runs started and finished, the offline queue, realtime health,
+ * connectivity) into one observable state for the header badge and the sync detail sheet.
+ * Services report into it; it never calls back into them.
+ */
+
+import NetInfo from '@react-native-community/netinfo';
+import { OfflineDatabase } from '../offline/database';
+import type { RealtimeHealth } from './RealtimeManager';
+import {
+  SyncRunResult,
+  SyncSource,
+  SyncStatusState,
+  initialSyncStatus,
+  recordSyncRun,
+} from './sync-status';
+
+export type SyncStatusListener = (state: SyncStatusState) => void;
+
+let runCounter = 0;
+
+export class SyncStatusCenter {
+  private state: SyncStatusState = initialSyncStatus();
+  private listeners: Set<SyncStatusListener> = new Set();
+
+  getState(): SyncStatusState {
+    return this.state;
+  }
+
+  // @returns Cleanup function to unsubscribe
+  subscribe(listener: SyncStatusListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private update(next: SyncStatusState): void {
+    this.state = next;
+    for (const listener of Array.from(this.listeners)) {
+      try {
+        listener(this.state);
+      } catch (error) {
+        console.error('[SyncStatus] Listener failed:', error);
+      }
+    }
+  }
+
+  /**
+   * Mark a run of `source` as started
+   *
+   * @returns Function to call with the run's result once it has finished
+   */
+  begin(source: SyncSource): (result: SyncRunResult) => void {
+    const startedAt = new Date().toISOString();
+    const id = `sync_${Date.now().toString(36)}_${(runCounter++).toString(36)}`;
+    this.update({ ...this.state, running: [...this.state.running, source] });
+
+    let finished = false;
+    return (result) => {
+      if (finished) return;
+      finished = true;
+      this.update(recordSyncRun(this.state, {
+        id,
+        source,
+        started_at: startedAt,
+        finished_at: new Date().toISOString(),
+        ...result,
+      }));
+    };
+  }
+
+  setQueue(queue: Partial<Pick<SyncStatusState, 'pending_ops' | 'quarantined_ops' | 'conflicts'>>): void {
+    this.update({ ...this.state, ...queue });
+  }
+
+  setRealtime(realtime: RealtimeHealth): void {
+    this.update({ ...this.state, realtime });
+  }
+
+  setOnline(online: boolean): void {
+    if (online !== this.state.online) this.update({ ...this.state, online });
+  }
+
+  // Read the offline queue as it is now
+  async refreshQueue(db: OfflineDatabase = new OfflineDatabase()): Promise<void> {
+    const [ops, quarantined, conflicts] = await Promise.all([db.getOps(), db.getQuarantinedOps(), db.getConflicts()]);
+    this.setQueue({ pending_ops: ops.length, quarantined_ops: quarantined.length, conflicts: conflicts.length });
+  }
+
+  /**
+   * Follow connectivity and load the signed-in user's queue and last sync
+   *
+   * @returns Cleanup function that stops following connectivity
+   */
+  start(): () => void {
+    const db = new OfflineDatabase();
+    this.update({ ...initialSyncStatus(), realtime: this.state.realtime });
+    db.getSyncMetadata()
+      .then(({ lastSyncAt }) => {
+        if (!this.state.last_success_at && new Date(lastSyncAt).getTime() > 0) {
+          this.update({ ...this.state, last_success_at: lastSyncAt });
+        }
+      })
+      .catch(error => console.error('[SyncStatus] Error reading sync metadata:', error));
+    this.refreshQueue(db).catch(error => console.error('[SyncStatus] Error reading the offline queue:', error));
+
+    return NetInfo.addEventListener(state => {
+      this.setOnline(state.isConnected !== false);
+    });
+  }
+}
+
+export const syncStatus = new SyncStatusCenter();
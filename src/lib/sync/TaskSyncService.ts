@@ -6,52 +6,132 @@
  */
 
 import { supabase } from '../supabase';
-import { internalDB, InternalDB, InternalTask } from '../internal-db';
-
-// Epoch reference date (same as web app)
-const EPOCH = new Date('2020-01-01T00:00:00Z');
-const INTERVAL_MS = 5 * 60 * 1000; // 5 minutes
+import { internalDB, InternalTask } from '../internal-db';
+import { SupabaseTaskRow } from '../tasks/adapters';
+import {
+  ChangedSolutionRow,
+  SOLUTION_SYNC_META_KEY,
+  SolutionSyncDiff,
+  advanceSolutionMark,
+  applySolutionDelta,
+  emptySolutionDiff,
+  isEmptySolutionDiff,
+  parseSolutionSyncState,
+} from './solution-delta';
+import {
+  RETAINED_STATE_META_KEY,
+  parseRetainedStates,
+  planReconciliation,
+  removeStaleTasks,
+  serializeRetainedStates,
+} from './reconcile';
+import { syncStatus } from './SyncStatusCenter';
+import type { SyncRunResult } from './sync-status';
 
 // Sync lock to prevent concurrent syncs
 let isSyncing = false;
 let lastSyncTime = 0;
-const MIN_SYNC_INTERVAL = 2000; // Minimum 2 seconds between syncs
+export const MIN_SYNC_INTERVAL = 2000; // Minimum 2 seconds between syncs
+
+export interface TaskSyncResult {
+  success: boolean;
+  taskCount: number; // tasks newly added to the schedule
+  error?: string;
+  diff: SolutionSyncDiff;
+}
+
+export type ScheduleChangeListener = (diff: SolutionSyncDiff) => void;
+
+const scheduleChangeListeners = new Set<ScheduleChangeListener>();
 
 /**
- * Convert interval number to timestamp
- * @param intervalNum - Interval number
- * @returns ISO timestamp string
+ * Subscribe to what each sync changed on the local schedule (tasks added, moved, removed or archived)
+ *
+ * @param listener - Called after a sync that changed something
+ * @returns Cleanup function to unsubscribe
  */
-function n2dt(intervalNum: number): string {
-  const intervalMs = 5 * 60 * 1000; // 5 minutes
-  const date = new Date(EPOCH.getTime() + intervalNum * intervalMs);
-  return date.toISOString();
+export function subscribeToScheduleChanges(listener: ScheduleChangeListener): () => void {
+  scheduleChangeListeners.add(listener);
+  return () => {
+    scheduleChangeListeners.delete(listener);
+  };
 }
 
+function emitScheduleChange(diff: SolutionSyncDiff): void {
+  for (const listener of Array.from(scheduleChangeListeners)) {
+    try {
+      listener(diff);
+    } catch (error) {
+      console.error('[TaskSync] Schedule change listener failed:', error);
+    }
+  }
+}
+
+const failed = (error: string, taskCount: number = 0): TaskSyncResult => ({
+  success: false,
+  taskCount,
+  error,
+  diff: emptySolutionDiff(),
+});
+
 /**
  * Sync tasks from Supabase to internalDB
- * Fetches current model, then task_solution, then syncs to local storage
- * Also checks for newer models if current model has no solutions
+ * Fetches the current model, then only the task_solution rows changed since this model's
+ * high-water mark, and applies them to local storage in one transaction
+ * Synced tasks the model no longer schedules are removed, or archived if finished
+ * Also checks for newer models if the current model has never had solutions
  * 
  * Includes deduplication and sync locking to prevent duplicate tasks
  */
-export async function syncTasksFromSupabase(): Promise<{ success: boolean; taskCount: number; error?: string }> {
+export async function syncTasksFromSupabase(): Promise<TaskSyncResult> {
   // Prevent concurrent syncs
   if (isSyncing) {
     console.log('[TaskSync] Sync already in progress, skipping...');
-    return { success: false, taskCount: 0, error: 'Sync already in progress' };
+    return failed('Sync already in progress');
   }
 
   // Throttle syncs to prevent too frequent calls
   const now = Date.now();
   if (now - lastSyncTime < MIN_SYNC_INTERVAL) {
     console.log('[TaskSync] Sync throttled, too soon since last sync');
-    return { success: false, taskCount: 0, error: 'Sync throttled' };
+    return failed('Sync throttled');
   }
 
   isSyncing = true;
   lastSyncTime = now;
+  const finish = syncStatus.begin('solutions');
 
+  try {
+    const result = await runSolutionSync();
+    finish(syncRunResult(result));
+    return result;
+  } finally {
+    // Always release the sync lock
+    isSyncing = false;
+  }
+}
+
+// Results of a sync that had nothing to sync yet rather than failing
+const SKIPPED_SYNC_ERRORS = ['Not authenticated', 'Signed-in user changed', 'No current model'];
+
+function syncRunResult(result: TaskSyncResult): SyncRunResult {
+  if (!result.success) {
+    return SKIPPED_SYNC_ERRORS.includes(result.error ?? '')
+      ? { outcome: 'skipped', summary: result.error }
+      : { outcome: 'failed', error: result.error };
+  }
+  const { added, moved, removed, unscheduled, archived } = result.diff;
+  const parts = [
+    added.length > 0 && `${added.length} added`,
+    moved.length > 0 && `${moved.length} moved`,
+    removed.length > 0 && `${removed.length} removed`,
+    unscheduled.length > 0 && `${unscheduled.length} unscheduled`,
+    archived.length > 0 && `${archived.length} archived`,
+  ].filter((part): part is string => !!part);
+  return { outcome: 'success', summary: parts.length > 0 ? parts.join(', ') : 'No changes' };
+}
+
+async function runSolutionSync(): Promise<TaskSyncResult> {
   try {
     console.log('[TaskSync] Starting task sync from Supabase...');
 
@@ -59,7 +139,13 @@ export async function syncTasksFromSupabase(): Promise<{ success: boolean; taskC
     const { data: { user }, error: authError } = await supabase.auth.getUser();
     if (authError || !user) {
       console.log('[TaskSync] No authenticated user');
-      return { success: false, taskCount: 0, error: 'Not authenticated' };
+      return failed('Not authenticated');
+    }
+
+    // Local stores are per user; the sync state read below must come from this user's store
+    if (internalDB.getNamespace() !== user.id) {
+      console.log('[TaskSync] ⏭️ Local store is not the signed-in account\'s, skipping sync');
+      return failed('Signed-in user changed');
     }
 
     // Step 1: Get current model ID
@@ -72,304 +158,181 @@ export async function syncTasksFromSupabase(): Promise<{ success: boolean; taskC
 
     if (modelError || !currentModel) {
       console.log('[TaskSync] ❌ No current model found:', modelError?.message);
-      console.log('[TaskSync] 🔍 Checking for any models for this user...');
-      const { data: allModels, error: allModelsError } = await supabase
-        .from('model')
-        .select('model_id, created_at')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false })
-        .limit(5);
-      console.log('[TaskSync] 📋 Available models:', allModels?.length || 0, allModelsError?.message || '');
-      return { success: false, taskCount: 0, error: 'No current model' };
+      return failed('No current model');
     }
 
     let modelId = currentModel.model_id;
     console.log('[TaskSync] ✅ Current model ID:', modelId);
 
-    // Step 1.5: Check if current model has solutions, if not, check for newer models
-    const { data: currentSolutions, error: currentSolutionsError } = await supabase
-      .from('task_solution')
-      .select('task_id')
-      .eq('model_id', modelId)
-      .limit(1);
+    const syncState = parseSolutionSyncState(await internalDB.getMeta(SOLUTION_SYNC_META_KEY));
 
-    if (!currentSolutionsError && (!currentSolutions || currentSolutions.length === 0)) {
-      // Current model has no solutions, check for newer models
-      console.log('[TaskSync] Current model has no solutions, checking for newer models...');
-      const { data: recentModels, error: modelsError } = await supabase
-        .from('model')
-        .select('model_id, created_at')
-        .eq('user_id', user.id)
-        .order('created_at', { ascending: false })
-        .limit(5); // Check last 5 models
-
-      if (!modelsError && recentModels && recentModels.length > 0) {
-        // Try each model until we find one with solutions
-        for (const model of recentModels) {
-          const { data: solutions, error: checkError } = await supabase
-            .from('task_solution')
-            .select('task_id')
-            .eq('model_id', model.model_id)
-            .limit(1);
-
-          if (!checkError && solutions && solutions.length > 0) {
-            console.log(`[TaskSync] Found solutions in model ${model.model_id} (created ${model.created_at})`);
-            modelId = model.model_id;
-            break;
-          }
-        }
-      }
+    // Step 1.5: A model we have synced before has solutions. Otherwise check it has some, or fall back to a newer model that does
+    if (!syncState.marks[modelId]) {
+      modelId = await findModelWithSolutions(user.id, modelId);
     }
 
-    // Step 2: Fetch task solutions
-    console.log(`[TaskSync] 🔍 Fetching task solutions for model: ${modelId}`);
-    const { data: taskSolutions, error: solutionsError } = await supabase
+    // Step 2: Fetch task solutions changed since the last sync of this model (all of them the first time)
+    const mark = syncState.marks[modelId];
+    console.log(`[TaskSync] 🔍 Fetching task solutions for model ${modelId}${mark ? ` changed since ${mark}` : ''}`);
+    let solutionsQuery = supabase
       .from('task_solution')
-      .select('task_id, solution_json, model_id')
+      .select('task_id, solution_json, model_id, updated_at')
       .eq('model_id', modelId);
+    if (mark) {
+      // Inclusive, so rows written in the same instant as the mark aren't missed; unchanged ones are skipped on apply
+      solutionsQuery = solutionsQuery.gte('updated_at', mark);
+    }
+    const { data: taskSolutions, error: solutionsError } = await solutionsQuery.order('updated_at', { ascending: true });
 
     if (solutionsError) {
       console.error('[TaskSync] ❌ Error fetching task solutions:', solutionsError);
-      console.error('[TaskSync] Error details:', JSON.stringify(solutionsError, null, 2));
-      return { success: false, taskCount: 0, error: solutionsError.message };
+      return failed(solutionsError.message);
     }
 
-    if (!taskSolutions || taskSolutions.length === 0) {
-      console.log(`[TaskSync] ⚠️ No task solutions found for model ${modelId}`);
-      console.log(`[TaskSync] 🔍 Checking all task_solution entries for this user...`);
-      const { data: allSolutions, error: allSolutionsError } = await supabase
-        .from('task_solution')
-        .select('task_id, model_id')
-        .limit(10);
-      console.log(`[TaskSync] 📋 Total task_solution entries in DB: ${allSolutions?.length || 0}`);
-      if (allSolutions && allSolutions.length > 0) {
-        console.log(`[TaskSync] 📋 Sample task_solution model_ids:`, allSolutions.slice(0, 3).map(s => s.model_id));
-      }
-      return { success: true, taskCount: 0 };
-    }
-
-    console.log(`[TaskSync] ✅ Found ${taskSolutions.length} task solutions in model ${modelId}`);
-    console.log(`[TaskSync] 📋 Task IDs:`, taskSolutions.map(ts => ts.task_id));
+    const changedSolutions = (taskSolutions ?? []) as ChangedSolutionRow[];
+    console.log(`[TaskSync] ✅ ${changedSolutions.length} task solutions to apply from model ${modelId}`);
 
-    // Step 3: Fetch task details
-    const taskIds = taskSolutions.map(ts => ts.task_id);
-    console.log(`[TaskSync] 🔍 Fetching task details for ${taskIds.length} tasks`);
-    const { data: tasks, error: tasksError } = await supabase
-      .from('task')
-      .select('task_id, name, task_type, rules')
-      .in('task_id', taskIds);
-
-    if (tasksError) {
-      console.error('[TaskSync] ❌ Error fetching tasks:', tasksError);
-      return { success: false, taskCount: 0, error: tasksError.message };
+    // Step 2.5: Every task the model schedules, to find local tasks it dropped (a full fetch already has them)
+    const activeTaskIds = mark
+      ? await fetchSolutionTaskIds(modelId)
+      : new Set(changedSolutions.map(ts => ts.task_id));
+    if (!activeTaskIds) {
+      return failed('Could not list task solutions');
     }
 
-    console.log(`[TaskSync] ✅ Fetched ${tasks?.length || 0} task details`);
-    if (tasks && tasks.length > 0) {
-      console.log(`[TaskSync] 📋 Task names:`, tasks.map(t => `${t.name} (${t.task_id})`));
+    // Tombstones for tasks this model no longer schedules can't be resurrected by it, so drop them
+    try {
+      await internalDB.collectTombstoneGarbage({ modelId, taskIds: Array.from(activeTaskIds) });
+    } catch (gcError) {
+      console.error('[TaskSync] ⚠️ Error collecting deleted task tombstones:', gcError);
     }
 
-    const taskMap = new Map(tasks?.map(t => [t.task_id, t]) || []);
-
-    // Step 4: Get existing tasks from internalDB to check for duplicates
-    const existingTasks = await internalDB.getAllTasks();
-    const existingTaskIds = new Set(existingTasks.map(t => t.id));
-    const deletedTaskIds = new Set(await internalDB.getDeletedTaskIds());
-
-    // Step 5: Convert task solutions to InternalTask format and save
-    // Only sync tasks that don't already exist (deduplication)
-    let syncedCount = 0;
-    let skippedCount = 0;
-    
-    // Use a Set to track task_ids we've already processed in this sync
-    const processedTaskIds = new Set<string>();
-    
-    for (const ts of taskSolutions) {
-      // Skip if we've already processed this task_id in this sync
-      if (processedTaskIds.has(ts.task_id)) {
-        console.log(`[TaskSync] Skipping duplicate task_id in same sync: ${ts.task_id}`);
-        skippedCount++;
-        continue;
+    // Step 3: Fetch task details, for the changed solutions only
+    const taskIds = Array.from(new Set(changedSolutions.map(ts => ts.task_id)));
+    let taskRows: SupabaseTaskRow[] = [];
+    if (taskIds.length > 0) {
+      const { data: tasks, error: tasksError } = await supabase
+        .from('task')
+        .select('task_id, name, task_type, rules, priority')
+        .in('task_id', taskIds);
+
+      if (tasksError) {
+        console.error('[TaskSync] ❌ Error fetching tasks:', tasksError);
+        return failed(tasksError.message);
       }
-      processedTaskIds.add(ts.task_id);
+      taskRows = (tasks ?? []) as SupabaseTaskRow[];
+    }
 
-      if (deletedTaskIds.has(ts.task_id)) {
-        console.log(`[TaskSync] ⏭️ Skipping task ${ts.task_id} (deleted locally)`);
-        skippedCount++;
-        continue;
+    const taskMap = new Map(taskRows.map(t => [t.task_id, t]));
+    const archivedTaskIds = new Set(await internalDB.getArchivedTaskIds());
+    const retained = parseRetainedStates(await internalDB.getMeta(RETAINED_STATE_META_KEY));
+    const retainedBefore = serializeRetainedStates(retained);
+
+    // Step 4: Apply every change, drop what the model no longer schedules, and store the new high-water mark, in one transaction
+    const applied = await internalDB.transaction(tx => {
+      // If the account changed while fetching, these solutions belong to the previous one
+      if (internalDB.getNamespace() !== user.id) return null;
+
+      const diff = applySolutionDelta(tx, changedSolutions, taskMap, { skipIds: archivedTaskIds, retained });
+
+      // A model without any solutions is more likely still being solved than empty, so nothing is dropped for it
+      let toArchive: InternalTask[] = [];
+      if (activeTaskIds.size > 0) {
+        const plan = planReconciliation(tx.getAllTasks(), activeTaskIds);
+        const removed = removeStaleTasks(tx, plan.remove, retained);
+        diff.removed.push(...removed.map(task => ({ id: task.id, name: task.name })));
+        toArchive = plan.archive;
       }
 
-      const task = taskMap.get(ts.task_id);
-      if (!task) {
-        console.warn('[TaskSync] Task not found for task_id:', ts.task_id);
-        continue;
+      const nextRetained = serializeRetainedStates(retained);
+      if (nextRetained !== retainedBefore) {
+        tx.setMeta(RETAINED_STATE_META_KEY, nextRetained);
       }
-
-      const solution = ts.solution_json as any;
-      if (!solution || !solution.start || !solution.end) {
-        console.warn('[TaskSync] Task solution missing start/end:', ts.task_id);
-        continue;
+      const nextState = advanceSolutionMark(syncState, modelId, changedSolutions);
+      if (nextState.marks[modelId] !== mark) {
+        tx.setMeta(SOLUTION_SYNC_META_KEY, JSON.stringify(nextState));
       }
+      return { diff, toArchive };
+    });
 
-      // Convert interval numbers to timestamps
-      const startInterval = parseInt(solution.start, 10);
-      const endInterval = parseInt(solution.end, 10);
-      const startTime = n2dt(startInterval);
-      const endTime = n2dt(endInterval);
-
-      console.log(`[TaskSync] 🔄 Processing task: ${task.name} (${ts.task_id})`);
-      console.log(`[TaskSync]   Start interval: ${startInterval} → ${startTime}`);
-      console.log(`[TaskSync]   End interval: ${endInterval} → ${endTime}`);
-
-      // Check if task already exists in internalDB
-      const existingTask = existingTasks.find(t => t.id === ts.task_id);
-      
-      // Only create new task if it doesn't exist, otherwise update existing one
-      const internalTask: InternalTask = {
-        id: ts.task_id,
-        name: task.name || 'Unnamed Task',
-        status: (solution.status === 'OPTIMAL' || solution.status === 'scheduled') ? 'pending' : 'pending',
-        start_time: startTime,
-        end_time: endTime,
-        duration: InternalDB.calculateDuration(startTime, endTime),
-        priority: 'medium',
-        colorLabel: existingTask?.colorLabel || 'none', // Preserve existing colorLabel or default to 'none'
-        // Preserve original created_at if task already exists
-        created_at: existingTask?.created_at || new Date().toISOString(),
-        updated_at: new Date().toISOString(),
-        completed_at: existingTask?.completed_at,
-      };
-
-      // saveTask will upsert, but we log whether it's new or existing
-      // Pass skipIfDeleted=true to prevent restoring deleted tasks
-      const wasExisting = existingTaskIds.has(ts.task_id);
-      console.log(`[TaskSync]   ${wasExisting ? 'Updating' : 'Creating'} task in internalDB...`);
-      const savedTask = await internalDB.saveTask(internalTask, true); // skipIfDeleted=true
-      
-      if (!savedTask) {
-        console.log(`[TaskSync] ⏭️ Skipped restoring deleted task: ${internalTask.name} (${ts.task_id})`);
-        skippedCount++;
-        continue;
-      }
-      
-      if (wasExisting) {
-        console.log(`[TaskSync] ✅ Updated existing task: ${internalTask.name} (${ts.task_id})`);
-      } else {
-        console.log(`[TaskSync] ✅ Added new task: ${internalTask.name} (${ts.task_id})`);
-        syncedCount++;
-      }
+    if (!applied) {
+      console.log('[TaskSync] ⏭️ Signed-in account changed during sync, discarding results');
+      return failed('Signed-in user changed');
     }
 
-    console.log(`[TaskSync] ✅ Sync complete: ${syncedCount} new tasks, ${skippedCount} duplicates skipped`);
-    console.log(`[TaskSync] 📊 Summary: Model ${modelId}, ${taskSolutions.length} solutions, ${tasks?.length || 0} tasks fetched, ${syncedCount} saved to internalDB`);
-    
-    // Verify what's actually in internalDB now
-    const finalTasks = await internalDB.getAllTasks();
-    console.log(`[TaskSync] 📋 Final internalDB task count: ${finalTasks.length}`);
-    
-    return { success: true, taskCount: syncedCount };
+    // Step 5: Finished tasks the model dropped stay in the archive as history, completion and label included
+    const { diff, toArchive } = applied;
+    if (toArchive.length > 0) {
+      await internalDB.archiveTasks(toArchive.map(task => task.id));
+      diff.archived.push(...toArchive.map(task => ({ id: task.id, name: task.name })));
+    }
+
+    console.log(
+      `[TaskSync] ✅ Sync complete for model ${modelId}: ${diff.added.length} added, ${diff.moved.length} moved, ` +
+      `${diff.removed.length} removed, ${diff.unscheduled.length} unscheduled, ${diff.archived.length} archived`
+    );
+    if (!isEmptySolutionDiff(diff)) {
+      emitScheduleChange(diff);
+    }
+    return { success: true, taskCount: diff.added.length, diff };
 
   } catch (error: any) {
     console.error('[TaskSync] Error syncing tasks:', error);
-    return { success: false, taskCount: 0, error: error.message };
-  } finally {
-    // Always release the sync lock
-    isSyncing = false;
+    return failed(error.message);
   }
 }
 
-/**
- * Subscribe to task_solution changes for real-time updates
- * When the solver creates new solutions, this will trigger a sync
- * 
- * @param onSolutionUpdate - Callback when new solutions are detected
- * @returns Cleanup function to unsubscribe
- */
-export function subscribeToTaskSolutions(
-  onSolutionUpdate: () => void
-): () => void {
-  console.log('[TaskSync] Setting up realtime subscription for task_solution...');
-  
-  const channel = supabase
-    .channel('task-solutions-realtime')
-    .on(
-      'postgres_changes',
-      {
-        event: 'INSERT',
-        schema: 'public',
-        table: 'task_solution',
-      },
-      (payload) => {
-        console.log('[TaskSync] New task_solution detected via realtime:', payload.new);
-        onSolutionUpdate();
-      }
-    )
-    .on(
-      'postgres_changes',
-      {
-        event: 'UPDATE',
-        schema: 'public',
-        table: 'task_solution',
-      },
-      (payload) => {
-        console.log('[TaskSync] task_solution updated via realtime:', payload.new);
-        onSolutionUpdate();
-      }
-    )
-    .subscribe((status) => {
-      console.log('[TaskSync] Realtime subscription status:', status);
-    });
+// Ids of every task a model's solution schedules; null if they couldn't be fetched
+async function fetchSolutionTaskIds(modelId: string): Promise<Set<string> | null> {
+  const { data, error } = await supabase
+    .from('task_solution')
+    .select('task_id')
+    .eq('model_id', modelId);
 
-  // Return cleanup function
-  return () => {
-    console.log('[TaskSync] Cleaning up realtime subscription...');
-    supabase.removeChannel(channel);
-  };
+  if (error) {
+    console.error('[TaskSync] ❌ Error listing task solutions:', error);
+    return null;
+  }
+  return new Set((data ?? []).map(row => row.task_id));
 }
 
 /**
- * Subscribe to model status changes
- * This can notify when the solver has finished processing
- * 
- * @param userId - User ID to filter updates for
- * @param onModelProcessed - Callback when a model is processed
- * @returns Cleanup function to unsubscribe
+ * Pick the model to sync solutions from: the current one if it has any,
+ * otherwise the newest of the user's last five models that does (the solver may still be working on the current one)
  */
-export function subscribeToModelUpdates(
-  userId: string,
-  onModelProcessed: () => void
-): () => void {
-  console.log('[TaskSync] Setting up realtime subscription for model updates...');
-  
-  const channel = supabase
-    .channel('model-updates-realtime')
-    .on(
-      'postgres_changes',
-      {
-        event: 'UPDATE',
-        schema: 'public',
-        table: 'model',
-        filter: `user_id=eq.${userId}`,
-      },
-      (payload) => {
-        const newStatus = (payload.new as any)?.status;
-        console.log('[TaskSync] Model updated via realtime, status:', newStatus);
-        
-        // Trigger sync when model is processed
-        if (newStatus === 'processed') {
-          console.log('[TaskSync] Model processed, triggering sync...');
-          onModelProcessed();
-        }
-      }
-    )
-    .subscribe((status) => {
-      console.log('[TaskSync] Model subscription status:', status);
-    });
+async function findModelWithSolutions(userId: string, currentModelId: string): Promise<string> {
+  const { data: currentSolutions, error: currentSolutionsError } = await supabase
+    .from('task_solution')
+    .select('task_id')
+    .eq('model_id', currentModelId)
+    .limit(1);
+
+  if (currentSolutionsError || (currentSolutions && currentSolutions.length > 0)) {
+    return currentModelId;
+  }
 
-  // Return cleanup function
-  return () => {
-    console.log('[TaskSync] Cleaning up model subscription...');
-    supabase.removeChannel(channel);
-  };
-}
+  console.log('[TaskSync] Current model has no solutions, checking for newer models...');
+  const { data: recentModels, error: modelsError } = await supabase
+    .from('model')
+    .select('model_id, created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(5); // Check last 5 models
+
+  if (modelsError || !recentModels) return currentModelId;
 
+  // Try each model until we find one with solutions
+  for (const model of recentModels) {
+    const { data: solutions, error: checkError } = await supabase
+      .from('task_solution')
+      .select('task_id')
+      .eq('model_id', model.model_id)
+      .limit(1);
+
+    if (!checkError && solutions && solutions.length > 0) {
+      console.log(`[TaskSync] Found solutions in model ${model.model_id} (created ${model.created_at})`);
+      return model.model_id;
+    }
+  }
+  return currentModelId;
+}
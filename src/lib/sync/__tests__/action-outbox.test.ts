@@ -0,0 +1,106 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AsyncStorageAdapter } from '../../db/async-storage-adapter';
+import type { InternalAction } from '../../internal-db';
+import { DEFAULT_RETRY_POLICY } from '../../offline/op-queue';
+import {
+  emptyActionOutbox,
+  needsResolve,
+  nextRetryAt,
+  parseActionOutbox,
+  recordActionFailure,
+  recordActionsSent,
+  selectPendingActions,
+  serializeActionOutbox,
+} from '../action-outbox';
+
+const { InternalDB } = jest.requireActual('../../internal-db') as typeof import('../../internal-db');
+
+const NOW = Date.parse('2024-03-01T12:00:00.000Z');
+
+const action = (id: string, minute: number, overrides: Partial<InternalAction> = {}): InternalAction => ({
+  id,
+  action_type: 'task_completed',
+  task_id: 'task-1',
+  task_name: 'Task 1',
+  model_id: 'model-1',
+  timestamp: new Date(NOW + minute * 60 * 1000).toISOString(),
+  ...overrides,
+});
+
+describe('action outbox', () => {
+  const since = emptyActionOutbox(NOW);
+
+  test('selects unsent actions oldest first, skipping local tasks, repeats and history', () => {
+    const actions = [
+      action('done', 3, { task_id: 'task-2', action_type: 'task_skipped' }),
+      action('start', 1, { action_type: 'task_started' }),
+      action('old', -5, { task_id: 'task-3' }),
+      action('local', 2, { task_id: 'mine', model_id: undefined }),
+      action('complete', 4),
+      action('double-tap', 5),
+    ];
+
+    const { batch, skipped } = selectPendingActions(since, actions, NOW);
+
+    expect(batch.map(a => a.id)).toEqual(['start', 'done', 'complete']);
+    expect(skipped.map(a => a.id)).toEqual(['local', 'double-tap']);
+    expect(selectPendingActions(recordActionsSent(since, ['start', 'done']), actions, NOW).batch.map(a => a.id)).toEqual(['complete']);
+  });
+
+  test('a failed action holds back its task until the retry is due, and is dropped once the server keeps rejecting it', () => {
+    const actions = [action('start', 1, { action_type: 'task_started' }), action('complete', 2), action('other', 3, { task_id: 'task-2' })];
+
+    const offline = recordActionFailure(since, ['start'], { message: 'Network request failed' }, DEFAULT_RETRY_POLICY, NOW);
+    expect(offline.state.failures.start.attempts).toBe(0);
+    expect(selectPendingActions(offline.state, actions, NOW).batch.map(a => a.id)).toEqual(['other']);
+    expect(selectPendingActions(offline.state, actions, nextRetryAt(offline.state)!).batch.map(a => a.id)).toEqual(['start', 'complete', 'other']);
+
+    let state = since;
+    for (let i = 0; i < DEFAULT_RETRY_POLICY.maxAttempts - 1; i++) {
+      state = recordActionFailure(state, ['start'], { message: 'violates foreign key constraint', code: '23503' }, DEFAULT_RETRY_POLICY, NOW).state;
+    }
+    expect(state.failures.start.attempts).toBe(DEFAULT_RETRY_POLICY.maxAttempts - 1);
+    const last = recordActionFailure(state, ['start'], { message: 'violates foreign key constraint', code: '23503' }, DEFAULT_RETRY_POLICY, NOW);
+    expect(last.dropped).toEqual(['start']);
+    expect(last.state.failures).toEqual({});
+    expect(selectPendingActions(last.state, actions, NOW).batch.map(a => a.id)).toEqual(['complete', 'other']);
+  });
+
+  test('only skips ask for a re-solve', () => {
+    expect(needsResolve([action('a', 1), action('b', 2, { action_type: 'task_cancelled' })])).toBe(false);
+    expect(needsResolve([action('a', 1), action('b', 2, { action_type: 'task_skipped' })])).toBe(true);
+  });
+
+  test('round-trips through serialization, forgetting actions no longer stored', () => {
+    const state = { ...recordActionsSent(since, ['kept', 'archived']), resolve_pending: true };
+
+    const parsed = parseActionOutbox(serializeActionOutbox(state, [action('kept', 1)]), NOW);
+
+    expect(parsed).toEqual({ ...state, sent: ['kept'] });
+    expect(parseActionOutbox('not json', NOW)).toEqual(since);
+    expect(parseActionOutbox(null, NOW)).toEqual(since);
+  });
+});
+
+describe('logged actions', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('carry the solver model of the task they were taken on', async () => {
+    const db = InternalDB.withAdapter(new AsyncStorageAdapter());
+    await db.saveTask({ id: 'synced', name: 'Synced', start_time: '2024-03-01T09:00:00.000Z', end_time: '2024-03-01T10:00:00.000Z', model_id: 'model-1' });
+    await db.saveTask({ id: 'own', name: 'Own', start_time: '2024-03-01T09:00:00.000Z', end_time: '2024-03-01T10:00:00.000Z' });
+
+    const synced = await db.addAction({ action_type: 'task_skipped', task_id: 'synced', task_name: 'Synced' });
+    const own = await db.addAction({ action_type: 'task_skipped', task_id: 'own', task_name: 'Own' });
+
+    expect(synced.model_id).toBe('model-1');
+    expect(own.model_id).toBeUndefined();
+  });
+});
@@ -0,0 +1,72 @@
+import type { Task } from '../../tasks/model';
+import { isSyncFailure, notificationChanges, parseBackgroundSyncRun, solutionNotificationChanges } from '../background-run';
+import { emptySolutionDiff } from '../solution-delta';
+
+const task = (id: string, overrides: Partial<Task> = {}): Task => ({
+  id,
+  name: `Task ${id}`,
+  status: 'pending',
+  priority: 'medium',
+  reminder_at: '2024-03-01T08:45:00.000Z',
+  created_at: '2024-02-01T00:00:00.000Z',
+  updated_at: '2024-02-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('background sync runs', () => {
+  test('reschedule notifications only for tasks whose notified fields changed, and cancel them for removed ones', () => {
+    const before = [task('same'), task('moved'), task('renamed'), task('deleted'), task('gone')];
+    const after = [
+      task('same', { priority: 'high', updated_at: '2024-03-01T00:00:00.000Z' }),
+      task('moved', { reminder_at: '2024-03-01T09:45:00.000Z' }),
+      task('renamed', { name: 'Renamed' }),
+      task('deleted', { deleted_at: '2024-03-01T00:00:00.000Z' }),
+      task('new'),
+    ];
+
+    const { reschedule, cancel } = notificationChanges(before, after);
+
+    expect(reschedule.map(t => t.id)).toEqual(['moved', 'renamed', 'new']);
+    expect(cancel).toEqual(['gone', 'deleted']);
+  });
+
+  test('reschedule notifications for tasks the solver added or moved, and cancel them for tasks it dropped', () => {
+    const slot = { start_time: '2024-03-01T09:00:00.000Z', end_time: '2024-03-01T10:00:00.000Z' };
+    const diff = {
+      ...emptySolutionDiff(),
+      added: [{ id: 'added', name: 'Task added' }, { id: 'added-then-deleted', name: 'Task added-then-deleted' }],
+      moved: [{ id: 'moved', name: 'Task moved', from: slot, to: slot }],
+      removed: [{ id: 'removed', name: 'Task removed' }],
+      unscheduled: [{ id: 'unplaced', name: 'Task unplaced' }],
+      archived: [{ id: 'archived', name: 'Task archived' }],
+    };
+    const scheduled = [task('added'), task('moved'), task('untouched'), task('unplaced')];
+
+    const { reschedule, cancel } = solutionNotificationChanges(diff, scheduled);
+
+    expect(reschedule.map(t => t.id)).toEqual(['added', 'moved']);
+    expect(cancel).toEqual(['removed', 'unplaced', 'archived', 'added-then-deleted']);
+  });
+
+  test('a sync with nothing to do is not a failure', () => {
+    expect(isSyncFailure(undefined)).toBe(false);
+    expect(isSyncFailure('Sync throttled')).toBe(false);
+    expect(isSyncFailure('Offline')).toBe(false);
+    expect(isSyncFailure('permission denied for table task_solution')).toBe(true);
+  });
+
+  test('reads back a recorded run, and nothing from a missing or damaged one', () => {
+    const run = {
+      started_at: '2024-03-01T00:00:00.000Z',
+      finished_at: '2024-03-01T00:00:05.000Z',
+      outcome: 'new_data',
+      solutions_changed: 2,
+      tasks_changed: 1,
+      errors: [],
+    };
+
+    expect(parseBackgroundSyncRun(JSON.stringify(run))).toEqual(run);
+    expect(parseBackgroundSyncRun(null)).toBeNull();
+    expect(parseBackgroundSyncRun('{"outcome":')).toBeNull();
+  });
+});
@@ -0,0 +1,176 @@
+import { RealtimeManager } from '../RealtimeManager';
+import { emptySolutionDiff } from '../solution-delta';
+
+jest.mock('@react-native-community/netinfo', () => require('@react-native-community/netinfo/jest/netinfo-mock.js'));
+
+type Handler = (payload: any) => void;
+
+// A stand-in for a supabase channel: records its filters and lets the test drive events and status
+class FakeChannel {
+  handlers: { filter: any; handler: Handler }[] = [];
+  onStatus: ((status: string, error?: Error) => void) | null = null;
+
+  constructor(readonly name: string) {}
+
+  on(_type: string, filter: any, handler: Handler) {
+    this.handlers.push({ filter, handler });
+    return this;
+  }
+
+  subscribe(callback: (status: string, error?: Error) => void) {
+    this.onStatus = callback;
+    return this;
+  }
+
+  emit(table: string, payload: any = { new: {} }) {
+    this.handlers.filter(({ filter }) => filter.table === table).forEach(({ handler }) => handler(payload));
+  }
+}
+
+function fakeClient(modelIds: string[]) {
+  const channels: FakeChannel[] = [];
+  const client = {
+    channels,
+    removed: [] as FakeChannel[],
+    channel: jest.fn((name: string) => {
+      const channel = new FakeChannel(name);
+      channels.push(channel);
+      return channel;
+    }),
+    removeChannel: jest.fn(async (channel: FakeChannel) => {
+      client.removed.push(channel);
+      return 'ok';
+    }),
+    from: jest.fn(() => ({
+      select: () => ({
+        eq: () => ({
+          maybeSingle: async () => ({ data: { model_id: modelIds.shift() ?? 'model-1' }, error: null }),
+        }),
+      }),
+    })),
+  };
+  return client;
+}
+
+const flush = async () => {
+  for (let i = 0; i < 5; i++) await Promise.resolve();
+};
+
+describe('realtime manager', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  test('listens to the current model only and folds a burst of solution rows into one sync', async () => {
+    const client = fakeClient(['model-1']);
+    const sync = jest.fn(async () => ({ success: true, taskCount: 0, diff: emptySolutionDiff() }));
+    const manager = new RealtimeManager(client as any, sync);
+
+    const release = manager.acquire('user-1');
+    await flush();
+    const [channel] = client.channels;
+    channel.onStatus!('SUBSCRIBED');
+
+    expect(channel.handlers.filter(h => h.filter.table === 'task_solution').map(h => h.filter.filter)).toEqual([
+      'model_id=eq.model-1',
+      'model_id=eq.model-1',
+    ]);
+    expect(manager.getHealth()).toMatchObject({ status: 'connected', model_id: 'model-1' });
+
+    for (let i = 0; i < 10; i++) {
+      channel.emit('task_solution');
+      jest.advanceTimersByTime(100);
+    }
+    expect(sync).not.toHaveBeenCalled();
+    jest.advanceTimersByTime(1000);
+    expect(sync).toHaveBeenCalledTimes(1);
+
+    release();
+    expect(client.removed).toEqual([channel]);
+    expect(manager.getHealth().status).toBe('disconnected');
+  });
+
+  test('resubscribes with backoff after the channel errors, and syncs what it may have missed', async () => {
+    const client = fakeClient(['model-1', 'model-1']);
+    const sync = jest.fn(async () => ({ success: true, taskCount: 0, diff: emptySolutionDiff() }));
+    const manager = new RealtimeManager(client as any, sync);
+    const statuses: string[] = [];
+    manager.subscribeToHealth(health => statuses.push(health.status));
+
+    manager.acquire('user-1');
+    await flush();
+    client.channels[0].onStatus!('CHANNEL_ERROR', new Error('socket closed'));
+
+    expect(manager.getHealth()).toMatchObject({ status: 'reconnecting', last_error: 'socket closed', reconnect_attempts: 1 });
+    expect(client.removed).toEqual([client.channels[0]]);
+
+    jest.advanceTimersByTime(1000);
+    await flush();
+    expect(client.channels).toHaveLength(2);
+    client.channels[1].onStatus!('SUBSCRIBED');
+    jest.advanceTimersByTime(1000);
+
+    expect(manager.getHealth()).toMatchObject({ status: 'connected', reconnect_attempts: 0, last_error: null });
+    expect(sync).toHaveBeenCalledTimes(1);
+    expect(statuses).toEqual(['connecting', 'reconnecting', 'reconnecting', 'connected']);
+  });
+
+  test('retries a throttled sync once the throttle window has passed, backing off while it stays throttled', async () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0); // the shortest delay backoff allows
+    const client = fakeClient(['model-1']);
+    const throttled = { success: false, taskCount: 0, error: 'Sync throttled', diff: emptySolutionDiff() };
+    const sync = jest.fn(async () => ({ success: true, taskCount: 0, diff: emptySolutionDiff() }))
+      .mockResolvedValueOnce(throttled)
+      .mockResolvedValueOnce(throttled);
+    const manager = new RealtimeManager(client as any, sync);
+
+    manager.acquire('user-1');
+    await flush();
+    client.channels[0].onStatus!('SUBSCRIBED');
+    client.channels[0].emit('task_solution');
+    jest.advanceTimersByTime(750);
+    await flush();
+    expect(sync).toHaveBeenCalledTimes(1);
+
+    jest.advanceTimersByTime(1999);
+    expect(sync).toHaveBeenCalledTimes(1);
+    jest.advanceTimersByTime(1);
+    await flush();
+    expect(sync).toHaveBeenCalledTimes(2);
+
+    jest.advanceTimersByTime(3999);
+    expect(sync).toHaveBeenCalledTimes(2);
+    jest.advanceTimersByTime(1);
+    await flush();
+    expect(sync).toHaveBeenCalledTimes(3);
+
+    jest.advanceTimersByTime(60 * 1000);
+    expect(sync).toHaveBeenCalledTimes(3);
+  });
+
+  test('follows the user to a new current model', async () => {
+    const client = fakeClient(['model-1', 'model-2']);
+    const sync = jest.fn(async () => ({ success: true, taskCount: 0, diff: emptySolutionDiff() }));
+    const manager = new RealtimeManager(client as any, sync);
+
+    manager.acquire('user-1');
+    await flush();
+    client.channels[0].onStatus!('SUBSCRIBED');
+    client.channels[0].emit('current_model', { new: { model_id: 'model-2' } });
+    await flush();
+    client.channels[1].onStatus!('SUBSCRIBED');
+
+    expect(client.channels[1].handlers[0].filter.filter).toBe('model_id=eq.model-2');
+    expect(manager.getHealth().model_id).toBe('model-2');
+    // The replaced channel's late callbacks are ignored
+    client.channels[0].onStatus!('CLOSED');
+    expect(manager.getHealth().status).toBe('connected');
+  });
+});
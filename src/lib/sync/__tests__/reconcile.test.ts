@@ -0,0 +1,91 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AsyncStorageAdapter } from '../../db/async-storage-adapter';
+import type { InternalTask } from '../../internal-db';
+import { applySolutionDelta } from '../solution-delta';
+import { RetainedTaskState, parseRetainedStates, planReconciliation, removeStaleTasks, serializeRetainedStates } from '../reconcile';
+
+const { InternalDB } = jest.requireActual('../../internal-db') as typeof import('../../internal-db');
+
+const task = (id: string, overrides: Partial<InternalTask> = {}): InternalTask => ({
+  id,
+  name: `Task ${id}`,
+  start_time: '2024-03-01T09:00:00.000Z',
+  end_time: '2024-03-01T10:00:00.000Z',
+  duration: 3600,
+  status: 'pending',
+  priority: 'medium',
+  colorLabel: 'none',
+  model_id: 'model-1',
+  created_at: '2024-02-01T00:00:00.000Z',
+  updated_at: '2024-02-01T00:00:00.000Z',
+  ...overrides,
+});
+
+describe('solution reconciliation', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('plans archive, removal or keeping for tasks missing from the active solution', () => {
+    const plan = planReconciliation([
+      task('active'),
+      task('dropped'),
+      task('done', { status: 'completed', completed_at: '2024-03-01T10:00:00.000Z' }),
+      task('running', { status: 'in_progress' }),
+      task('own', { model_id: undefined }),
+    ], new Set(['active']));
+
+    expect(plan.remove.map(t => t.id)).toEqual(['dropped']);
+    expect(plan.archive.map(t => t.id)).toEqual(['done']);
+    expect(plan.keep.map(t => t.id)).toEqual(['running']);
+  });
+
+  test('removed tasks get their color label back when the solver places them again', async () => {
+    const db = InternalDB.withAdapter(new AsyncStorageAdapter());
+    await db.saveTask(task('a', { colorLabel: 'work' }));
+    await db.saveTask(task('b'));
+    const retained = new Map<string, RetainedTaskState>();
+
+    const removed = await db.transaction(tx => removeStaleTasks(tx, [task('a', { colorLabel: 'work' }), task('b')], retained));
+
+    expect(removed.map(t => t.id)).toEqual(['a', 'b']);
+    expect(await db.getAllTasks()).toEqual([]);
+    expect(await db.isTaskDeleted('a')).toBe(false);
+    expect(Array.from(retained.keys())).toEqual(['a']);
+
+    const diff = await db.transaction(tx => applySolutionDelta(
+      tx,
+      [{ task_id: 'a', model_id: 'model-2', solution_json: { start: 12, end: 24 } }],
+      new Map([['a', { task_id: 'a', name: 'Task a' }]]),
+      { retained }
+    ));
+
+    expect(diff.added.map(entry => entry.id)).toEqual(['a']);
+    expect(await db.getTaskById('a')).toMatchObject({ colorLabel: 'work', created_at: '2024-02-01T00:00:00.000Z' });
+    expect(retained.size).toBe(0);
+  });
+
+  test('finished tasks the solver dropped are archived with their completion', async () => {
+    const db = InternalDB.withAdapter(new AsyncStorageAdapter());
+    const done = task('done', { status: 'completed', completed_at: '2024-03-01T10:00:00.000Z', colorLabel: 'health' });
+    await db.saveTask(done);
+
+    expect(await db.archiveTasks(['done', 'missing'])).toBe(1);
+    expect(await db.getTaskById('done')).toBeNull();
+    expect(await db.getArchivedTaskIds()).toEqual(['done']);
+    expect((await db.getArchivedTasks())[0]).toMatchObject({ completed_at: done.completed_at, colorLabel: 'health' });
+  });
+
+  test('retained state survives storage and unreadable state starts over', () => {
+    const retained = new Map<string, RetainedTaskState>([['a', { colorLabel: 'work' }]]);
+
+    expect(parseRetainedStates(serializeRetainedStates(retained))).toEqual(retained);
+    expect(parseRetainedStates('[1, 2]').size).toBe(0);
+    expect(parseRetainedStates('{')).toEqual(new Map());
+  });
+});
@@ -0,0 +1,122 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AsyncStorageAdapter } from '../../db/async-storage-adapter';
+import { intervalToISO } from '../../time/intervals';
+import {
+  ChangedSolutionRow,
+  SOLUTION_SYNC_META_KEY,
+  advanceSolutionMark,
+  applySolutionDelta,
+  parseSolutionSyncState,
+} from '../solution-delta';
+
+const { InternalDB } = jest.requireActual('../../internal-db') as typeof import('../../internal-db');
+
+const solution = (taskId: string, start: number | null, end: number | null, updatedAt = '2024-03-01T00:00:00.000Z'): ChangedSolutionRow => ({
+  task_id: taskId,
+  model_id: 'model-1',
+  solution_json: start === null || end === null ? null : { start, end },
+  updated_at: updatedAt,
+});
+
+const taskRows = new Map([
+  ['a', { task_id: 'a', name: 'Gym' }],
+  ['b', { task_id: 'b', name: 'Read' }],
+]);
+
+async function createDB() {
+  const adapter = new AsyncStorageAdapter();
+  return { db: InternalDB.withAdapter(adapter), adapter };
+}
+
+describe('solution delta', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear();
+    jest.spyOn(console, 'log').mockImplementation(() => {});
+    jest.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('reports new placements as added', async () => {
+    const { db } = await createDB();
+    const diff = await db.transaction(tx => applySolutionDelta(tx, [solution('a', 12, 24), solution('b', 24, 36)], taskRows));
+
+    expect(diff.added.map(entry => entry.id)).toEqual(['a', 'b']);
+    expect(diff.moved).toEqual([]);
+    expect(await db.getTaskById('a')).toMatchObject({ name: 'Gym', start_time: intervalToISO(12), model_id: 'model-1' });
+  });
+
+  test('reports changed placements as moved and leaves unchanged ones alone', async () => {
+    const { db } = await createDB();
+    await db.transaction(tx => applySolutionDelta(tx, [solution('a', 12, 24), solution('b', 24, 36)], taskRows));
+    await db.updateTask('a', { colorLabel: 'health' });
+    const before = await db.getTaskById('b');
+
+    const diff = await db.transaction(tx => applySolutionDelta(tx, [solution('a', 36, 48), solution('b', 24, 36)], taskRows));
+
+    expect(diff.added).toEqual([]);
+    expect(diff.moved).toEqual([{
+      id: 'a',
+      name: 'Gym',
+      from: { start_time: intervalToISO(12), end_time: intervalToISO(24) },
+      to: { start_time: intervalToISO(36), end_time: intervalToISO(48) },
+    }]);
+    expect((await db.getTaskById('a'))?.colorLabel).toBe('health');
+    expect(await db.getTaskById('b')).toBe(before);
+  });
+
+  test('keeps tasks the solver can no longer place at their last slot, flagged', async () => {
+    const { db } = await createDB();
+    await db.transaction(tx => applySolutionDelta(tx, [solution('a', 12, 24)], taskRows));
+
+    const diff = await db.transaction(tx => applySolutionDelta(tx, [solution('a', null, null), solution('b', null, null)], taskRows));
+
+    expect(diff.unscheduled).toEqual([{ id: 'a', name: 'Gym' }]);
+    expect(diff.removed).toEqual([]);
+    expect(await db.getTaskById('a')).toMatchObject({ start_time: intervalToISO(12), solver_status: 'unscheduled' });
+    expect(await db.getTaskById('b')).toBeNull();
+
+    const placed = await db.transaction(tx => applySolutionDelta(tx, [solution('a', 12, 24)], taskRows));
+    expect(placed.unscheduled).toEqual([]);
+    expect(await db.getTaskById('a')).toMatchObject({ solver_status: 'feasible' });
+  });
+
+  test('does not bring back deleted or archived tasks', async () => {
+    const { db } = await createDB();
+    await db.transaction(tx => applySolutionDelta(tx, [solution('a', 12, 24)], taskRows));
+    await db.deleteTask('a');
+
+    const diff = await db.transaction(tx =>
+      applySolutionDelta(tx, [solution('a', 12, 24), solution('b', 24, 36)], taskRows, { skipIds: new Set(['b']) })
+    );
+
+    expect(diff.added).toEqual([]);
+    expect(await db.getAllTasks()).toEqual([]);
+  });
+
+  test('stores the high-water mark in the same commit as the tasks', async () => {
+    const { db, adapter } = await createDB();
+    const rows = [solution('a', 12, 24, '2024-03-01T10:00:00.000Z'), solution('b', 24, 36, '2024-03-01T11:00:00.000Z')];
+
+    await db.transaction(tx => {
+      applySolutionDelta(tx, rows, taskRows);
+      tx.setMeta(SOLUTION_SYNC_META_KEY, JSON.stringify(advanceSolutionMark({ marks: {} }, 'model-1', rows)));
+    });
+
+    expect(parseSolutionSyncState(await adapter.getMeta(SOLUTION_SYNC_META_KEY))).toEqual({
+      marks: { 'model-1': '2024-03-01T11:00:00.000Z' },
+    });
+    expect(await adapter.getAllTasks()).toHaveLength(2);
+  });
+
+  test('the mark never moves backwards and bad state starts over', () => {
+    const state = { marks: { 'model-1': '2024-03-02T00:00:00.000Z' } };
+
+    expect(advanceSolutionMark(state, 'model-1', [solution('a', 1, 2, '2024-03-01T00:00:00.000Z')])).toEqual(state);
+    expect(advanceSolutionMark(state, 'model-2', [])).toBe(state);
+    expect(parseSolutionSyncState('not json')).toEqual({ marks: {} });
+    expect(parseSolutionSyncState(null)).toEqual({ marks: {} });
+  });
+});
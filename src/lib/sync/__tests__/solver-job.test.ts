@@ -0,0 +1,107 @@
+import { SolverJobTracker } from '../SolverJobTracker';
+import { applyModelUpdate, describeSolverJob, modelIdFromScheduleResult, newSolverJob } from '../solver-job';
+import { emptySolutionDiff } from '../solution-delta';
+
+jest.mock('@react-native-community/netinfo', () => require('@react-native-community/netinfo/jest/netinfo-mock.js'));
+
+function fakeClient(modelRow: Record<string, any> | null) {
+  return {
+    auth: { getUser: async () => ({ data: { user: { id: 'user-1' } } }) },
+    from: jest.fn((table: string) => ({
+      select: () => ({
+        eq: () => ({
+          maybeSingle: async () => ({
+            data: table === 'current_model' ? { model_id: 'model-current' } : modelRow,
+            error: null,
+          }),
+        }),
+      }),
+    })),
+  };
+}
+
+function fakeRealtime() {
+  const realtime = {
+    listeners: [] as ((model: any) => void)[],
+    released: 0,
+    acquire: jest.fn(() => () => {
+      realtime.released++;
+    }),
+    subscribeToModelUpdates: jest.fn((listener: (model: any) => void) => {
+      realtime.listeners.push(listener);
+      return () => {
+        realtime.listeners = realtime.listeners.filter(l => l !== listener);
+      };
+    }),
+    emit: (model: any) => realtime.listeners.forEach(listener => listener(model)),
+  };
+  return realtime;
+}
+
+const flush = async () => {
+  for (let i = 0; i < 10; i++) await Promise.resolve();
+};
+
+describe('solver jobs', () => {
+  test('a model moves from queued through solving to processed, ignoring other models', () => {
+    let job = newSolverJob('model-1');
+
+    job = applyModelUpdate(job, { model_id: 'model-2', status: 'processed' });
+    expect(job.status).toBe('queued');
+    job = applyModelUpdate(job, { model_id: 'model-1', status: 'solving' });
+    expect(job.status).toBe('solving');
+    job = applyModelUpdate(job, { model_id: 'model-1', status: 'processed' });
+    expect(job.status).toBe('processed');
+    expect(applyModelUpdate(job, { model_id: 'model-1', status: 'failed' })).toBe(job);
+  });
+
+  test('infeasible models are reported as such, not as a generic failure', () => {
+    const job = applyModelUpdate(newSolverJob('model-1'), {
+      model_id: 'model-1',
+      status: 'INFEASIBLE',
+      error: 'Gym overlaps Dentist',
+    });
+
+    expect(job).toMatchObject({ status: 'failed', infeasible: true, error: 'Gym overlaps Dentist' });
+    expect(describeSolverJob(job)).toBe("These tasks can't all be scheduled: Gym overlaps Dentist");
+  });
+
+  test('reads the model id from the schedule RPC result when there is one', () => {
+    expect(modelIdFromScheduleResult({ model_id: 'model-1', task_count: 1 })).toBe('model-1');
+    expect(modelIdFromScheduleResult({ task_count: 1 })).toBeNull();
+  });
+
+  test('the tracker syncs a processed model before reporting it done, and lets go of the channel', async () => {
+    const client = fakeClient({ model_id: 'model-1', status: 'queued' });
+    const realtime = fakeRealtime();
+    const sync = jest.fn(async () => ({ success: true, taskCount: 1, diff: emptySolutionDiff() }));
+    const tracker = new SolverJobTracker(client as any, realtime as any, sync);
+    const statuses: (string | undefined)[] = [];
+    tracker.subscribe(job => statuses.push(job?.status));
+
+    await tracker.track('model-1');
+    await flush();
+    realtime.emit({ model_id: 'model-1', status: 'solving' });
+    realtime.emit({ model_id: 'model-1', status: 'processed' });
+    realtime.emit({ model_id: 'model-1', status: 'processed' });
+    await flush();
+
+    expect(sync).toHaveBeenCalledTimes(1);
+    expect(statuses).toEqual(['queued', 'solving', 'processed']);
+    expect(realtime.released).toBe(1);
+    expect(realtime.listeners).toHaveLength(0);
+  });
+
+  test('the tracker follows the current model when the RPC did not name one', async () => {
+    const client = fakeClient({ model_id: 'model-current', status: 'failed', error: 'Solver crashed' });
+    const realtime = fakeRealtime();
+    const tracker = new SolverJobTracker(client as any, realtime as any, jest.fn());
+
+    await tracker.track(null);
+    await flush();
+
+    expect(tracker.getJob()).toMatchObject({ model_id: 'model-current', status: 'failed', error: 'Solver crashed' });
+    tracker.dismiss();
+    expect(tracker.getJob()).toBeNull();
+  });
+});
@@ -0,0 +1,101 @@
+import { SyncStatusCenter } from '../SyncStatusCenter';
+import {
+  MAX_SYNC_HISTORY,
+  SyncHistoryEntry,
+  currentFailures,
+  initialSyncStatus,
+  recordSyncRun,
+  syncPhase,
+} from '../sync-status';
+
+jest.mock('@react-native-community/netinfo', () => require('@react-native-community/netinfo/jest/netinfo-mock.js'));
+
+const entry = (id: string, overrides: Partial<SyncHistoryEntry> = {}): SyncHistoryEntry => ({
+  id,
+  source: 'solutions',
+  outcome: 'success',
+  started_at: '2024-03-01T08:00:00.000Z',
+  finished_at: '2024-03-01T08:00:01.000Z',
+  ...overrides,
+});
+
+describe('sync status', () => {
+  test('a failure stays current until the same source succeeds again; skipped runs change nothing', () => {
+    let state = initialSyncStatus();
+    state = recordSyncRun(state, entry('1', { source: 'offline', outcome: 'failed', error: 'Network request failed' }));
+    state = recordSyncRun(state, entry('2', { source: 'solutions' }));
+    state = recordSyncRun(state, entry('3', { source: 'offline', outcome: 'skipped' }));
+
+    expect(currentFailures(state).map(e => e.id)).toEqual(['1']);
+    expect(syncPhase(state)).toBe('error');
+
+    state = recordSyncRun(state, entry('4', { source: 'offline', finished_at: '2024-03-01T09:00:00.000Z' }));
+    expect(currentFailures(state)).toEqual([]);
+    expect(syncPhase(state)).toBe('synced');
+    expect(state.last_success_at).toBe('2024-03-01T09:00:00.000Z');
+  });
+
+  test('syncing wins over offline, offline over error', () => {
+    const failed = recordSyncRun(initialSyncStatus(), entry('1', { outcome: 'failed' }));
+
+    expect(syncPhase({ ...failed, online: false })).toBe('offline');
+    expect(syncPhase({ ...failed, online: false, running: ['actions'] })).toBe('syncing');
+    expect(syncPhase({ ...initialSyncStatus(), quarantined_ops: 1 })).toBe('error');
+  });
+
+  test('only a realtime channel that keeps failing to reconnect is an error', () => {
+    const realtime = {
+      status: 'reconnecting' as const,
+      model_id: 'model-1',
+      last_event_at: null,
+      last_error: 'socket closed',
+      reconnect_attempts: 1,
+      next_retry_at: null,
+    };
+
+    expect(syncPhase({ ...initialSyncStatus(), realtime })).toBe('synced');
+    expect(syncPhase({ ...initialSyncStatus(), realtime: { ...realtime, reconnect_attempts: 3 } })).toBe('error');
+  });
+
+  test('history keeps the newest runs', () => {
+    let state = initialSyncStatus();
+    for (let i = 0; i < MAX_SYNC_HISTORY + 5; i++) state = recordSyncRun(state, entry(String(i)));
+
+    expect(state.history).toHaveLength(MAX_SYNC_HISTORY);
+    expect(state.history[0].id).toBe(String(MAX_SYNC_HISTORY + 4));
+  });
+
+  test('the center tracks overlapping runs and records each one once', () => {
+    const center = new SyncStatusCenter();
+    const phases: string[] = [];
+    center.subscribe(state => phases.push(syncPhase(state)));
+
+    const finishSolutions = center.begin('solutions');
+    const finishActions = center.begin('actions');
+    finishSolutions({ outcome: 'success', summary: 'No changes' });
+    expect(syncPhase(center.getState())).toBe('syncing');
+
+    finishActions({ outcome: 'failed', error: 'permission denied' });
+    finishActions({ outcome: 'success' });
+
+    expect(center.getState().running).toEqual([]);
+    expect(center.getState().history.map(e => [e.source, e.outcome])).toEqual([
+      ['actions', 'failed'],
+      ['solutions', 'success'],
+    ]);
+    expect(phases).toEqual(['syncing', 'syncing', 'syncing', 'error']);
+  });
+
+  test('the center counts the offline queue', async () => {
+    const center = new SyncStatusCenter();
+    const db = {
+      getOps: async () => [{}, {}],
+      getQuarantinedOps: async () => [{}],
+      getConflicts: async () => [],
+    };
+
+    await center.refreshQueue(db as any);
+
+    expect(center.getState()).toMatchObject({ pending_ops: 2, quarantined_ops: 1, conflicts: 0 });
+  });
+});
@@ -0,0 +1,189 @@
+/**
+ * Action Outbox
+ *
+ * Tracks which locally logged task actions (started, completed, skipped, ...) the server has,
+ * so status changes reach the solver even when they were made offline. The actions themselves
+ * stay in InternalDB; the outbox only keeps ids and retry state.
+ */
+
+import type { InternalAction } from '../internal-db';
+import { DEFAULT_RETRY_POLICY, RetryPolicy, backoffDelayMs } from '../offline/op-queue';
+
+// InternalDB meta key holding the ActionOutboxState
+export const ACTION_OUTBOX_META_KEY = 'action_outbox';
+// Rows sent per request
+export const ACTION_PUSH_BATCH_SIZE = 100;
+
+// Actions after which the solver has to plan around a task it had scheduled, or plan it anew
+const RESOLVE_ACTION_TYPES: InternalAction['action_type'][] = ['task_skipped', 'task_rescheduled', 'task_modified', 'task_deleted'];
+
+export interface ActionRetry {
+  attempts: number; // failures the server answered; network failures only delay the retry
+  next_attempt_at: string;
+  last_error: string;
+}
+
+export interface ActionOutboxState {
+  since: string; // actions logged before the outbox existed are history, not news for the solver
+  sent: string[]; // ids the server has, or that needed no sending
+  failures: Record<string, ActionRetry>;
+  dropped: string[]; // rejected too many times; given up on
+  resolve_pending: boolean; // a skip reached the server but the re-solve request didn't
+}
+
+// A row of the task_action table; action_id is unique, so resending an action is a no-op
+export interface TaskActionRow {
+  action_id: string;
+  user_id: string;
+  task_id: string;
+  model_id: string;
+  action_type: InternalAction['action_type'];
+  details: string | null;
+  occurred_at: string;
+}
+
+export interface PendingActions {
+  batch: InternalAction[]; // due now, oldest first
+  skipped: InternalAction[]; // nothing to send: local-only tasks and repeats of the previous action
+}
+
+export function emptyActionOutbox(now: number = Date.now()): ActionOutboxState {
+  return { since: new Date(now).toISOString(), sent: [], failures: {}, dropped: [], resolve_pending: false };
+}
+
+export function parseActionOutbox(stored: string | null, now: number = Date.now()): ActionOutboxState {
+  try {
+    const parsed = stored ? JSON.parse(stored) : null;
+    if (!parsed || typeof parsed.since !== 'string') return emptyActionOutbox(now);
+    return {
+      since: parsed.since,
+      sent: Array.isArray(parsed.sent) ? parsed.sent : [],
+      failures: parsed.failures && typeof parsed.failures === 'object' ? parsed.failures : {},
+      dropped: Array.isArray(parsed.dropped) ? parsed.dropped : [],
+      resolve_pending: parsed.resolve_pending === true,
+    };
+  } catch {
+    return emptyActionOutbox(now);
+  }
+}
+
+/**
+ * Serialize the state, forgetting actions no longer in the local store (archived or cleared):
+ * they can't come up for sending again, so their ids would only grow the state.
+ */
+export function serializeActionOutbox(state: ActionOutboxState, actions: InternalAction[]): string {
+  const known = new Set(actions.map(action => action.id));
+  return JSON.stringify({
+    since: state.since,
+    sent: state.sent.filter(id => known.has(id)),
+    failures: Object.fromEntries(Object.entries(state.failures).filter(([id]) => known.has(id))),
+    dropped: state.dropped.filter(id => known.has(id)),
+    resolve_pending: state.resolve_pending,
+  });
+}
+
+function byTime(a: InternalAction, b: InternalAction): number {
+  return new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime() || a.id.localeCompare(b.id);
+}
+
+/**
+ * The actions to send next. A task's actions go out in order, so one waiting on a retry holds back
+ * the task's later ones. Actions on tasks the server doesn't know (no model), and an action repeating
+ * the task's previous one (a double tap, a completion logged twice), are skipped rather than sent.
+ */
+export function selectPendingActions(
+  state: ActionOutboxState,
+  actions: InternalAction[],
+  now: number = Date.now(),
+  limit: number = ACTION_PUSH_BATCH_SIZE
+): PendingActions {
+  const done = new Set([...state.sent, ...state.dropped]);
+  const since = new Date(state.since).getTime();
+  const lastType = new Map<string, InternalAction['action_type']>();
+  const heldTasks = new Set<string>();
+  const pending: PendingActions = { batch: [], skipped: [] };
+
+  for (const action of [...actions].sort(byTime)) {
+    if (new Date(action.timestamp).getTime() < since) continue;
+    const previousType = lastType.get(action.task_id);
+    lastType.set(action.task_id, action.action_type);
+    if (done.has(action.id)) continue;
+
+    if (!action.model_id || previousType === action.action_type) {
+      pending.skipped.push(action);
+      continue;
+    }
+    if (heldTasks.has(action.task_id)) continue;
+
+    const retry = state.failures[action.id];
+    if (retry && new Date(retry.next_attempt_at).getTime() > now) {
+      heldTasks.add(action.task_id);
+      continue;
+    }
+    if (pending.batch.length < limit) {
+      pending.batch.push(action);
+    } else {
+      heldTasks.add(action.task_id);
+    }
+  }
+  return pending;
+}
+
+// When the next held-back action is due, or null when none is waiting on a retry
+export function nextRetryAt(state: ActionOutboxState): number | null {
+  const times = Object.values(state.failures).map(retry => new Date(retry.next_attempt_at).getTime());
+  return times.length > 0 ? Math.min(...times) : null;
+}
+
+export function needsResolve(actions: InternalAction[]): boolean {
+  return actions.some(action => RESOLVE_ACTION_TYPES.includes(action.action_type));
+}
+
+export function toTaskActionRow(action: InternalAction, userId: string): TaskActionRow {
+  return {
+    action_id: action.id,
+    user_id: userId,
+    task_id: action.task_id,
+    model_id: action.model_id!,
+    action_type: action.action_type,
+    details: action.details ?? null,
+    occurred_at: action.timestamp,
+  };
+}
+
+export function recordActionsSent(state: ActionOutboxState, ids: string[]): ActionOutboxState {
+  const failures = { ...state.failures };
+  ids.forEach(id => delete failures[id]);
+  return { ...state, sent: Array.from(new Set([...state.sent, ...ids])), failures };
+}
+
+/**
+ * Schedule a retry for actions whose push failed. Only failures the server answered count towards
+ * the policy's attempts: an action it keeps rejecting is dropped, but one that can't reach it waits.
+ */
+export function recordActionFailure(
+  state: ActionOutboxState,
+  ids: string[],
+  error: { message?: string; code?: string } | null,
+  policy: RetryPolicy = DEFAULT_RETRY_POLICY,
+  now: number = Date.now()
+): { state: ActionOutboxState; dropped: string[] } {
+  const rejected = Boolean(error?.code);
+  const failures = { ...state.failures };
+  const dropped: string[] = [];
+
+  for (const id of ids) {
+    const attempts = (failures[id]?.attempts ?? 0) + (rejected ? 1 : 0);
+    if (attempts >= policy.maxAttempts) {
+      delete failures[id];
+      dropped.push(id);
+      continue;
+    }
+    failures[id] = {
+      attempts,
+      next_attempt_at: new Date(now + backoffDelayMs(Math.max(1, attempts), policy)).toISOString(),
+      last_error: error?.message ?? 'Unknown error',
+    };
+  }
+  return { state: { ...state, failures, dropped: [...state.dropped, ...dropped] }, dropped };
+}
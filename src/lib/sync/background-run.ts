@@ -0,0 +1,89 @@
+/**
+ * Background Sync Runs
+ *
+ * What a background sync run did, kept for Settings, and which task notifications
+ * a run's changes invalidated.
+ */
+
+import type { Task } from '../tasks/model';
+import type { SolutionSyncDiff } from './solution-delta';
+
+export const BACKGROUND_SYNC_TASK = 'skedai-background-sync';
+// The OS treats this as a lower bound; iOS in particular runs background fetches when it sees fit
+export const BACKGROUND_SYNC_INTERVAL_S = 15 * 60;
+// Device-wide rather than per-user store: it describes the job, whichever account it ran for
+export const LAST_BACKGROUND_SYNC_KEY = '@skedai_background_sync_last_run';
+
+export type BackgroundSyncOutcome = 'new_data' | 'no_data' | 'failed';
+
+export interface BackgroundSyncRun {
+  started_at: string; // ISO string
+  finished_at: string; // ISO string
+  outcome: BackgroundSyncOutcome;
+  solutions_changed: number; // tasks the solution sync added, moved, removed or archived
+  tasks_changed: number; // tasks whose notifications had to change
+  errors: string[];
+}
+
+// Sync results that mean there was nothing to do, not that something went wrong
+const NOTHING_TO_SYNC = ['Sync already in progress', 'Sync throttled', 'No current model', 'Push already in progress', 'Offline'];
+
+// Fields a task's scheduled notifications are built from
+const NOTIFIED_FIELDS: (keyof Task)[] = ['name', 'reminder_at', 'due_at', 'deleted_at'];
+
+export function isSyncFailure(error: string | undefined): boolean {
+  return !!error && !NOTHING_TO_SYNC.includes(error);
+}
+
+export function parseBackgroundSyncRun(stored: string | null): BackgroundSyncRun | null {
+  try {
+    const parsed = stored ? JSON.parse(stored) : null;
+    if (!parsed || typeof parsed.finished_at !== 'string' || typeof parsed.outcome !== 'string') return null;
+    return { solutions_changed: 0, tasks_changed: 0, ...parsed, errors: Array.isArray(parsed.errors) ? parsed.errors : [] };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Compare the task list before and after a sync: tasks whose notifications are out of date
+ * need them rescheduled, and tasks that were deleted or are gone need them cancelled.
+ */
+export function notificationChanges(before: Task[], after: Task[]): { reschedule: Task[]; cancel: string[] } {
+  const previous = new Map(before.map(task => [task.id, task]));
+  const current = new Set(after.map(task => task.id));
+  const reschedule: Task[] = [];
+  const cancel: string[] = before.filter(task => !current.has(task.id)).map(task => task.id);
+
+  for (const task of after) {
+    const old = previous.get(task.id);
+    if (old && NOTIFIED_FIELDS.every(field => old[field] === task[field])) continue;
+    if (task.deleted_at) {
+      cancel.push(task.id);
+    } else {
+      reschedule.push(task);
+    }
+  }
+  return { reschedule, cancel };
+}
+
+/**
+ * Notification changes for what a solution sync did to the schedule: tasks it added or moved need
+ * theirs rescheduled, and tasks it removed, couldn't place or archived need them cancelled.
+ * `scheduled` is the schedule after the sync; an added or moved task no longer on it is cancelled.
+ */
+export function solutionNotificationChanges(diff: SolutionSyncDiff, scheduled: Task[]): { reschedule: Task[]; cancel: string[] } {
+  const current = new Map(scheduled.map(task => [task.id, task]));
+  const reschedule: Task[] = [];
+  const cancel: string[] = [...diff.removed, ...diff.unscheduled, ...diff.archived].map(entry => entry.id);
+
+  for (const { id } of [...diff.added, ...diff.moved]) {
+    const task = current.get(id);
+    if (task && !task.deleted_at) {
+      reschedule.push(task);
+    } else {
+      cancel.push(id);
+    }
+  }
+  return { reschedule, cancel };
+}
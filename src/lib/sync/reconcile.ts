@@ -0,0 +1,84 @@
+/**
+ * Solution Reconciliation
+ *
+ * Finds synced tasks the active solution no longer contains (the solver dropped them,
+ * or the current model changed) and decides what happens to each locally.
+ */
+
+import type { InternalDBTransaction, InternalTask } from '../internal-db';
+
+// InternalDB meta key holding RetainedTaskStates, by task id
+export const RETAINED_STATE_META_KEY = 'retained_task_state';
+// Most tasks dropped for good never come back; only the most recently dropped are remembered
+const MAX_RETAINED_STATES = 200;
+
+// What the user set on a task that the solver's output doesn't carry
+export type RetainedTaskState = Partial<Pick<InternalTask, 'colorLabel' | 'created_at' | 'completed_at'>>;
+
+export interface ReconciliationPlan {
+  archive: InternalTask[]; // finished: kept as history, with their completion
+  remove: InternalTask[]; // not started: taken off the schedule
+  keep: InternalTask[]; // in progress or paused: left alone until the user finishes them
+}
+
+const FINISHED_STATUSES: InternalTask['status'][] = ['completed', 'cancelled', 'failed'];
+const ACTIVE_STATUSES: InternalTask['status'][] = ['in_progress', 'paused'];
+
+export function parseRetainedStates(stored: string | null): Map<string, RetainedTaskState> {
+  try {
+    const parsed = stored ? JSON.parse(stored) : null;
+    return new Map(parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? Object.entries(parsed) : []);
+  } catch {
+    return new Map();
+  }
+}
+
+export function serializeRetainedStates(retained: Map<string, RetainedTaskState>): string {
+  return JSON.stringify(Object.fromEntries(Array.from(retained).slice(-MAX_RETAINED_STATES)));
+}
+
+/**
+ * Split the synced tasks missing from the active solution by what should happen to them.
+ * Tasks never synced from a solver (no model_id) are the user's own and are never stale.
+ */
+export function planReconciliation(tasks: InternalTask[], activeTaskIds: Set<string>): ReconciliationPlan {
+  const plan: ReconciliationPlan = { archive: [], remove: [], keep: [] };
+  for (const task of tasks) {
+    if (!task.model_id || activeTaskIds.has(task.id)) continue;
+
+    if (task.completed_at || FINISHED_STATUSES.includes(task.status)) {
+      plan.archive.push(task);
+    } else if (ACTIVE_STATUSES.includes(task.status)) {
+      plan.keep.push(task);
+    } else {
+      plan.remove.push(task);
+    }
+  }
+  return plan;
+}
+
+// Null when the user never touched the task, so there is nothing worth keeping
+export function retainedStateOf(task: InternalTask): RetainedTaskState | null {
+  if (!task.colorLabel || task.colorLabel === 'none') return null;
+  return { colorLabel: task.colorLabel, created_at: task.created_at };
+}
+
+/**
+ * Take the plan's `remove` tasks off the schedule on `tx`, without tombstones so the solver can place them again.
+ * Their user-owned state goes into `retained` (updated in place), to be restored if that happens.
+ * @returns The tasks removed
+ */
+export function removeStaleTasks(
+  tx: InternalDBTransaction,
+  tasks: InternalTask[],
+  retained: Map<string, RetainedTaskState>
+): InternalTask[] {
+  return tasks.filter(task => {
+    if (!tx.evictTask(task.id)) return false;
+    const state = retainedStateOf(task);
+    if (state) {
+      retained.set(task.id, state);
+    }
+    return true;
+  });
+}
@@ -0,0 +1,140 @@
+/**
+ * Solution Delta
+ *
+ * Applies the task_solution rows that changed since the last sync to InternalDB,
+ * and works out what that did to the local schedule.
+ */
+
+import type { InternalDBTransaction, InternalTask } from '../internal-db';
+import { SupabaseTaskRow, SupabaseTaskSolutionRow, fromTaskSolution, toInternalTask } from '../tasks/adapters';
+import { isUnplaced } from '../tasks/model';
+import { RetainedTaskState } from './reconcile';
+
+// InternalDB meta key holding SolutionSyncState
+export const SOLUTION_SYNC_META_KEY = 'solution_sync_state';
+
+// A task_solution row as fetched by the delta query
+export type ChangedSolutionRow = SupabaseTaskSolutionRow & { updated_at: string };
+
+export interface SolutionSyncState {
+  // Per solution model: updated_at of the newest row applied. Rows at or after it are refetched.
+  marks: Record<string, string>;
+}
+
+export interface SolutionDiffEntry {
+  id: string;
+  name: string;
+}
+
+export interface SolutionMove extends SolutionDiffEntry {
+  from: { start_time: string; end_time: string };
+  to: { start_time: string; end_time: string };
+}
+
+// What a sync changed on the local schedule
+export interface SolutionSyncDiff {
+  added: SolutionDiffEntry[];
+  moved: SolutionMove[];
+  removed: SolutionDiffEntry[]; // the solver no longer places them
+  unscheduled: SolutionDiffEntry[]; // the solver couldn't place them this time; they keep their last slot
+  archived: SolutionDiffEntry[]; // finished tasks the solver dropped, kept as history
+}
+
+export function emptySolutionDiff(): SolutionSyncDiff {
+  return { added: [], moved: [], removed: [], unscheduled: [], archived: [] };
+}
+
+export function isEmptySolutionDiff(diff: SolutionSyncDiff): boolean {
+  return diff.added.length === 0 && diff.moved.length === 0 && diff.removed.length === 0 &&
+    diff.unscheduled.length === 0 && diff.archived.length === 0;
+}
+
+export function parseSolutionSyncState(stored: string | null): SolutionSyncState {
+  try {
+    const parsed = stored ? JSON.parse(stored) : null;
+    return parsed && typeof parsed.marks === 'object' && parsed.marks ? { marks: parsed.marks } : { marks: {} };
+  } catch {
+    return { marks: {} };
+  }
+}
+
+// The state after applying `rows`: the model's mark moves to the newest row seen, never backwards
+export function advanceSolutionMark(state: SolutionSyncState, modelId: string, rows: ChangedSolutionRow[]): SolutionSyncState {
+  const newest = rows.reduce<string | undefined>(
+    (mark, row) => (!mark || row.updated_at > mark ? row.updated_at : mark),
+    state.marks[modelId]
+  );
+  return newest ? { marks: { ...state.marks, [modelId]: newest } } : state;
+}
+
+const isPlacementChanged = (before: InternalTask, after: InternalTask) =>
+  before.start_time !== after.start_time || before.end_time !== after.end_time;
+
+const isSolverStateChanged = (before: InternalTask, after: InternalTask) =>
+  isPlacementChanged(before, after) ||
+  before.name !== after.name ||
+  before.model_id !== after.model_id ||
+  before.solver_status !== after.solver_status ||
+  before.priority !== after.priority ||
+  (before.constraints ?? []).join('\n') !== (after.constraints ?? []).join('\n');
+
+/**
+ * Stage the changed solution rows on `tx`.
+ * Tasks the user deleted (tombstoned) or that were archived are left alone; rows whose placement
+ * is unchanged are not rewritten, so refetching the row at the high-water mark is harmless.
+ * A task the solver couldn't place keeps its last slot, marked infeasible or unscheduled; one it
+ * never placed has no slot to show and is skipped until it gets one.
+ * `retained` (updated in place) holds user-owned state of tasks the solver dropped earlier; a task
+ * placed again gets it back.
+ */
+export function applySolutionDelta(
+  tx: InternalDBTransaction,
+  solutions: SupabaseTaskSolutionRow[],
+  taskRows: Map<string, SupabaseTaskRow>,
+  { skipIds = new Set<string>(), retained = new Map<string, RetainedTaskState>() }: {
+    skipIds?: Set<string>;
+    retained?: Map<string, RetainedTaskState>;
+  } = {}
+): SolutionSyncDiff {
+  const diff = emptySolutionDiff();
+  const seen = new Set<string>();
+
+  for (const solution of solutions) {
+    if (seen.has(solution.task_id) || skipIds.has(solution.task_id) || tx.isTaskDeleted(solution.task_id)) continue;
+    seen.add(solution.task_id);
+
+    const existing = tx.getTaskById(solution.task_id);
+    const taskRow = taskRows.get(solution.task_id);
+    if (!taskRow) {
+      console.warn('[TaskSync] Task not found for task_id:', solution.task_id);
+      continue;
+    }
+
+    const scheduled = fromTaskSolution(solution, taskRow, existing ?? retained.get(solution.task_id));
+    if (!scheduled) continue;
+    retained.delete(solution.task_id);
+
+    const incoming = toInternalTask(scheduled);
+    if (existing && !isSolverStateChanged(existing, { ...existing, ...incoming })) continue;
+
+    const saved = tx.saveTask(incoming, true);
+    if (!saved) continue;
+
+    if (!existing) {
+      diff.added.push({ id: saved.id, name: saved.name });
+    } else if (isUnplaced(saved)) {
+      if (!isUnplaced(existing)) {
+        diff.unscheduled.push({ id: saved.id, name: saved.name });
+      }
+    } else if (isPlacementChanged(existing, saved)) {
+      diff.moved.push({
+        id: saved.id,
+        name: saved.name,
+        from: { start_time: existing.start_time, end_time: existing.end_time },
+        to: { start_time: saved.start_time, end_time: saved.end_time },
+      });
+    }
+  }
+
+  return diff;
+}
@@ -0,0 +1,80 @@
+/**
+ * Solver Jobs
+ *
+ * A schedule request is solved server-side as a model: `create_schedule_from_llm` inserts it and the
+ * solver moves it through its statuses. These helpers read a model row as a job the client can follow.
+ */
+
+export type SolverJobStatus = 'queued' | 'solving' | 'processed' | 'failed';
+
+export interface SolverJob {
+  model_id: string;
+  status: SolverJobStatus;
+  infeasible: boolean; // failed because the constraints can't all be met
+  error: string | null;
+  started_at: string; // ISO string, when the client started following it
+  updated_at: string; // ISO string
+}
+
+const SOLVING_STATUSES = ['solving', 'processing', 'running'];
+const FAILED_STATUSES = ['failed', 'error'];
+const INFEASIBLE_STATUSES = ['infeasible', 'unsatisfiable'];
+
+export function newSolverJob(modelId: string, now: Date = new Date()): SolverJob {
+  return {
+    model_id: modelId,
+    status: 'queued',
+    infeasible: false,
+    error: null,
+    started_at: now.toISOString(),
+    updated_at: now.toISOString(),
+  };
+}
+
+// The model the RPC queued, when the backend says; older backends only move `current_model`
+export function modelIdFromScheduleResult(result: any): string | null {
+  const modelId = result?.model_id ?? result?.job_id;
+  return typeof modelId === 'string' && modelId ? modelId : null;
+}
+
+export function isSolverJobDone(job: SolverJob): boolean {
+  return job.status === 'processed' || job.status === 'failed';
+}
+
+/**
+ * Fold a `model` row into the job following it
+ * Rows for other models and updates after the job has finished leave it as it is
+ */
+export function applyModelUpdate(job: SolverJob, row: any, now: Date = new Date()): SolverJob {
+  if (!row || row.model_id !== job.model_id || isSolverJobDone(job)) return job;
+
+  const status = String(row.status ?? '').toLowerCase();
+  const error = row.error ?? row.error_message ?? row.status_message ?? null;
+  const updated = { ...job, updated_at: now.toISOString() };
+
+  if (status === 'processed') return { ...updated, status: 'processed' };
+  if (INFEASIBLE_STATUSES.includes(status)) {
+    return { ...updated, status: 'failed', infeasible: true, error };
+  }
+  if (FAILED_STATUSES.includes(status)) return { ...updated, status: 'failed', error };
+  if (SOLVING_STATUSES.includes(status)) return { ...updated, status: 'solving' };
+  return job;
+}
+
+export function describeSolverJob(job: SolverJob): string {
+  switch (job.status) {
+    case 'queued':
+      return 'Waiting for the scheduler…';
+    case 'solving':
+      return 'Fitting your tasks into the schedule…';
+    case 'processed':
+      return 'Schedule updated';
+    case 'failed':
+      if (job.infeasible) {
+        return job.error
+          ? `These tasks can't all be scheduled: ${job.error}`
+          : "These tasks can't all be scheduled. Try loosening a time window or duration.";
+      }
+      return job.error ? `Scheduling failed: ${job.error}` : 'Scheduling failed. Please try again.';
+  }
+}
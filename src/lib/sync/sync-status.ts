@@ -0,0 +1,89 @@
+/**
+ * Sync Status
+ *
+ * The combined state of every sync path (solution sync, offline task sync, action push, realtime
+ * channel) and how it reduces to the one word the header badge shows.
+ */
+
+import type { RealtimeHealth } from './RealtimeManager';
+
+export type SyncSource = 'solutions' | 'offline' | 'actions';
+export type SyncPhase = 'synced' | 'syncing' | 'offline' | 'error';
+export type SyncRunOutcome = 'success' | 'skipped' | 'failed';
+
+export const SYNC_SOURCE_LABELS: Record<SyncSource, string> = {
+  solutions: 'Schedule',
+  offline: 'Task edits',
+  actions: 'Task actions',
+};
+
+export interface SyncRunResult {
+  outcome: SyncRunOutcome;
+  summary?: string;
+  error?: string;
+}
+
+export interface SyncHistoryEntry extends SyncRunResult {
+  id: string;
+  source: SyncSource;
+  started_at: string; // ISO string
+  finished_at: string; // ISO string
+}
+
+export interface SyncStatusState {
+  online: boolean;
+  running: SyncSource[]; // one entry per run in progress
+  last_success_at: string | null; // ISO string, any source
+  pending_ops: number; // offline edits waiting to be pushed
+  quarantined_ops: number; // offline edits that kept failing
+  conflicts: number;
+  realtime: RealtimeHealth | null;
+  history: SyncHistoryEntry[]; // newest first
+}
+
+export const MAX_SYNC_HISTORY = 30;
+// A channel that keeps failing to reconnect counts as an error; a blip doesn't
+const REALTIME_ERROR_ATTEMPTS = 3;
+
+export function initialSyncStatus(): SyncStatusState {
+  return {
+    online: true,
+    running: [],
+    last_success_at: null,
+    pending_ops: 0,
+    quarantined_ops: 0,
+    conflicts: 0,
+    realtime: null,
+    history: [],
+  };
+}
+
+// The most recent run of each source that ended in failure and hasn't been followed by a success
+export function currentFailures(state: SyncStatusState): SyncHistoryEntry[] {
+  const latest = new Map<SyncSource, SyncHistoryEntry>();
+  for (const entry of state.history) {
+    if (entry.outcome !== 'skipped' && !latest.has(entry.source)) latest.set(entry.source, entry);
+  }
+  return Array.from(latest.values()).filter(entry => entry.outcome === 'failed');
+}
+
+export function syncPhase(state: SyncStatusState): SyncPhase {
+  if (state.running.length > 0) return 'syncing';
+  if (!state.online) return 'offline';
+  const realtimeFailing = state.realtime?.status === 'reconnecting'
+    && state.realtime.reconnect_attempts >= REALTIME_ERROR_ATTEMPTS;
+  if (currentFailures(state).length > 0 || state.quarantined_ops > 0 || realtimeFailing) return 'error';
+  return 'synced';
+}
+
+export function recordSyncRun(state: SyncStatusState, entry: SyncHistoryEntry): SyncStatusState {
+  const running = [...state.running];
+  const index = running.indexOf(entry.source);
+  if (index >= 0) running.splice(index, 1);
+  return {
+    ...state,
+    running,
+    last_success_at: entry.outcome === 'success' ? entry.finished_at : state.last_success_at,
+    history: [entry, ...state.history].slice(0, MAX_SYNC_HISTORY),
+  };
+}
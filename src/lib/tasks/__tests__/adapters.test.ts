@@ -0,0 +1,191 @@
+import type { InternalTask } from '../../internal-db'
+import type { OfflineTask } from '../../offline/database'
+import {
+  fromInternalTask,
+  fromOfflineTask,
+  fromSupabaseTask,
+  fromTaskSolution,
+  priorityFromRules,
+  rulesWithChanges,
+  solverStatusOf,
+  toInternalTask,
+  toOfflineTask,
+  toSupabaseTask,
+} from '../adapters'
+import { toTaskPriority, toTaskStatus } from '../model'
+
+const internalTask = (overrides: Partial<InternalTask> = {}): InternalTask => ({
+  id: 'task-1',
+  name: 'Write report',
+  start_time: '2024-03-01T09:00:00.000Z',
+  end_time: '2024-03-01T10:00:00.000Z',
+  duration: 3600,
+  status: 'paused',
+  priority: 'high',
+  colorLabel: 'work',
+  paused_at: '2024-03-01T09:30:00.000Z',
+  reschedule_count: 2,
+  model_id: 'model-1',
+  created_at: '2024-02-01T00:00:00.000Z',
+  updated_at: '2024-02-02T00:00:00.000Z',
+  ...overrides,
+})
+
+const offlineTask = (overrides: Partial<OfflineTask> = {}): OfflineTask => ({
+  id: 'remote-1',
+  task_id: 'remote-1',
+  local_id: 'local-1',
+  user_id: 'user-1',
+  name: 'Call the bank',
+  task_json: { notes: 'ask about fees' },
+  status: 'in_progress',
+  start_time: '2024-03-01T09:00:00.000Z',
+  end_time: '2024-03-01T09:15:00.000Z',
+  due_at: '2024-03-02T00:00:00.000Z',
+  reminder_at: '2024-03-01T08:45:00.000Z',
+  priority: 'low',
+  sync_status: 'pending',
+  created_at: '2024-02-01T00:00:00.000Z',
+  updated_at: '2024-02-02T00:00:00.000Z',
+  ...overrides,
+})
+
+describe('task model', () => {
+  test('unknown statuses and priorities fall back', () => {
+    expect(toTaskStatus('OPTIMAL')).toBe('pending')
+    expect(toTaskStatus(undefined, 'created')).toBe('created')
+    expect(toTaskStatus('cancelled')).toBe('cancelled')
+    expect(toTaskPriority('urgent')).toBe('medium')
+    expect(toTaskPriority('low')).toBe('low')
+  })
+})
+
+describe('storage adapters', () => {
+  test('an InternalTask survives a round trip through the domain model', () => {
+    const stored = internalTask()
+    const task = fromInternalTask(stored)
+
+    expect(task.remote_id).toBe('task-1')
+    expect(toInternalTask(task)).toEqual(stored)
+  })
+
+  test('tasks created on the device have no remote id', () => {
+    expect(fromInternalTask(internalTask({ model_id: undefined })).remote_id).toBeUndefined()
+  })
+
+  test('toInternalTask leaves out unset fields so an upsert keeps the stored ones', () => {
+    const stored = toInternalTask(fromInternalTask(internalTask({ paused_at: undefined })))
+    expect(Object.keys(stored)).not.toContain('paused_at')
+  })
+
+  test('an OfflineTask survives a round trip, keyed by its local id', () => {
+    const stored = offlineTask()
+    const task = fromOfflineTask(stored)
+
+    expect(task).toMatchObject({ id: 'local-1', remote_id: 'remote-1', duration: 900, details: { notes: 'ask about fees' } })
+    expect(toOfflineTask(task)).toEqual(stored)
+  })
+
+  test('a task not yet pushed is stored under its local id', () => {
+    const task = fromOfflineTask(offlineTask({ id: 'local-1', task_id: undefined }))
+    expect(toOfflineTask(task)).toMatchObject({ id: 'local-1', local_id: 'local-1', task_id: undefined })
+  })
+})
+
+describe('Supabase adapters', () => {
+  test('task rows carry their times in task_json and normalize status and priority', () => {
+    const task = fromSupabaseTask({
+      task_id: 'remote-1',
+      user_id: 'user-1',
+      local_id: null,
+      name: 'Plan trip',
+      task_json: { start_time: '2024-03-01T09:00:00.000Z', end_time: '2024-03-01T11:00:00.000Z' },
+      status: 'something-new',
+      priority: null,
+      due_at: null,
+      created_at: '2024-02-01T00:00:00.000Z',
+      updated_at: '2024-02-02T00:00:00.000Z',
+    })
+
+    expect(task).toMatchObject({
+      id: 'remote_remote-1',
+      remote_id: 'remote-1',
+      status: 'pending',
+      priority: 'medium',
+      start_time: '2024-03-01T09:00:00.000Z',
+      duration: 7200,
+      sync_status: 'synced',
+    })
+    expect(task.due_at).toBeUndefined()
+  })
+
+  test('pushed rows put the times back into task_json', () => {
+    const row = toSupabaseTask(fromOfflineTask(offlineTask()))
+    expect(row.task_json).toEqual({
+      notes: 'ask about fees',
+      start_time: '2024-03-01T09:00:00.000Z',
+      end_time: '2024-03-01T09:15:00.000Z',
+    })
+    expect(row).toMatchObject({ name: 'Call the bank', status: 'in_progress', priority: 'low' })
+  })
+
+  test('a solution becomes a scheduled task, keeping what the user set locally', () => {
+    const existing = internalTask({ id: 'remote-1', colorLabel: 'health', completed_at: '2024-03-01T10:00:00.000Z' })
+    const task = fromTaskSolution(
+      { task_id: 'remote-1', model_id: 'model-2', solution_json: { start: '12', end: 24 } },
+      { task_id: 'remote-1', name: 'Gym' },
+      existing
+    )
+
+    expect(task).toMatchObject({
+      id: 'remote-1',
+      name: 'Gym',
+      start_time: '2020-01-01T01:00:00.000Z',
+      end_time: '2020-01-01T02:00:00.000Z',
+      duration: 3600,
+      colorLabel: 'health',
+      completed_at: '2024-03-01T10:00:00.000Z',
+      created_at: existing.created_at,
+      model_id: 'model-2',
+    })
+  })
+
+  test('priority and constraints come from the task rules, whatever shape they are stored in', () => {
+    const task = fromTaskSolution(
+      { task_id: 't', model_id: 'm', solution_json: { start: 12, end: 24, status: 'OPTIMAL' } },
+      { task_id: 't', name: 'Gym', rules: JSON.stringify({ priority: 'above normal', constraints: ['duration == 1h', 7] }) }
+    )
+
+    expect(task).toMatchObject({ priority: 'high', solver_status: 'optimal', constraints: ['duration == 1h'] })
+    expect(priorityFromRules(['start_time >= 09:00'], 'below_normal')).toBe('low')
+    expect(priorityFromRules({ priority: 'normal' })).toBe('medium')
+    expect(priorityFromRules('not json')).toBe('medium')
+  })
+
+  test('edited rules keep the shape they were stored in', () => {
+    expect(rulesWithChanges(['duration == 1h'], { constraints: ['duration == 2h'] })).toEqual(['duration == 2h'])
+    expect(rulesWithChanges('["duration == 1h"]', { priority: 'high' })).toEqual({ constraints: ['duration == 1h'], priority: 'high' })
+    expect(rulesWithChanges({ priority: 'critical', constraints: ['duration == 1h'] }, { constraints: [] }))
+      .toEqual({ priority: 'critical', constraints: [] })
+    expect(priorityFromRules(rulesWithChanges(null, { priority: 'medium' }))).toBe('medium')
+  })
+
+  test('solver results map onto feasibility', () => {
+    const row = (solution_json: { start?: number; end?: number; status?: string } | null) => ({ task_id: 't', model_id: 'm', solution_json })
+
+    expect(solverStatusOf(row({ start: 1, end: 2, status: 'FEASIBLE' }))).toBe('feasible')
+    expect(solverStatusOf(row({ start: 1, end: 2 }))).toBe('feasible')
+    expect(solverStatusOf(row({ status: 'INFEASIBLE' }))).toBe('infeasible')
+    expect(solverStatusOf(row({ status: 'OPTIMAL' }))).toBe('unscheduled')
+    expect(solverStatusOf(row(null))).toBe('unscheduled')
+  })
+
+  test('a task the solver could not place keeps its last slot, and one never placed is ignored', () => {
+    const existing = internalTask({ id: 't', status: 'in_progress' })
+    const kept = fromTaskSolution({ task_id: 't', model_id: 'm', solution_json: { status: 'INFEASIBLE' } }, { task_id: 't', name: 'x' }, existing)
+
+    expect(kept).toMatchObject({ start_time: existing.start_time, end_time: existing.end_time, status: 'in_progress', solver_status: 'infeasible' })
+    expect(fromTaskSolution({ task_id: 't', model_id: 'm', solution_json: { start: 3 } }, { task_id: 't', name: 'x' })).toBeNull()
+    expect(fromTaskSolution({ task_id: 't', model_id: 'm', solution_json: null }, { task_id: 't', name: 'x' })).toBeNull()
+  })
+})
@@ -0,0 +1,60 @@
+import AsyncStorage from '@react-native-async-storage/async-storage'
+import { AsyncStorageAdapter } from '../../db/async-storage-adapter'
+import { TaskRepository } from '../repository'
+
+// jest-setup mocks the singleton module; these tests need the real implementation
+const { InternalDB } = jest.requireActual('../../internal-db') as typeof import('../../internal-db')
+
+async function setup() {
+  const db = InternalDB.withAdapter(new AsyncStorageAdapter())
+  const stored = await db.addTask({
+    name: 'Workout',
+    start_time: '2024-03-04T16:00:00.000Z',
+    end_time: '2024-03-04T17:00:00.000Z',
+    duration: 3600,
+    status: 'pending',
+    priority: 'medium',
+    model_id: 'model-1',
+  })
+  return { db, repository: new TaskRepository(db), id: stored.id }
+}
+
+describe('TaskRepository', () => {
+  beforeEach(async () => {
+    await AsyncStorage.clear()
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  test('a status change on a scheduled task is stored and logged for the server', async () => {
+    const { db, repository, id } = await setup()
+    const [task] = await repository.getScheduledTasks()
+
+    await repository.setScheduledTaskStatus(task, 'completed', 'Completed at 5pm')
+
+    expect(await db.getTaskById(id)).toMatchObject({ status: 'completed', completed_at: expect.any(String) })
+    expect(await db.getAllActions()).toEqual([
+      expect.objectContaining({ action_type: 'task_completed', task_id: id, model_id: 'model-1', details: 'Completed at 5pm' }),
+    ])
+  })
+
+  test('starting a task can move it along with the status', async () => {
+    const { db, repository, id } = await setup()
+    const task = (await repository.getScheduledTask(id))!
+
+    await repository.setScheduledTaskStatus(task, 'in_progress', 'Started early', {
+      start_time: '2024-03-04T15:30:00.000Z',
+      end_time: '2024-03-04T16:30:00.000Z',
+    })
+
+    expect(await db.getTaskById(id)).toMatchObject({
+      status: 'in_progress',
+      start_time: '2024-03-04T15:30:00.000Z',
+      end_time: '2024-03-04T16:30:00.000Z',
+    })
+    expect((await db.getAllActions()).map(action => action.action_type)).toEqual(['task_started'])
+  })
+})
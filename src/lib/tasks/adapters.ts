@@ -0,0 +1,274 @@
+import type { InternalTask } from '../internal-db'
+import type { OfflineTask } from '../offline/database'
+import { intervalToISO } from '../time/intervals'
+import { ScheduledTask, SolverStatus, Task, TaskPriority, toTaskPriority, toTaskStatus } from './model'
+
+// A row of the Supabase `task` table, as selected by the sync services
+export interface SupabaseTaskRow {
+  task_id: string
+  user_id?: string
+  local_id?: string | null
+  name: string | null
+  task_type?: string | null
+  rules?: unknown
+  task_json?: Record<string, any> | null
+  status?: string | null
+  priority?: string | null
+  due_at?: string | null
+  reminder_at?: string | null
+  completed_at?: string | null
+  created_at?: string
+  updated_at?: string
+  deleted_at?: string | null
+}
+
+// A row of the Supabase `task_solution` table: one solver placement of a task
+export interface SupabaseTaskSolutionRow {
+  task_id: string
+  model_id: string
+  solution_json: { start?: number | string; end?: number | string; status?: string } | null
+}
+
+// The backend's seven-step priority scale, folded onto the local three steps
+const BACKEND_PRIORITIES: Record<string, TaskPriority> = {
+  optional: 'low',
+  low: 'low',
+  'below normal': 'low',
+  normal: 'medium',
+  medium: 'medium',
+  'above normal': 'high',
+  high: 'high',
+  critical: 'high',
+}
+
+// Solver result codes as they appear in solution_json.status
+const SOLVER_RESULTS: Record<string, SolverStatus> = {
+  optimal: 'optimal',
+  feasible: 'feasible',
+  scheduled: 'feasible',
+  infeasible: 'infeasible',
+  unscheduled: 'unscheduled',
+  not_scheduled: 'unscheduled',
+}
+
+const orUndefined = <T>(value: T | null | undefined): T | undefined => value ?? undefined
+
+// Drop keys whose value is undefined, so saving the record as an upsert doesn't erase stored fields
+function definedOnly<T extends object>(record: T): T {
+  return Object.fromEntries(Object.entries(record).filter(([, value]) => value !== undefined)) as T
+}
+
+function durationBetween(startTime: string | undefined, endTime: string | undefined): number | undefined {
+  if (!startTime || !endTime) return undefined
+  return Math.max(0, Math.floor((new Date(endTime).getTime() - new Date(startTime).getTime()) / 1000))
+}
+
+// task.rules is either the constraint list itself or an object holding it next to the priority,
+// possibly still JSON-encoded
+function readRules(rules: unknown): { priority?: unknown; constraints?: unknown } {
+  let value = rules
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value)
+    } catch {
+      return {}
+    }
+  }
+  if (Array.isArray(value)) return { constraints: value }
+  return value && typeof value === 'object' ? value as { priority?: unknown; constraints?: unknown } : {}
+}
+
+export function priorityFromRules(rules: unknown, fallback?: string | null): TaskPriority {
+  const priority = readRules(rules).priority ?? fallback
+  return typeof priority === 'string'
+    ? BACKEND_PRIORITIES[priority.trim().toLowerCase().replace(/_/g, ' ')] ?? 'medium'
+    : 'medium'
+}
+
+// The backend's name for a local priority: the middle of each folded range
+export function toBackendPriority(priority: TaskPriority): string {
+  return priority === 'medium' ? 'normal' : priority
+}
+
+/**
+ * task.rules with the priority and/or constraints replaced, in the shape it was stored in:
+ * a bare constraint list stays a list unless a priority has to go in next to it
+ */
+export function rulesWithChanges(rules: unknown, changes: { priority?: TaskPriority; constraints?: string[] }): unknown {
+  const current = readRules(rules)
+  const constraints = changes.constraints ?? current.constraints ?? []
+  const storedAsList = Array.isArray(rules) || (typeof rules === 'string' && rules.trim().startsWith('['))
+  if (storedAsList && !changes.priority) return constraints
+  return {
+    ...current,
+    constraints,
+    ...(changes.priority ? { priority: toBackendPriority(changes.priority) } : {}),
+  }
+}
+
+export function constraintsFromRules(rules: unknown): string[] {
+  const { constraints } = readRules(rules)
+  return Array.isArray(constraints)
+    ? constraints.filter((constraint): constraint is string => typeof constraint === 'string' && constraint.trim() !== '')
+    : []
+}
+
+// A placement without a recognised result code still counts as feasible; no placement is unscheduled
+// unless the solver said it was infeasible
+export function solverStatusOf(solution: SupabaseTaskSolutionRow): SolverStatus {
+  const placement = solution.solution_json
+  const result = typeof placement?.status === 'string' ? SOLVER_RESULTS[placement.status.toLowerCase()] : undefined
+  if (placement?.start && placement.end) return result ?? 'feasible'
+  return result === 'infeasible' ? 'infeasible' : 'unscheduled'
+}
+
+// InternalDB ids are the backend task ids for tasks synced from a solver model
+export function fromInternalTask(task: InternalTask): ScheduledTask {
+  return { ...task, remote_id: task.model_id ? task.id : undefined }
+}
+
+export function toInternalTask(task: ScheduledTask): InternalTask {
+  return definedOnly({
+    id: task.id,
+    name: task.name,
+    start_time: task.start_time,
+    end_time: task.end_time,
+    duration: task.duration,
+    status: task.status,
+    priority: task.priority,
+    colorLabel: task.colorLabel,
+    completed_at: task.completed_at,
+    paused_at: task.paused_at,
+    cancelled_at: task.cancelled_at,
+    failed_at: task.failed_at,
+    reschedule_count: task.reschedule_count,
+    last_reschedule_at: task.last_reschedule_at,
+    original_start_time: task.original_start_time,
+    model_id: task.model_id,
+    solver_status: task.solver_status,
+    constraints: task.constraints,
+    created_at: task.created_at,
+    updated_at: task.updated_at,
+  })
+}
+
+export function fromOfflineTask(task: OfflineTask): Task {
+  return {
+    id: task.local_id,
+    remote_id: task.task_id,
+    user_id: task.user_id,
+    name: task.name,
+    status: toTaskStatus(task.status),
+    priority: toTaskPriority(task.priority),
+    start_time: task.start_time,
+    end_time: task.end_time,
+    duration: durationBetween(task.start_time, task.end_time),
+    due_at: task.due_at,
+    reminder_at: task.reminder_at,
+    completed_at: task.completed_at,
+    details: task.task_json,
+    sync_status: task.sync_status,
+    created_at: task.created_at,
+    updated_at: task.updated_at,
+    deleted_at: task.deleted_at,
+  }
+}
+
+// Fields the offline store has no column for (color label, reschedule tracking...) are not kept
+export function toOfflineTask(task: Task, userId: string = task.user_id ?? ''): OfflineTask {
+  return {
+    id: task.remote_id ?? task.id,
+    task_id: task.remote_id,
+    local_id: task.id,
+    user_id: task.user_id ?? userId,
+    name: task.name,
+    task_json: task.details,
+    status: task.status,
+    start_time: task.start_time,
+    end_time: task.end_time,
+    due_at: task.due_at,
+    reminder_at: task.reminder_at,
+    completed_at: task.completed_at,
+    priority: task.priority,
+    sync_status: task.sync_status ?? 'pending',
+    created_at: task.created_at,
+    updated_at: task.updated_at,
+    deleted_at: task.deleted_at,
+  }
+}
+
+// Start and end times travel inside task_json, the table has no columns for them
+export function fromSupabaseTask(row: SupabaseTaskRow): Task {
+  const details = row.task_json ?? {}
+  const now = new Date().toISOString()
+  return {
+    id: row.local_id || `remote_${row.task_id}`,
+    remote_id: row.task_id,
+    user_id: row.user_id,
+    name: row.name || 'Unnamed Task',
+    status: toTaskStatus(row.status),
+    priority: toTaskPriority(row.priority),
+    start_time: details.start_time,
+    end_time: details.end_time,
+    duration: durationBetween(details.start_time, details.end_time),
+    due_at: orUndefined(row.due_at),
+    reminder_at: orUndefined(row.reminder_at),
+    completed_at: orUndefined(row.completed_at),
+    details: orUndefined(row.task_json),
+    sync_status: 'synced',
+    created_at: row.created_at ?? now,
+    updated_at: row.updated_at ?? now,
+    deleted_at: orUndefined(row.deleted_at),
+  }
+}
+
+// The columns a client writes when pushing a task
+export function toSupabaseTask(task: Task): Partial<SupabaseTaskRow> {
+  return {
+    name: task.name,
+    task_json: { ...(task.details || {}), start_time: task.start_time, end_time: task.end_time },
+    status: task.status,
+    priority: task.priority,
+    due_at: task.due_at,
+    reminder_at: task.reminder_at,
+    completed_at: task.completed_at,
+    updated_at: task.updated_at,
+  }
+}
+
+/**
+ * Build the scheduled task for a solver placement.
+ * State the user owns (progress, color label, completion, creation time) is carried over from the local copy,
+ * or from what was kept when the solver last dropped the task. When the solver couldn't place the
+ * task, the local copy keeps its last slot and is marked with the solver status instead.
+ * @returns null when there is neither a usable start/end nor a previous slot
+ */
+export function fromTaskSolution(
+  solution: SupabaseTaskSolutionRow,
+  taskRow: SupabaseTaskRow,
+  existing?: Partial<Pick<InternalTask, 'status' | 'colorLabel' | 'created_at' | 'completed_at' | 'start_time' | 'end_time'>>
+): ScheduledTask | null {
+  const placement = solution.solution_json
+  const placed = !!placement?.start && !!placement.end
+  const startTime = placed ? intervalToISO(parseInt(String(placement!.start), 10)) : existing?.start_time
+  const endTime = placed ? intervalToISO(parseInt(String(placement!.end), 10)) : existing?.end_time
+  if (!startTime || !endTime) return null
+
+  return {
+    id: solution.task_id,
+    remote_id: solution.task_id,
+    name: taskRow.name || 'Unnamed Task',
+    status: existing?.status ?? 'pending',
+    priority: priorityFromRules(taskRow.rules, taskRow.priority),
+    start_time: startTime,
+    end_time: endTime,
+    duration: durationBetween(startTime, endTime) ?? 0,
+    colorLabel: existing?.colorLabel || 'none',
+    created_at: existing?.created_at || new Date().toISOString(),
+    updated_at: new Date().toISOString(),
+    completed_at: existing?.completed_at,
+    model_id: solution.model_id,
+    solver_status: solverStatusOf(solution),
+    constraints: constraintsFromRules(taskRow.rules),
+  }
+}
@@ -0,0 +1,76 @@
+import type { ColorLabelKey } from '@/constants/ColorLabels'
+
+// Every status a task can have, whichever store or table it came from.
+// `created` is only seen on tasks the backend hasn't scheduled yet.
+export const TASK_STATUSES = ['created', 'pending', 'in_progress', 'paused', 'completed', 'cancelled', 'failed'] as const
+export type TaskStatus = typeof TASK_STATUSES[number]
+
+export const TASK_PRIORITIES = ['low', 'medium', 'high'] as const
+export type TaskPriority = typeof TASK_PRIORITIES[number]
+
+export type TaskSyncStatus = 'synced' | 'pending' | 'conflict'
+
+// How the solver placed a task in its latest run. `infeasible` and `unscheduled` tasks have no
+// current placement; locally they stay at the last slot they had, so the screens can flag them.
+export const SOLVER_STATUSES = ['optimal', 'feasible', 'infeasible', 'unscheduled'] as const
+export type SolverStatus = typeof SOLVER_STATUSES[number]
+
+/**
+ * The task domain model shared by TaskContext and the screens.
+ * Storage shapes (InternalTask, OfflineTask) and Supabase rows are converted to and from it
+ * in ./adapters, so a field or status added here only has to be mapped in one place.
+ */
+export interface Task {
+  id: string // local identity: the InternalDB id, or the offline store's local_id
+  remote_id?: string // Supabase task.task_id, once the backend knows the task
+  user_id?: string
+  name: string
+  status: TaskStatus
+  priority: TaskPriority
+  colorLabel?: ColorLabelKey
+  start_time?: string // ISO string
+  end_time?: string   // ISO string
+  duration?: number   // seconds
+  due_at?: string
+  reminder_at?: string
+  completed_at?: string
+  paused_at?: string
+  cancelled_at?: string
+  failed_at?: string
+  reschedule_count?: number
+  last_reschedule_at?: string
+  original_start_time?: string // scheduled start before any reschedules
+  model_id?: string // solver model the schedule came from
+  solver_status?: SolverStatus // absent on tasks the solver never saw
+  constraints?: string[] // the task's constraint strings, e.g. "duration == 1h"
+  details?: Record<string, any> // free-form task_json from the backend
+  sync_status?: TaskSyncStatus
+  created_at: string
+  updated_at: string
+  deleted_at?: string
+}
+
+// A task with a slot on the timeline, as the schedule and calendar screens show it
+export type ScheduledTask = Task & {
+  start_time: string
+  end_time: string
+  duration: number
+}
+
+export function isScheduled(task: Task): task is ScheduledTask {
+  return !!task.start_time && !!task.end_time && typeof task.duration === 'number'
+}
+
+// True for tasks whose slot is stale because the solver couldn't place them this time
+export function isUnplaced(task: Pick<Task, 'solver_status'>): boolean {
+  return task.solver_status === 'infeasible' || task.solver_status === 'unscheduled'
+}
+
+// Read a status from an untyped source (a backend row, an old record); unknown values fall back
+export function toTaskStatus(value: unknown, fallback: TaskStatus = 'pending'): TaskStatus {
+  return TASK_STATUSES.includes(value as TaskStatus) ? value as TaskStatus : fallback
+}
+
+export function toTaskPriority(value: unknown, fallback: TaskPriority = 'medium'): TaskPriority {
+  return TASK_PRIORITIES.includes(value as TaskPriority) ? value as TaskPriority : fallback
+}
@@ -0,0 +1,109 @@
+import { InternalAction, internalDB, InternalDB, InternalDBChangeListener } from '../internal-db'
+import { OfflineDatabase } from '../offline/database'
+import { ScheduledTask, Task } from './model'
+import { fromInternalTask, fromOfflineTask, toOfflineTask } from './adapters'
+
+export interface ScheduledTaskRange {
+  start?: Date // only tasks overlapping [start, end)
+  end?: Date
+}
+
+export type ScheduledTaskTransition = 'in_progress' | 'completed' | 'failed' | 'cancelled'
+
+// The action logged when a scheduled task moves into each status, and the timestamp set with it
+const TRANSITIONS: Record<ScheduledTaskTransition, {
+  action_type: InternalAction['action_type']
+  stamp?: 'completed_at' | 'failed_at' | 'cancelled_at'
+}> = {
+  in_progress: { action_type: 'task_started' },
+  completed: { action_type: 'task_completed', stamp: 'completed_at' },
+  failed: { action_type: 'task_skipped', stamp: 'failed_at' },
+  cancelled: { action_type: 'task_cancelled', stamp: 'cancelled_at' },
+}
+
+function overlaps(task: ScheduledTask, startMs?: number, endMs?: number): boolean {
+  const taskStartMs = new Date(task.start_time).getTime()
+  const taskEndMs = new Date(task.end_time).getTime()
+  if (endMs !== undefined && taskStartMs >= endMs) return false
+  if (startMs !== undefined && taskEndMs <= startMs) return false
+  return true
+}
+
+/**
+ * Reads and writes tasks as the domain model, whichever store holds them:
+ * solver-scheduled tasks live in InternalDB, tasks created on the device in the offline store
+ * until they are pushed. Callers never see the storage shapes.
+ */
+export class TaskRepository {
+  constructor(
+    private readonly db: InternalDB,
+    // A fresh handle per call, so the offline store always follows the signed-in user
+    private readonly offlineStore: () => OfflineDatabase = () => new OfflineDatabase()
+  ) {}
+
+  // Scheduled tasks overlapping the range, by start time
+  async getScheduledTasks(range: ScheduledTaskRange = {}): Promise<ScheduledTask[]> {
+    const startMs = range.start?.getTime()
+    const endMs = range.end?.getTime()
+    const stored = range.start && range.end
+      ? await this.db.getTasksInRange(range.start, range.end)
+      : await this.db.getAllTasks()
+
+    return stored
+      .map(fromInternalTask)
+      .filter(task => overlaps(task, startMs, endMs))
+      .sort((a, b) => new Date(a.start_time).getTime() - new Date(b.start_time).getTime())
+  }
+
+  async getScheduledTask(id: string): Promise<ScheduledTask | null> {
+    const stored = await this.db.getTaskById(id)
+    return stored ? fromInternalTask(stored) : null
+  }
+
+  /**
+   * Move a scheduled task to a new status and log the action the server is told about, in one write.
+   * `updates` holds anything that changes along with the status, e.g. the actual start of a task started early
+   */
+  async setScheduledTaskStatus(
+    task: ScheduledTask,
+    status: ScheduledTaskTransition,
+    details: string,
+    updates: Partial<Pick<ScheduledTask, 'start_time' | 'end_time' | 'duration'>> = {}
+  ): Promise<void> {
+    const { action_type, stamp } = TRANSITIONS[status]
+    const at = new Date().toISOString()
+    await this.db.transaction(tx => {
+      tx.updateTask(task.id, { ...updates, status, ...(stamp ? { [stamp]: at } : {}) })
+      tx.addAction({ action_type, task_id: task.id, task_name: task.name, details })
+    })
+  }
+
+  // Change events for scheduled tasks; event payloads are still the stored shape
+  // @returns Cleanup function to unsubscribe
+  subscribe(listener: InternalDBChangeListener): () => void {
+    return this.db.subscribe(listener)
+  }
+
+  // Tasks created on this device (and pulled from the task table), soft-deleted ones left out by default
+  async getLocalTasks({ includeDeleted = false }: { includeDeleted?: boolean } = {}): Promise<Task[]> {
+    const tasks = (await this.offlineStore().getTasks()).map(fromOfflineTask)
+    return includeDeleted ? tasks : tasks.filter(task => !task.deleted_at)
+  }
+
+  async getLocalTask(id: string): Promise<Task | null> {
+    const stored = await this.offlineStore().getTask(id)
+    return stored ? fromOfflineTask(stored) : null
+  }
+
+  async saveLocalTask(task: Task): Promise<void> {
+    await this.offlineStore().upsertTask(toOfflineTask(task))
+  }
+
+  // Soft delete, so the deletion can be pushed
+  async deleteLocalTask(id: string): Promise<void> {
+    await this.offlineStore().deleteTask(id)
+  }
+}
+
+// Export singleton instance
+export const taskRepository = new TaskRepository(internalDB)
@@ -0,0 +1,61 @@
+import { IntervalScale, SOLVER_INTERVALS, convertInterval, dateToInterval, intervalToDate, intervalToISO } from '../intervals'
+
+const newYorkQuarterHours: IntervalScale = {
+  epoch: '2024-03-10T00:00:00',
+  granularityMinutes: 15,
+  timeZone: 'America/New_York',
+}
+
+describe('interval conversion', () => {
+  test('solver intervals are 5 minutes from the 2020 UTC epoch', () => {
+    expect(intervalToISO(0)).toBe('2020-01-01T00:00:00.000Z')
+    expect(intervalToISO(12)).toBe('2020-01-01T01:00:00.000Z')
+    expect(dateToInterval('2020-01-01T01:00:00.000Z')).toBe(12)
+  })
+
+  test('solver intervals are fixed length through a DST change', () => {
+    const before = dateToInterval('2024-03-10T06:55:00Z')
+    const after = dateToInterval('2024-03-10T07:00:00Z') // New York's clocks jump at this instant
+
+    expect(after - before).toBe(1)
+    expect(intervalToDate(after).toISOString()).toBe('2024-03-10T07:00:00.000Z')
+  })
+
+  test('times between boundaries round as asked', () => {
+    const date = '2020-01-01T00:07:00.000Z'
+
+    expect(dateToInterval(date, SOLVER_INTERVALS)).toBe(1)
+    expect(dateToInterval(date, SOLVER_INTERVALS, 'ceil')).toBe(2)
+    expect(dateToInterval(date, SOLVER_INTERVALS, 'round')).toBe(1)
+  })
+
+  test('zoned intervals follow the clock: the skipped spring hour has none', () => {
+    // 01:45 EST is interval 7, 03:00 EDT is interval 12: 02:00-02:45 never happen
+    expect(intervalToISO(7, newYorkQuarterHours)).toBe('2024-03-10T06:45:00.000Z')
+    expect(intervalToISO(12, newYorkQuarterHours)).toBe('2024-03-10T07:00:00.000Z')
+    expect(dateToInterval('2024-03-10T06:45:00Z', newYorkQuarterHours)).toBe(7)
+    expect(dateToInterval('2024-03-10T07:00:00Z', newYorkQuarterHours)).toBe(12)
+    // An interval inside the gap still resolves, after the jump
+    expect(intervalToISO(10, newYorkQuarterHours)).toBe('2024-03-10T07:30:00.000Z')
+  })
+
+  test('zoned intervals in the repeated autumn hour map to its first occurrence', () => {
+    const autumn: IntervalScale = { ...newYorkQuarterHours, epoch: '2024-11-03T00:00:00' }
+
+    expect(intervalToISO(6, autumn)).toBe('2024-11-03T05:30:00.000Z') // 01:30 EDT
+    expect(dateToInterval('2024-11-03T05:30:00Z', autumn)).toBe(6)
+    expect(dateToInterval('2024-11-03T06:30:00Z', autumn)).toBe(6) // 01:30 EST, same clock time
+  })
+
+  test('converting between scales keeps the instant', () => {
+    const solverInterval = dateToInterval('2024-03-10T07:00:00Z')
+
+    expect(convertInterval(solverInterval, SOLVER_INTERVALS, newYorkQuarterHours)).toBe(12)
+    expect(convertInterval(12, newYorkQuarterHours, SOLVER_INTERVALS)).toBe(solverInterval)
+  })
+
+  test('invalid scales are rejected', () => {
+    expect(() => intervalToDate(1, { ...SOLVER_INTERVALS, granularityMinutes: 0 })).toThrow('granularity')
+    expect(() => intervalToDate(1, { ...SOLVER_INTERVALS, epoch: 'soon' })).toThrow('epoch')
+  })
+})
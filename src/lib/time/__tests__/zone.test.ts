@@ -0,0 +1,77 @@
+import {
+  fromWallClock,
+  isValidTimeZone,
+  minutesIntoZonedDay,
+  moveToZonedDay,
+  startOfZonedDay,
+  zoneOffsetMinutes,
+  zonedDateKey,
+  zonedWallClock,
+} from '../zone'
+
+const NEW_YORK = 'America/New_York'
+const LONDON = 'Europe/London'
+const TOKYO = 'Asia/Tokyo'
+
+describe('time zones', () => {
+  test('offsets follow DST', () => {
+    expect(zoneOffsetMinutes(new Date('2024-01-15T12:00:00Z'), NEW_YORK)).toBe(-300)
+    expect(zoneOffsetMinutes(new Date('2024-07-15T12:00:00Z'), NEW_YORK)).toBe(-240)
+    expect(zoneOffsetMinutes(new Date('2024-07-15T12:00:00Z'), 'UTC')).toBe(0)
+  })
+
+  test('wall clock times round-trip outside transitions', () => {
+    const wall = { year: 2024, month: 7, day: 15, hour: 9, minute: 30, second: 0 }
+    const date = fromWallClock(wall, LONDON)
+
+    expect(date.toISOString()).toBe('2024-07-15T08:30:00.000Z')
+    expect(zonedWallClock(date, LONDON)).toEqual(wall)
+  })
+
+  test('a time skipped in spring lands after the jump', () => {
+    // 2024-03-10: New York clocks go from 02:00 EST straight to 03:00 EDT
+    const date = fromWallClock({ year: 2024, month: 3, day: 10, hour: 2, minute: 30 }, NEW_YORK)
+
+    expect(date.toISOString()).toBe('2024-03-10T07:30:00.000Z')
+    expect(zonedWallClock(date, NEW_YORK)).toMatchObject({ hour: 3, minute: 30 })
+  })
+
+  test('a time repeated in autumn resolves to its first occurrence', () => {
+    // 2024-11-03: New York clocks go from 02:00 EDT back to 01:00 EST
+    const date = fromWallClock({ year: 2024, month: 11, day: 3, hour: 1, minute: 30 }, NEW_YORK)
+
+    expect(date.toISOString()).toBe('2024-11-03T05:30:00.000Z')
+    expect(zonedWallClock(new Date('2024-11-03T06:30:00Z'), NEW_YORK)).toMatchObject({ hour: 1, minute: 30 })
+  })
+
+  test('days are placed on the clock face, not by elapsed time', () => {
+    const afterJump = new Date('2024-03-10T14:00:00Z') // 10:00 EDT, 9 hours after midnight EST
+
+    expect(startOfZonedDay(afterJump, NEW_YORK).toISOString()).toBe('2024-03-10T05:00:00.000Z')
+    expect(minutesIntoZonedDay(afterJump, NEW_YORK)).toBe(10 * 60)
+  })
+
+  test('moving a task to another day keeps its wall-clock time across DST', () => {
+    const saturday = new Date('2024-03-09T14:00:00Z') // 09:00 EST
+    const monday = new Date('2024-03-11T16:00:00Z')
+
+    const moved = moveToZonedDay(saturday, monday, NEW_YORK)
+
+    expect(moved.toISOString()).toBe('2024-03-11T13:00:00.000Z') // 09:00 EDT
+    expect(new Date(saturday.getTime() + 2 * 24 * 60 * 60 * 1000).toISOString()).not.toBe(moved.toISOString())
+  })
+
+  test('a traveller sees the same instant on their new local day and hour', () => {
+    const meeting = new Date('2024-05-01T23:30:00Z')
+
+    expect(zonedDateKey(meeting, NEW_YORK)).toBe('2024-05-01')
+    expect(minutesIntoZonedDay(meeting, NEW_YORK)).toBe(19 * 60 + 30)
+    expect(zonedDateKey(meeting, TOKYO)).toBe('2024-05-02')
+    expect(minutesIntoZonedDay(meeting, TOKYO)).toBe(8 * 60 + 30)
+  })
+
+  test('unknown zones are rejected', () => {
+    expect(isValidTimeZone(LONDON)).toBe(true)
+    expect(isValidTimeZone('Mars/Olympus_Mons')).toBe(false)
+  })
+})
@@ -0,0 +1,70 @@
+import { epochMsToWallClock, fromWallClock, wallClockToEpochMs, zonedWallClock } from './zone'
+
+const MINUTE_MS = 60 * 1000
+
+/**
+ * How a schedule counts time: interval n starts `n * granularityMinutes` wall-clock minutes after
+ * `epoch` in `timeZone`. In UTC every interval is the same length; in a zone with DST, intervals
+ * follow the clock, so the hour skipped in spring has no intervals and the repeated hour in autumn
+ * maps onto one set of them.
+ */
+export interface IntervalScale {
+  epoch: string // wall-clock time without offset, YYYY-MM-DDTHH:mm[:ss]
+  granularityMinutes: number
+  timeZone: string
+}
+
+export type IntervalRounding = 'floor' | 'ceil' | 'round'
+
+// The solver's scale: 5 minute intervals counted from 2020-01-01 UTC (same as the web app)
+export const SOLVER_INTERVALS: IntervalScale = {
+  epoch: '2020-01-01T00:00:00',
+  granularityMinutes: 5,
+  timeZone: 'UTC',
+}
+
+function epochMs(scale: IntervalScale): number {
+  const ms = Date.parse(`${scale.epoch}Z`)
+  if (Number.isNaN(ms)) {
+    throw new Error(`Invalid interval epoch: ${scale.epoch}`)
+  }
+  return ms
+}
+
+function stepMs(scale: IntervalScale): number {
+  if (!(scale.granularityMinutes > 0)) {
+    throw new Error(`Invalid interval granularity: ${scale.granularityMinutes}`)
+  }
+  return scale.granularityMinutes * MINUTE_MS
+}
+
+export function intervalToDate(interval: number, scale: IntervalScale = SOLVER_INTERVALS): Date {
+  const wall = epochMsToWallClock(epochMs(scale) + interval * stepMs(scale))
+  return fromWallClock(wall, scale.timeZone)
+}
+
+export function intervalToISO(interval: number, scale: IntervalScale = SOLVER_INTERVALS): string {
+  return intervalToDate(interval, scale).toISOString()
+}
+
+// The interval `date` falls in; times between interval boundaries are rounded as asked
+export function dateToInterval(
+  date: Date | string,
+  scale: IntervalScale = SOLVER_INTERVALS,
+  rounding: IntervalRounding = 'floor'
+): number {
+  const instant = typeof date === 'string' ? new Date(date) : date
+  const wall = zonedWallClock(instant, scale.timeZone)
+  const sinceEpoch = wallClockToEpochMs(wall) + instant.getUTCMilliseconds() - epochMs(scale)
+  return Math[rounding](sinceEpoch / stepMs(scale))
+}
+
+// Convert an interval number between scales, e.g. from the solver's to a coarser display scale
+export function convertInterval(
+  interval: number,
+  from: IntervalScale,
+  to: IntervalScale,
+  rounding: IntervalRounding = 'floor'
+): number {
+  return dateToInterval(intervalToDate(interval, from), to, rounding)
+}
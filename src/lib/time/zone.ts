@@ -0,0 +1,133 @@
+// Time zone arithmetic on top of Intl, so code can work in the user's zone instead of
+// whatever zone the JS runtime's local Date methods happen to use
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+// A calendar date and time of day as a clock on the wall of some zone shows it. month is 1-12.
+export interface WallClock {
+  year: number
+  month: number
+  day: number
+  hour: number
+  minute: number
+  second?: number
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function formatterFor(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    })
+    formatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+// The zone the device is set to: it changes when a travelling user's phone switches zones
+export function deviceTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    formatterFor(timeZone)
+    return true
+  } catch {
+    return false
+  }
+}
+
+export function zonedWallClock(date: Date, timeZone: string): WallClock {
+  const parts: Record<string, number> = {}
+  for (const part of formatterFor(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value, 10)
+  }
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour % 24,
+    minute: parts.minute,
+    second: parts.second,
+  }
+}
+
+// The wall clock read as if it were UTC; differences between these are wall-clock durations
+export function wallClockToEpochMs(wall: WallClock): number {
+  return Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute, wall.second ?? 0)
+}
+
+export function epochMsToWallClock(ms: number): WallClock {
+  const date = new Date(ms)
+  return {
+    year: date.getUTCFullYear(),
+    month: date.getUTCMonth() + 1,
+    day: date.getUTCDate(),
+    hour: date.getUTCHours(),
+    minute: date.getUTCMinutes(),
+    second: date.getUTCSeconds(),
+  }
+}
+
+// Minutes the zone is ahead of UTC at `date` (negative west of Greenwich)
+export function zoneOffsetMinutes(date: Date, timeZone: string): number {
+  const wholeSeconds = Math.floor(date.getTime() / 1000) * 1000
+  return Math.round((wallClockToEpochMs(zonedWallClock(date, timeZone)) - wholeSeconds) / MINUTE_MS)
+}
+
+/**
+ * The instant a wall clock in `timeZone` shows `wall`.
+ * A time skipped by a DST transition (02:30 when clocks jump from 02:00 to 03:00) is read with the
+ * offset before the jump, so it lands after it (03:30), as Date does for local times. A time that
+ * happens twice (01:30 when clocks fall back) resolves to the first occurrence.
+ */
+export function fromWallClock(wall: WallClock, timeZone: string): Date {
+  const asUTC = wallClockToEpochMs(wall)
+  const offsetBefore = zoneOffsetMinutes(new Date(asUTC - DAY_MS), timeZone)
+  const offsetAfter = zoneOffsetMinutes(new Date(asUTC + DAY_MS), timeZone)
+
+  const matches = Array.from(new Set([offsetBefore, offsetAfter]))
+    .map(offset => asUTC - offset * MINUTE_MS)
+    .filter(ms => wallClockToEpochMs(zonedWallClock(new Date(ms), timeZone)) === asUTC)
+  if (matches.length > 0) {
+    return new Date(Math.min(...matches))
+  }
+  return new Date(asUTC - offsetBefore * MINUTE_MS)
+}
+
+// Calendar day of `date` in the zone, as YYYY-MM-DD; equal keys mean the same day on the user's calendar
+export function zonedDateKey(date: Date, timeZone: string): string {
+  const { year, month, day } = zonedWallClock(date, timeZone)
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+export function startOfZonedDay(date: Date, timeZone: string): Date {
+  return fromWallClock({ ...zonedWallClock(date, timeZone), hour: 0, minute: 0, second: 0 }, timeZone)
+}
+
+// Position of `date` on the day's clock face, which is not the time elapsed since midnight on DST days
+export function minutesIntoZonedDay(date: Date, timeZone: string): number {
+  const { hour, minute } = zonedWallClock(date, timeZone)
+  return hour * 60 + minute
+}
+
+/**
+ * The same wall-clock time as `date`, on the calendar day `day` falls on.
+ * Unlike adding a whole number of 24 hour days, a 09:00 stays 09:00 across a DST change.
+ */
+export function moveToZonedDay(date: Date, day: Date, timeZone: string): Date {
+  const time = zonedWallClock(date, timeZone)
+  const { year, month, day: dayOfMonth } = zonedWallClock(day, timeZone)
+  return fromWallClock({ ...time, year, month, day: dayOfMonth }, timeZone)
+}
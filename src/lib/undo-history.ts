@@ -0,0 +1,312 @@
+import { safeStorage } from './storage'
+import { DataCipher, dataCipherFor } from './encryption'
+import { internalDB, InternalDB, InternalDBTransaction, InternalTask, TaskChange, TombstoneChange } from './internal-db'
+
+const HISTORY_STORAGE_KEY = '@skedai_undo_history'
+const MAX_HISTORY_ENTRIES = 20
+
+// One undoable step: the tasks it touched, as they were before and after
+export interface UndoEntry {
+  id: string
+  label: string // shown to the user, e.g. "Deleted 12 tasks"
+  created_at: string // ISO string
+  changes: TaskChange[]
+  // Deleted-task markers it added or removed, so undoing a clear doesn't let sync bring deleted tasks back
+  tombstones?: TombstoneChange[]
+}
+
+export type UndoHistoryEvent =
+  | { type: 'recorded'; entry: UndoEntry }
+  | { type: 'undone'; entry: UndoEntry }
+  | { type: 'redone'; entry: UndoEntry }
+
+export type UndoHistoryListener = (event: UndoHistoryEvent) => void
+
+interface StoredHistory {
+  undo: UndoEntry[]
+  redo: UndoEntry[]
+}
+
+/**
+ * Undo/redo for task mutations, layered on InternalDB.
+ * Each recorded step keeps before/after snapshots of the tasks (and tombstones) it changed, so undo is
+ * "restore the before snapshot" and redo is "restore the after snapshot".
+ * The history is bounded and persisted (encrypted, since snapshots hold task names), so it survives app restarts.
+ * Like InternalDB it is kept per namespace (signed-in user), under `<storageKey>:<namespace>`.
+ */
+export class UndoHistory {
+  private undoStack: UndoEntry[] = []
+  private redoStack: UndoEntry[] = []
+  private loaded: Promise<void> | null = null
+  private listeners: Set<UndoHistoryListener> = new Set()
+  private namespace: string | null = null
+
+  constructor(
+    private readonly db: InternalDB,
+    private readonly storageKey: string = HISTORY_STORAGE_KEY,
+    private readonly maxEntries: number = MAX_HISTORY_ENTRIES
+  ) {}
+
+  // Subscribe to recorded/undone/redone events
+  // @returns Cleanup function to unsubscribe
+  subscribe(listener: UndoHistoryListener): () => void {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  private emit(event: UndoHistoryEvent): void {
+    for (const listener of Array.from(this.listeners)) {
+      try {
+        listener(event)
+      } catch (error) {
+        console.error('❌ Undo history listener failed:', error)
+      }
+    }
+  }
+
+  private get scopedStorageKey(): string {
+    return this.namespace ? `${this.storageKey}:${this.namespace}` : this.storageKey
+  }
+
+  private get cipher(): DataCipher {
+    return dataCipherFor('undo_history', this.namespace)
+  }
+
+  private ensureLoaded(): Promise<void> {
+    if (!this.loaded) {
+      this.loaded = this.load()
+    }
+    return this.loaded
+  }
+
+  private async load(): Promise<void> {
+    const { namespace, cipher } = this
+    const stored = await safeStorage.getItem(this.scopedStorageKey)
+    if (!stored) return
+
+    try {
+      const parsed: Partial<StoredHistory> = await cipher.decryptJSON(stored)
+      // Switched namespace while loading; the new namespace loads its own history
+      if (namespace !== this.namespace) return
+      this.undoStack = Array.isArray(parsed.undo) ? parsed.undo : []
+      this.redoStack = Array.isArray(parsed.redo) ? parsed.redo : []
+    } catch (error) {
+      console.error('❌ Could not parse undo history, starting empty:', error)
+    }
+  }
+
+  private async persist(): Promise<void> {
+    const history: StoredHistory = { undo: this.undoStack, redo: this.redoStack }
+    await safeStorage.setItem(this.scopedStorageKey, await this.cipher.encryptJSON(history))
+  }
+
+  /**
+   * Run `work` in an InternalDB transaction and record it as one undoable step.
+   * Only task records are reverted by undo; actions logged alongside stay in the history.
+   */
+  async record<T>(label: string, work: (tx: InternalDBTransaction) => T | Promise<T>): Promise<T> {
+    await this.ensureLoaded()
+    const namespace = this.namespace
+
+    let changes: TaskChange[] = []
+    let tombstones: TombstoneChange[] = []
+    const result = await this.db.transaction(async tx => {
+      const value = await work(tx)
+      changes = tx.getTaskChanges()
+      tombstones = tx.getTombstoneChanges()
+      return value
+    })
+    if ((changes.length === 0 && tombstones.length === 0) || namespace !== this.namespace) return result
+
+    const entry: UndoEntry = {
+      id: `undo_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      label,
+      created_at: new Date().toISOString(),
+      changes,
+      ...(tombstones.length > 0 ? { tombstones } : {}),
+    }
+    this.undoStack = [...this.undoStack, entry].slice(-this.maxEntries)
+    this.redoStack = []
+    await this.persist()
+
+    this.emit({ type: 'recorded', entry })
+    return result
+  }
+
+  async updateTask(id: string, updates: Partial<Omit<InternalTask, 'id' | 'created_at'>>, label: string = 'Task updated'): Promise<InternalTask | null> {
+    return this.record(label, tx => tx.updateTask(id, updates))
+  }
+
+  async updateMultipleTasks(
+    updates: Array<{ id: string; updates: Partial<Omit<InternalTask, 'id' | 'created_at'>> }>,
+    label: string = `Updated ${updates.length} tasks`
+  ): Promise<InternalTask[]> {
+    return this.record(label, tx =>
+      updates
+        .map(({ id, updates: taskUpdates }) => tx.updateTask(id, taskUpdates))
+        .filter((task): task is InternalTask => task !== null)
+    )
+  }
+
+  async deleteTask(id: string, label: string = 'Task deleted'): Promise<boolean> {
+    return this.record(label, tx => tx.deleteTask(id))
+  }
+
+  async deleteMultipleTasks(taskIds: string[], label: string = `Deleted ${taskIds.length} tasks`): Promise<number> {
+    return this.record(label, tx => Array.from(new Set(taskIds)).filter(taskId => tx.deleteTask(taskId)).length)
+  }
+
+  async clearAllTasks(label: string = 'All tasks deleted'): Promise<void> {
+    await this.record(label, tx => tx.clearAllTasks())
+  }
+
+  async canUndo(): Promise<boolean> {
+    await this.ensureLoaded()
+    return this.undoStack.length > 0
+  }
+
+  async canRedo(): Promise<boolean> {
+    await this.ensureLoaded()
+    return this.redoStack.length > 0
+  }
+
+  async getHistory(): Promise<UndoEntry[]> {
+    await this.ensureLoaded()
+    return [...this.undoStack]
+  }
+
+  // Revert the most recent step
+  // @returns The reverted entry, or null if there was nothing to undo
+  async undo(): Promise<UndoEntry | null> {
+    await this.ensureLoaded()
+    const entry = this.undoStack[this.undoStack.length - 1]
+    if (!entry) return null
+
+    const namespace = this.namespace
+    await this.restore(entry, 'before')
+    if (namespace !== this.namespace) return null
+    this.undoStack = this.undoStack.slice(0, -1)
+    this.redoStack = [...this.redoStack, entry].slice(-this.maxEntries)
+    await this.persist()
+
+    console.log('↩️ Undid:', entry.label)
+    this.emit({ type: 'undone', entry })
+    return entry
+  }
+
+  // Re-apply the most recently undone step
+  // @returns The re-applied entry, or null if there was nothing to redo
+  async redo(): Promise<UndoEntry | null> {
+    await this.ensureLoaded()
+    const entry = this.redoStack[this.redoStack.length - 1]
+    if (!entry) return null
+
+    const namespace = this.namespace
+    await this.restore(entry, 'after')
+    if (namespace !== this.namespace) return null
+    this.redoStack = this.redoStack.slice(0, -1)
+    this.undoStack = [...this.undoStack, entry].slice(-this.maxEntries)
+    await this.persist()
+
+    console.log('↪️ Redid:', entry.label)
+    this.emit({ type: 'redone', entry })
+    return entry
+  }
+
+  async clear(): Promise<void> {
+    await this.ensureLoaded()
+    this.undoStack = []
+    this.redoStack = []
+    await safeStorage.removeItem(this.scopedStorageKey)
+    await this.cipher.replaceKey()
+  }
+
+  // Switch to a fresh encryption key and rewrite the stored history under it
+  async rekey(): Promise<void> {
+    await this.ensureLoaded()
+    const { cipher } = this
+    await cipher.rotateKey()
+    await this.persist()
+    await cipher.forgetRetiredKeys()
+  }
+
+  /**
+   * Use another namespace's history. With adoptUnscoped, history stored before per-user
+   * stores existed is moved into it, following the tasks InternalDB adopts.
+   */
+  async switchNamespace(namespace: string | null, options: { adoptUnscoped?: boolean } = {}): Promise<void> {
+    if (namespace === this.namespace && !options.adoptUnscoped) return
+
+    this.namespace = namespace
+    this.undoStack = []
+    this.redoStack = []
+    this.loaded = null
+
+    if (options.adoptUnscoped && namespace !== null) {
+      const unscopedCipher = dataCipherFor('undo_history', null)
+      const stored = await safeStorage.getItem(this.storageKey)
+      if (stored && !(await safeStorage.getItem(this.scopedStorageKey))) {
+        try {
+          const history: StoredHistory = await unscopedCipher.decryptJSON(stored)
+          await safeStorage.setItem(this.scopedStorageKey, await this.cipher.encryptJSON(history))
+        } catch (error) {
+          console.error('❌ Could not move unscoped undo history, dropping it:', error)
+        }
+      }
+      await safeStorage.removeItem(this.storageKey)
+      await unscopedCipher.destroyKey()
+    }
+  }
+
+  // Delete a namespace's stored history and its key
+  async purgeNamespace(namespace: string): Promise<void> {
+    if (namespace === this.namespace) {
+      await this.switchNamespace(null)
+    }
+    await safeStorage.removeItem(`${this.storageKey}:${namespace}`)
+    await dataCipherFor('undo_history', namespace).destroyKey()
+  }
+
+  // Tasks modified since the step was recorded (e.g. by a sync) are left alone rather than clobbered
+  private async restore(entry: UndoEntry, side: 'before' | 'after'): Promise<void> {
+    const expected = side === 'before' ? 'after' : 'before'
+
+    const skipped = await this.db.transaction(tx => {
+      let skippedCount = 0
+      for (const change of [...entry.changes].reverse()) {
+        const current = tx.getTaskById(change.id)
+        if (current?.updated_at !== change[expected]?.updated_at) {
+          skippedCount++
+          continue
+        }
+
+        const target = change[side]
+        if (target) {
+          tx.restoreTask(target)
+        } else {
+          tx.deleteTask(change.id)
+        }
+      }
+
+      // After the tasks, since restoring a task drops its tombstone; a task that exists again keeps none
+      for (const change of [...(entry.tombstones ?? [])].reverse()) {
+        const target = change[side]
+        if (target && !tx.getTaskById(change.task_id)) {
+          tx.restoreTombstone(target)
+        } else if (!target) {
+          tx.removeTombstone(change.task_id)
+        }
+      }
+      return skippedCount
+    })
+
+    if (skipped > 0) {
+      console.warn(`⚠️ Skipped ${skipped} task(s) changed since "${entry.label}"`)
+    }
+  }
+}
+
+// Export singleton instance
+export const undoHistory = new UndoHistory(internalDB)
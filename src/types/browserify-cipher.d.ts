@@ -0,0 +1,7 @@
+// Pure-JS implementation of Node's cipher API, used on platforms without node:crypto
+declare module 'browserify-cipher' {
+  import type { CipherGCM, DecipherGCM } from 'crypto'
+
+  export function createCipheriv(algorithm: 'aes-256-gcm', key: Uint8Array, iv: Uint8Array): CipherGCM
+  export function createDecipheriv(algorithm: 'aes-256-gcm', key: Uint8Array, iv: Uint8Array): DecipherGCM
+}
@@ -0,0 +1,5 @@
+-- Offline edits are pushed as ops (src/lib/offline/op-queue.ts). Each write records the id of the op
+-- that made it, and updates and deletes only apply to rows that don't hold that id yet, so an op
+-- retried after its first attempt reached the server is not applied a second time.
+alter table public.task
+  add column if not exists last_op_id text;
@@ -0,0 +1,35 @@
+-- Task actions (started, completed, skipped, cancelled, ...) pushed from the app's action outbox
+-- (src/lib/sync/ActionPushService.ts), so the solver knows which work is done or abandoned.
+-- The app upserts with on_conflict=action_id and ignoreDuplicates, which needs action_id to be unique:
+-- an action resent after a lost response is dropped instead of recorded twice.
+create table if not exists public.task_action (
+  action_id text primary key, -- the action's id on the device
+  user_id uuid not null default auth.uid() references auth.users (id) on delete cascade,
+  task_id uuid not null references public.task (task_id) on delete cascade,
+  model_id uuid not null references public.model (model_id) on delete cascade,
+  action_type text not null,
+  details text,
+  occurred_at timestamptz not null,
+  received_at timestamptz not null default now()
+);
+
+create index if not exists task_action_task_idx on public.task_action (task_id, occurred_at);
+create index if not exists task_action_model_idx on public.task_action (model_id, occurred_at);
+
+alter table public.task_action enable row level security;
+
+create policy "Users insert their own task actions" on public.task_action
+  for insert with check (user_id = auth.uid());
+
+create policy "Users read their own task actions" on public.task_action
+  for select using (user_id = auth.uid());
+
+-- After a skip the app asks the solver to re-solve through refresh_models(), the solver's existing
+-- entry point, called with no arguments. It isn't defined here; fail now rather than on every push.
+do $$
+begin
+  if to_regprocedure('public.refresh_models()') is null then
+    raise exception 'public.refresh_models() not found: the app calls it to re-solve after a skipped task';
+  end if;
+end
+$$;